@@ -0,0 +1,269 @@
+'use client'
+
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react'
+import {
+  ANNOTATION_CONSTANTS,
+  appendPoint,
+  createAnnotationId,
+  drawAnnotations,
+  drawLaserTrail,
+  eraseAt,
+  getLaserTrail,
+  getPointerPressure,
+  type Annotation,
+  type AnnotationPoint,
+  type AnnotationTool,
+  type LaserPoint
+} from '@/lib/annotations'
+
+export interface AnnotationLayerHandle {
+  // What is on screen right now, including a stroke still being drawn
+  getVisibleAnnotations: () => Annotation[]
+  getLaserTrail: () => LaserPoint[]
+}
+
+interface AnnotationLayerProps {
+  annotations: Annotation[]
+  onAnnotationsChange: (annotations: Annotation[], label: string) => void
+  // The tool in use; without one, pointer events go through to the board
+  tool: AnnotationTool | null
+  color: string
+  zoomLevel: number
+  zIndex: number
+}
+
+// Pointer events coalesced since the last frame, so fast strokes keep their detail
+function getPointerEvents(event: PointerEvent): PointerEvent[] {
+  const coalesced = typeof event.getCoalescedEvents === 'function' ? event.getCoalescedEvents() : []
+  return coalesced.length > 0 ? coalesced : [event]
+}
+
+// Drawing surface laid over the board, in board coordinates so it zooms and
+// pans with the items underneath
+const AnnotationLayer = forwardRef<AnnotationLayerHandle, AnnotationLayerProps>(function AnnotationLayer({ annotations, onAnnotationsChange, tool, color, zoomLevel, zIndex }, ref) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const annotationsRef = useRef(annotations)
+  // The stroke being drawn, and what is left while an eraser drag is under way
+  const draftRef = useRef<Annotation | null>(null)
+  const erasedRef = useRef<Annotation[] | null>(null)
+  const pointerIdRef = useRef<number | null>(null)
+  const laserRef = useRef<LaserPoint[]>([])
+  const laserFrameRef = useRef<number | null>(null)
+
+  // Sharp at the current zoom, but capped so a far zoomed-out board stays affordable
+  const scale = size.width > 0 && size.height > 0
+    ? Math.min(
+      (typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1) * Math.max(1, zoomLevel),
+      ANNOTATION_CONSTANTS.MAX_CANVAS_SIZE / Math.max(size.width, size.height)
+    )
+    : 1
+
+  const getVisibleAnnotations = useCallback(() => {
+    const committed = erasedRef.current ?? annotationsRef.current
+    return draftRef.current ? [...committed, draftRef.current] : committed
+  }, [])
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    ctx.setTransform(scale, 0, 0, scale, 0, 0)
+    drawAnnotations(ctx, getVisibleAnnotations())
+    drawLaserTrail(ctx, laserRef.current, performance.now())
+  }, [scale, getVisibleAnnotations])
+
+  const redrawRef = useRef(redraw)
+  useEffect(() => {
+    redrawRef.current = redraw
+  })
+
+  useEffect(() => {
+    annotationsRef.current = annotations
+    redraw()
+  }, [annotations, size, redraw])
+
+  // Resizing the canvas clears it, so track the board size and redraw after
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const measure = () => setSize({ width: canvas.clientWidth, height: canvas.clientHeight })
+    measure()
+    if (typeof ResizeObserver === 'undefined') return
+    const observer = new ResizeObserver(measure)
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  // Switching tools drops a stroke that was cut short
+  useEffect(() => {
+    draftRef.current = null
+    erasedRef.current = null
+    pointerIdRef.current = null
+    redrawRef.current()
+  }, [tool])
+
+  useEffect(() => () => {
+    if (laserFrameRef.current !== null) cancelAnimationFrame(laserFrameRef.current)
+  }, [])
+
+  // Keep redrawing until the whole trail has faded
+  const animateLaser = () => {
+    if (laserFrameRef.current !== null) return
+    const tick = () => {
+      laserRef.current = getLaserTrail(laserRef.current, performance.now())
+      redrawRef.current()
+      laserFrameRef.current = laserRef.current.length > 0 ? requestAnimationFrame(tick) : null
+    }
+    laserFrameRef.current = requestAnimationFrame(tick)
+  }
+
+  const toBoardPoint = (event: PointerEvent): AnnotationPoint => {
+    const canvas = canvasRef.current!
+    const rect = canvas.getBoundingClientRect()
+    // The rendered size includes the board's zoom, the client size does not
+    const ratio = rect.width > 0 ? canvas.clientWidth / rect.width : 1
+    return {
+      x: (event.clientX - rect.left) * ratio,
+      y: (event.clientY - rect.top) * ratio,
+      pressure: getPointerPressure(event.pointerType, event.pressure)
+    }
+  }
+
+  // Erase under a constant on-screen radius, whatever the zoom
+  const eraserRadius = ANNOTATION_CONSTANTS.ERASER_RADIUS / zoomLevel
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!tool || e.button !== 0) return
+    e.preventDefault()
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    pointerIdRef.current = e.pointerId
+    const point = toBoardPoint(e.nativeEvent)
+
+    if (tool === 'laser') {
+      laserRef.current = [...laserRef.current, { x: point.x, y: point.y, time: performance.now() }]
+      animateLaser()
+      return
+    }
+    if (tool === 'eraser') {
+      erasedRef.current = eraseAt(annotationsRef.current, point, eraserRadius)
+    } else {
+      const isFreehand = tool === 'pen' || tool === 'highlighter'
+      draftRef.current = {
+        id: createAnnotationId(),
+        shape: tool,
+        color,
+        // Same on-screen width at any zoom
+        width: ANNOTATION_CONSTANTS.STROKE_WIDTHS[tool] / zoomLevel,
+        points: isFreehand ? [point] : [point, point]
+      }
+    }
+    redraw()
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!tool) return
+
+    // The laser follows the pointer whether or not a button is down
+    if (tool === 'laser') {
+      const time = performance.now()
+      const points = getPointerEvents(e.nativeEvent).map(event => {
+        const { x, y } = toBoardPoint(event)
+        return { x, y, time }
+      })
+      laserRef.current = [...laserRef.current, ...points]
+      animateLaser()
+      return
+    }
+    if (pointerIdRef.current !== e.pointerId) return
+
+    const draft = draftRef.current
+    if (tool === 'eraser' && erasedRef.current) {
+      for (const event of getPointerEvents(e.nativeEvent)) {
+        erasedRef.current = eraseAt(erasedRef.current, toBoardPoint(event), eraserRadius)
+      }
+    } else if (draft && (draft.shape === 'pen' || draft.shape === 'highlighter')) {
+      let points = draft.points
+      for (const event of getPointerEvents(e.nativeEvent)) {
+        points = appendPoint(points, toBoardPoint(event))
+      }
+      draftRef.current = { ...draft, points }
+    } else if (draft) {
+      draftRef.current = { ...draft, points: [draft.points[0], toBoardPoint(e.nativeEvent)] }
+    }
+    redraw()
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (pointerIdRef.current !== e.pointerId) return
+    pointerIdRef.current = null
+    const draft = draftRef.current
+    const erased = erasedRef.current
+    draftRef.current = null
+    erasedRef.current = null
+
+    let next: Annotation[] | null = null
+    let label = ''
+    if (draft) {
+      const [first] = draft.points
+      const last = draft.points[draft.points.length - 1]
+      // A click with the arrow or rectangle tool draws nothing
+      const isEmptyShape = (draft.shape === 'arrow' || draft.shape === 'rectangle') &&
+        Math.hypot(last.x - first.x, last.y - first.y) < ANNOTATION_CONSTANTS.MIN_POINT_DISTANCE
+      if (!isEmptyShape) {
+        next = [...annotationsRef.current, draft]
+        label = 'Draw annotation'
+      }
+    } else if (erased && erased.length !== annotationsRef.current.length) {
+      next = erased
+      label = 'Erase annotation'
+    }
+
+    if (next) {
+      // Show the result right away rather than after the parent re-renders
+      annotationsRef.current = next
+      onAnnotationsChange(next, label)
+    }
+    redraw()
+  }
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (pointerIdRef.current !== e.pointerId) return
+    pointerIdRef.current = null
+    draftRef.current = null
+    erasedRef.current = null
+    redraw()
+  }
+
+  useImperativeHandle(ref, () => ({
+    getVisibleAnnotations,
+    getLaserTrail: () => getLaserTrail(laserRef.current, performance.now())
+  }), [getVisibleAnnotations])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.max(1, Math.round(size.width * scale))}
+      height={Math.max(1, Math.round(size.height * scale))}
+      className="absolute inset-0 w-full h-full"
+      style={{
+        zIndex,
+        pointerEvents: tool ? 'auto' : 'none',
+        touchAction: 'none',
+        cursor: tool ? 'crosshair' : undefined
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      // Keep the board from starting a marquee or pan underneath
+      onMouseDown={(e) => { if (tool) e.stopPropagation() }}
+    />
+  )
+})
+
+export default AnnotationLayer
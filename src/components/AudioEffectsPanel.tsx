@@ -0,0 +1,218 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { ChevronDown, ChevronRight, Wand2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import { useTranslation } from '@/lib/useTranslation'
+import {
+  AUDIO_CONSTANTS,
+  EFFECTS_PRESETS,
+  EFFECTS_PRESET_IDS,
+  findMatchingPreset,
+  type EffectsPresetId,
+  type EffectsSettings
+} from '@/lib/audio'
+
+interface AudioEffectsPanelProps {
+  settings: EffectsSettings
+  onChange: (settings: EffectsSettings) => void
+}
+
+type Stage = keyof EffectsSettings
+
+interface ParamSliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+  onChange: (value: number) => void
+}
+
+function ParamSlider({ label, value, min, max, step, format, onChange }: ParamSliderProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-[10px] text-muted-foreground w-14">{label}</span>
+      <Slider value={[value]} onValueChange={([next]) => onChange(next)} min={min} max={max} step={step} className="flex-1" />
+      <span className="text-[10px] font-mono w-14 text-right">{format(value)}</span>
+    </div>
+  )
+}
+
+const formatDb = (db: number) => `${db > 0 ? '+' : ''}${db.toFixed(0)} dB`
+
+export default function AudioEffectsPanel({ settings, onChange }: AudioEffectsPanelProps) {
+  const { t, mounted } = useTranslation()
+  const [isCustomizing, setIsCustomizing] = useState(false)
+  const activePreset = findMatchingPreset(settings)
+
+  const presetLabels: Record<EffectsPresetId, { name: string, description: string }> = {
+    off: {
+      name: mounted ? t.effectsOff : 'Off',
+      description: mounted ? t.effectsOffDescription : EFFECTS_PRESETS.off.description
+    },
+    'voice-over': {
+      name: mounted ? t.effectsVoiceOver : 'Voice-over',
+      description: mounted ? t.effectsVoiceOverDescription : EFFECTS_PRESETS['voice-over'].description
+    },
+    podcast: {
+      name: mounted ? t.effectsPodcast : 'Podcast',
+      description: mounted ? t.effectsPodcastDescription : EFFECTS_PRESETS.podcast.description
+    }
+  }
+
+  const updateStage = <S extends Stage>(stage: S, changes: Partial<EffectsSettings[S]>) => {
+    onChange({ ...settings, [stage]: { ...settings[stage], ...changes } })
+  }
+
+  const stageRow = (stage: Stage, label: string, params: ReactNode) => (
+    <div className="space-y-1 p-2 rounded-lg border">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">{label}</span>
+        <Switch
+          checked={settings[stage].enabled}
+          onCheckedChange={enabled => updateStage(stage, { enabled })}
+          aria-label={label}
+        />
+      </div>
+      {settings[stage].enabled && params}
+    </div>
+  )
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground flex items-center gap-1">
+        <Wand2 className="h-3 w-3" />
+        {mounted ? t.voiceProcessing : 'Voice Processing'}
+      </Label>
+
+      <div className="grid grid-cols-3 gap-2">
+        {EFFECTS_PRESET_IDS.map(id => (
+          <Button
+            key={id}
+            variant={activePreset === id ? 'default' : 'outline'}
+            size="sm"
+            className="text-xs"
+            onClick={() => onChange(structuredClone(EFFECTS_PRESETS[id].settings))}
+            title={presetLabels[id].description}
+          >
+            {presetLabels[id].name}
+          </Button>
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {activePreset ? presetLabels[activePreset].description : (mounted ? t.effectsCustom : 'Custom')}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-1 text-xs"
+        onClick={() => setIsCustomizing(!isCustomizing)}
+      >
+        {isCustomizing ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+        {mounted ? t.customizeEffects : 'Customize'}
+      </Button>
+
+      {isCustomizing && (
+        <div className="space-y-2">
+          {stageRow('highPass', mounted ? t.highPassFilter : 'High-pass', (
+            <ParamSlider
+              label="Hz"
+              value={settings.highPass.frequency}
+              min={40}
+              max={300}
+              step={5}
+              format={value => `${value} Hz`}
+              onChange={frequency => updateStage('highPass', { frequency })}
+            />
+          ))}
+
+          {stageRow('gate', mounted ? t.noiseGate : 'Noise gate', (
+            <ParamSlider
+              label={mounted ? t.threshold : 'Threshold'}
+              value={settings.gate.thresholdDb}
+              min={-80}
+              max={-20}
+              step={1}
+              format={formatDb}
+              onChange={thresholdDb => updateStage('gate', { thresholdDb })}
+            />
+          ))}
+
+          {stageRow('eq', mounted ? t.equalizer : 'EQ', (
+            <>
+              {([
+                ['lowGainDb', mounted ? t.eqLow : 'Low'],
+                ['midGainDb', mounted ? t.eqMid : 'Mid'],
+                ['highGainDb', mounted ? t.eqHigh : 'High']
+              ] as const).map(([band, label]) => (
+                <ParamSlider
+                  key={band}
+                  label={label}
+                  value={settings.eq[band]}
+                  min={-AUDIO_CONSTANTS.MAX_EQ_GAIN_DB}
+                  max={AUDIO_CONSTANTS.MAX_EQ_GAIN_DB}
+                  step={0.5}
+                  format={formatDb}
+                  onChange={gain => updateStage('eq', { [band]: gain })}
+                />
+              ))}
+            </>
+          ))}
+
+          {stageRow('compressor', mounted ? t.compressor : 'Compressor', (
+            <>
+              <ParamSlider
+                label={mounted ? t.threshold : 'Threshold'}
+                value={settings.compressor.thresholdDb}
+                min={-50}
+                max={0}
+                step={1}
+                format={formatDb}
+                onChange={thresholdDb => updateStage('compressor', { thresholdDb })}
+              />
+              <ParamSlider
+                label={mounted ? t.ratio : 'Ratio'}
+                value={settings.compressor.ratio}
+                min={1}
+                max={20}
+                step={0.5}
+                format={value => `${value}:1`}
+                onChange={ratio => updateStage('compressor', { ratio })}
+              />
+            </>
+          ))}
+
+          {stageRow('loudness', mounted ? t.loudnessNormalization : 'Loudness', (
+            <ParamSlider
+              label={mounted ? t.target : 'Target'}
+              value={settings.loudness.targetDb}
+              min={-30}
+              max={-10}
+              step={1}
+              format={value => `${value} LUFS`}
+              onChange={targetDb => updateStage('loudness', { targetDb })}
+            />
+          ))}
+
+          {stageRow('limiter', mounted ? t.limiter : 'Limiter', (
+            <ParamSlider
+              label={mounted ? t.ceiling : 'Ceiling'}
+              value={settings.limiter.ceilingDb}
+              min={-12}
+              max={0}
+              step={0.5}
+              format={formatDb}
+              onChange={ceilingDb => updateStage('limiter', { ceilingDb })}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { useTranslation } from '@/lib/useTranslation'
+import {
+  MIXER_CHANNEL_IDS,
+  getEffectiveGain,
+  isAnySoloed,
+  useAudioLevels,
+  type AudioMixer,
+  type MixerSettings
+} from '@/lib/audio'
+
+interface AudioLevelWarningsProps {
+  mixer: AudioMixer | null
+  settings: MixerSettings
+}
+
+// Problems that would ruin the take, shown next to the recording controls
+export default function AudioLevelWarnings({ mixer, settings }: AudioLevelWarningsProps) {
+  const { t, mounted } = useTranslation()
+  const meters = useAudioLevels(mixer)
+  const microphone = meters.microphone
+
+  const warnings: string[] = []
+  if (microphone.active && getEffectiveGain(settings.microphone, isAnySoloed(settings)) === 0) {
+    warnings.push(mounted ? t.micMutedWarning : 'Microphone is muted. Your voice is not being recorded.')
+  } else if (microphone.active && microphone.status.silent) {
+    warnings.push(mounted ? t.micSilentWarning : 'No sound from the microphone for a few seconds')
+  }
+  if (MIXER_CHANNEL_IDS.some(id => meters[id].status.clipping)) {
+    warnings.push(mounted ? t.clippingWarning : 'Audio is clipping. Lower the gain.')
+  }
+
+  if (warnings.length === 0) return null
+
+  return (
+    <div role="alert" className="space-y-1">
+      {warnings.map(warning => (
+        <div
+          key={warning}
+          className="flex items-center gap-1 text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 px-2 py-1 rounded border border-red-200 dark:border-red-800"
+        >
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          {warning}
+        </div>
+      ))}
+    </div>
+  )
+}
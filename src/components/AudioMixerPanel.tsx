@@ -0,0 +1,205 @@
+'use client'
+
+import { useState } from 'react'
+import { Mic, SlidersHorizontal } from 'lucide-react'
+import clsx from 'clsx'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { useTranslation } from '@/lib/useTranslation'
+import {
+  AUDIO_CONSTANTS,
+  MIXER_CHANNEL_IDS,
+  gainToDecibels,
+  getEffectiveGain,
+  isAnySoloed,
+  levelToMeterPosition,
+  runMicCheck,
+  useAudioLevels,
+  type AudioMixer,
+  type ChannelMeter,
+  type MicCheckResult,
+  type MixerChannelId,
+  type MixerChannelSettings,
+  type MixerSettings
+} from '@/lib/audio'
+
+interface AudioMixerPanelProps {
+  settings: MixerSettings
+  onChange: (settings: MixerSettings) => void
+  mixer?: AudioMixer | null
+  isRecording?: boolean
+}
+
+const formatGain = (gain: number) => {
+  const db = gainToDecibels(gain)
+  return Number.isFinite(db) ? `${db > 0 ? '+' : ''}${db.toFixed(1)} dB` : '-∞ dB'
+}
+
+const formatPan = (pan: number) => {
+  if (Math.abs(pan) < 0.01) return 'C'
+  return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`
+}
+
+// RMS as the bar, peak as a tick, both on a dB scale
+function LevelMeter({ meter, title }: { meter: ChannelMeter, title: string }) {
+  const { output } = meter.levels
+  const rms = levelToMeterPosition(output.rms)
+  const peak = levelToMeterPosition(output.peak)
+  return (
+    <div className="relative h-1.5 rounded-full bg-muted overflow-hidden" title={title}>
+      <div
+        className={clsx(
+          'absolute inset-y-0 left-0 transition-[width] duration-75',
+          meter.status.clipping ? 'bg-red-500' : rms > 0.85 ? 'bg-amber-500' : 'bg-emerald-500'
+        )}
+        style={{ width: `${rms * 100}%` }}
+      />
+      {peak > 0 && (
+        <div
+          className={clsx('absolute inset-y-0 w-0.5', meter.status.clipping ? 'bg-red-600' : 'bg-foreground/60')}
+          style={{ left: `calc(${peak * 100}% - 2px)` }}
+        />
+      )}
+    </div>
+  )
+}
+
+export default function AudioMixerPanel({ settings, onChange, mixer = null, isRecording = false }: AudioMixerPanelProps) {
+  const { t, mounted } = useTranslation()
+  const anySoloed = isAnySoloed(settings)
+  const meters = useAudioLevels(mixer)
+  const [isCheckingMic, setIsCheckingMic] = useState(false)
+  const [micCheckResult, setMicCheckResult] = useState<MicCheckResult | null>(null)
+  const [micCheckError, setMicCheckError] = useState(false)
+
+  const channelLabels: Record<MixerChannelId, string> = {
+    microphone: mounted ? t.microphone : 'Microphone',
+    screen: mounted ? t.screenAudio : 'Screen audio'
+  }
+
+  const updateChannel = (id: MixerChannelId, changes: Partial<MixerChannelSettings>) => {
+    onChange({ ...settings, [id]: { ...settings[id], ...changes } })
+  }
+
+  const micCheckMessages: Record<MicCheckResult['status'], string> = {
+    ok: mounted ? t.micCheckOk : 'Microphone sounds good',
+    quiet: mounted ? t.micCheckQuiet : 'Very quiet. Move closer or raise the gain.',
+    clipping: mounted ? t.micCheckClipping : 'Too loud, the sound distorts. Lower the gain.',
+    silent: mounted ? t.micCheckSilent : 'No sound from the microphone. Check the device and system mute.'
+  }
+
+  const handleMicCheck = async () => {
+    if (!mixer) return
+    setIsCheckingMic(true)
+    setMicCheckResult(null)
+    setMicCheckError(false)
+    try {
+      setMicCheckResult(await runMicCheck(mixer))
+    } catch (error) {
+      console.warn('⚠️ Microphone check failed:', error)
+      setMicCheckError(true)
+    } finally {
+      setIsCheckingMic(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs text-muted-foreground flex items-center gap-1">
+        <SlidersHorizontal className="h-3 w-3" />
+        {mounted ? t.audioMixer : 'Audio Mixer'}
+      </Label>
+
+      {MIXER_CHANNEL_IDS.map(id => {
+        const channel = settings[id]
+        const isSilenced = getEffectiveGain(channel, anySoloed) === 0
+        return (
+          <div key={id} className={clsx('space-y-2 p-2 rounded-lg border', isSilenced && 'opacity-60')}>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium">{channelLabels[id]}</span>
+              <div className="flex gap-1">
+                <Button
+                  variant={channel.muted ? 'destructive' : 'outline'}
+                  size="sm"
+                  className="h-6 w-6 p-0 text-[10px] font-bold"
+                  onClick={() => updateChannel(id, { muted: !channel.muted })}
+                  title={mounted ? t.mute : 'Mute'}
+                >
+                  M
+                </Button>
+                <Button
+                  variant={channel.solo ? 'default' : 'outline'}
+                  size="sm"
+                  className={clsx('h-6 w-6 p-0 text-[10px] font-bold', channel.solo && 'bg-amber-500 hover:bg-amber-600')}
+                  onClick={() => updateChannel(id, { solo: !channel.solo })}
+                  title={mounted ? t.solo : 'Solo'}
+                >
+                  S
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-muted-foreground w-8">{mounted ? t.gain : 'Gain'}</span>
+              <Slider
+                value={[channel.gain]}
+                onValueChange={([gain]) => updateChannel(id, { gain })}
+                min={0}
+                max={AUDIO_CONSTANTS.MAX_GAIN}
+                step={0.05}
+                className="flex-1"
+              />
+              <span className="text-[10px] font-mono w-14 text-right">{formatGain(channel.gain)}</span>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-muted-foreground w-8">{mounted ? t.pan : 'Pan'}</span>
+              <Slider
+                value={[channel.pan]}
+                onValueChange={([pan]) => updateChannel(id, { pan })}
+                onDoubleClick={() => updateChannel(id, { pan: 0 })}
+                min={-1}
+                max={1}
+                step={0.05}
+                className="flex-1"
+              />
+              <span className="text-[10px] font-mono w-14 text-right">{formatPan(channel.pan)}</span>
+            </div>
+
+            {mixer && <LevelMeter meter={meters[id]} title={mounted ? t.inputLevel : 'Input level'} />}
+
+            {/* Check the mic before a take rather than finding out after */}
+            {id === 'microphone' && mixer && !isRecording && (
+              <div className="space-y-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full h-7 text-xs"
+                  onClick={handleMicCheck}
+                  disabled={isCheckingMic}
+                >
+                  <Mic className="w-3 h-3 mr-1" />
+                  {isCheckingMic
+                    ? (mounted ? t.micCheckRunning : 'Speak normally for a few seconds…')
+                    : (mounted ? t.checkMicrophone : 'Check microphone')}
+                </Button>
+                {micCheckResult && (
+                  <p className={clsx('text-[10px]', micCheckResult.status === 'ok' ? 'text-emerald-600' : 'text-amber-600')}>
+                    {micCheckMessages[micCheckResult.status]}
+                    {Number.isFinite(micCheckResult.peakDb) && ` (${micCheckResult.peakDb.toFixed(1)} dB peak)`}
+                  </p>
+                )}
+                {micCheckError && (
+                  <p className="text-[10px] text-amber-600">
+                    {mounted ? t.micCheckUnavailable : 'No microphone to check'}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
 'use client'
 
 import { PresenterSettings, RecordingSource } from './VideoPresenter'
-import { Eye, EyeOff, Square, Circle, CornerUpRight, Settings, Maximize2, RotateCcw, Video, Download, Type, Camera, FileVideo, FileText, Hexagon, Diamond, Heart, Star, Upload, X } from 'lucide-react'
-import { useRef, useEffect } from 'react'
+import { Clapperboard, Eye, EyeOff, Square, Circle, CornerUpRight, Settings, Maximize2, RotateCcw, Video, Download, Type, Camera, FileVideo, FileText, Hexagon, Diamond, Heart, Star, Upload, X, Scissors, Pause, Play, History, Trash2, Library, ListOrdered } from 'lucide-react'
+import { useRef } from 'react'
 import { useTranslation } from '@/lib/useTranslation'
-import { type ExportFormat, type ConversionProgress, videoExporter } from '@/lib/videoConverter'
+import { type ExportFormat, type ConversionProgress, type AnimationOptions, videoExporter } from '@/lib/videoConverter'
+import { QUALITY_PROFILES, type QualityProfileId, type RecordingSessionRecord } from '@/lib/recording'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
@@ -12,6 +13,14 @@ import { Separator } from '@/components/ui/separator'
 import { Badge } from '@/components/ui/badge'
 import { Slider } from '@/components/ui/slider'
 import { BlurControlsUI } from '@/components/blur/BlurControlsUI'
+import DeviceSelector from '@/components/DeviceSelector'
+import AudioMixerPanel from '@/components/AudioMixerPanel'
+import AudioLevelWarnings from '@/components/AudioLevelWarnings'
+import AudioEffectsPanel from '@/components/AudioEffectsPanel'
+import ScenesPanel from '@/components/ScenesPanel'
+import type { AudioMixer, EffectsSettings, MixerSettings } from '@/lib/audio'
+import type { CaptureDeviceList, DeviceSelection } from '@/lib/devices'
+import type { SceneCollection, SceneTransition } from '@/lib/scenes'
 import type { BlurStatus } from '@/lib/blur/types'
 import clsx from 'clsx'
 
@@ -23,10 +32,42 @@ interface ControlsPanelProps {
   onRecordingSourceChange: (source: RecordingSource) => void
   onStartRecording: () => void
   onStopRecording: () => void
+  isRecordingPaused?: boolean
+  onPauseRecording?: () => void
+  onResumeRecording?: () => void
+  recoveredRecordings?: RecordingSessionRecord[]
+  restoringRecordingId?: string | null
+  onRestoreRecording?: (sessionId: string) => void
+  onDiscardRecoveredRecording?: (sessionId: string) => void
+  libraryCount?: number
+  onOpenLibrary?: () => void
+  qualityProfileId?: QualityProfileId
+  onQualityProfileChange?: (id: QualityProfileId) => void
+  captureDevices?: CaptureDeviceList
+  deviceSelection?: DeviceSelection
+  isSwitchingDevice?: boolean
+  onCameraChange?: (deviceId: string) => void
+  onMicrophoneChange?: (deviceId: string) => void
+  mixerSettings?: MixerSettings
+  onMixerSettingsChange?: (settings: MixerSettings) => void
+  audioMixer?: AudioMixer | null
+  sceneCollection?: SceneCollection | null
+  onSwitchScene?: (sceneId: string) => void
+  onCreateScene?: () => void
+  onSaveSceneLayout?: (sceneId: string) => void
+  onDuplicateScene?: (sceneId: string) => void
+  onRenameScene?: (sceneId: string, name: string) => void
+  onDeleteScene?: (sceneId: string) => void
+  onSceneTransitionChange?: (transition: SceneTransition) => void
+  effectsSettings?: EffectsSettings
+  onEffectsSettingsChange?: (settings: EffectsSettings) => void
   recordingDuration: number
   downloadUrl: string | null
   onDownloadRecording: (format?: ExportFormat) => void
+  // Only passed when the current take has chapters
+  onDownloadChapters?: () => void
   onClearRecording?: () => void
+  onEditRecording?: () => void
   recordedMimeType?: string
   onPictureInPicture: () => void
   onToggleTeleprompter: () => void
@@ -34,8 +75,11 @@ interface ControlsPanelProps {
   onAddNote: () => void
   exportFormat: ExportFormat
   onExportFormatChange: (format: ExportFormat) => void
+  animationOptions?: AnimationOptions
+  onAnimationOptionsChange?: (options: AnimationOptions) => void
   isConverting: boolean
   conversionProgress: ConversionProgress | null
+  onCancelConversion?: () => void
   blurStatus: BlurStatus
   onBlurToggle: (enabled: boolean) => void
   onBlurIntensityChange: (intensity: number) => void
@@ -49,10 +93,41 @@ export default function ControlsPanel({
   onRecordingSourceChange, 
   onStartRecording, 
   onStopRecording, 
+  isRecordingPaused = false,
+  onPauseRecording,
+  onResumeRecording,
+  recoveredRecordings = [],
+  restoringRecordingId = null,
+  onRestoreRecording,
+  onDiscardRecoveredRecording,
+  libraryCount = 0,
+  onOpenLibrary,
+  qualityProfileId,
+  onQualityProfileChange,
+  captureDevices,
+  deviceSelection,
+  isSwitchingDevice = false,
+  onCameraChange,
+  onMicrophoneChange,
+  mixerSettings,
+  onMixerSettingsChange,
+  audioMixer = null,
+  sceneCollection = null,
+  onSwitchScene,
+  onCreateScene,
+  onSaveSceneLayout,
+  onDuplicateScene,
+  onRenameScene,
+  onDeleteScene,
+  onSceneTransitionChange,
+  effectsSettings,
+  onEffectsSettingsChange,
   recordingDuration, 
   downloadUrl, 
   onDownloadRecording,
+  onDownloadChapters,
   onClearRecording,
+  onEditRecording,
   recordedMimeType,
   onPictureInPicture,
   onToggleTeleprompter,
@@ -60,23 +135,17 @@ export default function ControlsPanel({
   onAddNote,
   exportFormat,
   onExportFormatChange,
+  animationOptions,
+  onAnimationOptionsChange,
   isConverting,
   conversionProgress,
+  onCancelConversion,
   blurStatus,
   onBlurToggle,
   onBlurIntensityChange
 }: ControlsPanelProps) {
   const { t, mounted } = useTranslation()
   const bgInputRef = useRef<HTMLInputElement>(null)
-  const customBgUrlRef = useRef<string | null>(null)
-
-  useEffect(() => {
-    return () => {
-      if (customBgUrlRef.current) {
-        URL.revokeObjectURL(customBgUrlRef.current)
-      }
-    }
-  }, [])
   
   const backgroundOptions = [
     { value: 'visible', label: t.visible, icon: Eye },
@@ -113,21 +182,16 @@ export default function ControlsPanel({
   const handleBgUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
+      // Not revoked when replaced: scenes, autosave and undo history can
+      // still bring an earlier upload back, and the panel itself unmounts
+      // whenever the sidebar is hidden
       const url = URL.createObjectURL(file)
-      if (customBgUrlRef.current) {
-        URL.revokeObjectURL(customBgUrlRef.current)
-      }
-      customBgUrlRef.current = url
       onSettingsChange({ ...settings, virtualBackground: url })
       e.target.value = ''
     }
   }
 
   const removeCustomBg = () => {
-    if (customBgUrlRef.current) {
-      URL.revokeObjectURL(customBgUrlRef.current)
-      customBgUrlRef.current = null
-    }
     onSettingsChange({ ...settings, virtualBackground: null })
   }
 
@@ -139,6 +203,30 @@ export default function ControlsPanel({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
   }
 
+  const qualityProfileLabels: Record<QualityProfileId, { name: string; description: string }> = {
+    'draft-720p30': {
+      name: mounted ? t.qualityDraft720 : QUALITY_PROFILES['draft-720p30'].name,
+      description: mounted ? t.qualityDraft720Description : QUALITY_PROFILES['draft-720p30'].description
+    },
+    'hd-1080p30': {
+      name: QUALITY_PROFILES['hd-1080p30'].name,
+      description: mounted ? t.quality1080p30Description : QUALITY_PROFILES['hd-1080p30'].description
+    },
+    'hd-1080p60': {
+      name: QUALITY_PROFILES['hd-1080p60'].name,
+      description: mounted ? t.quality1080p60Description : QUALITY_PROFILES['hd-1080p60'].description
+    },
+    'screen-4k': {
+      name: mounted ? t.qualityScreen4k : QUALITY_PROFILES['screen-4k'].name,
+      description: mounted ? t.qualityScreen4kDescription : QUALITY_PROFILES['screen-4k'].description
+    }
+  }
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
   return (
     <div className="w-80 bg-background border-l border-border flex flex-col h-full">
       <div className="flex items-center gap-2 p-6 pb-4 flex-shrink-0">
@@ -148,6 +236,31 @@ export default function ControlsPanel({
       
       <div className="flex-1 overflow-y-auto px-6 pb-6 min-h-0">{/* Space for content */}
 
+      {/* Scenes - switchable at any time, including while recording */}
+      {sceneCollection && onSwitchScene && onCreateScene && onSaveSceneLayout && onDuplicateScene &&
+        onRenameScene && onDeleteScene && onSceneTransitionChange && (
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Clapperboard className="h-4 w-4" />
+              {mounted ? t.scenes : 'Scenes'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScenesPanel
+              collection={sceneCollection}
+              onSwitch={onSwitchScene}
+              onCreate={onCreateScene}
+              onSaveLayout={onSaveSceneLayout}
+              onDuplicate={onDuplicateScene}
+              onRename={onRenameScene}
+              onDelete={onDeleteScene}
+              onTransitionChange={onSceneTransitionChange}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Virtual background - MOVED TO TOP */}
       <Card className="mb-6">
         <CardHeader className="pb-3">
@@ -399,6 +512,55 @@ export default function ControlsPanel({
               </div>
             </div>
           )}
+
+          {/* Camera and microphone; these can be swapped mid-recording */}
+          {captureDevices && deviceSelection && onCameraChange && onMicrophoneChange && (
+            <DeviceSelector
+              devices={captureDevices}
+              selection={deviceSelection}
+              disabled={isSwitchingDevice}
+              onCameraChange={onCameraChange}
+              onMicrophoneChange={onMicrophoneChange}
+            />
+          )}
+
+          {mixerSettings && onMixerSettingsChange && (
+            <AudioMixerPanel
+              settings={mixerSettings}
+              onChange={onMixerSettingsChange}
+              mixer={audioMixer}
+              isRecording={isRecording}
+            />
+          )}
+
+          {/* Voice processing applies live, so it stays available while recording */}
+          {effectsSettings && onEffectsSettingsChange && (
+            <AudioEffectsPanel settings={effectsSettings} onChange={onEffectsSettingsChange} />
+          )}
+
+          {/* Recording quality profile */}
+          {!isRecording && qualityProfileId && onQualityProfileChange && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">{mounted ? t.recordingQuality : 'Quality'}:</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(QUALITY_PROFILES) as QualityProfileId[]).map(id => (
+                  <Button
+                    key={id}
+                    variant={qualityProfileId === id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => onQualityProfileChange(id)}
+                    className="text-xs"
+                    title={qualityProfileLabels[id].description}
+                  >
+                    {qualityProfileLabels[id].name}
+                  </Button>
+                ))}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {qualityProfileLabels[qualityProfileId].description} • {Math.round(QUALITY_PROFILES[qualityProfileId].videoBitsPerSecond / 1_000_000)} Mbps
+              </div>
+            </div>
+          )}
           
           {/* Recording controls */}
           <div className="space-y-2">
@@ -425,14 +587,14 @@ export default function ControlsPanel({
                 <div className="space-y-1">
                   <div className="flex items-center justify-between text-xs">
                     <div className="flex items-center gap-1">
-                      <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+                      <div className={clsx('w-2 h-2 rounded-full', isRecordingPaused ? 'bg-amber-500' : 'bg-red-500 animate-pulse')}></div>
                       <span className="text-muted-foreground">
-                        {mounted ? t.recordingActive : 'Recording'} {recordingSource === 'camera' ? `📹 ${mounted ? t.camera : 'Camera'}` : 
+                        {isRecordingPaused ? (mounted ? t.recordingPaused : 'Paused') : (mounted ? t.recordingActive : 'Recording')} {recordingSource === 'camera' ? `📹 ${mounted ? t.camera : 'Camera'}` : 
                                   recordingSource === 'screen' ? `🖥️ ${mounted ? t.screen : 'Screen'}` : 
                                   `📹🖥️ ${mounted ? t.both : 'Both'}`}
                       </span>
                     </div>
-                    <span className="font-mono font-semibold text-red-600">{formatDuration(recordingDuration)}</span>
+                    <span className={clsx('font-mono font-semibold', isRecordingPaused ? 'text-amber-600' : 'text-red-600')}>{formatDuration(recordingDuration)}</span>
                   </div>
                   
                   {recordingSource === 'both' && (
@@ -440,17 +602,32 @@ export default function ControlsPanel({
                       💡 {mounted ? t.screenCameraRecording : 'Screen + Camera recording active'}
                     </div>
                   )}
+
+                  {mixerSettings && <AudioLevelWarnings mixer={audioMixer} settings={mixerSettings} />}
                 </div>
                 
-                <Button
-                  onClick={onStopRecording}
-                  variant="destructive"
-                  size="sm"
-                  className="w-full"
-                >
-                  <div className="w-2 h-2 bg-white mr-2"></div>
-                  {mounted ? t.stopRecording : 'Stop Recording'}
-                </Button>
+                <div className="flex gap-2">
+                  {onPauseRecording && onResumeRecording && (
+                    <Button
+                      onClick={isRecordingPaused ? onResumeRecording : onPauseRecording}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                    >
+                      {isRecordingPaused ? <Play className="w-3 h-3 mr-2" /> : <Pause className="w-3 h-3 mr-2" />}
+                      {isRecordingPaused ? (mounted ? t.resumeRecording : 'Resume') : (mounted ? t.pauseRecording : 'Pause')}
+                    </Button>
+                  )}
+                  <Button
+                    onClick={onStopRecording}
+                    variant="destructive"
+                    size="sm"
+                    className="flex-1"
+                  >
+                    <div className="w-2 h-2 bg-white mr-2"></div>
+                    {mounted ? t.stopRecording : 'Stop Recording'}
+                  </Button>
+                </div>
               </div>
             )}
             
@@ -482,11 +659,23 @@ export default function ControlsPanel({
                   </div>
                 </div>
 
+                {onEditRecording && (
+                  <Button
+                    onClick={onEditRecording}
+                    variant="outline"
+                    size="sm"
+                    className="w-full text-xs"
+                  >
+                    <Scissors className="h-3 w-3 mr-1" />
+                    {mounted ? t.editRecording : 'Trim & Cut'}
+                  </Button>
+                )}
+
                 {/* Export Format Selection */}
                 <div className="space-y-2">
                   <Label className="text-xs text-muted-foreground">{mounted ? t.exportFormat : 'Export Format:'}</Label>
-                  <div className="grid grid-cols-3 gap-1">
-                    {(['webm', 'mp4', 'webp'] as ExportFormat[]).map((format) => {
+                  <div className="grid grid-cols-4 gap-1">
+                    {(['webm', 'mp4', 'webp', 'gif'] as ExportFormat[]).map((format) => {
                       const formatInfo = videoExporter.getFormatInfo(format)
                       return (
                         <Button
@@ -506,6 +695,60 @@ export default function ControlsPanel({
                     {videoExporter.getFormatInfo(exportFormat).description}
                   </div>
                 </div>
+
+                {/* Animated image options */}
+                {(exportFormat === 'webp' || exportFormat === 'gif') && animationOptions && onAnimationOptionsChange && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Label className="text-xs text-muted-foreground">{mounted ? t.frameRate : 'Frame rate'}</Label>
+                      <div className="flex gap-1">
+                        {[5, 10, 15].map((fps) => (
+                          <Button
+                            key={fps}
+                            variant={animationOptions.fps === fps ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onAnimationOptionsChange({ ...animationOptions, fps })}
+                            className="text-xs h-6 px-2"
+                          >
+                            {fps}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <Label className="text-xs text-muted-foreground">{mounted ? t.outputWidth : 'Width'}</Label>
+                      <div className="flex gap-1">
+                        {[320, 480, 640, undefined].map((width) => (
+                          <Button
+                            key={width ?? 'original'}
+                            variant={animationOptions.width === width ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onAnimationOptionsChange({ ...animationOptions, width })}
+                            className="text-xs h-6 px-2"
+                          >
+                            {width ?? (mounted ? t.originalSize : 'Original')}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <Label className="text-xs text-muted-foreground">{mounted ? t.loop : 'Loop'}</Label>
+                      <div className="flex gap-1">
+                        {[0, 1].map((loopCount) => (
+                          <Button
+                            key={loopCount}
+                            variant={animationOptions.loopCount === loopCount ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onAnimationOptionsChange({ ...animationOptions, loopCount })}
+                            className="text-xs h-6 px-2"
+                          >
+                            {loopCount === 0 ? (mounted ? t.loopForever : 'Forever') : (mounted ? t.playOnce : 'Once')}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
                 
                 {/* Action Buttons */}
                 <div className="grid grid-cols-2 gap-2">
@@ -530,6 +773,17 @@ export default function ControlsPanel({
                     </Button>
                   )}
                 </div>
+                {onDownloadChapters && (
+                  <Button
+                    onClick={onDownloadChapters}
+                    variant="outline"
+                    size="sm"
+                    className="w-full text-xs"
+                  >
+                    <ListOrdered className="h-3 w-3 mr-1" />
+                    {mounted ? t.downloadChapters : 'Chapters (.vtt)'}
+                  </Button>
+                )}
               </div>
             )}
 
@@ -558,8 +812,78 @@ export default function ControlsPanel({
                   <FileVideo className="h-4 w-4 mr-2 animate-pulse" />
                   {mounted ? t.conversionProgress : 'This may take a few moments...'}
                 </div>
+
+                {onCancelConversion && (
+                  <Button
+                    onClick={onCancelConversion}
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    {mounted ? t.cancelConversion : 'Cancel'}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Takes interrupted by a crash or reload */}
+            {recoveredRecordings.length > 0 && !isRecording && onRestoreRecording && (
+              <div className="space-y-2 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+                <div className="flex items-center gap-2 text-xs font-medium">
+                  <History className="h-3 w-3" />
+                  {mounted ? t.recoveredRecordings : 'Recovered recordings'}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {mounted ? t.recoveredRecordingsHint : 'These recordings were interrupted before they finished.'}
+                </p>
+                {recoveredRecordings.map(session => (
+                  <div key={session.id} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0 text-xs">
+                      <div className="truncate">{new Date(session.startedAt).toLocaleString()}</div>
+                      <div className="text-muted-foreground">
+                        {formatDuration(Math.round(session.durationMs / 1000))} • {formatFileSize(session.byteSize)}
+                      </div>
+                    </div>
+                    <Button
+                      onClick={() => onRestoreRecording(session.id)}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={restoringRecordingId !== null}
+                    >
+                      {restoringRecordingId === session.id
+                        ? (mounted ? t.restoringRecording : 'Restoring...')
+                        : (mounted ? t.restoreRecording : 'Restore')}
+                    </Button>
+                    {onDiscardRecoveredRecording && (
+                      <Button
+                        onClick={() => onDiscardRecoveredRecording(session.id)}
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        disabled={restoringRecordingId !== null}
+                        title={mounted ? t.discardRecording : 'Discard'}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
               </div>
             )}
+
+            {onOpenLibrary && !isRecording && (
+              <Button
+                onClick={onOpenLibrary}
+                variant="outline"
+                size="sm"
+                className="w-full text-xs"
+              >
+                <Library className="h-3 w-3 mr-1" />
+                {mounted ? t.openLibrary : 'Library'} ({libraryCount})
+              </Button>
+            )}
           </div>
           
           {/* Picture-in-Picture */}
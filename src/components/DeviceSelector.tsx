@@ -0,0 +1,79 @@
+'use client'
+
+import { Camera, Mic } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useTranslation } from '@/lib/useTranslation'
+import type { CaptureDevice, CaptureDeviceList, DeviceSelection } from '@/lib/devices'
+
+interface DeviceSelectorProps {
+  devices: CaptureDeviceList
+  selection: DeviceSelection
+  disabled?: boolean
+  onCameraChange: (deviceId: string) => void
+  onMicrophoneChange: (deviceId: string) => void
+}
+
+interface DeviceSelectProps {
+  icon: React.ReactNode
+  devices: CaptureDevice[]
+  value: string | null
+  placeholder: string
+  disabled?: boolean
+  onChange: (deviceId: string) => void
+}
+
+function DeviceSelect({ icon, devices, value, placeholder, disabled, onChange }: DeviceSelectProps) {
+  // Radix keeps showing a stale value if it is not in the list
+  const selected = devices.some(device => device.deviceId === value) ? value ?? undefined : undefined
+
+  return (
+    <div className="flex items-center gap-2">
+      {icon}
+      <Select value={selected} onValueChange={onChange} disabled={disabled || devices.length === 0}>
+        <SelectTrigger size="sm" className="flex-1 min-w-0 text-xs">
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map(device => (
+            <SelectItem key={device.deviceId} value={device.deviceId} className="text-xs">
+              {device.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export default function DeviceSelector({
+  devices,
+  selection,
+  disabled,
+  onCameraChange,
+  onMicrophoneChange
+}: DeviceSelectorProps) {
+  const { t, mounted } = useTranslation()
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground">{mounted ? t.devices : 'Devices'}:</Label>
+      <DeviceSelect
+        icon={<Camera className="h-3 w-3 flex-shrink-0 text-muted-foreground" />}
+        devices={devices.cameras}
+        value={selection.cameraId}
+        placeholder={mounted ? t.noCameraFound : 'No camera found'}
+        disabled={disabled}
+        onChange={onCameraChange}
+      />
+      <DeviceSelect
+        icon={<Mic className="h-3 w-3 flex-shrink-0 text-muted-foreground" />}
+        devices={devices.microphones}
+        value={selection.microphoneId}
+        placeholder={mounted ? t.noMicrophoneFound : 'No microphone found'}
+        disabled={disabled}
+        onChange={onMicrophoneChange}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,385 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { ChevronLeft, ChevronRight, Download, Eye, FileText, Maximize2, Minimize2, PanelLeft, Presentation } from 'lucide-react'
+import {
+  DOCUMENT_CONSTANTS,
+  DocumentError,
+  DocumentErrorCode,
+  ImageDocument,
+  PdfDocument,
+  applyPageAction,
+  clampPage,
+  getPageAction,
+  parsePageInput,
+  type PagedDocument,
+  type PageSize
+} from '@/lib/documents'
+
+interface PagedDocumentViewerProps {
+  src: string
+  fileName: string
+  // Slide images of a converted deck; without them src is opened as a PDF
+  pages?: string[]
+  // Controlled page, from 1; decks on the board keep it so remotes can drive them
+  page?: number
+  onPageChange?: (page: number) => void
+  onPageCountChange?: (pageCount: number) => void
+  className?: string
+}
+
+interface PageThumbnailProps {
+  pagedDocument: PagedDocument
+  pageNumber: number
+  isCurrent: boolean
+  onSelect: (pageNumber: number) => void
+}
+
+// Renders its page once it scrolls into view, so long decks don't render every page up front
+function PageThumbnail({ pagedDocument, pageNumber, isCurrent, onSelect }: PageThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [isVisible, setIsVisible] = useState(false)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    if (typeof IntersectionObserver === 'undefined') {
+      setIsVisible(true)
+      return
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true)
+        observer.disconnect()
+      }
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!isVisible || !canvas) return
+    pagedDocument.getPageSize(pageNumber)
+      .then(size => pagedDocument.renderPage(pageNumber, canvas, {
+        width: DOCUMENT_CONSTANTS.THUMBNAIL_WIDTH,
+        height: DOCUMENT_CONSTANTS.THUMBNAIL_WIDTH * size.height / size.width,
+        background: '#ffffff',
+        pixelRatio: window.devicePixelRatio
+      }))
+      .catch(error => console.warn(`Failed to render thumbnail for page ${pageNumber}:`, error))
+  }, [pagedDocument, pageNumber, isVisible])
+
+  return (
+    <button
+      type="button"
+      className={`w-full rounded border-2 bg-white overflow-hidden ${isCurrent ? 'border-primary' : 'border-transparent hover:border-gray-300'}`}
+      onClick={() => onSelect(pageNumber)}
+      title={`Page ${pageNumber}`}
+    >
+      <canvas ref={canvasRef} className="w-full h-auto block min-h-12" />
+      <span className="block text-[10px] text-gray-500 py-0.5">{pageNumber}</span>
+    </button>
+  )
+}
+
+export default function PagedDocumentViewer({
+  src,
+  fileName,
+  pages,
+  page: controlledPage,
+  onPageChange,
+  onPageCountChange,
+  className = ''
+}: PagedDocumentViewerProps) {
+  const [pagedDocument, setPagedDocument] = useState<PagedDocument | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [localPage, setLocalPage] = useState(1)
+  const [pageInput, setPageInput] = useState('1')
+  const [showThumbnails, setShowThumbnails] = useState(false)
+  const [isPresenting, setIsPresenting] = useState(false)
+  const [stageSize, setStageSize] = useState<PageSize | null>(null)
+  const rootRef = useRef<HTMLDivElement>(null)
+  const stageRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const pageCount = pagedDocument?.pageCount ?? 0
+  const page = clampPage(controlledPage ?? localPage, pageCount)
+  const label = pages ? 'Slides' : 'PDF'
+
+  // Load the document
+  useEffect(() => {
+    let cancelled = false
+    let loaded: PagedDocument | null = null
+    setPagedDocument(null)
+    setError(null)
+    setLocalPage(1)
+
+    const load = pages ? Promise.resolve(new ImageDocument(pages)) : PdfDocument.load(src)
+    load
+      .then(loadedPdf => {
+        if (cancelled) {
+          loadedPdf.destroy()
+          return
+        }
+        loaded = loadedPdf
+        setPagedDocument(loadedPdf)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error(`Failed to load ${label}:`, error)
+        setError(
+          error instanceof DocumentError && error.code === DocumentErrorCode.PASSWORD_PROTECTED
+            ? 'This PDF is password protected'
+            : `Failed to load ${label}`
+        )
+      })
+
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+    }
+  }, [src, pages, label])
+
+  // Track the space available for the page
+  useEffect(() => {
+    const stage = stageRef.current
+    if (!stage || typeof ResizeObserver === 'undefined') return
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect
+      setStageSize(prev => prev && prev.width === width && prev.height === height ? prev : { width, height })
+    })
+    observer.observe(stage)
+    return () => observer.disconnect()
+  }, [])
+
+  // Render the current page whenever it, the space or the mode changes
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!pagedDocument || !canvas || !stageSize || stageSize.width === 0 || stageSize.height === 0) return
+    pagedDocument.renderPage(page, canvas, {
+      ...stageSize,
+      background: isPresenting ? DOCUMENT_CONSTANTS.PRESENT_BACKGROUND : DOCUMENT_CONSTANTS.PAGE_BACKGROUND,
+      pixelRatio: window.devicePixelRatio
+    }).catch(error => {
+      console.error(`Failed to render page ${page}:`, error)
+    })
+  }, [pagedDocument, page, stageSize, isPresenting])
+
+  useEffect(() => {
+    setPageInput(String(page))
+  }, [page])
+
+  // The count is only known once loaded, so report it to whoever drives the page
+  const pageCountChangeRef = useRef(onPageCountChange)
+  useEffect(() => {
+    pageCountChangeRef.current = onPageCountChange
+  })
+
+  useEffect(() => {
+    if (pageCount > 0) pageCountChangeRef.current?.(pageCount)
+  }, [pageCount])
+
+  const goToPage = useCallback((target: number) => {
+    const next = clampPage(target, pageCount)
+    if (next === page) return
+    setLocalPage(next)
+    onPageChange?.(next)
+  }, [page, pageCount, onPageChange])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement) return
+    if (e.key === 'Escape' && isPresenting) {
+      e.preventDefault()
+      e.stopPropagation()
+      setIsPresenting(false)
+      return
+    }
+    const action = getPageAction(e.key)
+    if (!action || !pagedDocument) return
+    e.preventDefault()
+    e.stopPropagation()
+    goToPage(applyPageAction(page, pageCount, action))
+  }
+
+  // Board items swallow mousedown to start dragging, so take focus explicitly for the page keys
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if ((e.target as Element).closest('input')) return
+    rootRef.current?.focus({ preventScroll: true })
+  }
+
+  const commitPageInput = () => {
+    const target = parsePageInput(pageInput, pageCount)
+    if (target === null) {
+      setPageInput(String(page))
+    } else {
+      goToPage(target)
+    }
+  }
+
+  const downloadFile = () => {
+    const link = document.createElement('a')
+    link.href = src
+    link.download = fileName
+    link.click()
+  }
+
+  const openInNewTab = () => {
+    window.open(src, '_blank')
+  }
+
+  const pageControls = (
+    <div className="flex items-center gap-1">
+      <Button
+        size="sm"
+        variant={isPresenting ? 'secondary' : 'outline'}
+        className="h-7 w-7 p-0"
+        onClick={() => goToPage(page - 1)}
+        disabled={page <= 1}
+        title="Previous page"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <input
+        value={pageInput}
+        onChange={(e) => setPageInput(e.target.value)}
+        onBlur={commitPageInput}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            commitPageInput()
+            rootRef.current?.focus({ preventScroll: true })
+          }
+        }}
+        // Keep the board from starting a drag so the field can take focus
+        onMouseDown={(e) => e.stopPropagation()}
+        inputMode="numeric"
+        aria-label="Page number"
+        className="w-8 h-7 rounded border border-gray-300 bg-white text-center text-xs text-gray-800"
+      />
+      <span className={`text-xs ${isPresenting ? 'text-white' : 'text-gray-500'}`}>/ {pageCount}</span>
+      <Button
+        size="sm"
+        variant={isPresenting ? 'secondary' : 'outline'}
+        className="h-7 w-7 p-0"
+        onClick={() => goToPage(page + 1)}
+        disabled={page >= pageCount}
+        title="Next page"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+
+  return (
+    <div
+      ref={rootRef}
+      tabIndex={0}
+      className={`w-full h-full rounded-lg shadow-lg overflow-hidden focus:outline-none ${isPresenting ? 'bg-black' : 'bg-white'} ${className}`}
+      onKeyDown={handleKeyDown}
+      onMouseDown={handleMouseDown}
+    >
+      <div className="h-full flex flex-col">
+        {/* Header with controls */}
+        {!isPresenting && (
+          <div className="p-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <Button
+                size="sm"
+                variant={showThumbnails ? 'secondary' : 'outline'}
+                className="h-7 w-7 p-0"
+                onClick={() => setShowThumbnails(prev => !prev)}
+                disabled={!pagedDocument}
+                title="Page thumbnails"
+              >
+                <PanelLeft className="h-3 w-3" />
+              </Button>
+              {pages ? (
+                <Presentation className="h-4 w-4 text-orange-500 shrink-0" />
+              ) : (
+                <FileText className="h-4 w-4 text-red-500 shrink-0" />
+              )}
+              <span className="text-xs text-gray-500 truncate">{fileName}</span>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {pagedDocument && pageControls}
+              <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={() => setIsPresenting(true)} disabled={!pagedDocument} title="Present">
+                <Maximize2 className="h-3 w-3" />
+              </Button>
+              <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={openInNewTab} title="View Full">
+                <Eye className="h-3 w-3" />
+              </Button>
+              <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={downloadFile} title="Download">
+                <Download className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* Page thumbnails */}
+          {pagedDocument && showThumbnails && !isPresenting && (
+            <div className="w-32 shrink-0 overflow-y-auto border-r border-gray-200 bg-gray-50 p-2 space-y-2">
+              {Array.from({ length: pageCount }, (_, index) => (
+                <PageThumbnail
+                  key={index + 1}
+                  pagedDocument={pagedDocument}
+                  pageNumber={index + 1}
+                  isCurrent={page === index + 1}
+                  onSelect={goToPage}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* Current page */}
+          <div ref={stageRef} className={`flex-1 relative min-w-0 group ${isPresenting ? 'bg-black' : 'bg-gray-100'}`}>
+            {error ? (
+              <div className="h-full flex items-center justify-center">
+                <div className="text-center">
+                  <FileText className="h-16 w-16 text-red-500 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-800 mb-2">Cannot Display {label}</h3>
+                  <p className="text-sm text-gray-600 mb-4">{error}</p>
+                  <div className="flex gap-2 justify-center">
+                    <Button onClick={openInNewTab} variant="outline">
+                      <Eye className="h-4 w-4 mr-2" />
+                      View in New Tab
+                    </Button>
+                    <Button onClick={downloadFile}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ) : !pagedDocument ? (
+              <div className="h-full flex items-center justify-center">
+                <div className="text-center">
+                  <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2"></div>
+                  <p className="text-sm text-gray-600">Loading {label}...</p>
+                </div>
+              </div>
+            ) : (
+              <canvas
+                ref={canvasRef}
+                data-stage-source
+                className="absolute inset-0 w-full h-full"
+              />
+            )}
+
+            {/* Present mode controls, shown on hover */}
+            {pagedDocument && isPresenting && (
+              <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-md bg-black/60 px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {pageControls}
+                <Button size="sm" variant="secondary" className="h-7 w-7 p-0" onClick={() => setIsPresenting(false)} title="Exit present mode (Esc)">
+                  <Minimize2 className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,492 @@
+'use client'
+
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Play, Pause, Scissors, RotateCcw, X, Check, ChevronsLeft, ChevronsRight } from 'lucide-react'
+import { useTranslation } from '@/lib/useTranslation'
+import { resolveDuration } from '@/lib/export'
+import {
+  recordingTrimmer,
+  createDefaultEdits,
+  getKeptSegments,
+  getEditedDuration,
+  getPlaybackPosition,
+  hasEdits,
+  normalizeRanges,
+  EditingError,
+  EditingErrorCode,
+  type RecordingEdits,
+  type TimeRange,
+  type TrimProgress
+} from '@/lib/editing'
+
+interface RecordingEditorProps {
+  isOpen: boolean
+  recordingUrl: string
+  recordingBlob: Blob
+  mimeType: string
+  durationHint: number
+  // Segments are the kept parts of the original, in seconds, in order
+  onApply: (blob: Blob, duration: number, segments: TimeRange[]) => void
+  onClose: () => void
+}
+
+type DragTarget = 'in' | 'out' | 'select' | null
+
+const formatTimecode = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds - mins * 60
+  return `${mins.toString().padStart(2, '0')}:${secs.toFixed(1).padStart(4, '0')}`
+}
+
+export default function RecordingEditor({
+  isOpen,
+  recordingUrl,
+  recordingBlob,
+  mimeType,
+  durationHint,
+  onApply,
+  onClose
+}: RecordingEditorProps) {
+  const { t, mounted } = useTranslation()
+  const [duration, setDuration] = useState(0)
+  const [edits, setEdits] = useState<RecordingEdits>(createDefaultEdits(0))
+  const [selection, setSelection] = useState<TimeRange | null>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [renderProgress, setRenderProgress] = useState<TrimProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const timelineRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ target: DragTarget; anchor: number }>({ target: null, anchor: 0 })
+  const renderAbortRef = useRef<AbortController | null>(null)
+
+  const segments = useMemo(() => getKeptSegments(duration, edits), [duration, edits])
+  const cuts = useMemo(() => normalizeRanges(edits.cuts), [edits.cuts])
+  const editedDuration = getEditedDuration(segments)
+  const isRendering = renderProgress !== null
+
+  // Reset the edit list whenever a new recording is opened
+  useEffect(() => {
+    if (!isOpen) return
+    setDuration(0)
+    setEdits(createDefaultEdits(0))
+    setSelection(null)
+    setCurrentTime(0)
+    setError(null)
+  }, [isOpen, recordingUrl])
+
+  // Abort any render still running when the editor unmounts
+  useEffect(() => {
+    return () => renderAbortRef.current?.abort()
+  }, [])
+
+  const handleLoadedMetadata = async () => {
+    const video = videoRef.current
+    if (!video) return
+
+    try {
+      const resolved = await resolveDuration(video, durationHint)
+      setDuration(resolved)
+      setEdits(createDefaultEdits(resolved))
+    } catch (loadError) {
+      console.error('❌ Failed to read recording duration:', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load recording')
+    }
+  }
+
+  // Keep preview playback inside the kept segments
+  const handleTimeUpdate = () => {
+    const video = videoRef.current
+    if (!video) return
+
+    if (isPlaying) {
+      const position = getPlaybackPosition(video.currentTime, segments)
+      if (position === null) {
+        video.pause()
+        setIsPlaying(false)
+        video.currentTime = segments[0]?.start ?? 0
+      } else if (position !== video.currentTime) {
+        video.currentTime = position
+      }
+    }
+    setCurrentTime(video.currentTime)
+  }
+
+  const togglePlayback = useCallback(async () => {
+    const video = videoRef.current
+    if (!video || !segments.length) return
+
+    if (isPlaying) {
+      video.pause()
+      setIsPlaying(false)
+      return
+    }
+
+    const position = getPlaybackPosition(video.currentTime, segments)
+    video.currentTime = position ?? segments[0].start
+    try {
+      await video.play()
+      setIsPlaying(true)
+    } catch (playError) {
+      console.error('❌ Preview playback failed:', playError)
+    }
+  }, [isPlaying, segments])
+
+  const seek = (time: number) => {
+    const video = videoRef.current
+    if (!video) return
+    video.currentTime = Math.max(0, Math.min(time, duration))
+    setCurrentTime(video.currentTime)
+  }
+
+  const setInPoint = useCallback(() => {
+    setEdits(prev => ({ ...prev, inPoint: Math.min(currentTime, prev.outPoint) }))
+  }, [currentTime])
+
+  const setOutPoint = useCallback(() => {
+    setEdits(prev => ({ ...prev, outPoint: Math.max(currentTime, prev.inPoint) }))
+  }, [currentTime])
+
+  const cutSelection = useCallback(() => {
+    if (!selection) return
+    setEdits(prev => ({ ...prev, cuts: normalizeRanges([...prev.cuts, selection]) }))
+    setSelection(null)
+  }, [selection])
+
+  const restoreCut = (cut: TimeRange) => {
+    setEdits(prev => ({
+      ...prev,
+      cuts: normalizeRanges(prev.cuts).filter(existing => existing.start !== cut.start || existing.end !== cut.end)
+    }))
+  }
+
+  const resetEdits = () => {
+    setEdits(createDefaultEdits(duration))
+    setSelection(null)
+  }
+
+  // Timeline pointer handling
+  const getTimeAt = (clientX: number) => {
+    const rect = timelineRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return 0
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration
+  }
+
+  const handleTimelineMouseDown = (event: React.MouseEvent, target: DragTarget = 'select') => {
+    if (isRendering || !duration) return
+    event.preventDefault()
+    event.stopPropagation()
+
+    const time = getTimeAt(event.clientX)
+    dragRef.current = { target, anchor: time }
+    if (target === 'select') {
+      setSelection(null)
+      seek(time)
+    }
+  }
+
+  useEffect(() => {
+    const handleMouseMove = (event: MouseEvent) => {
+      const { target, anchor } = dragRef.current
+      if (!target) return
+
+      const time = getTimeAt(event.clientX)
+      if (target === 'in') {
+        setEdits(prev => ({ ...prev, inPoint: Math.min(time, prev.outPoint) }))
+        seek(time)
+      } else if (target === 'out') {
+        setEdits(prev => ({ ...prev, outPoint: Math.max(time, prev.inPoint) }))
+        seek(time)
+      } else {
+        setSelection({ start: Math.min(anchor, time), end: Math.max(anchor, time) })
+      }
+    }
+
+    const handleMouseUp = () => {
+      if (dragRef.current.target === 'select') {
+        // A plain click only moves the playhead
+        setSelection(prev => (prev && prev.end - prev.start >= 0.1 ? prev : null))
+      }
+      dragRef.current = { target: null, anchor: 0 }
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+  })
+
+  // Keyboard shortcuts: Space play/pause, I/O set in/out, X cut selection
+  useEffect(() => {
+    if (!isOpen || isRendering) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof Element && event.target.matches('input, textarea, select')) return
+
+      switch (event.key.toLowerCase()) {
+        case ' ':
+          event.preventDefault()
+          togglePlayback()
+          break
+        case 'i':
+          setInPoint()
+          break
+        case 'o':
+          setOutPoint()
+          break
+        case 'x':
+        case 'delete':
+        case 'backspace':
+          cutSelection()
+          break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, isRendering, togglePlayback, setInPoint, setOutPoint, cutSelection])
+
+  const applyEdits = async () => {
+    videoRef.current?.pause()
+    setIsPlaying(false)
+    setError(null)
+    setRenderProgress({ progress: 0, stage: 'Preparing recording...' })
+    renderAbortRef.current = new AbortController()
+
+    try {
+      const trimmed = await recordingTrimmer.render(recordingBlob, segments, {
+        mimeType,
+        durationSeconds: duration,
+        onProgress: setRenderProgress,
+        signal: renderAbortRef.current.signal
+      })
+      console.log('✂️ Trimmed recording ready:', trimmed.size, 'bytes')
+      onApply(trimmed, editedDuration, segments)
+    } catch (renderError) {
+      if (renderError instanceof EditingError && renderError.code === EditingErrorCode.CANCELLED) {
+        console.log('⏹️ Trim rendering cancelled')
+      } else {
+        console.error('❌ Trim rendering failed:', renderError)
+        setError(renderError instanceof Error ? renderError.message : 'Failed to apply edits')
+      }
+    } finally {
+      renderAbortRef.current = null
+      setRenderProgress(null)
+    }
+  }
+
+  const cancelRender = () => {
+    renderAbortRef.current?.abort()
+  }
+
+  if (!isOpen) return null
+
+  const percent = (time: number) => (duration ? (time / duration) * 100 : 0)
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl max-h-full overflow-auto">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Scissors className="h-4 w-4" />
+              {mounted ? t.recordingEditor : 'Edit Recording'}
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose} disabled={isRendering}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="rounded-lg overflow-hidden bg-gray-900">
+            <video
+              ref={videoRef}
+              src={recordingUrl}
+              className="w-full max-h-[50vh] object-contain"
+              preload="auto"
+              playsInline
+              onLoadedMetadata={handleLoadedMetadata}
+              onTimeUpdate={handleTimeUpdate}
+              onPause={() => setIsPlaying(false)}
+            />
+          </div>
+
+          {/* Timeline */}
+          <div className="space-y-1">
+            <div
+              ref={timelineRef}
+              className="relative h-12 rounded-md bg-gray-200 cursor-crosshair select-none"
+              onMouseDown={(event) => handleTimelineMouseDown(event)}
+            >
+              {/* Trimmed-off head and tail */}
+              <div
+                className="absolute inset-y-0 left-0 bg-gray-500/60 rounded-l-md"
+                style={{ width: `${percent(edits.inPoint)}%` }}
+              />
+              <div
+                className="absolute inset-y-0 right-0 bg-gray-500/60 rounded-r-md"
+                style={{ width: `${100 - percent(edits.outPoint)}%` }}
+              />
+
+              {/* Kept segments */}
+              {segments.map(segment => (
+                <div
+                  key={`${segment.start}-${segment.end}`}
+                  className="absolute inset-y-2 bg-primary/30"
+                  style={{ left: `${percent(segment.start)}%`, width: `${percent(segment.end - segment.start)}%` }}
+                />
+              ))}
+
+              {/* Cut segments */}
+              {cuts.map(cut => (
+                <div
+                  key={`cut-${cut.start}-${cut.end}`}
+                  className="absolute inset-y-0 bg-red-500/40 border-x border-red-600"
+                  style={{ left: `${percent(cut.start)}%`, width: `${percent(cut.end - cut.start)}%` }}
+                />
+              ))}
+
+              {/* Current selection */}
+              {selection && (
+                <div
+                  className="absolute inset-y-0 bg-blue-500/30 border-x-2 border-blue-600"
+                  style={{ left: `${percent(selection.start)}%`, width: `${percent(selection.end - selection.start)}%` }}
+                />
+              )}
+
+              {/* Trim handles */}
+              <div
+                className="absolute inset-y-0 w-3 -ml-1.5 bg-amber-500 rounded cursor-ew-resize flex items-center justify-center"
+                style={{ left: `${percent(edits.inPoint)}%` }}
+                onMouseDown={(event) => handleTimelineMouseDown(event, 'in')}
+                title={mounted ? t.setInPoint : 'Set In'}
+              >
+                <ChevronsRight className="h-3 w-3 text-white" />
+              </div>
+              <div
+                className="absolute inset-y-0 w-3 -ml-1.5 bg-amber-500 rounded cursor-ew-resize flex items-center justify-center"
+                style={{ left: `${percent(edits.outPoint)}%` }}
+                onMouseDown={(event) => handleTimelineMouseDown(event, 'out')}
+                title={mounted ? t.setOutPoint : 'Set Out'}
+              >
+                <ChevronsLeft className="h-3 w-3 text-white" />
+              </div>
+
+              {/* Playhead */}
+              <div
+                className="absolute -inset-y-1 w-0.5 bg-gray-900 pointer-events-none"
+                style={{ left: `${percent(currentTime)}%` }}
+              />
+            </div>
+
+            <div className="flex justify-between text-xs text-muted-foreground font-mono">
+              <span>{formatTimecode(currentTime)}</span>
+              <span>{formatTimecode(duration)}</span>
+            </div>
+          </div>
+
+          {/* Transport and edit controls */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" variant="outline" onClick={togglePlayback} disabled={isRendering || !segments.length}>
+              {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button size="sm" variant="outline" onClick={setInPoint} disabled={isRendering}>
+              {mounted ? t.setInPoint : 'Set In'} (I)
+            </Button>
+            <Button size="sm" variant="outline" onClick={setOutPoint} disabled={isRendering}>
+              {mounted ? t.setOutPoint : 'Set Out'} (O)
+            </Button>
+            <Button size="sm" variant="outline" onClick={cutSelection} disabled={isRendering || !selection}>
+              <Scissors className="h-4 w-4 mr-1" />
+              {mounted ? t.cutSelection : 'Cut Selection'} (X)
+            </Button>
+            <Button size="sm" variant="ghost" onClick={resetEdits} disabled={isRendering}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              {mounted ? t.resetEdits : 'Reset'}
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {mounted ? t.editorHint : 'Drag on the timeline to select a range to cut. Drag the handles to trim the start and end.'}
+          </p>
+
+          {cuts.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">{mounted ? t.removedSegments : 'Removed segments'}</Label>
+              <div className="flex flex-wrap gap-1">
+                {cuts.map(cut => (
+                  <Button
+                    key={`restore-${cut.start}-${cut.end}`}
+                    size="sm"
+                    variant="outline"
+                    className="text-xs h-6 px-2 font-mono"
+                    onClick={() => restoreCut(cut)}
+                    disabled={isRendering}
+                    title={mounted ? t.restoreSegment : 'Restore'}
+                  >
+                    {formatTimecode(cut.start)}–{formatTimecode(cut.end)}
+                    <X className="h-3 w-3 ml-1" />
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-xs text-red-600 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+          )}
+
+          {renderProgress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{mounted ? t.renderingEdits : 'Rendering edits in real time...'}</span>
+                <span>{Math.round(renderProgress.progress)}%</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-primary h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${renderProgress.progress}%` }}
+                />
+              </div>
+              <div className="text-xs text-center text-muted-foreground">{renderProgress.stage}</div>
+            </div>
+          )}
+
+          {/* Footer */}
+          <div className="flex items-center justify-between border-t pt-3">
+            <div className="text-xs text-muted-foreground">
+              {mounted ? t.editedLength : 'Edited length'}: <span className="font-mono">{formatTimecode(editedDuration)}</span>
+            </div>
+            <div className="flex gap-2">
+              {isRendering ? (
+                <Button size="sm" variant="outline" onClick={cancelRender}>
+                  <X className="h-4 w-4 mr-1" />
+                  {mounted ? t.cancelConversion : 'Cancel'}
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={onClose}>
+                  {mounted ? t.close : 'Close'}
+                </Button>
+              )}
+              <Button
+                size="sm"
+                onClick={applyEdits}
+                disabled={isRendering || !segments.length || !hasEdits(duration, edits)}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                {mounted ? t.applyEdits : 'Apply Edits'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
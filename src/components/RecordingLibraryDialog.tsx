@@ -0,0 +1,389 @@
+'use client'
+
+import { useState, useRef, useEffect, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Library, Pencil, Trash2, Download, Columns2, Play, Pause, RotateCcw, X, Check, Video, ListOrdered } from 'lucide-react'
+import clsx from 'clsx'
+import { useTranslation } from '@/lib/useTranslation'
+import { type ExportFormat, type ConversionProgress, videoExporter } from '@/lib/videoConverter'
+import type { LibraryRecording } from '@/lib/library'
+
+interface RecordingLibraryDialogProps {
+  isOpen: boolean
+  recordings: LibraryRecording[]
+  activeRecordingId: string | null
+  exportFormat: ExportFormat
+  isConverting: boolean
+  conversionProgress: ConversionProgress | null
+  onCancelConversion: () => void
+  onOpen: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onExport: (recording: LibraryRecording, format: ExportFormat) => void
+  onDownloadChapters: (recording: LibraryRecording) => void
+  onClose: () => void
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['webm', 'mp4', 'webp', 'gif']
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.round(seconds % 60)
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function RecordingLibraryDialog({
+  isOpen,
+  recordings,
+  activeRecordingId,
+  exportFormat,
+  isConverting,
+  conversionProgress,
+  onCancelConversion,
+  onOpen,
+  onRename,
+  onDelete,
+  onExport,
+  onDownloadChapters,
+  onClose
+}: RecordingLibraryDialogProps) {
+  const { t, mounted } = useTranslation()
+  const [selectedFormat, setSelectedFormat] = useState<ExportFormat>(exportFormat)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [isComparing, setIsComparing] = useState(false)
+  const [isComparePlaying, setIsComparePlaying] = useState(false)
+  const compareVideoRefs = useRef<(HTMLVideoElement | null)[]>([])
+
+  useEffect(() => {
+    setSelectedFormat(exportFormat)
+  }, [exportFormat])
+
+  // Drop selections for takes that were deleted
+  useEffect(() => {
+    setCompareIds(ids => ids.filter(id => recordings.some(recording => recording.id === id)))
+  }, [recordings])
+
+  const thumbnailUrls = useMemo(() => {
+    const urls = new Map<string, string>()
+    recordings.forEach(recording => {
+      if (recording.thumbnail) {
+        urls.set(recording.id, URL.createObjectURL(recording.thumbnail))
+      }
+    })
+    return urls
+  }, [recordings])
+
+  useEffect(() => () => {
+    thumbnailUrls.forEach(url => URL.revokeObjectURL(url))
+  }, [thumbnailUrls])
+
+  const compared = useMemo(
+    () => compareIds
+      .map(id => recordings.find(recording => recording.id === id))
+      .filter((recording): recording is LibraryRecording => Boolean(recording)),
+    [compareIds, recordings]
+  )
+
+  const compareUrls = useMemo(
+    () => (isComparing ? compared.map(recording => URL.createObjectURL(recording.blob)) : []),
+    [isComparing, compared]
+  )
+
+  useEffect(() => () => {
+    compareUrls.forEach(url => URL.revokeObjectURL(url))
+  }, [compareUrls])
+
+  if (!isOpen) return null
+
+  const startRename = (recording: LibraryRecording) => {
+    setEditingId(recording.id)
+    setDraftName(recording.name)
+  }
+
+  const commitRename = () => {
+    if (editingId) {
+      onRename(editingId, draftName)
+    }
+    setEditingId(null)
+  }
+
+  // Keep the two most recent picks
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => (ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id].slice(-2)))
+  }
+
+  const handleDelete = (recording: LibraryRecording) => {
+    const message = mounted ? t.confirmDeleteTake : 'Delete this take? This cannot be undone.'
+    if (confirm(`${recording.name}\n\n${message}`)) {
+      onDelete(recording.id)
+    }
+  }
+
+  const forEachCompareVideo = (action: (video: HTMLVideoElement) => void) => {
+    compareVideoRefs.current.forEach(video => video && action(video))
+  }
+
+  const toggleComparePlayback = () => {
+    if (isComparePlaying) {
+      forEachCompareVideo(video => video.pause())
+      setIsComparePlaying(false)
+    } else {
+      forEachCompareVideo(video => { video.play().catch(() => {}) })
+      setIsComparePlaying(true)
+    }
+  }
+
+  const restartCompare = () => {
+    forEachCompareVideo(video => { video.currentTime = 0 })
+  }
+
+  const closeCompare = () => {
+    forEachCompareVideo(video => video.pause())
+    setIsComparePlaying(false)
+    setIsComparing(false)
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl max-h-full overflow-auto">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Library className="h-4 w-4" />
+              {mounted ? t.recordingLibrary : 'Recording Library'}
+              <Badge variant="outline">{recordings.length}</Badge>
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose} disabled={isConverting}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {isComparing && compared.length === 2 ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                {compared.map((recording, index) => (
+                  <div key={recording.id} className="space-y-1">
+                    <div className="rounded-lg overflow-hidden bg-gray-900">
+                      <video
+                        ref={element => { compareVideoRefs.current[index] = element }}
+                        src={compareUrls[index]}
+                        className="w-full aspect-video object-contain"
+                        preload="auto"
+                        playsInline
+                        onEnded={() => setIsComparePlaying(false)}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="font-medium truncate">{recording.name}</span>
+                      <span className="font-mono text-muted-foreground">{formatDuration(recording.durationSeconds)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between border-t pt-3">
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={toggleComparePlayback}>
+                    {isComparePlaying ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                    {isComparePlaying ? (mounted ? t.pauseRecording : 'Pause') : (mounted ? t.playBoth : 'Play both')}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={restartCompare}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    {mounted ? t.restart : 'Restart'}
+                  </Button>
+                </div>
+                <Button size="sm" variant="outline" onClick={closeCompare}>
+                  {mounted ? t.backToLibrary : 'Back to library'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {recordings.length === 0 ? (
+                <div className="text-sm text-center text-muted-foreground py-8">
+                  {mounted ? t.libraryEmpty : 'Finished recordings will appear here.'}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {recordings.map(recording => {
+                    const formatInfo = videoExporter.getFormatInfo(recording.mimeType.includes('mp4') ? 'mp4' : 'webm')
+                    const thumbnailUrl = thumbnailUrls.get(recording.id)
+                    return (
+                      <div
+                        key={recording.id}
+                        className={clsx(
+                          'flex items-center gap-3 p-2 rounded-lg border',
+                          recording.id === activeRecordingId ? 'border-primary bg-primary/5' : 'border-border'
+                        )}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(recording.id)}
+                          onChange={() => toggleCompare(recording.id)}
+                          title={mounted ? t.selectToCompare : 'Select to compare'}
+                        />
+                        <div className="w-24 aspect-video rounded bg-gray-900 overflow-hidden flex-shrink-0 flex items-center justify-center">
+                          {thumbnailUrl ? (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img src={thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                          ) : (
+                            <Video className="h-5 w-5 text-white/50" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0 space-y-1">
+                          {editingId === recording.id ? (
+                            <input
+                              autoFocus
+                              value={draftName}
+                              onChange={event => setDraftName(event.target.value)}
+                              onBlur={commitRename}
+                              onKeyDown={event => {
+                                if (event.key === 'Enter') commitRename()
+                                if (event.key === 'Escape') setEditingId(null)
+                              }}
+                              className="w-full text-sm px-2 py-1 border rounded bg-background"
+                            />
+                          ) : (
+                            <div className="flex items-center gap-1">
+                              <span className="text-sm font-medium truncate">{recording.name}</span>
+                              <button
+                                onClick={() => startRename(recording)}
+                                className="text-muted-foreground hover:text-foreground"
+                                title={mounted ? t.renameTake : 'Rename'}
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </button>
+                              {recording.id === activeRecordingId && (
+                                <Badge variant="secondary" className="text-[10px]">{mounted ? t.currentTake : 'Current'}</Badge>
+                              )}
+                            </div>
+                          )}
+                          <div className="text-xs text-muted-foreground">
+                            {formatDuration(recording.durationSeconds)} • {formatFileSize(recording.size)} • {formatInfo.name} • {recording.source}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{new Date(recording.createdAt).toLocaleString()}</div>
+                        </div>
+                        <div className="flex gap-1 flex-shrink-0">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 text-xs"
+                            onClick={() => onOpen(recording.id)}
+                            disabled={isConverting || recording.id === activeRecordingId}
+                          >
+                            {mounted ? t.openTake : 'Open'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 w-7 p-0"
+                            onClick={() => onExport(recording, selectedFormat)}
+                            disabled={isConverting}
+                            title={`${mounted ? t.download : 'Download'} ${videoExporter.getFormatInfo(selectedFormat).name}`}
+                          >
+                            <Download className="h-3 w-3" />
+                          </Button>
+                          {recording.markers && recording.markers.length > 0 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-7 w-7 p-0"
+                              onClick={() => onDownloadChapters(recording)}
+                              title={mounted ? t.downloadChapters : 'Chapters (.vtt)'}
+                            >
+                              <ListOrdered className="h-3 w-3" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 p-0"
+                            onClick={() => handleDelete(recording)}
+                            disabled={isConverting}
+                            title={mounted ? t.deleteTake : 'Delete'}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
+              {isConverting && conversionProgress && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{conversionProgress.stage}</span>
+                    <span>{Math.round(conversionProgress.progress)}%</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-primary h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${conversionProgress.progress}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Footer */}
+              <div className="flex items-center justify-between border-t pt-3 gap-2">
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground">{mounted ? t.exportFormat : 'Export Format'}</Label>
+                  <div className="flex gap-1">
+                    {EXPORT_FORMATS.map(format => (
+                      <Button
+                        key={format}
+                        size="sm"
+                        variant={selectedFormat === format ? 'default' : 'outline'}
+                        className="h-7 px-2 text-xs"
+                        onClick={() => setSelectedFormat(format)}
+                        disabled={isConverting}
+                      >
+                        {videoExporter.getFormatInfo(format).name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {isConverting ? (
+                    <Button size="sm" variant="outline" onClick={onCancelConversion}>
+                      <X className="h-4 w-4 mr-1" />
+                      {mounted ? t.cancelConversion : 'Cancel'}
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setIsComparing(true)}
+                      disabled={compared.length !== 2}
+                      title={mounted ? t.compareHint : 'Select two takes to compare'}
+                    >
+                      <Columns2 className="h-4 w-4 mr-1" />
+                      {mounted ? t.compareTakes : 'Compare'}
+                    </Button>
+                  )}
+                  <Button size="sm" onClick={onClose} disabled={isConverting}>
+                    <Check className="h-4 w-4 mr-1" />
+                    {mounted ? t.close : 'Close'}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useState } from 'react'
+import { Copy, Pencil, Plus, Save, Trash2 } from 'lucide-react'
+import clsx from 'clsx'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { useTranslation } from '@/lib/useTranslation'
+import {
+  SCENE_CONSTANTS,
+  type SceneCollection,
+  type SceneTransition,
+  type SceneTransitionType
+} from '@/lib/scenes'
+
+interface ScenesPanelProps {
+  collection: SceneCollection
+  onSwitch: (sceneId: string) => void
+  onCreate: () => void
+  onSaveLayout: (sceneId: string) => void
+  onDuplicate: (sceneId: string) => void
+  onRename: (sceneId: string, name: string) => void
+  onDelete: (sceneId: string) => void
+  onTransitionChange: (transition: SceneTransition) => void
+}
+
+const TRANSITION_TYPES: SceneTransitionType[] = ['cut', 'fade', 'slide']
+
+export default function ScenesPanel({
+  collection,
+  onSwitch,
+  onCreate,
+  onSaveLayout,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onTransitionChange
+}: ScenesPanelProps) {
+  const { t, mounted } = useTranslation()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const { scenes, activeSceneId, transition } = collection
+
+  const transitionLabels: Record<SceneTransitionType, string> = {
+    cut: mounted ? t.transitionCut : 'Cut',
+    fade: mounted ? t.transitionFade : 'Fade',
+    slide: mounted ? t.transitionSlide : 'Slide'
+  }
+
+  const commitRename = () => {
+    if (editingId) {
+      onRename(editingId, draftName)
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        {scenes.map((scene, index) => (
+          <div
+            key={scene.id}
+            className={clsx(
+              'flex items-center gap-1 rounded-lg border p-1',
+              scene.id === activeSceneId && 'border-primary bg-primary/10'
+            )}
+          >
+            {editingId === scene.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={event => setDraftName(event.target.value)}
+                onBlur={commitRename}
+                onKeyDown={event => {
+                  if (event.key === 'Enter') commitRename()
+                  if (event.key === 'Escape') setEditingId(null)
+                }}
+                className="flex-1 min-w-0 text-xs px-2 py-1 border rounded bg-background"
+              />
+            ) : (
+              <button
+                onClick={() => onSwitch(scene.id)}
+                onDoubleClick={() => {
+                  setEditingId(scene.id)
+                  setDraftName(scene.name)
+                }}
+                className="flex-1 min-w-0 flex items-center gap-2 px-1 text-left text-xs"
+              >
+                {index < 9 && (
+                  <span className="font-mono text-[10px] text-muted-foreground w-3">{index + 1}</span>
+                )}
+                <span className="truncate font-medium">{scene.name}</span>
+              </button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() => onSaveLayout(scene.id)}
+              title={mounted ? t.saveSceneLayout : 'Save current layout to this scene'}
+            >
+              <Save className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() => {
+                setEditingId(scene.id)
+                setDraftName(scene.name)
+              }}
+              title={mounted ? t.renameScene : 'Rename'}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() => onDuplicate(scene.id)}
+              title={mounted ? t.duplicateScene : 'Duplicate'}
+            >
+              <Copy className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0 text-red-500 hover:text-red-600"
+              onClick={() => onDelete(scene.id)}
+              disabled={scenes.length <= 1}
+              title={mounted ? t.deleteScene : 'Delete scene'}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Button variant="outline" size="sm" className="w-full text-xs" onClick={onCreate}>
+        <Plus className="w-3 h-3 mr-1" />
+        {mounted ? t.newScene : 'New scene'}
+      </Button>
+
+      <div className="space-y-1">
+        <span className="text-[10px] text-muted-foreground">{mounted ? t.sceneTransition : 'Transition'}</span>
+        <div className="grid grid-cols-3 gap-2">
+          {TRANSITION_TYPES.map(type => (
+            <Button
+              key={type}
+              variant={transition.type === type ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onTransitionChange({ ...transition, type })}
+            >
+              {transitionLabels[type]}
+            </Button>
+          ))}
+        </div>
+        {transition.type !== 'cut' && (
+          <div className="flex items-center gap-2">
+            <Slider
+              value={[transition.durationMs]}
+              onValueChange={([durationMs]) => onTransitionChange({ ...transition, durationMs })}
+              min={SCENE_CONSTANTS.MIN_TRANSITION_MS}
+              max={SCENE_CONSTANTS.MAX_TRANSITION_MS}
+              step={50}
+              className="flex-1"
+            />
+            <span className="text-[10px] font-mono w-12 text-right">{(transition.durationMs / 1000).toFixed(2)}s</span>
+          </div>
+        )}
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">{mounted ? t.scenesHint : 'Alt+1–9 switches scenes, also while recording'}</p>
+    </div>
+  )
+}
@@ -20,14 +20,8 @@ import {
   Maximize2
 } from 'lucide-react'
 
-interface TeleprompterProps {
-  isVisible: boolean
-  onToggleVisibility: () => void
-  isRecording?: boolean
-}
-
-export default function Teleprompter({ isVisible, onToggleVisibility, isRecording = false }: TeleprompterProps) {
-  const [text, setText] = useState(`Welcome to your video presentation!
+// Shown until the presenter writes their own script
+export const DEFAULT_TELEPROMPTER_SCRIPT = `Welcome to your video presentation!
 
 Today we'll be covering several important topics that will help you understand the key concepts we're discussing.
 
@@ -41,8 +35,18 @@ You can customize the scroll speed and text size to match your reading preferenc
 
 Feel free to edit this text to include your own presentation script.
 
-Thank you for watching, and let's begin!`)
-  
+Thank you for watching, and let's begin!`
+
+interface TeleprompterProps {
+  isVisible: boolean
+  onToggleVisibility: () => void
+  isRecording?: boolean
+  // The script is part of the project, so it is owned by the presenter
+  text: string
+  onTextChange: (text: string) => void
+}
+
+export default function Teleprompter({ isVisible, onToggleVisibility, isRecording = false, text, onTextChange: setText }: TeleprompterProps) {
   const [isScrolling, setIsScrolling] = useState(false)
   const [scrollSpeed, setScrollSpeed] = useState(1.5)
   const [fontSize, setFontSize] = useState(24)
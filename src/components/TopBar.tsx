@@ -1,11 +1,13 @@
 'use client'
 
-import { Settings, Users, HelpCircle, FileImage, FileVideo, FileText } from 'lucide-react'
+import { useRef } from 'react'
+import { Settings, Users, HelpCircle, FileImage, FileVideo, FileText, Download, FolderOpen } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { useTranslation } from '@/lib/useTranslation'
 import LanguageSwitcher from './LanguageSwitcher'
+import { PROJECT_CONSTANTS } from '@/lib/project'
 
 // Logo Component
 const VideoPresenterLogo = () => (
@@ -37,9 +39,23 @@ const VideoPresenterLogo = () => (
   </svg>
 )
 
-export default function TopBar() {
+interface TopBarProps {
+  onSaveProject?: () => void
+  onOpenProject?: (file: File) => void
+  isProjectBusy?: boolean
+}
+
+export default function TopBar({ onSaveProject, onOpenProject, isProjectBusy = false }: TopBarProps) {
   const { t, mounted } = useTranslation()
-  
+  const projectInputRef = useRef<HTMLInputElement>(null)
+
+  const handleProjectFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onOpenProject?.(file)
+    // Allow opening the same file again
+    e.target.value = ''
+  }
+
   return (
     <TooltipProvider>
       <div className="flex items-center justify-between p-4 bg-background border-b border-border">
@@ -48,6 +64,40 @@ export default function TopBar() {
         </div>
 
         <div className="flex items-center gap-2">
+          {onSaveProject && onOpenProject && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => projectInputRef.current?.click()}
+                disabled={isProjectBusy}
+                title={mounted ? t.openProjectHint : 'Open a project file shared with you'}
+              >
+                <FolderOpen className="h-4 w-4 mr-1" />
+                {mounted ? t.openProject : 'Open project'}
+              </Button>
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept={`${PROJECT_CONSTANTS.FILE_EXTENSION},.zip`}
+                className="hidden"
+                onChange={handleProjectFileChange}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onSaveProject}
+                disabled={isProjectBusy}
+                title={mounted ? t.saveProjectHint : 'Save board, settings, script and backgrounds to a file'}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                {mounted ? t.saveProject : 'Save project'}
+              </Button>
+
+              <Separator orientation="vertical" className="h-6" />
+            </>
+          )}
+
           <LanguageSwitcher />
           
           <Separator orientation="vertical" className="h-6" />
@@ -1,19 +1,99 @@
 'use client'
 
 import React from 'react'
-import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react'
+import { useEffect, useRef, useState, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react'
 import Image from 'next/image'
 import { PresenterSettings } from './VideoPresenter'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Move, Upload, FileImage, FileVideo, FileText, X, Copy, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuShortcut, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { Move, Upload, FileImage, FileVideo, FileText, X, Copy, ZoomIn, ZoomOut, RotateCcw, EyeOff, Eye, Undo2, Redo2, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Group, Ungroup, Trash2, RotateCw, Lock, Unlock, BringToFront, SendToBack, ArrowUp, ArrowDown, Presentation, Pencil, PenLine, Highlighter, MoveUpRight, Square, MousePointer2, Eraser, ScanSearch, Flashlight } from 'lucide-react'
 import DocumentViewer from './DocumentViewer'
+import PagedDocumentViewer from './PagedDocumentViewer'
+import AnnotationLayer, { type AnnotationLayerHandle } from './AnnotationLayer'
 import { BlurController } from '@/lib/blur/BlurController'
 // import type { BlurStatus } from '@/lib/blur/types'
+import {
+  animateFocus,
+  boardRectToStage,
+  getFocusFrame,
+  getFocusTransform,
+  getPresenterFilter,
+  getShapeClipPath,
+  getVirtualBackgroundCss,
+  isFocusAnimating,
+  padFocusRegion,
+  STAGE_CONSTANTS,
+  type StageFocus,
+  type StageFocusAnimation,
+  type StageFocusFrame,
+  type StageFocusKind,
+  type StageRect,
+  type StageSnapshot
+} from '@/lib/stage'
+import type { SceneView } from '@/lib/scenes'
+import { ANNOTATION_CONSTANTS, type Annotation, type AnnotationTool } from '@/lib/annotations'
+import { createValueCommand, type UndoHistory } from '@/lib/history'
+import { applyPageAction, convertSlideDeck, getPageAction, isSlideDeckFile, type SlideChangeEvent } from '@/lib/documents'
+import {
+  BOARD_CONSTANTS,
+  alignItems,
+  canGroup,
+  canUngroup,
+  distributeItems,
+  expandToGroups,
+  getBounds,
+  getMarqueeRect,
+  getPointerAngle,
+  groupItems,
+  normalizeAngle,
+  pickActiveItem,
+  rectsIntersect,
+  reorderItems,
+  snapAngle,
+  snapRect,
+  toggleSelection,
+  ungroupItems,
+  type AlignMode,
+  type BoardRect,
+  type DistributeAxis,
+  type SnapGuide,
+  type ZOrderCommand
+} from '@/lib/board'
+
+export interface BoardItem {
+  id: string
+  // Decks are PDFs and converted slide decks that remember their page
+  type: 'image' | 'video' | 'document' | 'deck' | 'note'
+  src?: string
+  content?: string
+  fileName?: string
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation: number
+  zIndex: number
+  // Items sharing a group id are selected and moved together
+  groupId?: string
+  // Locked items can still be selected but not moved, resized or rotated
+  locked?: boolean
+  // Slide images of an imported PowerPoint or OpenDocument deck, one per page
+  pages?: string[]
+  // Current page of a deck, from 1
+  page?: number
+}
 
 export interface VideoCanvasHandle {
   addNote: () => void
   getProcessedCanvas: () => HTMLCanvasElement | null
+  getStageSnapshot: () => StageSnapshot | null
+  getSceneView: () => SceneView
+  applySceneView: (view: SceneView) => void
+  getBoardItems: () => BoardItem[]
+  loadBoardItems: (items: BoardItem[]) => void
+  // The deck page the slide keys currently drive, if any
+  getActiveSlide: () => { fileName: string | null; page: number } | null
 }
 
 interface VideoCanvasProps {
@@ -23,9 +103,52 @@ interface VideoCanvasProps {
   isRecording: boolean
   isPictureInPicture: boolean
   blurController?: BlurController
+  // Fired whenever the board or its view changes, e.g. to autosave it
+  onBoardChange?: () => void
+  // Fired when a deck turns to another page, by click, keyboard or remote
+  onSlideChange?: (event: SlideChangeEvent) => void
+  history?: UndoHistory
+  // Drawings over the board; annotating is only offered with a change handler
+  annotations?: Annotation[]
+  onAnnotationsChange?: (annotations: Annotation[], label: string) => void
 }
 
-const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function VideoCanvas({ videoRef, settings, onSettingsChange, isRecording, isPictureInPicture, blurController }, ref) {
+const ALIGN_ACTIONS: { mode: AlignMode; label: string; icon: typeof AlignStartVertical }[] = [
+  { mode: 'left', label: 'Align left', icon: AlignStartVertical },
+  { mode: 'center', label: 'Align centers horizontally', icon: AlignCenterVertical },
+  { mode: 'right', label: 'Align right', icon: AlignEndVertical },
+  { mode: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { mode: 'middle', label: 'Align centers vertically', icon: AlignCenterHorizontal },
+  { mode: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal }
+]
+
+const DISTRIBUTE_ACTIONS: { axis: DistributeAxis; label: string; icon: typeof AlignStartVertical }[] = [
+  { axis: 'horizontal', label: 'Distribute horizontally', icon: AlignHorizontalDistributeCenter },
+  { axis: 'vertical', label: 'Distribute vertically', icon: AlignVerticalDistributeCenter }
+]
+
+// Guides and the marquee draw above every board item
+const Z_ORDER_ACTIONS: { command: ZOrderCommand; label: string; shortcut: string; icon: typeof BringToFront }[] = [
+  { command: 'bring-to-front', label: 'Bring to front', shortcut: 'Ctrl+Shift+]', icon: BringToFront },
+  { command: 'bring-forward', label: 'Bring forward', shortcut: 'Ctrl+]', icon: ArrowUp },
+  { command: 'send-backward', label: 'Send backward', shortcut: 'Ctrl+[', icon: ArrowDown },
+  { command: 'send-to-back', label: 'Send to back', shortcut: 'Ctrl+Shift+[', icon: SendToBack }
+]
+
+const ANNOTATION_TOOLS: { tool: AnnotationTool; label: string; shortcut: string; icon: typeof Pencil }[] = [
+  { tool: 'pen', label: 'Pen', shortcut: 'P', icon: PenLine },
+  { tool: 'highlighter', label: 'Highlighter', shortcut: 'H', icon: Highlighter },
+  { tool: 'arrow', label: 'Arrow', shortcut: 'A', icon: MoveUpRight },
+  { tool: 'rectangle', label: 'Rectangle', shortcut: 'R', icon: Square },
+  { tool: 'laser', label: 'Laser pointer', shortcut: 'L', icon: MousePointer2 },
+  { tool: 'eraser', label: 'Eraser', shortcut: 'E', icon: Eraser }
+]
+
+const NO_ANNOTATIONS: Annotation[] = []
+
+const OVERLAY_Z_INDEX = 10000
+
+const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function VideoCanvas({ videoRef, settings, onSettingsChange, isRecording, isPictureInPicture, blurController, onBoardChange, onSlideChange, history, annotations = NO_ANNOTATIONS, onAnnotationsChange }, ref) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const videoContainerRef = useRef<HTMLDivElement>(null)
@@ -33,9 +156,38 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
   const [isDragOver, setIsDragOver] = useState(false)
   const [boardItems, setBoardItems] = useState<BoardItem[]>([])
-  const [selectedItem, setSelectedItem] = useState<string | null>(null)
+  const [historyState, setHistoryState] = useState(() => history?.getState() ?? null)
+  // Latest items, so several changes in one event each see the previous one
+  const boardItemsRef = useRef<BoardItem[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([])
+  const [marquee, setMarquee] = useState<BoardRect | null>(null)
+  // The zoomed and panned layer that board coordinates are relative to
+  const boardRef = useRef<HTMLDivElement>(null)
+  // A marquee drag ends in a click on the board, which must not deselect
+  const suppressClickRef = useRef(false)
   const [draggingItemId, setDraggingItemId] = useState<string | null>(null)
+  const [rotatingItemId, setRotatingItemId] = useState<string | null>(null)
+  // Client position of the open item context menu
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null)
   const [editingNoteId, setEditingNoteId] = useState<string | null>(null)
+  // Annotate mode is on while a tool is picked
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool | null>(null)
+  const [annotationColor, setAnnotationColor] = useState<string>(ANNOTATION_CONSTANTS.DEFAULT_COLOR)
+  const annotationLayerRef = useRef<AnnotationLayerHandle>(null)
+  // Zoom-to-region or spotlight effect; the animation is what gets recorded,
+  // the frame state replays it in the preview
+  const focusAnimationRef = useRef<StageFocusAnimation | null>(null)
+  const focusAnimationFrameRef = useRef<number | null>(null)
+  const [focusFrame, setFocusFrame] = useState<StageFocusFrame | null>(null)
+  const [focusTarget, setFocusTarget] = useState<StageFocus | null>(null)
+  // The effect waiting for a region to be dragged out, and the region so far
+  const [focusPickKind, setFocusPickKind] = useState<StageFocusKind | null>(null)
+  const [focusPickRect, setFocusPickRect] = useState<StageRect | null>(null)
+  // Deck last clicked or turned; the slide keys drive it when nothing is selected
+  const [activeDeckId, setActiveDeckId] = useState<string | null>(null)
+  // Page counts reported by the deck viewers once their documents load
+  const deckPageCountsRef = useRef(new Map<string, number>())
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [isResizing, setIsResizing] = useState(false)
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -51,22 +203,11 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
   const [panOffset, setPanOffset] = useState({ x: 0, y: 0 })
   const [isPanning, setIsPanning] = useState(false)
   const [panStart, setPanStart] = useState({ x: 0, y: 0 })
+  // Scene visibility; items added later show up in every scene
+  const [itemsVisible, setItemsVisible] = useState(true)
+  const [hiddenItemIds, setHiddenItemIds] = useState<string[]>([])
   const moveFrameRef = useRef<number | null>(null)
 
-  interface BoardItem {
-    id: string
-    type: 'image' | 'video' | 'document' | 'note'
-    src?: string
-    content?: string
-    fileName?: string
-    x: number
-    y: number
-    width: number
-    height: number
-    rotation: number
-    zIndex: number
-  }
-
   // Drag functionality
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     e.preventDefault()
@@ -183,6 +324,49 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
     return hasValidMimeType || hasValidExtension
   }
 
+  useEffect(() => {
+    if (!history) return
+    setHistoryState(history.getState())
+    return history.subscribe(() => setHistoryState(history.getState()))
+  }, [history])
+
+  // Undo and redo put items back through here, so they are not recorded again
+  const replaceBoardItems = useCallback((items: BoardItem[]) => {
+    boardItemsRef.current = items
+    setBoardItems(items)
+  }, [])
+
+  // Page turns are not undoable, so undoing a move must not turn a deck back
+  const restoreBoardItems = useCallback((items: BoardItem[]) => {
+    const pages = new Map(boardItemsRef.current.map(item => [item.id, item.page]))
+    replaceBoardItems(items.map(item => pages.get(item.id) !== undefined ? { ...item, page: pages.get(item.id) } : item))
+  }, [replaceBoardItems])
+
+  // Every user change to the board goes through here to be undoable
+  const updateBoardItems = useCallback((label: string, update: (items: BoardItem[]) => BoardItem[], coalesceKey?: string) => {
+    const before = boardItemsRef.current
+    const after = update(before)
+    replaceBoardItems(after)
+    history?.push(createValueCommand(label, before, after, restoreBoardItems, coalesceKey))
+  }, [history, replaceBoardItems, restoreBoardItems])
+
+  const changeDeckPage = useCallback((itemId: string, page: number) => {
+    const item = boardItemsRef.current.find(candidate => candidate.id === itemId)
+    if (!item) return
+    const previousPage = item.page ?? 1
+    setActiveDeckId(itemId)
+    if (page === previousPage) return
+
+    replaceBoardItems(boardItemsRef.current.map(candidate => candidate.id === itemId ? { ...candidate, page } : candidate))
+    onSlideChange?.({
+      itemId,
+      fileName: item.fileName ?? null,
+      page,
+      previousPage,
+      pageCount: deckPageCountsRef.current.get(itemId) ?? null
+    })
+  }, [replaceBoardItems, onSlideChange])
+
   const handleFiles = useCallback(async (files: FileList | File[]) => {
     const fileArray = Array.from(files)
     const results = {
@@ -219,6 +403,22 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
           itemType = 'document'
         }
         
+        // PowerPoint and OpenDocument decks are converted to one image per slide;
+        // if that fails the item falls back to the download placeholder
+        let pages: string[] | undefined
+        let deckAspectRatio: number | null = null
+        if (itemType === 'document' && isSlideDeckFile(file.name)) {
+          try {
+            const deck = await convertSlideDeck(file)
+            pages = deck.images.map(image => URL.createObjectURL(image))
+            deckAspectRatio = deck.height / deck.width
+          } catch (error) {
+            console.warn(`⚠️ Could not convert "${file.name}" to slides:`, error)
+          }
+        }
+        // PDFs and converted decks can be paged through, so they become decks
+        const isDeck = itemType === 'document' && (pages !== undefined || file.name.toLowerCase().endsWith('.pdf') || file.type.includes('pdf'))
+        
         // Calculate board dimensions based on zoom level
         const container = containerRef.current
         const boardWidth = container ? (zoomLevel < 1 ? container.clientWidth / zoomLevel : container.clientWidth) : 800
@@ -249,18 +449,21 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
         
         const newItem: BoardItem = {
           id: `item-${Date.now()}-${Math.random()}`,
-          type: itemType,
+          type: isDeck ? 'deck' : itemType,
           src: fileUrl,
           fileName: file.name,
+          pages,
+          page: isDeck ? 1 : undefined,
           x,
           y,
-          width: itemType === 'image' ? 200 : itemType === 'video' ? 300 : 250,
-          height: itemType === 'image' ? 150 : itemType === 'video' ? 200 : 180,
+          width: itemType === 'image' ? 200 : itemType === 'video' ? 300 : deckAspectRatio ? 320 : 250,
+          // Decks keep the slide shape below the viewer's header
+          height: itemType === 'image' ? 150 : itemType === 'video' ? 200 : deckAspectRatio ? Math.round(320 * deckAspectRatio) + 44 : 180,
           rotation: 0,
           zIndex: boardItems.length + results.processed + 1
         }
         
-        setBoardItems(prev => [...prev, newItem])
+        updateBoardItems('Add file', prev => [...prev, newItem])
         results.processed++
         
       } catch (error) {
@@ -277,7 +480,7 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
         ? results.errors[0]
         : `${results.errors.length} files had errors:\n${results.errors.slice(0, 3).join('\n')}${results.errors.length > 3 ? '\n...' : ''}`
       
-      alert(`❌ No files could be processed.\n\n${errorMessage}\n\nSupported formats: .png, .jpg, .gif, .webp, .mp4, .webm, .pdf, .pptx, .key`)
+      alert(`❌ No files could be processed.\n\n${errorMessage}\n\nSupported formats: .png, .jpg, .gif, .webp, .mp4, .webm, .pdf, .pptx, .odp, .key`)
     } else if (results.processed > 0) {
       // Some or all files processed
       let message = `✅ Successfully added ${results.processed} file${results.processed === 1 ? '' : 's'} to your board!`
@@ -298,7 +501,7 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
       
       console.log(message)
     }
-  }, [boardItems, zoomLevel, settings.position])
+  }, [boardItems, zoomLevel, settings.position, updateBoardItems])
 
   // Drag and drop event handlers
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -344,20 +547,66 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
     }
   }
 
+  const visibleItems = useMemo(
+    () => itemsVisible ? boardItems.filter(item => !hiddenItemIds.includes(item.id)) : [],
+    [boardItems, itemsVisible, hiddenItemIds]
+  )
+
+  // Board coordinates of an element, whatever the zoom and pan
+  const toBoardRect = useCallback((element: Element): BoardRect | null => {
+    const board = boardRef.current?.getBoundingClientRect()
+    if (!board) return null
+    const rect = element.getBoundingClientRect()
+    return {
+      x: (rect.left - board.left) / zoomLevel,
+      y: (rect.top - board.top) / zoomLevel,
+      width: rect.width / zoomLevel,
+      height: rect.height / zoomLevel
+    }
+  }, [zoomLevel])
+
+  const getPresenterRect = useCallback((): BoardRect | null => {
+    const video = videoContainerRef.current
+    if (!video || settings.backgroundType === 'hidden') return null
+    return toBoardRect(video)
+  }, [toBoardRect, settings.backgroundType])
+
   // Board item manipulation functions
   const handleItemMouseDown = useCallback((e: React.MouseEvent, itemId: string) => {
     e.preventDefault()
     e.stopPropagation()
-    setSelectedItem(itemId)
+    setIsVideoSelected(false) // Deselect video when selecting board item
+    if (boardItems.find(item => item.id === itemId)?.type === 'deck') {
+      setActiveDeckId(itemId)
+    }
+    if (e.button !== 0) return // Right clicks open the context menu instead
+
+    // Shift-click only adds to or removes from the selection
+    if (e.shiftKey) {
+      setSelectedIds(prev => toggleSelection(prev, itemId, boardItems))
+      return
+    }
+
+    // Dragging an item of a multi-selection moves the whole selection
+    const selection = selectedIds.includes(itemId) ? selectedIds : expandToGroups([itemId], boardItems)
+    setSelectedIds(selection)
+
+    // Locked items stay selected but are left where they are
+    const dragged = boardItems.filter(item => selection.includes(item.id) && !item.locked)
+    const bounds = getBounds(dragged)
+    if (!bounds) return
     setDraggingItemId(itemId)
-    
-    const item = boardItems.find(item => item.id === itemId)
-    if (!item) return
+    const startPositions = new Map(dragged.map(item => [item.id, { x: item.x, y: item.y }]))
+    const presenterRect = getPresenterRect()
+    const snapTargets = [
+      ...visibleItems.filter(item => !selection.includes(item.id)),
+      ...(presenterRect ? [presenterRect] : [])
+    ]
     
     const rect = containerRef.current?.getBoundingClientRect()
     if (rect) {
-      const startX = e.clientX - rect.left - item.x
-      const startY = e.clientY - rect.top - item.y
+      const startX = e.clientX - rect.left - bounds.x
+      const startY = e.clientY - rect.top - bounds.y
       
       const handleMouseMove = (e: MouseEvent) => {
         const newX = e.clientX - rect.left - startX
@@ -370,8 +619,6 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
           // When zoomed out, allow items to move across the entire expanded board space
           const expandedWidth = rect.width / zoomLevel
           const expandedHeight = rect.height / zoomLevel
-          const itemWidth = item.width
-          const itemHeight = item.height
           
           // Calculate the expanded board boundaries
           const boardOffsetX = -(expandedWidth - rect.width) / 2
@@ -379,28 +626,35 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
           
           minX = boardOffsetX
           minY = boardOffsetY
-          maxX = boardOffsetX + expandedWidth - itemWidth
-          maxY = boardOffsetY + expandedHeight - itemHeight
+          maxX = boardOffsetX + expandedWidth - bounds.width
+          maxY = boardOffsetY + expandedHeight - bounds.height
         } else {
           // When zoomed in or at normal zoom, use more relaxed bounds
-          minX = -item.width * 0.5 // Allow items to go slightly off-screen
-          minY = -item.height * 0.5
-          maxX = rect.width + item.width * 0.5
-          maxY = rect.height + item.height * 0.5
+          minX = -bounds.width * 0.5 // Allow items to go slightly off-screen
+          minY = -bounds.height * 0.5
+          maxX = rect.width + bounds.width * 0.5
+          maxY = rect.height + bounds.height * 0.5
         }
         
         const clampedX = Math.max(minX, Math.min(newX, maxX))
         const clampedY = Math.max(minY, Math.min(newY, maxY))
 
+        // Hold Alt to place freely without snapping
+        const snap = e.altKey
+          ? { dx: 0, dy: 0, guides: [] }
+          : snapRect({ ...bounds, x: clampedX, y: clampedY }, snapTargets, BOARD_CONSTANTS.SNAP_THRESHOLD / zoomLevel)
+        const dx = clampedX + snap.dx - bounds.x
+        const dy = clampedY + snap.dy - bounds.y
+
         if (moveFrameRef.current) {
           cancelAnimationFrame(moveFrameRef.current)
         }
         moveFrameRef.current = requestAnimationFrame(() => {
-          setBoardItems(prev => prev.map(prevItem =>
-            prevItem.id === itemId
-              ? { ...prevItem, x: clampedX, y: clampedY }
-              : prevItem
-          ))
+          setSnapGuides(snap.guides)
+          updateBoardItems(dragged.length > 1 ? 'Move items' : 'Move item', prev => prev.map(prevItem => {
+            const start = startPositions.get(prevItem.id)
+            return start ? { ...prevItem, x: start.x + dx, y: start.y + dy } : prevItem
+          }), `move:${selection.join(',')}`)
         })
       }
 
@@ -410,6 +664,8 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
           moveFrameRef.current = null
         }
         setDraggingItemId(null)
+        setSnapGuides([])
+        history?.endCoalescing()
         document.removeEventListener('mousemove', handleMouseMove)
         document.removeEventListener('mouseup', handleMouseUp)
       }
@@ -417,17 +673,17 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
       document.addEventListener('mousemove', handleMouseMove)
       document.addEventListener('mouseup', handleMouseUp)
     }
-  }, [boardItems, zoomLevel])
+  }, [boardItems, selectedIds, visibleItems, getPresenterRect, zoomLevel, updateBoardItems, history])
 
   const handleResizeMouseDown = useCallback((e: React.MouseEvent, itemId: string, handle: string) => {
     e.preventDefault()
     e.stopPropagation()
+    setSelectedIds([itemId])
+
+    const item = boardItems.find(item => item.id === itemId)
+    if (!item || item.locked) return
     setIsResizing(true)
     setResizeHandle(handle)
-    setSelectedItem(itemId)
-    
-    const item = boardItems.find(item => item.id === itemId)
-    if (!item) return
     
     const rect = containerRef.current?.getBoundingClientRect()
     if (!rect) return
@@ -471,28 +727,76 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
           break
       }
       
-      setBoardItems(prev => prev.map(prevItem => 
+      updateBoardItems('Resize item', prev => prev.map(prevItem => 
         prevItem.id === itemId 
           ? { ...prevItem, width: newWidth, height: newHeight, x: newX, y: newY }
           : prevItem
-      ))
+      ), `resize:${itemId}`)
     }
     
     const handleMouseUp = () => {
       setIsResizing(false)
       setResizeHandle(null)
+      history?.endCoalescing()
       document.removeEventListener('mousemove', handleMouseMove)
       document.removeEventListener('mouseup', handleMouseUp)
     }
     
     document.addEventListener('mousemove', handleMouseMove)
     document.addEventListener('mouseup', handleMouseUp)
-  }, [boardItems])
+  }, [boardItems, updateBoardItems, history])
+
+  const handleRotateMouseDown = useCallback((e: React.MouseEvent, itemId: string) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setSelectedIds([itemId])
+
+    const item = boardItems.find(item => item.id === itemId)
+    const element = (e.currentTarget as HTMLElement).closest('[data-board-item-id]')
+    if (!item || item.locked || !element) return
+    setRotatingItemId(itemId)
+
+    // The bounding box of a rotated element is still centred on the item
+    const box = element.getBoundingClientRect()
+    const center = { x: box.left + box.width / 2, y: box.top + box.height / 2 }
+    const startAngle = getPointerAngle(center, { x: e.clientX, y: e.clientY })
+    const startRotation = item.rotation
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const angle = normalizeAngle(startRotation + getPointerAngle(center, { x: e.clientX, y: e.clientY }) - startAngle)
+      // Hold Shift to turn in fixed steps
+      const rotation = e.shiftKey ? snapAngle(angle) : Math.round(angle)
+      updateBoardItems('Rotate item', prev => prev.map(prevItem =>
+        prevItem.id === itemId ? { ...prevItem, rotation } : prevItem
+      ), `rotate:${itemId}`)
+    }
+
+    const handleMouseUp = () => {
+      setRotatingItemId(null)
+      history?.endCoalescing()
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+  }, [boardItems, updateBoardItems, history])
+
+  const handleItemContextMenu = (e: React.MouseEvent, itemId: string) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsVideoSelected(false)
+    // Right-clicking outside the selection acts on the clicked item (and its group)
+    if (!selectedIds.includes(itemId)) {
+      setSelectedIds(expandToGroups([itemId], boardItems))
+    }
+    setContextMenu({ x: e.clientX, y: e.clientY })
+  }
 
   const deleteItem = useCallback((itemId: string) => {
-    setBoardItems(prev => prev.filter(item => item.id !== itemId))
-    setSelectedItem(null)
-  }, [])
+    updateBoardItems('Delete item', prev => prev.filter(item => item.id !== itemId))
+    setSelectedIds([])
+  }, [updateBoardItems])
 
   const duplicateItem = useCallback((itemId: string) => {
     const item = boardItems.find(item => item.id === itemId)
@@ -507,13 +811,13 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
         y: item.y + offset,
         zIndex: Math.max(...boardItems.map(i => i.zIndex)) + 1
       }
-      setBoardItems(prev => [...prev, newItem])
+      updateBoardItems('Duplicate item', prev => [...prev, newItem])
     }
-  }, [boardItems, zoomLevel])
+  }, [boardItems, zoomLevel, updateBoardItems])
 
   const updateItemContent = useCallback((itemId: string, content: string) => {
-    setBoardItems(prev => prev.map(item => item.id === itemId ? { ...item, content } : item))
-  }, [])
+    updateBoardItems('Edit note', prev => prev.map(item => item.id === itemId ? { ...item, content } : item), `edit:${itemId}`)
+  }, [updateBoardItems])
 
   const addNote = useCallback((x?: number, y?: number) => {
     const rect = containerRef.current?.getBoundingClientRect()
@@ -535,15 +839,343 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
       zIndex: boardItems.length + 1
     }
 
-    setBoardItems(prev => [...prev, newItem])
-    setSelectedItem(newItem.id)
+    updateBoardItems('Add note', prev => [...prev, newItem])
+    setSelectedIds([newItem.id])
     setEditingNoteId(newItem.id)
     setIsVideoSelected(false)
-  }, [boardItems, zoomLevel])
+  }, [boardItems, zoomLevel, updateBoardItems])
+
+  const hiddenItemCount = boardItems.length - visibleItems.length
+
+  const selectedItems = useMemo(
+    () => boardItems.filter(item => selectedIds.includes(item.id)),
+    [boardItems, selectedIds]
+  )
+
+  const moveItemsTo = (label: string, positions: Map<string, { x: number; y: number }>) => {
+    if (positions.size === 0) return
+    updateBoardItems(label, prev => prev.map(item => {
+      const position = positions.get(item.id)
+      return position && !item.locked ? { ...item, ...position } : item
+    }))
+  }
+
+  const alignSelection = (mode: AlignMode) => {
+    moveItemsTo('Align items', alignItems(selectedItems, mode))
+  }
+
+  const distributeSelection = (axis: DistributeAxis) => {
+    moveItemsTo('Distribute items', distributeItems(selectedItems, axis))
+  }
+
+  const groupSelection = useCallback(() => {
+    if (!canGroup(selectedIds, boardItemsRef.current)) return
+    const groupId = `group-${Date.now()}-${Math.random()}`
+    updateBoardItems('Group items', prev => groupItems(prev, selectedIds, groupId))
+  }, [selectedIds, updateBoardItems])
+
+  const ungroupSelection = useCallback(() => {
+    if (!canUngroup(selectedIds, boardItemsRef.current)) return
+    updateBoardItems('Ungroup items', prev => ungroupItems(prev, selectedIds))
+  }, [selectedIds, updateBoardItems])
+
+  const deleteSelection = useCallback(() => {
+    if (selectedIds.length === 0) return
+    updateBoardItems(selectedIds.length > 1 ? 'Delete items' : 'Delete item', prev => prev.filter(item => !selectedIds.includes(item.id)))
+    setSelectedIds([])
+  }, [selectedIds, updateBoardItems])
+
+  const reorderSelection = useCallback((command: ZOrderCommand) => {
+    if (selectedIds.length === 0) return
+    const label = Z_ORDER_ACTIONS.find(action => action.command === command)?.label ?? 'Reorder items'
+    updateBoardItems(label, prev => reorderItems(prev, selectedIds, command))
+  }, [selectedIds, updateBoardItems])
+
+  const isSelectionLocked = selectedItems.length > 0 && selectedItems.every(item => item.locked)
+
+  const setSelectionLocked = (locked: boolean) => {
+    const label = `${locked ? 'Lock' : 'Unlock'} ${selectedIds.length > 1 ? 'items' : 'item'}`
+    updateBoardItems(label, prev => prev.map(item => selectedIds.includes(item.id) ? { ...item, locked } : item))
+  }
+
+  const resetSelectionRotation = () => {
+    updateBoardItems('Reset rotation', prev => prev.map(item =>
+      selectedIds.includes(item.id) && !item.locked ? { ...item, rotation: 0 } : item
+    ))
+  }
+
+  // Ease towards a focus effect, or back out of one when focus is null
+  const setFocus = useCallback((focus: StageFocus | null) => {
+    focusAnimationRef.current = animateFocus(focusAnimationRef.current, focus, performance.now())
+    setFocusTarget(focus)
+    if (focusAnimationFrameRef.current !== null) return
+
+    const tick = () => {
+      const now = performance.now()
+      setFocusFrame(getFocusFrame(focusAnimationRef.current, now))
+      focusAnimationFrameRef.current = isFocusAnimating(focusAnimationRef.current, now) ? requestAnimationFrame(tick) : null
+    }
+    focusAnimationFrameRef.current = requestAnimationFrame(tick)
+  }, [])
+
+  useEffect(() => () => {
+    if (focusAnimationFrameRef.current !== null) cancelAnimationFrame(focusAnimationFrameRef.current)
+  }, [])
+
+  // Focus on the selected items when there are any, otherwise wait for a
+  // region to be dragged out. The active effect's own key turns it off.
+  const toggleFocus = useCallback((kind: StageFocusKind) => {
+    setFocusPickRect(null)
+    if (focusTarget?.kind === kind || focusPickKind === kind) {
+      setFocusPickKind(null)
+      setFocus(null)
+      return
+    }
+
+    const container = containerRef.current
+    const bounds = getBounds(visibleItems.filter(item => selectedIds.includes(item.id)))
+    if (container && bounds) {
+      const view = { width: container.clientWidth, height: container.clientHeight, zoomLevel, panOffset }
+      setFocusPickKind(null)
+      setFocus({ kind, region: padFocusRegion(boardRectToStage(bounds, view), view.width, view.height) })
+    } else {
+      // Regions are picked on the unfocused stage
+      setFocus(null)
+      setFocusPickKind(kind)
+    }
+  }, [focusTarget, focusPickKind, visibleItems, selectedIds, zoomLevel, panOffset, setFocus])
+
+  // Drag out a focus region in stage coordinates, like the selection marquee
+  const handleFocusPickMouseDown = (e: React.MouseEvent) => {
+    const container = containerRef.current
+    const kind = focusPickKind
+    if (e.button !== 0 || !container || !kind) return
+    e.preventDefault()
+    e.stopPropagation()
+
+    const containerRect = container.getBoundingClientRect()
+    const toStagePoint = (event: { clientX: number; clientY: number }) => ({
+      x: Math.min(container.clientWidth, Math.max(0, event.clientX - containerRect.left)),
+      y: Math.min(container.clientHeight, Math.max(0, event.clientY - containerRect.top))
+    })
+    const start = toStagePoint(e)
+
+    const handleMouseMove = (event: MouseEvent) => {
+      setFocusPickRect(getMarqueeRect(start, toStagePoint(event)))
+    }
+
+    const handleMouseUp = (event: MouseEvent) => {
+      const region = getMarqueeRect(start, toStagePoint(event))
+      setFocusPickRect(null)
+      // A click without a drag keeps waiting for a region
+      if (Math.max(region.width, region.height) >= STAGE_CONSTANTS.FOCUS_MIN_REGION) {
+        setFocusPickKind(null)
+        setFocus({ kind, region })
+      }
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+  }
+
+  // Delete, Escape, grouping, stacking, focus and annotation tool shortcuts; ignored while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof Element && e.target.matches('input, textarea, select, [contenteditable="true"]')) return
+      const annotationShortcut = annotationTool && !e.ctrlKey && !e.metaKey && !e.altKey
+        ? ANNOTATION_TOOLS.find(({ shortcut }) => shortcut === e.key.toUpperCase())
+        : undefined
+
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0) {
+        e.preventDefault()
+        deleteSelection()
+      } else if (e.key === 'Escape') {
+        // Each Escape undoes one thing: a focus effect, annotate mode, then the selection
+        if (focusPickKind) {
+          setFocusPickKind(null)
+          setFocusPickRect(null)
+        } else if (focusTarget) {
+          setFocus(null)
+        } else if (annotationTool) {
+          setAnnotationTool(null)
+        } else {
+          setSelectedIds([])
+        }
+      } else if (annotationShortcut) {
+        e.preventDefault()
+        setAnnotationTool(annotationShortcut.tool)
+      } else if (!e.ctrlKey && !e.metaKey && !e.altKey && (e.key === 'z' || e.key === 's')) {
+        e.preventDefault()
+        toggleFocus(e.key === 'z' ? 'zoom' : 'spotlight')
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') {
+        e.preventDefault()
+        if (e.shiftKey) {
+          ungroupSelection()
+        } else {
+          groupSelection()
+        }
+      } else if ((e.ctrlKey || e.metaKey) && (e.code === 'BracketRight' || e.code === 'BracketLeft') && selectedIds.length > 0) {
+        // Shift turns one step into all the way
+        e.preventDefault()
+        if (e.code === 'BracketRight') {
+          reorderSelection(e.shiftKey ? 'bring-to-front' : 'bring-forward')
+        } else {
+          reorderSelection(e.shiftKey ? 'send-to-back' : 'send-backward')
+        }
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [selectedIds, deleteSelection, groupSelection, ungroupSelection, reorderSelection, annotationTool, focusPickKind, focusTarget, setFocus, toggleFocus])
+
+  const visibleDecks = useMemo(() => visibleItems.filter(item => item.type === 'deck'), [visibleItems])
+  const activeDeck = useMemo(
+    () => pickActiveItem(visibleDecks, [...selectedIds, activeDeckId]),
+    [visibleDecks, selectedIds, activeDeckId]
+  )
+
+  // Arrow, Page Up/Down, Space, Home and End turn the active deck from anywhere,
+  // recording or not; presentation clickers send the same keys. Modified keys
+  // are left to the zoom and board shortcuts, and a focused deck viewer handles
+  // the keys itself.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || !activeDeck) return
+      if (e.target instanceof Element && e.target.matches('input, textarea, select, [contenteditable="true"], [role="slider"]')) return
+      // Space still presses focused buttons and plays focused videos
+      if (e.key === ' ' && e.target instanceof Element && e.target.closest('button, a, video, [role="button"]')) return
+
+      const action = getPageAction(e.key)
+      if (!action) return
+      e.preventDefault()
+      const pageCount = deckPageCountsRef.current.get(activeDeck.id) ?? activeDeck.pages?.length ?? 0
+      changeDeckPage(activeDeck.id, applyPageAction(activeDeck.page ?? 1, pageCount, action))
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [activeDeck, changeDeckPage])
+
+  const hideItem = (itemId: string) => {
+    setHiddenItemIds(prev => [...prev, itemId])
+    setSelectedIds([])
+  }
+
+  const showAllItems = () => {
+    setItemsVisible(true)
+    setHiddenItemIds([])
+  }
+
+  const getSceneView = (): SceneView => ({
+    zoomLevel,
+    panOffset: { ...panOffset },
+    presenterSize: customVideoSize ? { ...customVideoSize } : null,
+    itemsVisible,
+    hiddenItemIds: [...hiddenItemIds]
+  })
+
+  const applySceneView = (view: SceneView) => {
+    setZoomLevel(view.zoomLevel)
+    setPanOffset({ ...view.panOffset })
+    setCustomVideoSize(view.presenterSize ? { ...view.presenterSize } : null)
+    setItemsVisible(view.itemsVisible)
+    setHiddenItemIds([...view.hiddenItemIds])
+    setSelectedIds([])
+    setIsVideoSelected(false)
+    // A focused region belongs to the layout being replaced
+    setFocusPickKind(null)
+    setFocus(null)
+  }
+
+  useEffect(() => {
+    onBoardChange?.()
+  }, [boardItems, zoomLevel, panOffset, customVideoSize, itemsVisible, hiddenItemIds, onBoardChange])
+
+  // Replace the whole board, e.g. when a project is opened
+  const loadBoardItems = (items: BoardItem[]) => {
+    const itemUrls = (item: BoardItem) => [item.src, ...(item.pages ?? [])]
+    const keptUrls = new Set(items.flatMap(itemUrls))
+    boardItems.flatMap(itemUrls).forEach(url => {
+      if (url?.startsWith('blob:') && !keptUrls.has(url)) {
+        URL.revokeObjectURL(url)
+      }
+    })
+    replaceBoardItems(items.map(item => ({ ...item })))
+    setSelectedIds([])
+    setEditingNoteId(null)
+  }
+
+  // Describe the current board for the recording compositor
+  const getStageSnapshot = useCallback((): StageSnapshot | null => {
+    const container = containerRef.current
+    if (!container) return null
+
+    let presenter: StageSnapshot['presenter'] = null
+    const videoContainer = videoContainerRef.current
+    if (videoContainer && settings.backgroundType !== 'hidden') {
+      // Centered presenters are positioned at 50%/50% with translate(-50%, -50%),
+      // which offsetLeft/offsetTop don't include
+      const isCentered = settings.position.x === 0 && settings.position.y === 0
+      const processedCanvas = canvasRef.current
+      presenter = {
+        rect: {
+          x: videoContainer.offsetLeft - (isCentered ? videoContainer.offsetWidth / 2 : 0),
+          y: videoContainer.offsetTop - (isCentered ? videoContainer.offsetHeight / 2 : 0),
+          width: videoContainer.offsetWidth,
+          height: videoContainer.offsetHeight,
+        },
+        shape: settings.shape,
+        color: settings.color,
+        filter: getPresenterFilter(settings.backgroundType, settings.videoFilter),
+        zIndex: settings.isDragging ? 50 : STAGE_CONSTANTS.PRESENTER_Z_INDEX,
+        source: processedCanvas && processedCanvas.width > 0 ? processedCanvas : videoRef.current,
+      }
+    }
+
+    return {
+      width: container.clientWidth,
+      height: container.clientHeight,
+      zoomLevel,
+      panOffset,
+      virtualBackground: settings.virtualBackground,
+      presenter,
+      items: visibleItems.map(item => ({
+        id: item.id,
+        type: item.type,
+        x: item.x,
+        y: item.y,
+        width: item.width,
+        height: item.height,
+        rotation: item.rotation,
+        zIndex: item.zIndex,
+        content: item.content,
+        fileName: item.fileName,
+        source: container.querySelector<HTMLImageElement | HTMLVideoElement | HTMLCanvasElement>(
+          `[data-board-item-id="${item.id}"] [data-stage-source]`
+        ),
+      })),
+      annotations: annotationLayerRef.current?.getVisibleAnnotations() ?? annotations,
+      laserTrail: annotationLayerRef.current?.getLaserTrail() ?? [],
+      focus: getFocusFrame(focusAnimationRef.current, performance.now()),
+    }
+  }, [visibleItems, zoomLevel, panOffset, settings, videoRef, annotations])
 
   useImperativeHandle(ref, () => ({ 
     addNote,
-    getProcessedCanvas: () => canvasRef.current
+    getProcessedCanvas: () => canvasRef.current,
+    getStageSnapshot,
+    getSceneView,
+    applySceneView,
+    getBoardItems: () => boardItems.map(item => ({ ...item })),
+    loadBoardItems,
+    getActiveSlide: () => activeDeck ? { fileName: activeDeck.fileName ?? null, page: activeDeck.page ?? 1 } : null
   }))
 
   // Video resize handler
@@ -725,6 +1357,56 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
     setIsPanning(false)
   }, [])
 
+  // Ctrl+drag pans a zoomed board; a plain drag on empty board draws a
+  // selection marquee (Shift adds to the selection)
+  const handleBoardMouseDown = useCallback((e: React.MouseEvent) => {
+    if (zoomLevel !== 1 && e.ctrlKey) {
+      handlePanStart(e)
+      return
+    }
+
+    const board = boardRef.current
+    const target = e.target as Element
+    if (e.button !== 0 || !board?.contains(target)) return
+    if (target.closest('[data-board-item-id], button, input, textarea') || videoContainerRef.current?.contains(target)) return
+
+    const boardRect = board.getBoundingClientRect()
+    const toBoardPoint = (event: { clientX: number; clientY: number }) => ({
+      x: (event.clientX - boardRect.left) / zoomLevel,
+      y: (event.clientY - boardRect.top) / zoomLevel
+    })
+    const start = toBoardPoint(e)
+    const initial = e.shiftKey ? selectedIds : []
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const area = getMarqueeRect(start, toBoardPoint(event))
+      const minSize = BOARD_CONSTANTS.MARQUEE_MIN_SIZE / zoomLevel
+      if (area.width < minSize && area.height < minSize) return
+
+      event.preventDefault() // Don't select text while dragging
+      suppressClickRef.current = true
+      setMarquee(area)
+      const hits = expandToGroups(
+        visibleItems.filter(item => rectsIntersect(item, area)).map(item => item.id),
+        boardItemsRef.current
+      )
+      setSelectedIds([...initial, ...hits.filter(id => !initial.includes(id))])
+    }
+
+    const handleMouseUp = () => {
+      setMarquee(null)
+      // The click that follows this mouseup is dispatched before timers run
+      setTimeout(() => {
+        suppressClickRef.current = false
+      }, 0)
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+  }, [zoomLevel, handlePanStart, selectedIds, visibleItems])
+
   // Add global mouse event listeners for dragging
   useEffect(() => {
     if (settings.isDragging) {
@@ -939,22 +1621,9 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
   }
 
   const getShapeStyle = () => {
-    const filterParts: string[] = []
-    if (settings.backgroundType === 'blurred') filterParts.push('blur(10px)')
-    switch (settings.videoFilter) {
-      case 'grayscale':
-        filterParts.push('grayscale(1)')
-        break
-      case 'sepia':
-        filterParts.push('sepia(1)')
-        break
-      case 'invert':
-        filterParts.push('invert(1)')
-        break
-    }
     const baseStyle = {
       border: `4px solid ${settings.color}`,
-      filter: filterParts.join(' ') || 'none',
+      filter: getPresenterFilter(settings.backgroundType, settings.videoFilter),
       minHeight: '200px',
       minWidth: '300px',
       ...(customVideoSize && {
@@ -964,50 +1633,34 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
       })
     }
 
-    switch (settings.shape) {
-      case 'circle':
-        // Force perfect circle by making width = height and using object-fit
-        const circleSize = customVideoSize ? 
-          Math.min(customVideoSize.width, customVideoSize.height) : 
-          (settings.size === 'small' ? 200 : 
-           settings.size === 'medium' ? 300 : 
-           settings.size === 'large' ? 400 : 500)
-        return {
-          ...baseStyle,
-          width: `${circleSize}px`,
-          height: `${circleSize}px`,
-          borderRadius: '50%',
-          objectFit: 'cover' as const,
-          minWidth: `${circleSize}px`,
-          minHeight: `${circleSize}px`
-        }
-      case 'hexagon':
-        return {
-          ...baseStyle,
-          clipPath: 'polygon(50% 0%, 93.3% 25%, 93.3% 75%, 50% 100%, 6.7% 75%, 6.7% 25%)',
-          borderRadius: '0'
-        }
-      case 'diamond':
-        return {
-          ...baseStyle,
-          clipPath: 'polygon(50% 0%, 100% 50%, 50% 100%, 0% 50%)',
-          borderRadius: '0'
-        }
-      case 'heart':
-        return {
-          ...baseStyle,
-          clipPath: 'polygon(50% 20%, 20% 0%, 0% 30%, 0% 60%, 50% 100%, 100% 60%, 100% 30%, 80% 0%)',
-          borderRadius: '0'
-        }
-      case 'star':
-        return {
-          ...baseStyle,
-          clipPath: 'polygon(50% 0%, 61% 35%, 98% 35%, 68% 57%, 79% 91%, 50% 70%, 21% 91%, 32% 57%, 2% 35%, 39% 35%)',
-          borderRadius: '0'
-        }
-      default:
-        return baseStyle
+    const clipPath = getShapeClipPath(settings.shape)
+    if (clipPath) {
+      return {
+        ...baseStyle,
+        clipPath,
+        borderRadius: '0'
+      }
+    }
+
+    if (settings.shape === 'circle') {
+      // Force perfect circle by making width = height and using object-fit
+      const circleSize = customVideoSize ? 
+        Math.min(customVideoSize.width, customVideoSize.height) : 
+        (settings.size === 'small' ? 200 : 
+         settings.size === 'medium' ? 300 : 
+         settings.size === 'large' ? 400 : 500)
+      return {
+        ...baseStyle,
+        width: `${circleSize}px`,
+        height: `${circleSize}px`,
+        borderRadius: '50%',
+        objectFit: 'cover' as const,
+        minWidth: `${circleSize}px`,
+        minHeight: `${circleSize}px`
+      }
     }
+
+    return baseStyle
   }
 
   const getSizeClass = () => {
@@ -1030,6 +1683,17 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
     }
   }
 
+  // The zoom focus effect in front of the board's own zoom and pan. The board
+  // scales around its center, so the stage-space offset is moved there.
+  const getFocusCssTransform = () => {
+    const container = containerRef.current
+    if (focusFrame?.kind !== 'zoom' || !container) return ''
+    const { scale, x, y } = getFocusTransform(focusFrame, container.clientWidth, container.clientHeight)
+    const offsetX = (scale - 1) * container.clientWidth / 2 + x
+    const offsetY = (scale - 1) * container.clientHeight / 2 + y
+    return `translate(${offsetX}px, ${offsetY}px) scale(${scale}) `
+  }
+
   const getBackgroundStyle = () => {
     // Use a subtle, professional gradient
     return {
@@ -1041,12 +1705,12 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
   return (
     <div
       ref={containerRef}
-      className={`w-full h-full relative p-8 ${zoomLevel < 1 ? 'overflow-visible' : 'overflow-hidden'}`}
+      className={`w-full h-full relative p-8 ${zoomLevel < 1 && !focusFrame ? 'overflow-visible' : 'overflow-hidden'}`}
       style={getBackgroundStyle()}
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
       onDrop={handleDrop}
-      onMouseDown={handlePanStart}
+      onMouseDown={handleBoardMouseDown}
       onDoubleClick={(e) => {
         if (e.target === containerRef.current) {
           const rect = containerRef.current.getBoundingClientRect()
@@ -1056,6 +1720,161 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
         }
       }}
     >
+      {/* Item context menu, anchored at the pointer */}
+      <DropdownMenu open={contextMenu !== null} onOpenChange={(open) => { if (!open) setContextMenu(null) }}>
+        <DropdownMenuTrigger asChild>
+          <div
+            className="fixed w-0 h-0 pointer-events-none"
+            style={{ left: `${contextMenu?.x ?? 0}px`, top: `${contextMenu?.y ?? 0}px` }}
+          />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56" style={{ zIndex: OVERLAY_Z_INDEX + 1 }}>
+          {Z_ORDER_ACTIONS.map(({ command, label, shortcut, icon: Icon }) => (
+            <DropdownMenuItem key={command} onSelect={() => reorderSelection(command)}>
+              <Icon />
+              {label}
+              <DropdownMenuShortcut>{shortcut}</DropdownMenuShortcut>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setSelectionLocked(!isSelectionLocked)}>
+            {isSelectionLocked ? <Unlock /> : <Lock />}
+            {isSelectionLocked ? 'Unlock' : 'Lock'}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={resetSelectionRotation}
+            disabled={selectedItems.every(item => item.locked || item.rotation === 0)}
+          >
+            <RotateCcw />
+            Reset rotation
+          </DropdownMenuItem>
+          {selectedItems.length === 1 && (
+            <DropdownMenuItem onSelect={() => duplicateItem(selectedItems[0].id)}>
+              <Copy />
+              Duplicate
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onSelect={deleteSelection}>
+            <Trash2 />
+            Delete
+            <DropdownMenuShortcut>Del</DropdownMenuShortcut>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Arrange toolbar for multi-selection */}
+      {selectedItems.length > 1 && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 bg-background/90 backdrop-blur-sm rounded-lg border p-1 flex items-center gap-1">
+          <span className="px-2 text-xs text-muted-foreground whitespace-nowrap">{selectedItems.length} selected</span>
+          {ALIGN_ACTIONS.map(({ mode, label, icon: Icon }) => (
+            <Button
+              key={mode}
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0"
+              onClick={() => alignSelection(mode)}
+              title={label}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+          <div className="w-px h-6 bg-border mx-1" />
+          {DISTRIBUTE_ACTIONS.map(({ axis, label, icon: Icon }) => (
+            <Button
+              key={axis}
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0"
+              onClick={() => distributeSelection(axis)}
+              disabled={selectedItems.length < BOARD_CONSTANTS.MIN_DISTRIBUTE_ITEMS}
+              title={label}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+          <div className="w-px h-6 bg-border mx-1" />
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={groupSelection}
+            disabled={!canGroup(selectedIds, boardItems)}
+            title="Group (Ctrl + G)"
+          >
+            <Group className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={ungroupSelection}
+            disabled={!canUngroup(selectedIds, boardItems)}
+            title="Ungroup (Ctrl + Shift + G)"
+          >
+            <Ungroup className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0 text-destructive"
+            onClick={deleteSelection}
+            title="Delete selected (Delete)"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Annotation toolbar */}
+      {annotationTool && onAnnotationsChange && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-50 bg-background/90 backdrop-blur-sm rounded-lg border p-1 flex items-center gap-1">
+          {ANNOTATION_TOOLS.map(({ tool, label, shortcut, icon: Icon }) => (
+            <Button
+              key={tool}
+              size="sm"
+              variant={annotationTool === tool ? 'default' : 'ghost'}
+              className="h-8 w-8 p-0"
+              onClick={() => setAnnotationTool(tool)}
+              title={`${label} (${shortcut})`}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+          <div className="w-px h-6 bg-border mx-1" />
+          {ANNOTATION_CONSTANTS.COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              className={`h-6 w-6 rounded-full border-2 ${annotationColor === color ? 'border-primary' : 'border-transparent'}`}
+              style={{ backgroundColor: color }}
+              onClick={() => setAnnotationColor(color)}
+              title={color}
+            />
+          ))}
+          <div className="w-px h-6 bg-border mx-1" />
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0 text-destructive"
+            onClick={() => onAnnotationsChange([], 'Clear annotations')}
+            disabled={annotations.length === 0}
+            title="Clear annotations"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={() => setAnnotationTool(null)}
+            title="Stop annotating (Esc)"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       {/* Zoom Controls */}
       <div className="absolute top-4 right-4 z-50 flex flex-col gap-2">
         <div className="bg-background/90 backdrop-blur-sm rounded-lg border p-1 flex flex-col gap-1">
@@ -1089,6 +1908,59 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
           >
             <RotateCcw className="h-4 w-4" />
           </Button>
+          {history && historyState && (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 w-8 p-0"
+                onClick={() => history.undo()}
+                disabled={!historyState.canUndo}
+                title={historyState.undoLabel ? `Undo ${historyState.undoLabel.toLowerCase()} (Ctrl + Z)` : 'Undo (Ctrl + Z)'}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 w-8 p-0"
+                onClick={() => history.redo()}
+                disabled={!historyState.canRedo}
+                title={historyState.redoLabel ? `Redo ${historyState.redoLabel.toLowerCase()} (Ctrl + Shift + Z)` : 'Redo (Ctrl + Shift + Z)'}
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button
+            size="sm"
+            variant={focusTarget?.kind === 'zoom' || focusPickKind === 'zoom' ? 'default' : 'outline'}
+            className="h-8 w-8 p-0"
+            onClick={() => toggleFocus('zoom')}
+            title="Zoom to region: the selection, or drag out an area (Z)"
+          >
+            <ScanSearch className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant={focusTarget?.kind === 'spotlight' || focusPickKind === 'spotlight' ? 'default' : 'outline'}
+            className="h-8 w-8 p-0"
+            onClick={() => toggleFocus('spotlight')}
+            title="Spotlight: the selection, or drag out an area (S)"
+          >
+            <Flashlight className="h-4 w-4" />
+          </Button>
+          {onAnnotationsChange && (
+            <Button
+              size="sm"
+              variant={annotationTool ? 'default' : 'outline'}
+              className="h-8 w-8 p-0"
+              onClick={() => setAnnotationTool(annotationTool ? null : 'pen')}
+              title={annotationTool ? 'Stop annotating (Esc)' : 'Annotate'}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+          )}
         </div>
         {zoomLevel !== 1 && (
           <div className="bg-background/90 backdrop-blur-sm rounded-lg border px-2 py-1 text-xs text-center">
@@ -1110,10 +1982,58 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
             Ctrl+Click to pan
           </div>
         )}
+        {hiddenItemCount > 0 && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2 text-xs bg-background/90 backdrop-blur-sm"
+            onClick={showAllItems}
+            title="Show items hidden in this scene"
+          >
+            <Eye className="h-3 w-3 mr-1" />
+            {hiddenItemCount} hidden
+          </Button>
+        )}
       </div>
 
+      {/* Spotlight preview; the compositor draws the same dimming */}
+      {focusFrame?.kind === 'spotlight' && (
+        <div
+          className="absolute z-40 pointer-events-none"
+          style={{
+            left: `${focusFrame.region.x}px`,
+            top: `${focusFrame.region.y}px`,
+            width: `${focusFrame.region.width}px`,
+            height: `${focusFrame.region.height}px`,
+            borderRadius: `${STAGE_CONSTANTS.SPOTLIGHT_CORNER_RADIUS}px`,
+            boxShadow: `0 0 0 200vmax rgba(0, 0, 0, ${STAGE_CONSTANTS.SPOTLIGHT_DIM_OPACITY * focusFrame.amount})`
+          }}
+        />
+      )}
+
+      {/* Focus region picker */}
+      {focusPickKind && (
+        <div className="absolute inset-0 z-40 cursor-crosshair" onMouseDown={handleFocusPickMouseDown}>
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-background/90 backdrop-blur-sm rounded-lg border px-3 py-1 text-xs pointer-events-none">
+            {focusPickKind === 'zoom' ? 'Drag over the area to zoom into' : 'Drag over the area to spotlight'} (Esc to cancel)
+          </div>
+          {focusPickRect && (
+            <div
+              className="absolute border-2 border-primary bg-primary/10 rounded-sm pointer-events-none"
+              style={{
+                left: `${focusPickRect.x}px`,
+                top: `${focusPickRect.y}px`,
+                width: `${focusPickRect.width}px`,
+                height: `${focusPickRect.height}px`
+              }}
+            />
+          )}
+        </div>
+      )}
+
       {/* Zoom Content Wrapper */}
       <div
+        ref={boardRef}
         className="origin-center transition-transform duration-200 ease-out"
         style={{
           // Expand the content area when zoomed out to show more board space
@@ -1123,7 +2043,9 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
           position: 'absolute',
           top: zoomLevel < 1 ? `${-(100 / zoomLevel - 100) / 2}%` : '0',
           left: zoomLevel < 1 ? `${-(100 / zoomLevel - 100) / 2}%` : '0',
-          transform: `scale(${zoomLevel}) translate(${panOffset.x / zoomLevel}px, ${panOffset.y / zoomLevel}px)`,
+          transform: `${getFocusCssTransform()}scale(${zoomLevel}) translate(${panOffset.x / zoomLevel}px, ${panOffset.y / zoomLevel}px)`,
+          // Focus frames are already eased, one per animation frame
+          transitionDuration: focusFrame ? '0ms' : undefined,
           cursor: zoomLevel !== 1 && isPanning ? 'grabbing' : zoomLevel !== 1 ? 'grab' : 'default'
         }}
       >
@@ -1199,40 +2121,7 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
         <div 
           className="absolute inset-0 bg-cover bg-center opacity-30"
           style={{ 
-            backgroundImage: (() => {
-              switch (settings.virtualBackground) {
-                case 'space':
-                  return 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)'
-                case 'office':
-                  return 'linear-gradient(135deg, #ffecd2 0%, #fcb69f 100%)'
-                case 'forest':
-                  return 'linear-gradient(135deg, #1f2937 0%, #059669 50%, #10b981 100%)'
-                case 'ocean':
-                  return 'linear-gradient(135deg, #2563eb 0%, #06b6d4 50%, #14b8a6 100%)'
-                case 'sunset':
-                  return 'linear-gradient(135deg, #f97316 0%, #ec4899 50%, #9333ea 100%)'
-                case 'modern-office':
-                  return 'linear-gradient(135deg, #f1f5f9 0%, #e2e8f0 50%, #cbd5e1 100%)'
-                case 'library':
-                  return 'linear-gradient(135deg, #78350f 0%, #ca8a04 50%, #ea580c 100%)'
-                case 'city':
-                  return 'linear-gradient(135deg, #334155 0%, #1e40af 50%, #3730a3 100%)'
-                case 'tech':
-                  return 'linear-gradient(135deg, #22d3ee 0%, #3b82f6 50%, #9333ea 100%)'
-                case 'waves':
-                  return 'linear-gradient(135deg, #a78bfa 0%, #8b5cf6 50%, #4f46e5 100%)'
-                case 'warm':
-                  return 'linear-gradient(135deg, #fda4af 0%, #f472b6 50%, #ef4444 100%)'
-                case 'clean-white':
-                  return 'linear-gradient(135deg, #f9fafb 0%, #ffffff 100%)'
-                case 'dark-pro':
-                  return 'linear-gradient(135deg, #111827 0%, #1e293b 50%, #18181b 100%)'
-                case 'soft-blur':
-                  return 'linear-gradient(135deg, #eff6ff 0%, #e0e7ff 50%, #e9d5ff 100%)'
-                default:
-                  return `url(${settings.virtualBackground})`
-              }
-            })()
+            backgroundImage: getVirtualBackgroundCss(settings.virtualBackground)
           }}
         />
       )}
@@ -1265,7 +2154,7 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
         onClick={(e) => {
           e.stopPropagation()
           setIsVideoSelected(true)
-          setSelectedItem(null) // Deselect board items
+          setSelectedIds([]) // Deselect board items
         }}
       >
         <div className={`relative overflow-hidden ${getShapeClass()} ${settings.isDragging ? 'scale-105' : ''} transition-all duration-200`}>
@@ -1357,7 +2246,7 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
       </div>
 
       {/* Board Items */}
-      {boardItems.map((item) => {
+      {visibleItems.map((item) => {
         // Calculate enhanced interaction sizes when zoomed out
         const padding = zoomLevel < 0.5 ? 20 / zoomLevel : 5
         const borderWidth = zoomLevel < 0.5 ? 4 / zoomLevel : 2
@@ -1366,10 +2255,11 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
         return (
           <div
             key={item.id}
-            className={`absolute cursor-move select-none ${
-              draggingItemId === item.id ? '' : 'transition-all duration-200'
+            data-board-item-id={item.id}
+            className={`absolute select-none ${item.locked ? 'cursor-default' : 'cursor-move'} ${
+              draggingItemId === item.id || rotatingItemId === item.id ? '' : 'transition-all duration-200'
             } ${
-              selectedItem === item.id ? 'shadow-xl' : ''
+              selectedIds.includes(item.id) ? 'shadow-xl' : ''
             } ${zoomLevel < 0.5 ? 'hover:shadow-lg' : ''}`}
             style={{
               left: `${item.x - padding}px`,
@@ -1381,10 +2271,7 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
               padding: `${padding}px`,
             }}
             onMouseDown={(e) => handleItemMouseDown(e, item.id)}
-            onClick={() => {
-              setSelectedItem(item.id)
-              setIsVideoSelected(false) // Deselect video when selecting board item
-            }}
+            onContextMenu={(e) => handleItemContextMenu(e, item.id)}
           >
           {/* Enhanced visual outline when zoomed out */}
           {zoomLevel < 0.5 && (
@@ -1397,7 +2284,7 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
           )}
 
           {/* Selection outline */}
-          {selectedItem === item.id && (
+          {selectedIds.includes(item.id) && (
             <div
               className="absolute inset-0 border-primary rounded-lg pointer-events-none"
               style={{
@@ -1423,6 +2310,7 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
               <Image
                 src={item.src || ''}
                 alt="Board item"
+                data-stage-source
                 fill
                 className="object-cover rounded-lg shadow-lg"
                 draggable={false}
@@ -1431,19 +2319,30 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
             ) : item.type === 'video' ? (
               <video
                 src={item.src}
+                data-stage-source
                 className="w-full h-full object-cover rounded-lg shadow-lg"
                 controls
                 muted
               />
+            ) : item.type === 'deck' ? (
+              <PagedDocumentViewer
+                src={item.src || ''}
+                fileName={item.fileName || 'Document'}
+                pages={item.pages}
+                page={item.page ?? 1}
+                onPageChange={(page) => changeDeckPage(item.id, page)}
+                onPageCountChange={(pageCount) => deckPageCountsRef.current.set(item.id, pageCount)}
+                className="w-full h-full"
+              />
             ) : item.type === 'document' ? (
               <DocumentViewer
                 src={item.src || ''}
                 fileName={item.fileName || 'Document'}
                 type={
-                  item.fileName?.toLowerCase().endsWith('.pdf') ? 'pdf' :
-                  item.fileName?.toLowerCase().endsWith('.pptx') ? 'ppt' :
-                  item.fileName?.toLowerCase().endsWith('.key') ? 'key' : 'pdf'
+                  item.fileName?.toLowerCase().endsWith('.key') ? 'key' :
+                  item.fileName?.toLowerCase().match(/\.(pptx?|odp)$/) ? 'ppt' : 'pdf'
                 }
+                pages={item.pages}
                 className="w-full h-full"
               />
             ) : item.type === 'note' ? (
@@ -1471,50 +2370,92 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
             )}
           </div>
 
+          {/* Which deck the slide keys turn, when there is more than one */}
+          {visibleDecks.length > 1 && activeDeck?.id === item.id && (
+            <div
+              className="absolute bg-primary text-primary-foreground rounded-full p-1 pointer-events-none"
+              style={{
+                bottom: `${padding + 4}px`,
+                left: `${padding + 4}px`,
+              }}
+            >
+              <Presentation className={`${zoomLevel < 0.5 ? 'w-4 h-4' : 'w-3 h-3'}`} />
+            </div>
+          )}
+
+          {/* Lock badge */}
+          {item.locked && (
+            <div
+              className="absolute bg-background/80 rounded-full p-1 pointer-events-none"
+              style={{
+                top: `${padding + 4}px`,
+                right: `${padding + 4}px`,
+              }}
+            >
+              <Lock className={`${zoomLevel < 0.5 ? 'w-4 h-4' : 'w-3 h-3'}`} />
+            </div>
+          )}
+
           {/* Selection Controls - Enhanced for zoom out */}
-          {selectedItem === item.id && (
+          {selectedIds.length === 1 && selectedIds[0] === item.id && (
             <>
-              {/* Resize Handles - Larger when zoomed out */}
-              <div
-                className="absolute bg-primary rounded-full cursor-nw-resize"
-                style={{
-                  width: `${handleSize}px`,
-                  height: `${handleSize}px`,
-                  top: `-${handleSize / 2}px`,
-                  left: `-${handleSize / 2}px`,
-                }}
-                onMouseDown={(e) => handleResizeMouseDown(e, item.id, 'nw')}
-              />
-              <div
-                className="absolute bg-primary rounded-full cursor-ne-resize"
-                style={{
-                  width: `${handleSize}px`,
-                  height: `${handleSize}px`,
-                  top: `-${handleSize / 2}px`,
-                  right: `-${handleSize / 2}px`,
-                }}
-                onMouseDown={(e) => handleResizeMouseDown(e, item.id, 'ne')}
-              />
-              <div
-                className="absolute bg-primary rounded-full cursor-sw-resize"
-                style={{
-                  width: `${handleSize}px`,
-                  height: `${handleSize}px`,
-                  bottom: `-${handleSize / 2}px`,
-                  left: `-${handleSize / 2}px`,
-                }}
-                onMouseDown={(e) => handleResizeMouseDown(e, item.id, 'sw')}
-              />
-              <div
-                className="absolute bg-primary rounded-full cursor-se-resize"
-                style={{
-                  width: `${handleSize}px`,
-                  height: `${handleSize}px`,
-                  bottom: `-${handleSize / 2}px`,
-                  right: `-${handleSize / 2}px`,
-                }}
-                onMouseDown={(e) => handleResizeMouseDown(e, item.id, 'se')}
-              />
+              {/* Resize and rotation handles - Larger when zoomed out */}
+              {!item.locked && (
+                <>
+                  <div
+                    className="absolute bg-primary rounded-full cursor-nw-resize"
+                    style={{
+                      width: `${handleSize}px`,
+                      height: `${handleSize}px`,
+                      top: `-${handleSize / 2}px`,
+                      left: `-${handleSize / 2}px`,
+                    }}
+                    onMouseDown={(e) => handleResizeMouseDown(e, item.id, 'nw')}
+                  />
+                  <div
+                    className="absolute bg-primary rounded-full cursor-ne-resize"
+                    style={{
+                      width: `${handleSize}px`,
+                      height: `${handleSize}px`,
+                      top: `-${handleSize / 2}px`,
+                      right: `-${handleSize / 2}px`,
+                    }}
+                    onMouseDown={(e) => handleResizeMouseDown(e, item.id, 'ne')}
+                  />
+                  <div
+                    className="absolute bg-primary rounded-full cursor-sw-resize"
+                    style={{
+                      width: `${handleSize}px`,
+                      height: `${handleSize}px`,
+                      bottom: `-${handleSize / 2}px`,
+                      left: `-${handleSize / 2}px`,
+                    }}
+                    onMouseDown={(e) => handleResizeMouseDown(e, item.id, 'sw')}
+                  />
+                  <div
+                    className="absolute bg-primary rounded-full cursor-se-resize"
+                    style={{
+                      width: `${handleSize}px`,
+                      height: `${handleSize}px`,
+                      bottom: `-${handleSize / 2}px`,
+                      right: `-${handleSize / 2}px`,
+                    }}
+                    onMouseDown={(e) => handleResizeMouseDown(e, item.id, 'se')}
+                  />
+                  <div
+                    className="absolute left-1/2 -translate-x-1/2 bg-primary text-primary-foreground rounded-full cursor-grab flex items-center justify-center"
+                    style={{
+                      width: `${handleSize * 2}px`,
+                      height: `${handleSize * 2}px`,
+                      bottom: `-${handleSize * 3}px`,
+                    }}
+                    title="Rotate (hold Shift to snap)"
+                    onMouseDown={(e) => handleRotateMouseDown(e, item.id)}
+                  >
+                    <RotateCw style={{ width: `${handleSize * 1.5}px`, height: `${handleSize * 1.5}px` }} />
+                  </div>
+                </>
+              )}
 
               {/* Action Buttons - Enhanced size for zoom out */}
               <div 
@@ -1539,6 +2480,42 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
                 >
                   <Copy className={`${zoomLevel < 0.5 ? 'w-4 h-4' : 'w-3 h-3'}`} />
                 </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="p-0"
+                  style={{
+                    width: `${Math.max(24, handleSize * 1.5)}px`,
+                    height: `${Math.max(24, handleSize * 1.5)}px`,
+                  }}
+                  title="Hide in this scene"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    hideItem(item.id)
+                  }}
+                >
+                  <EyeOff className={`${zoomLevel < 0.5 ? 'w-4 h-4' : 'w-3 h-3'}`} />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="p-0"
+                  style={{
+                    width: `${Math.max(24, handleSize * 1.5)}px`,
+                    height: `${Math.max(24, handleSize * 1.5)}px`,
+                  }}
+                  title={item.locked ? 'Unlock' : 'Lock'}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setSelectionLocked(!item.locked)
+                  }}
+                >
+                  {item.locked ? (
+                    <Unlock className={`${zoomLevel < 0.5 ? 'w-4 h-4' : 'w-3 h-3'}`} />
+                  ) : (
+                    <Lock className={`${zoomLevel < 0.5 ? 'w-4 h-4' : 'w-3 h-3'}`} />
+                  )}
+                </Button>
                 <Button
                   size="sm"
                   variant="destructive"
@@ -1561,11 +2538,60 @@ const VideoCanvas = forwardRef<VideoCanvasHandle, VideoCanvasProps>(function Vid
         )
       })}
 
+      {/* Snapping guides */}
+      {snapGuides.map((guide, index) => (
+        <div
+          key={`${guide.orientation}-${guide.position}-${index}`}
+          className="absolute bg-pink-500 pointer-events-none"
+          style={guide.orientation === 'vertical' ? {
+            left: `${guide.position}px`,
+            top: `${guide.start}px`,
+            width: `${1 / zoomLevel}px`,
+            height: `${guide.end - guide.start}px`,
+            zIndex: OVERLAY_Z_INDEX
+          } : {
+            left: `${guide.start}px`,
+            top: `${guide.position}px`,
+            width: `${guide.end - guide.start}px`,
+            height: `${1 / zoomLevel}px`,
+            zIndex: OVERLAY_Z_INDEX
+          }}
+        />
+      ))}
+
+      {/* Marquee selection */}
+      {marquee && (
+        <div
+          className="absolute border border-primary bg-primary/10 rounded-sm pointer-events-none"
+          style={{
+            left: `${marquee.x}px`,
+            top: `${marquee.y}px`,
+            width: `${marquee.width}px`,
+            height: `${marquee.height}px`,
+            zIndex: OVERLAY_Z_INDEX
+          }}
+        />
+      )}
+
+      {/* Annotations, above every item but below guides and the marquee */}
+      {onAnnotationsChange && (
+        <AnnotationLayer
+          ref={annotationLayerRef}
+          annotations={annotations}
+          onAnnotationsChange={onAnnotationsChange}
+          tool={annotationTool}
+          color={annotationColor}
+          zoomLevel={zoomLevel}
+          zIndex={OVERLAY_Z_INDEX - 1}
+        />
+      )}
+
       {/* Click outside to deselect */}
       <div
         className="absolute inset-0 -z-10"
         onClick={() => {
-          setSelectedItem(null)
+          if (suppressClickRef.current) return
+          setSelectedIds([])
           setIsVideoSelected(false)
         }}
       />
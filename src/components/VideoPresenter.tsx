@@ -1,14 +1,90 @@
 'use client'
 
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo, type CSSProperties } from 'react'
 import VideoCanvas, { type VideoCanvasHandle } from './VideoCanvas'
 import ControlsPanel from './ControlsPanel'
 import TopBar from './TopBar'
-import Teleprompter from './Teleprompter'
-import { videoExporter, type ExportFormat, type ConversionProgress } from '@/lib/videoConverter'
+import Teleprompter, { DEFAULT_TELEPROMPTER_SCRIPT } from './Teleprompter'
+import RecordingEditor from './RecordingEditor'
+import RecordingLibraryDialog from './RecordingLibraryDialog'
+import { videoExporter, type ExportFormat, type ConversionProgress, type AnimationOptions } from '@/lib/videoConverter'
+import { ExportError, ExportErrorCode, buildChapters } from '@/lib/export'
 import { useTranslation } from '@/lib/useTranslation'
 import { BlurController } from '@/lib/blur/BlurController'
 import type { BlurStatus } from '@/lib/blur/types'
+import { StageCompositor } from '@/lib/stage'
+import {
+  SCENE_CONSTANTS,
+  createDefaultSceneCollection,
+  applySceneAnnotations,
+  createScene,
+  deleteScene,
+  duplicateScene,
+  getSceneAnnotations,
+  loadSceneCollection,
+  normalizeSceneName,
+  saveSceneCollection,
+  updateScene,
+  type SceneCollection,
+  type ScenePresenter,
+  type SceneTransition
+} from '@/lib/scenes'
+import {
+  PausableRecorder,
+  RECORDING_CONSTANTS,
+  RecordingSessionWriter,
+  recordingStore,
+  getQualityProfile,
+  getCameraConstraints,
+  getDisplayConstraints,
+  getRecorderOptions,
+  DEFAULT_QUALITY_PROFILE_ID,
+  addMarker,
+  createSceneMarker,
+  createSlideMarker,
+  remapMarkers,
+  type QualityProfileId,
+  type RecordingMarker,
+  type RecordingSessionRecord
+} from '@/lib/recording'
+import type { SlideChangeEvent } from '@/lib/documents'
+import type { Annotation } from '@/lib/annotations'
+import type { TimeRange } from '@/lib/editing'
+import { RecordingLibrary, recordingLibrary, type LibraryRecording } from '@/lib/library'
+import {
+  DEVICE_CONSTANTS,
+  listCaptureDevices,
+  loadDeviceSelection,
+  onDeviceChange,
+  openCamera,
+  openMicrophone,
+  reconcileSelection,
+  replaceTrack,
+  saveDeviceSelection,
+  withDevice,
+  type CaptureDeviceList,
+  type DeviceSelection
+} from '@/lib/devices'
+import {
+  AudioMixer,
+  createDefaultEffectsSettings,
+  createDefaultMixerSettings,
+  loadEffectsSettings,
+  saveEffectsSettings,
+  type EffectsSettings,
+  type MixerSettings
+} from '@/lib/audio'
+import {
+  PROJECT_CONSTANTS,
+  ProjectError,
+  ProjectErrorCode,
+  getProjectFileName,
+  normalizeProjectName,
+  packProject,
+  unpackProject
+} from '@/lib/project'
+import { WORKSPACE_CONSTANTS, workspaceStore } from '@/lib/workspace'
+import { UndoHistory, createValueCommand } from '@/lib/history'
 
 
 export interface PresenterSettings {
@@ -24,20 +100,54 @@ export interface PresenterSettings {
 
 export type RecordingSource = 'camera' | 'screen' | 'both'
 
+const QUALITY_PROFILE_STORAGE_KEY = 'video-presenter-quality-profile'
+
+// Everything but transient drag state belongs to a scene
+const toScenePresenter = (settings: PresenterSettings): ScenePresenter => ({
+  backgroundType: settings.backgroundType,
+  shape: settings.shape,
+  color: settings.color,
+  virtualBackground: settings.virtualBackground,
+  videoFilter: settings.videoFilter,
+  size: settings.size,
+  position: { ...settings.position }
+})
+
 export default function VideoPresenter() {
   const { t } = useTranslation()
   const [isRecording, setIsRecording] = useState(false)
+  const [isRecordingPaused, setIsRecordingPaused] = useState(false)
   const [recordedChunks, setRecordedChunks] = useState<Blob[]>([])
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null)
   const [recordingDuration, setRecordingDuration] = useState(0)
   const [recordedMimeType, setRecordedMimeType] = useState<string>('')
   const [recordingSource, setRecordingSource] = useState<RecordingSource>('camera')
+  const [qualityProfileId, setQualityProfileId] = useState<QualityProfileId>(DEFAULT_QUALITY_PROFILE_ID)
+  const [isQualityProfileLoaded, setIsQualityProfileLoaded] = useState(false)
+  const [captureDevices, setCaptureDevices] = useState<CaptureDeviceList>({ cameras: [], microphones: [] })
+  const [deviceSelection, setDeviceSelection] = useState<DeviceSelection>({ cameraId: null, microphoneId: null })
+  const [isSwitchingDevice, setIsSwitchingDevice] = useState(false)
+  const [mixerSettings, setMixerSettings] = useState<MixerSettings>(createDefaultMixerSettings)
+  const [audioMixer, setAudioMixer] = useState<AudioMixer | null>(null)
+  const [effectsSettings, setEffectsSettings] = useState<EffectsSettings>(createDefaultEffectsSettings)
+  const [isEffectsSettingsLoaded, setIsEffectsSettingsLoaded] = useState(false)
   const [screenStream, setScreenStream] = useState<MediaStream | null>(null)
   const [isTeleprompterVisible, setIsTeleprompterVisible] = useState(false)
+  const [teleprompterScript, setTeleprompterScript] = useState(DEFAULT_TELEPROMPTER_SCRIPT)
+  const [projectName, setProjectName] = useState<string>(PROJECT_CONSTANTS.DEFAULT_NAME)
+  const [isProjectBusy, setIsProjectBusy] = useState(false)
   const [isCameraPopupOpen, setIsCameraPopupOpen] = useState(false)
   const [exportFormat, setExportFormat] = useState<ExportFormat>('webm')
+  const [animationOptions, setAnimationOptions] = useState<AnimationOptions>({ fps: 10, width: 480, loopCount: 0 })
   const [isConverting, setIsConverting] = useState(false)
   const [conversionProgress, setConversionProgress] = useState<ConversionProgress | null>(null)
+  const conversionAbortRef = useRef<AbortController | null>(null)
+  const [isEditorOpen, setIsEditorOpen] = useState(false)
+  const [recoveredRecordings, setRecoveredRecordings] = useState<RecordingSessionRecord[]>([])
+  const [restoringRecordingId, setRestoringRecordingId] = useState<string | null>(null)
+  const [libraryRecordings, setLibraryRecordings] = useState<LibraryRecording[]>([])
+  const [activeRecordingId, setActiveRecordingId] = useState<string | null>(null)
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false)
   const [settings, setSettings] = useState<PresenterSettings>({
     backgroundType: 'visible',
     shape: 'rectangle',
@@ -49,6 +159,13 @@ export default function VideoPresenter() {
     isDragging: false,
   })
   const [isPictureInPicture, setIsPictureInPicture] = useState(false)
+  // Shared by the board and presenter settings so Ctrl+Z walks both in order
+  const [history] = useState(() => new UndoHistory())
+  const [sceneCollection, setSceneCollection] = useState<SceneCollection | null>(null)
+  // Drawings made while no scene is active; they last for the session
+  const [looseAnnotations, setLooseAnnotations] = useState<Annotation[]>([])
+  // Replays the preview animation; the recording blends in the compositor
+  const [previewTransition, setPreviewTransition] = useState<SceneTransition | null>(null)
   const [isSidebarVisible, setIsSidebarVisible] = useState(true)
   const [blurStatus, setBlurStatus] = useState<BlurStatus>({
     enabled: false,
@@ -65,10 +182,22 @@ export default function VideoPresenter() {
   const videoRef = useRef<HTMLVideoElement>(null)
   const videoCanvasRef = useRef<VideoCanvasHandle>(null)
   const streamRef = useRef<MediaStream | null>(null)
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
+  const mediaRecorderRef = useRef<PausableRecorder | null>(null)
+  const sessionWriterRef = useRef<RecordingSessionWriter | null>(null)
+  // Slide changes of the take in progress, saved with it
+  const recordingMarkersRef = useRef<RecordingMarker[]>([])
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null)
   const cameraPopupRef = useRef<Window | null>(null)
   const blurControllerRef = useRef<BlurController | null>(null)
+  const compositorRef = useRef<StageCompositor | null>(null)
+  const screenVideoRef = useRef<HTMLVideoElement | null>(null)
+  const audioMixerRef = useRef<AudioMixer | null>(null)
+  const autosaveTimerRef = useRef<NodeJS.Timeout | null>(null)
+  // Nothing is autosaved until the previous visit's workspace is back
+  const isWorkspaceRestoredRef = useRef(false)
+  const saveWorkspaceRef = useRef<() => void>(() => {})
+  const settingsRef = useRef<PresenterSettings>(settings)
+  const deviceSelectionRef = useRef<DeviceSelection>(deviceSelection)
 
   useEffect(() => {
     // Initialize camera only once
@@ -87,17 +216,13 @@ export default function VideoPresenter() {
           return
         }
 
+        // Saved settings are read directly; state is not restored yet on mount.
+        // Devices are only a preference here so a missing one doesn't block startup.
+        const profile = getQualityProfile(localStorage.getItem(QUALITY_PROFILE_STORAGE_KEY))
+        const savedDevices = loadDeviceSelection()
         const stream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-            width: { ideal: 1280 }, 
-            height: { ideal: 720 },
-            facingMode: 'user'
-          },
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            sampleRate: 44100
-          },
+          video: withDevice(getCameraConstraints(profile), savedDevices.cameraId, 'ideal'),
+          audio: withDevice({ ...DEVICE_CONSTANTS.AUDIO_CONSTRAINTS }, savedDevices.microphoneId, 'ideal'),
         })
         
         console.log('✅ Camera access granted')
@@ -109,6 +234,14 @@ export default function VideoPresenter() {
         })
         
         streamRef.current = stream
+        updateDeviceSelection({
+          cameraId: stream.getVideoTracks()[0]?.getSettings().deviceId ?? null,
+          microphoneId: stream.getAudioTracks()[0]?.getSettings().deviceId ?? null
+        })
+        // Labels are only exposed once permission has been granted
+        refreshCaptureDevices()
+        // The mixer runs before recording too, so levels can be checked up front
+        ensureAudioMixer()?.setSource('microphone', stream)
         
         if (videoRef.current) {
           videoRef.current.srcObject = stream
@@ -150,6 +283,7 @@ export default function VideoPresenter() {
       // Only cleanup on unmount, not on every state change
       console.log('🔄 Component cleanup triggered')
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []) // Remove dependencies to prevent re-initialization
 
   // Cleanup effect for unmount only
@@ -165,18 +299,20 @@ export default function VideoPresenter() {
       }
       
       // Cleanup recording resources
-      if (mediaRecorderRef.current) {
+      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
         console.log('🛑 Stopping recording due to unmount')
-        try {
-          mediaRecorderRef.current.stop()
-        } catch (e) {
+        mediaRecorderRef.current.stop().catch((e) => {
           console.log('Recording already stopped:', e)
-        }
+        })
       }
       
       if (recordingTimerRef.current) {
         clearInterval(recordingTimerRef.current)
       }
+
+      releaseCompositor()
+      audioMixerRef.current?.dispose()
+      audioMixerRef.current = null
       
       if (screenStream) {
         console.log('🧹 Cleaning up screen stream')
@@ -194,11 +330,7 @@ export default function VideoPresenter() {
     try {
       console.log('🖥️ Requesting screen capture...')
       const displayStream = await navigator.mediaDevices.getDisplayMedia({
-        video: {
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          frameRate: { ideal: 30 }
-        },
+        video: getDisplayConstraints(getQualityProfile(qualityProfileId)),
         audio: {
           echoCancellation: false,
           noiseSuppression: false,
@@ -232,39 +364,161 @@ export default function VideoPresenter() {
       }
   }
 
-  const combineStreams = (cameraStream: MediaStream, screenStream: MediaStream) => {
-    console.log('🔄 Combining camera and screen streams...')
-    
-    // Create a new MediaStream that combines both streams
-    const combinedStream = new MediaStream()
-    
-    // Add screen video track (primary for recording)
-    const screenVideoTracks = screenStream.getVideoTracks()
-    console.log(`📹 Adding ${screenVideoTracks.length} screen video track(s)`)
-    screenVideoTracks.forEach(track => {
-      combinedStream.addTrack(track)
-    })
-    
-    // Add camera audio track (usually better quality than screen audio)
-    const cameraAudioTracks = cameraStream.getAudioTracks()
-    console.log(`🎤 Adding ${cameraAudioTracks.length} camera audio track(s)`)
-    cameraAudioTracks.forEach(track => {
-      combinedStream.addTrack(track)
-    })
+  // Render the whole stage (board, presenter bubble, backgrounds, screen) into
+  // one canvas and record that, so the file matches what is shown on screen
+  const createCompositedStream = async (cameraStream: MediaStream | null, displayStream: MediaStream | null) => {
+    console.log('🎨 Compositing stage for recording...')
+
+    const { width, height, fps } = getQualityProfile(qualityProfileId)
+    const compositor = new StageCompositor(() => {
+      const snapshot = videoCanvasRef.current?.getStageSnapshot() ?? null
+      // Screen-only recordings leave the presenter bubble out
+      return snapshot && !cameraStream ? { ...snapshot, presenter: null } : snapshot
+    }, { width, height, fps })
+
+    if (displayStream) {
+      const screenVideo = document.createElement('video')
+      screenVideo.muted = true
+      screenVideo.playsInline = true
+      screenVideo.srcObject = displayStream
+      await screenVideo.play()
+      compositor.setScreenSource(screenVideo)
+      screenVideoRef.current = screenVideo
+    }
+
+    compositor.start()
+    compositorRef.current = compositor
+
+    const compositedStream = new MediaStream(compositor.captureStream().getVideoTracks())
     
-    // Also add screen audio if available (system sounds)
-    const screenAudioTracks = screenStream.getAudioTracks()
-    if (screenAudioTracks.length > 0) {
-      console.log(`🔊 Adding ${screenAudioTracks.length} screen audio track(s)`)
-      screenAudioTracks.forEach(track => {
-        combinedStream.addTrack(track)
-      })
+    const microphoneTracks = cameraStream?.getAudioTracks() ?? []
+    const screenAudioTracks = displayStream?.getAudioTracks() ?? []
+    console.log(`🎤 ${microphoneTracks.length} microphone and ${screenAudioTracks.length} screen audio track(s)`)
+
+    // Mix microphone and screen audio into one track, since MediaRecorder
+    // usually records only the first audio track. The mixer's track also
+    // survives microphone swaps mid-recording.
+    const mixer = ensureAudioMixer()
+    if (mixer) {
+      mixer.setSource('microphone', cameraStream)
+      mixer.setSource('screen', displayStream)
+      compositedStream.addTrack(mixer.track)
     } else {
-      console.log('🔇 No screen audio tracks available')
+      console.warn('⚠️ Audio mixing unavailable, recording the microphone only')
+      const fallbackTrack = microphoneTracks[0] ?? screenAudioTracks[0]
+      if (fallbackTrack) {
+        compositedStream.addTrack(fallbackTrack)
+      }
     }
     
-    console.log(`✅ Combined stream created with ${combinedStream.getTracks().length} total tracks`)
-    return combinedStream
+    console.log(`✅ Composited stream created with ${compositedStream.getTracks().length} total tracks`)
+    return compositedStream
+  }
+
+  const releaseCompositor = () => {
+    if (compositorRef.current) {
+      compositorRef.current.dispose()
+      compositorRef.current = null
+    }
+    if (screenVideoRef.current) {
+      screenVideoRef.current.srcObject = null
+      screenVideoRef.current = null
+    }
+    // The mixer stays up for the meters; it just goes back to the live mic
+    const mixer = audioMixerRef.current
+    if (mixer) {
+      mixer.setSource('screen', null)
+      mixer.setSource('microphone', streamRef.current)
+    }
+  }
+
+  const ensureAudioMixer = () => {
+    if (audioMixerRef.current) return audioMixerRef.current
+    try {
+      const mixer = new AudioMixer(mixerSettings, effectsSettings)
+      audioMixerRef.current = mixer
+      setAudioMixer(mixer)
+      return mixer
+    } catch (error) {
+      console.warn('⚠️ Audio mixer unavailable:', error)
+      return null
+    }
+  }
+
+  const updateDeviceSelection = (selection: DeviceSelection) => {
+    deviceSelectionRef.current = selection
+    setDeviceSelection(selection)
+    saveDeviceSelection(selection)
+  }
+
+  const refreshCaptureDevices = async () => {
+    try {
+      const devices = await listCaptureDevices()
+      setCaptureDevices(devices)
+      return devices
+    } catch (error) {
+      console.warn('⚠️ Could not list capture devices:', error)
+      return null
+    }
+  }
+
+  // Re-attach the camera stream after its tracks changed; some browsers keep
+  // rendering the old track until srcObject is assigned again
+  const reattachCameraStream = (stream: MediaStream) => {
+    const targets = [
+      videoRef.current,
+      cameraPopupRef.current?.document.getElementById('popup-video') as HTMLVideoElement | null
+    ]
+    targets.forEach(video => {
+      if (!video) return
+      video.srcObject = null
+      video.srcObject = stream
+      video.play().catch(() => {})
+    })
+  }
+
+  // Swap devices in place. The recording draws the preview and takes audio
+  // from the switcher, so MediaRecorder keeps running through a swap.
+  const handleCameraChange = async (cameraId: string | null) => {
+    const stream = streamRef.current
+    if (!stream) return
+
+    setIsSwitchingDevice(true)
+    try {
+      const track = await openCamera(cameraId, getCameraConstraints(getQualityProfile(qualityProfileId)))
+      replaceTrack(stream, track)
+      reattachCameraStream(stream)
+      updateDeviceSelection({ ...deviceSelectionRef.current, cameraId: track.getSettings().deviceId ?? cameraId })
+      console.log('📹 Switched camera to', track.label)
+    } catch (error) {
+      console.error('❌ Failed to switch camera:', error)
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to switch camera'}`)
+    } finally {
+      setIsSwitchingDevice(false)
+    }
+  }
+
+  const handleMicrophoneChange = async (microphoneId: string | null) => {
+    const stream = streamRef.current
+    if (!stream) return
+
+    setIsSwitchingDevice(true)
+    try {
+      const track = await openMicrophone(microphoneId)
+      replaceTrack(stream, track)
+      // Screen-only takes leave the mic out of the mix; keep it that way
+      const mixer = audioMixerRef.current
+      if (mixer && (mixer.hasSource('microphone') || !compositorRef.current)) {
+        mixer.setSource('microphone', stream)
+      }
+      updateDeviceSelection({ ...deviceSelectionRef.current, microphoneId: track.getSettings().deviceId ?? microphoneId })
+      console.log('🎤 Switched microphone to', track.label)
+    } catch (error) {
+      console.error('❌ Failed to switch microphone:', error)
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to switch microphone'}`)
+    } finally {
+      setIsSwitchingDevice(false)
+    }
   }
 
   const handleStartRecording = async () => {
@@ -285,10 +539,11 @@ export default function VideoPresenter() {
     try {
       let recordingStream: MediaStream | null = null
 
-      // Clear previous recording
+      // Clear previous recording (it stays in the library)
       setRecordedChunks([])
       setDownloadUrl(null)
       setRecordingDuration(0)
+      setActiveRecordingId(null)
       
       console.log('🧹 Previous recording cleared')
 
@@ -299,16 +554,18 @@ export default function VideoPresenter() {
             alert('❌ Camera not available. Please ensure camera permissions are granted.')
             return
           }
-          recordingStream = streamRef.current
-          console.log('📹 Recording camera stream')
+          recordingStream = await createCompositedStream(streamRef.current, null)
+          console.log('📹 Recording camera stage')
           break
           
         case 'screen':
           try {
-            recordingStream = await getScreenStream()
-            console.log('🖥️ Recording screen stream')
+            const screenStreamForRecording = await getScreenStream()
+            recordingStream = await createCompositedStream(null, screenStreamForRecording)
+            console.log('🖥️ Recording screen stage')
           } catch (error) {
             console.error('Screen capture error:', error)
+            releaseCompositor()
             alert('❌ Screen capture failed. Please try again and allow screen sharing.')
             return
           }
@@ -322,12 +579,13 @@ export default function VideoPresenter() {
           
           try {
             const screenStreamForBoth = await getScreenStream()
-            recordingStream = combineStreams(streamRef.current, screenStreamForBoth)
+            recordingStream = await createCompositedStream(streamRef.current, screenStreamForBoth)
             console.log('📹🖥️ Recording both camera and screen')
           } catch (error) {
             console.error('Screen capture error for both mode:', error)
+            releaseCompositor()
             alert('❌ Screen capture failed. Recording camera only instead.')
-            recordingStream = streamRef.current
+            recordingStream = await createCompositedStream(streamRef.current, null)
           }
           break
       }
@@ -344,37 +602,23 @@ export default function VideoPresenter() {
       
       if (typeof MediaRecorder === 'undefined') {
         alert('❌ MediaRecorder not available in this browser. Please use Chrome, Firefox, or Safari.')
+        releaseCompositor()
         return
       }
       
       if (!MediaRecorder.isTypeSupported || typeof MediaRecorder.isTypeSupported !== 'function') {
         alert('❌ Recording not supported in this browser. Please use Chrome, Firefox, or Safari.')
+        releaseCompositor()
         return
       }
 
-      // Use the best format the browser supports
-      console.log('🎭 Getting optimal recording format...')
-      const bestFormat = videoExporter.getBestRecordingFormat()
-      const mimeType = bestFormat.mimeType
-      
-      console.log(`🎬 Selected recording format: ${mimeType} (${bestFormat.format})`)
-      
-      // Set quality options based on format
-      let options: MediaRecorderOptions = { mimeType }
-      
-      if (bestFormat.format === 'mp4') {
-        options = {
-          mimeType,
-          videoBitsPerSecond: 3000000, // Higher quality for MP4
-          audioBitsPerSecond: 128000
-        }
-      } else {
-        options = {
-          mimeType,
-          videoBitsPerSecond: 2500000,
-          audioBitsPerSecond: 128000
-        }
-      }
+      // Codec, bitrates and keyframe cadence come from the quality profile
+      const profile = getQualityProfile(qualityProfileId)
+      console.log(`🎭 Using quality profile: ${profile.name}`)
+      const options = getRecorderOptions(profile)
+      const mimeType = options.mimeType ?? 'video/webm'
+
+      console.log(`🎬 Selected recording format: ${mimeType}`)
       
       // Log supported formats for debugging
       const supportedFormats = videoExporter.getSupportedRecordingFormats()
@@ -388,39 +632,42 @@ export default function VideoPresenter() {
         active: recordingStream.active
       })
 
-      let mediaRecorder: MediaRecorder
+      let mediaRecorder: PausableRecorder
       try {
-        mediaRecorder = new MediaRecorder(recordingStream, options)
+        mediaRecorder = new PausableRecorder(recordingStream, options)
         console.log('✅ MediaRecorder created successfully')
       } catch (mediaRecorderError) {
         console.error('❌ Failed to create MediaRecorder:', mediaRecorderError)
         alert(`❌ Failed to create recorder: ${mediaRecorderError instanceof Error ? mediaRecorderError.message : 'Unknown error'}`)
+        releaseCompositor()
         return
       }
       mediaRecorderRef.current = mediaRecorder
+      // A take that starts mid-deck opens on the slide being shown
+      const activeSlide = videoCanvasRef.current?.getActiveSlide()
+      recordingMarkersRef.current = activeSlide ? [createSlideMarker(activeSlide, 0)] : []
       setRecordedMimeType(mimeType)
-      const chunks: Blob[] = []
 
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunks.push(event.data)
-          console.log('📦 Recorded chunk:', event.data.size, 'bytes')
-        }
+      // Stream chunks into IndexedDB so a crash or reload doesn't lose the take
+      const sessionWriter = new RecordingSessionWriter({ mimeType, source: recordingSource })
+      sessionWriterRef.current = sessionWriter
+
+      mediaRecorder.ondataavailable = (chunk, segment) => {
+        console.log('📦 Recorded chunk:', chunk.size, 'bytes')
+        sessionWriter.write(chunk, segment, mediaRecorder.clock.getElapsedMs())
       }
 
-      mediaRecorder.onstop = () => {
-        console.log('⏹️ Recording stopped, processing', chunks.length, 'chunks')
-        const blob = new Blob(chunks, { type: mimeType })
-        const url = URL.createObjectURL(blob)
-        setDownloadUrl(url)
-        setRecordedChunks(chunks)
-        console.log('✅ Recording ready for download:', blob.size, 'bytes')
+      mediaRecorder.onstatechange = (state) => {
+        setIsRecordingPaused(state === 'paused')
       }
 
       mediaRecorder.onerror = (event) => {
         console.error('MediaRecorder error:', event)
         alert('❌ Recording error occurred. Please try again.')
+        sessionWriter.abandon().then(refreshRecoveredRecordings)
+        releaseCompositor()
         setIsRecording(false)
+        setIsRecordingPaused(false)
       }
 
       // Start recording with data interval
@@ -430,32 +677,98 @@ export default function VideoPresenter() {
         console.log('✅ MediaRecorder.start() called successfully')
         setIsRecording(true)
 
-        // Start recording timer
+        // The timer only reads the clock, which excludes paused time
         recordingTimerRef.current = setInterval(() => {
-          setRecordingDuration(prev => prev + 1)
-        }, 1000)
+          setRecordingDuration(mediaRecorder.clock.getElapsedSeconds())
+        }, RECORDING_CONSTANTS.TIMER_INTERVAL)
 
         console.log(`✅ Recording started - Source: ${recordingSource}`)
         console.log('🎯 Recording state should now be true:', true)
       } catch (startError) {
         console.error('❌ Failed to start recording:', startError)
         alert(`❌ Failed to start recording: ${startError instanceof Error ? startError.message : 'Unknown error'}`)
+        releaseCompositor()
         return
       }
       
     } catch (error) {
       console.error('Error starting recording:', error)
       alert(`❌ Recording failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      releaseCompositor()
       setIsRecording(false)
     }
   }
 
+  // Wait for the recorder to flush (and join segments when pause is emulated)
+  const finalizeRecording = async (recorder: PausableRecorder) => {
+    const sessionWriter = sessionWriterRef.current
+    sessionWriterRef.current = null
+    const markers = recordingMarkersRef.current
+    try {
+      const result = await recorder.stop()
+      console.log('⏹️ Recording stopped,', result.segmentCount, 'segment(s)')
+      const url = URL.createObjectURL(result.blob)
+      setDownloadUrl(url)
+      setRecordedChunks([result.blob])
+      setRecordedMimeType(result.mimeType)
+      setRecordingDuration(Math.round(result.durationMs / 1000))
+      console.log('✅ Recording ready for download:', result.blob.size, 'bytes')
+      // Only drop the crash backup once the take is safe in the library
+      if (await saveTake(result.blob, result.durationMs / 1000, { mimeType: result.mimeType, markers })) {
+        await sessionWriter?.complete().catch(error => {
+          console.warn('⚠️ Failed to remove recording backup:', error)
+        })
+      }
+    } catch (error) {
+      console.error('❌ Failed to finalize recording:', error)
+      // The chunks are still in IndexedDB; offer them for recovery instead
+      await sessionWriter?.abandon()
+      refreshRecoveredRecordings()
+      alert(`❌ Failed to finish recording: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      releaseCompositor()
+    }
+  }
+
+  // Slide turns and scene switches while recording, paused included, are
+  // stamped with the take's active time so they line up with the video
+  const addRecordingMarker = useCallback((createMarker: (timeMs: number) => RecordingMarker) => {
+    const recorder = mediaRecorderRef.current
+    if (!recorder || recorder.state === 'inactive') return
+
+    const marker = createMarker(recorder.clock.getElapsedMs())
+    recordingMarkersRef.current = addMarker(recordingMarkersRef.current, marker)
+    console.log(`🔖 ${marker.label} at ${(marker.timeMs / 1000).toFixed(1)}s`)
+  }, [])
+
+  const handleSlideChange = useCallback((event: SlideChangeEvent) => {
+    addRecordingMarker(timeMs => createSlideMarker(event, timeMs))
+  }, [addRecordingMarker])
+
+  const handlePauseRecording = () => {
+    const recorder = mediaRecorderRef.current
+    if (!recorder || recorder.state !== 'recording') return
+
+    recorder.pause()
+    setRecordingDuration(recorder.clock.getElapsedSeconds())
+    console.log('⏸️ Recording paused at', recorder.clock.getElapsedSeconds(), 's')
+  }
+
+  const handleResumeRecording = () => {
+    const recorder = mediaRecorderRef.current
+    if (!recorder || recorder.state !== 'paused') return
+
+    recorder.resume()
+    console.log('▶️ Recording resumed')
+  }
+
   const handleStopRecording = () => {
     if (mediaRecorderRef.current && isRecording) {
       try {
         console.log('🛑 User requested stop recording...')
-        mediaRecorderRef.current.stop()
+        finalizeRecording(mediaRecorderRef.current)
         setIsRecording(false)
+        setIsRecordingPaused(false)
 
         // Stop timer
         if (recordingTimerRef.current) {
@@ -477,6 +790,7 @@ export default function VideoPresenter() {
       } catch (error) {
         console.error('Error stopping recording:', error)
         setIsRecording(false)
+        setIsRecordingPaused(false)
         if (recordingTimerRef.current) {
           clearInterval(recordingTimerRef.current)
           recordingTimerRef.current = null
@@ -487,58 +801,424 @@ export default function VideoPresenter() {
     }
   }
 
-  const downloadRecording = async (format?: ExportFormat) => {
-    if (!downloadUrl) return
-
-    const targetFormat = format || exportFormat
-    
+  // Convert if needed and download; shared by the current take and the library
+  const exportRecording = async (
+    blob: Blob,
+    mimeType: string,
+    durationSeconds: number,
+    targetFormat: ExportFormat,
+    filename?: string,
+    markers: RecordingMarker[] = []
+  ) => {
+    const chapters = durationSeconds ? buildChapters(markers, durationSeconds * 1000) : []
     try {
-      if (!recordedChunks.length) {
-        // Direct download if no chunks available
-        const formatInfo = videoExporter.getFormatInfo(targetFormat)
-        videoExporter.downloadVideo(
-          await fetch(downloadUrl).then(r => r.blob()),
-          targetFormat,
-          `video-presentation-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.${formatInfo.extension}`
-        )
-        return
-      }
-
-      // Create blob from recorded chunks
-      const originalBlob = new Blob(recordedChunks, { type: recordedMimeType })
-      
       // Check if conversion is needed
-      if (videoExporter.needsConversion(recordedMimeType, targetFormat)) {
+      if (videoExporter.needsConversion(mimeType, targetFormat)) {
         console.log(`🎬 Converting to ${targetFormat.toUpperCase()}...`)
         setIsConverting(true)
         setConversionProgress({ progress: 0, stage: 'Preparing conversion...' })
+        conversionAbortRef.current = new AbortController()
 
         // Convert video
         const convertedBlob = await videoExporter.convertToFormat(
-          originalBlob,
+          blob,
           targetFormat,
           (progress: ConversionProgress) => {
             setConversionProgress(progress)
+          },
+          {
+            ...animationOptions,
+            signal: conversionAbortRef.current.signal,
+            durationSeconds: durationSeconds || undefined,
+            chapters
           }
         )
 
         // Download converted file
-        videoExporter.downloadVideo(convertedBlob, targetFormat)
+        videoExporter.downloadVideo(convertedBlob, targetFormat, filename)
         console.log(`✅ ${targetFormat.toUpperCase()} conversion and download complete!`)
       } else {
         // Direct download without conversion
-        videoExporter.downloadVideo(originalBlob, targetFormat)
+        videoExporter.downloadVideo(await videoExporter.addChapters(blob, chapters), targetFormat, filename)
         console.log(`✅ ${targetFormat.toUpperCase()} download complete!`)
       }
     } catch (error) {
+      if (error instanceof ExportError && error.code === ExportErrorCode.CANCELLED) {
+        console.log(`⏹️ ${targetFormat.toUpperCase()} conversion cancelled`)
+        return
+      }
       console.error('❌ Download/conversion failed:', error)
       alert(`❌ Failed to download ${targetFormat.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
+      conversionAbortRef.current = null
       setIsConverting(false)
       setConversionProgress(null)
     }
   }
 
+  const downloadRecording = async (format?: ExportFormat) => {
+    if (!downloadUrl) return
+
+    const targetFormat = format || exportFormat
+    const activeTake = libraryRecordings.find(recording => recording.id === activeRecordingId)
+    const filename = activeTake
+      ? `${RecordingLibrary.toFileName(activeTake.name)}.${videoExporter.getFormatInfo(targetFormat).extension}`
+      : undefined
+
+    // Direct download if no chunks available
+    const blob = recordedChunks.length
+      ? new Blob(recordedChunks, { type: recordedMimeType })
+      : await fetch(downloadUrl).then(r => r.blob())
+
+    await exportRecording(blob, recordedMimeType, recordingDuration, targetFormat, filename, activeTake?.markers)
+  }
+
+  // WebVTT chapters for a take, to publish next to the video
+  const downloadChapters = (take: LibraryRecording) => {
+    const chapters = buildChapters(take.markers ?? [], take.durationSeconds * 1000)
+    if (chapters.length === 0) return
+    videoExporter.downloadChapters(chapters, `${RecordingLibrary.toFileName(take.name)}.chapters.vtt`)
+  }
+
+  const handleExportTake = (recording: LibraryRecording, format: ExportFormat) => {
+    const extension = videoExporter.getFormatInfo(format).extension
+    exportRecording(
+      recording.blob,
+      recording.mimeType,
+      recording.durationSeconds,
+      format,
+      `${RecordingLibrary.toFileName(recording.name)}.${extension}`,
+      recording.markers
+    )
+  }
+
+  const cancelConversion = () => {
+    conversionAbortRef.current?.abort()
+  }
+
+  // Follow devices being plugged in and out; an unplugged device falls back
+  // to the system default so the preview and recording keep going
+  const handleDeviceListChange = async () => {
+    const devices = await refreshCaptureDevices()
+    if (!devices || !streamRef.current) return
+
+    const current = deviceSelectionRef.current
+    const reconciled = reconcileSelection(current, devices)
+    if (current.cameraId && !reconciled.cameraId) {
+      console.log('🔌 Selected camera was disconnected')
+      await handleCameraChange(null)
+    }
+    if (current.microphoneId && !reconciled.microphoneId) {
+      console.log('🔌 Selected microphone was disconnected')
+      await handleMicrophoneChange(null)
+    }
+  }
+
+  // The subscription outlives renders, so it calls the latest handler
+  const deviceListChangeRef = useRef(handleDeviceListChange)
+  useEffect(() => {
+    deviceListChangeRef.current = handleDeviceListChange
+  })
+
+  useEffect(() => {
+    refreshCaptureDevices()
+    return onDeviceChange(() => deviceListChangeRef.current())
+  }, [])
+
+  // Faders move live while recording
+  useEffect(() => {
+    audioMixer?.applySettings(mixerSettings)
+  }, [audioMixer, mixerSettings])
+
+  useEffect(() => {
+    audioMixer?.applyEffects(effectsSettings)
+  }, [audioMixer, effectsSettings])
+
+  // Restore saved voice processing after mount, then keep it saved
+  useEffect(() => {
+    setEffectsSettings(loadEffectsSettings())
+    setIsEffectsSettingsLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (isEffectsSettingsLoaded) saveEffectsSettings(effectsSettings)
+  }, [effectsSettings, isEffectsSettingsLoaded])
+
+  // Saved scenes, or the starter layouts built on the current look
+  useEffect(() => {
+    setSceneCollection(loadSceneCollection() ?? createDefaultSceneCollection(toScenePresenter(settings)))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    if (!sceneCollection) return
+    try {
+      saveSceneCollection(sceneCollection)
+    } catch (error) {
+      console.warn('⚠️ Could not save scenes:', error)
+    }
+  }, [sceneCollection])
+
+  useEffect(() => {
+    if (!previewTransition) return
+    const timeout = setTimeout(() => setPreviewTransition(null), previewTransition.durationMs)
+    return () => clearTimeout(timeout)
+  }, [previewTransition])
+
+  // The mixer is created on load, before the page may play audio; the first
+  // click lets the meters run
+  useEffect(() => {
+    if (!audioMixer) return
+    const resume = () => audioMixer.resume()
+    document.addEventListener('pointerdown', resume, { once: true })
+    return () => document.removeEventListener('pointerdown', resume)
+  }, [audioMixer])
+
+  // Bring back the board from the previous visit
+  useEffect(() => {
+    workspaceStore.load()
+      .then(workspace => {
+        if (!workspace) return
+        setSettings(prev => ({ ...prev, ...workspace.presenter, isDragging: false }))
+        videoCanvasRef.current?.loadBoardItems(workspace.boardItems)
+        videoCanvasRef.current?.applySceneView(workspace.view)
+        setTeleprompterScript(workspace.teleprompterScript)
+        setSceneCollection(prev => prev && applySceneAnnotations(prev, workspace.sceneAnnotations))
+        history.clear()
+        console.log('♻️ Restored the autosaved workspace')
+      })
+      .catch(error => console.warn('⚠️ Could not restore the autosaved workspace:', error))
+      .finally(() => {
+        isWorkspaceRestoredRef.current = true
+      })
+  }, [history])
+
+  useEffect(() => {
+    saveWorkspaceRef.current = () => {
+      const canvas = videoCanvasRef.current
+      if (!canvas || !isWorkspaceRestoredRef.current) return
+      workspaceStore.save({
+        presenter: toScenePresenter(settings),
+        boardItems: canvas.getBoardItems(),
+        view: canvas.getSceneView(),
+        teleprompterScript,
+        sceneAnnotations: sceneCollection ? getSceneAnnotations(sceneCollection) : {}
+      }).catch(error => console.warn('⚠️ Could not autosave the workspace:', error))
+    }
+  })
+
+  // Save once the board settles rather than on every drag step
+  const scheduleWorkspaceSave = useCallback(() => {
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current)
+    autosaveTimerRef.current = setTimeout(() => {
+      autosaveTimerRef.current = null
+      saveWorkspaceRef.current()
+    }, WORKSPACE_CONSTANTS.AUTOSAVE_DELAY_MS)
+  }, [])
+
+  useEffect(() => {
+    scheduleWorkspaceSave()
+  }, [settings, teleprompterScript, sceneCollection, scheduleWorkspaceSave])
+
+  // Write a pending change right away when the page goes away
+  useEffect(() => {
+    const flush = () => {
+      if (!autosaveTimerRef.current) return
+      clearTimeout(autosaveTimerRef.current)
+      autosaveTimerRef.current = null
+      saveWorkspaceRef.current()
+    }
+    window.addEventListener('pagehide', flush)
+    return () => {
+      window.removeEventListener('pagehide', flush)
+      if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current)
+    }
+  }, [])
+
+  // Restore the saved quality profile after mount
+  useEffect(() => {
+    setQualityProfileId(getQualityProfile(localStorage.getItem(QUALITY_PROFILE_STORAGE_KEY)).id)
+    setIsQualityProfileLoaded(true)
+  }, [])
+
+  // Persist the profile and match the live camera to it
+  useEffect(() => {
+    if (!isQualityProfileLoaded) return
+
+    localStorage.setItem(QUALITY_PROFILE_STORAGE_KEY, qualityProfileId)
+    const videoTrack = streamRef.current?.getVideoTracks()[0]
+    if (videoTrack) {
+      videoTrack.applyConstraints(getCameraConstraints(getQualityProfile(qualityProfileId))).catch(error => {
+        console.warn('⚠️ Camera could not switch to the selected quality:', error)
+      })
+    }
+  }, [qualityProfileId, isQualityProfileLoaded])
+
+  // Takes kept from earlier sessions
+  useEffect(() => {
+    recordingLibrary.list()
+      .then(setLibraryRecordings)
+      .catch(error => console.warn('⚠️ Could not load the recording library:', error))
+  }, [])
+
+  // Offer takes interrupted by a crash or reload on a previous visit
+  useEffect(() => {
+    recordingStore.listInterrupted()
+      .then(setRecoveredRecordings)
+      .catch(error => console.warn('⚠️ Could not check for interrupted recordings:', error))
+  }, [])
+
+  // The recording as a single Blob, for the trim editor
+  const recordedBlob = useMemo(
+    () => (recordedChunks.length ? new Blob(recordedChunks, { type: recordedMimeType }) : null),
+    [recordedChunks, recordedMimeType]
+  )
+
+  // Replace the recording with the trimmed version so every export uses it.
+  // The untrimmed take stays in the library.
+  const handleApplyEdits = (trimmed: Blob, duration: number, segments: TimeRange[]) => {
+    const original = libraryRecordings.find(recording => recording.id === activeRecordingId)
+    // Until the trimmed take is saved, the original's markers no longer match
+    setActiveRecordingId(null)
+    if (downloadUrl) {
+      URL.revokeObjectURL(downloadUrl)
+    }
+    setDownloadUrl(URL.createObjectURL(trimmed))
+    setRecordedChunks([trimmed])
+    if (trimmed.type) {
+      setRecordedMimeType(trimmed.type)
+    }
+    setRecordingDuration(Math.round(duration))
+    setIsEditorOpen(false)
+    console.log('✅ Recording replaced with trimmed version:', trimmed.size, 'bytes')
+    saveTake(trimmed, duration, {
+      mimeType: trimmed.type || recordedMimeType,
+      source: original?.source,
+      name: original ? `${original.name} (edited)` : undefined,
+      markers: remapMarkers(original?.markers ?? [], segments)
+    })
+  }
+
+  const refreshLibrary = async () => {
+    try {
+      setLibraryRecordings(await recordingLibrary.list())
+    } catch (error) {
+      console.warn('⚠️ Could not load the recording library:', error)
+    }
+  }
+
+  // Keep a finished take and make it the current one. Resolves to false when
+  // it could not be stored, so callers can keep their own copy around.
+  const saveTake = async (
+    blob: Blob,
+    durationSeconds: number,
+    options: { mimeType: string; source?: string; name?: string; createdAt?: number; markers?: RecordingMarker[] }
+  ) => {
+    if (!recordingLibrary.isSupported()) return false
+
+    try {
+      const take = await recordingLibrary.add(blob, {
+        ...options,
+        durationSeconds,
+        source: options.source ?? recordingSource
+      })
+      setActiveRecordingId(take.id)
+      console.log(`📚 Saved "${take.name}" to the library`)
+      await refreshLibrary()
+      return true
+    } catch (error) {
+      console.error('❌ Failed to save take to the library:', error)
+      return false
+    }
+  }
+
+  const handleOpenTake = async (id: string) => {
+    try {
+      const take = await recordingLibrary.get(id)
+      if (downloadUrl) {
+        URL.revokeObjectURL(downloadUrl)
+      }
+      setDownloadUrl(URL.createObjectURL(take.blob))
+      setRecordedChunks([take.blob])
+      setRecordedMimeType(take.mimeType)
+      setRecordingDuration(Math.round(take.durationSeconds))
+      setActiveRecordingId(take.id)
+      setIsLibraryOpen(false)
+    } catch (error) {
+      console.error('❌ Failed to open take:', error)
+      alert(`❌ Failed to open take: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleRenameTake = async (id: string, name: string) => {
+    try {
+      await recordingLibrary.rename(id, name)
+    } catch (error) {
+      console.error('❌ Failed to rename take:', error)
+    }
+    refreshLibrary()
+  }
+
+  const handleDeleteTake = async (id: string) => {
+    try {
+      await recordingLibrary.delete(id)
+      if (id === activeRecordingId) {
+        clearRecording()
+      }
+    } catch (error) {
+      console.error('❌ Failed to delete take:', error)
+    }
+    refreshLibrary()
+  }
+
+  const refreshRecoveredRecordings = async () => {
+    try {
+      setRecoveredRecordings(await recordingStore.listInterrupted())
+    } catch (error) {
+      console.warn('⚠️ Could not check for interrupted recordings:', error)
+    }
+  }
+
+  // Load an interrupted take as the current recording
+  const handleRestoreRecording = async (sessionId: string) => {
+    if (isRecording || restoringRecordingId) return
+
+    setRestoringRecordingId(sessionId)
+    try {
+      const { session, blob } = await recordingStore.restore(sessionId)
+      if (downloadUrl) {
+        URL.revokeObjectURL(downloadUrl)
+      }
+      setDownloadUrl(URL.createObjectURL(blob))
+      setRecordedChunks([blob])
+      setRecordedMimeType(blob.type || session.mimeType)
+      setRecordingDuration(Math.round(session.durationMs / 1000))
+      if (await saveTake(blob, session.durationMs / 1000, {
+        mimeType: blob.type || session.mimeType,
+        source: session.source,
+        createdAt: session.startedAt
+      })) {
+        await recordingStore.deleteSession(sessionId)
+      }
+      console.log('✅ Recovered recording restored:', blob.size, 'bytes')
+    } catch (error) {
+      console.error('❌ Failed to restore recording:', error)
+      alert(`❌ Failed to restore recording: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setRestoringRecordingId(null)
+      refreshRecoveredRecordings()
+    }
+  }
+
+  const handleDiscardRecoveredRecording = async (sessionId: string) => {
+    try {
+      await recordingStore.deleteSession(sessionId)
+    } catch (error) {
+      console.error('❌ Failed to discard recovered recording:', error)
+    }
+    refreshRecoveredRecordings()
+  }
+
   const clearRecording = () => {
     if (downloadUrl) {
       URL.revokeObjectURL(downloadUrl)
@@ -546,6 +1226,8 @@ export default function VideoPresenter() {
     setDownloadUrl(null)
     setRecordedChunks([])
     setRecordingDuration(0)
+    setActiveRecordingId(null)
+    setIsEditorOpen(false)
   }
 
   const handlePictureInPicture = async () => {
@@ -703,6 +1385,177 @@ export default function VideoPresenter() {
     videoCanvasRef.current?.addNote()
   }
 
+  const handleSwitchScene = (sceneId: string) => {
+    const scene = sceneCollection?.scenes.find(candidate => candidate.id === sceneId)
+    if (!sceneCollection || !scene) return
+
+    const { transition } = sceneCollection
+    if (transition.type !== 'cut') {
+      // Freeze the outgoing frame before the board changes underneath it
+      compositorRef.current?.startTransition({ type: transition.type, durationMs: transition.durationMs })
+      setPreviewTransition(transition)
+    }
+
+    setSettings(prev => ({ ...prev, ...scene.presenter, position: { ...scene.presenter.position }, isDragging: false }))
+    videoCanvasRef.current?.applySceneView(scene.view)
+    setSceneCollection({ ...sceneCollection, activeSceneId: sceneId })
+    addRecordingMarker(timeMs => createSceneMarker(scene.name, timeMs))
+    console.log('🎬 Switched to scene', scene.name)
+  }
+
+  const handleCreateScene = () => {
+    if (!sceneCollection) return
+    const scene = createScene(
+      `Scene ${sceneCollection.scenes.length + 1}`,
+      toScenePresenter(settings),
+      videoCanvasRef.current?.getSceneView() ?? SCENE_CONSTANTS.DEFAULT_VIEW
+    )
+    setSceneCollection({ ...sceneCollection, scenes: [...sceneCollection.scenes, scene], activeSceneId: scene.id })
+  }
+
+  const handleSaveSceneLayout = (sceneId: string) => {
+    if (!sceneCollection) return
+    const view = videoCanvasRef.current?.getSceneView() ?? SCENE_CONSTANTS.DEFAULT_VIEW
+    setSceneCollection({
+      ...updateScene(sceneCollection, sceneId, { presenter: toScenePresenter(settings), view }),
+      activeSceneId: sceneId
+    })
+  }
+
+  const handleDuplicateScene = (sceneId: string) => {
+    if (sceneCollection) setSceneCollection(duplicateScene(sceneCollection, sceneId))
+  }
+
+  const handleRenameScene = (sceneId: string, name: string) => {
+    const normalized = normalizeSceneName(name)
+    if (sceneCollection && normalized) setSceneCollection(updateScene(sceneCollection, sceneId, { name: normalized }))
+  }
+
+  const handleDeleteScene = (sceneId: string) => {
+    if (!sceneCollection) return
+    try {
+      setSceneCollection(deleteScene(sceneCollection, sceneId))
+    } catch (error) {
+      console.warn('⚠️ Could not delete scene:', error)
+    }
+  }
+
+  const handleSceneTransitionChange = (transition: SceneTransition) => {
+    if (sceneCollection) setSceneCollection({ ...sceneCollection, transition })
+  }
+
+  const activeSceneId = sceneCollection?.activeSceneId ?? null
+  const annotations = sceneCollection?.scenes.find(scene => scene.id === activeSceneId)?.annotations ?? looseAnnotations
+
+  // Annotations stay with the scene they were drawn in, undo included
+  const setSceneAnnotations = useCallback((sceneId: string | null, next: Annotation[]) => {
+    if (sceneId === null) {
+      setLooseAnnotations(next)
+      return
+    }
+    setSceneCollection(prev => prev?.scenes.some(scene => scene.id === sceneId)
+      ? updateScene(prev, sceneId, { annotations: next })
+      : prev)
+  }, [])
+
+  const handleAnnotationsChange = useCallback((next: Annotation[], label: string) => {
+    setSceneAnnotations(activeSceneId, next)
+    history.push(createValueCommand(label, annotations, next, value => setSceneAnnotations(activeSceneId, value)))
+  }, [history, activeSceneId, annotations, setSceneAnnotations])
+
+  useEffect(() => {
+    settingsRef.current = settings
+  }, [settings])
+
+  const applyPresenter = useCallback((presenter: ScenePresenter) => {
+    setSettings(prev => ({ ...prev, ...presenter, position: { ...presenter.position }, isDragging: false }))
+  }, [])
+
+  // User edits go through here to be undoable; scene switches and restores
+  // set settings directly
+  const handleSettingsChange = useCallback((next: PresenterSettings) => {
+    const before = settingsRef.current
+    settingsRef.current = next
+    setSettings(next)
+
+    const beforePresenter = toScenePresenter(before)
+    const afterPresenter = toScenePresenter(next)
+    if (JSON.stringify(beforePresenter) !== JSON.stringify(afterPresenter)) {
+      // Only a camera drag merges into one step; shape, colour and filter
+      // changes are each their own, however quickly they follow
+      const isDrag = before.isDragging || next.isDragging
+      history.push(createValueCommand('Change presenter', beforePresenter, afterPresenter, applyPresenter, isDrag ? 'presenter-drag' : undefined))
+    }
+    // A finished camera drag is one step, even if the next follows quickly
+    if (before.isDragging && !next.isDragging) {
+      history.endCoalescing()
+    }
+  }, [history, applyPresenter])
+
+  const handleSaveProject = async () => {
+    const name = window.prompt(t.projectNamePrompt, projectName)
+    if (name === null) return
+
+    const normalizedName = normalizeProjectName(name)
+    const presenter = toScenePresenter(settings)
+    setIsProjectBusy(true)
+    try {
+      const project = await packProject({
+        name: normalizedName,
+        presenter,
+        boardItems: videoCanvasRef.current?.getBoardItems() ?? [],
+        teleprompterScript,
+        scenes: sceneCollection ?? createDefaultSceneCollection(presenter),
+        mixer: mixerSettings,
+        effects: effectsSettings,
+        qualityProfileId
+      })
+      const url = URL.createObjectURL(project)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = getProjectFileName(normalizedName)
+      link.click()
+      // Give the browser a moment to start the download before revoking
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+      setProjectName(normalizedName)
+      console.log('💾 Saved project', normalizedName)
+    } catch (error) {
+      console.error('❌ Failed to save project:', error)
+      alert(`❌ ${t.projectSaveFailed}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsProjectBusy(false)
+    }
+  }
+
+  const handleOpenProject = async (file: File) => {
+    setIsProjectBusy(true)
+    try {
+      const project = await unpackProject(file)
+      const activeScene = project.scenes.scenes.find(scene => scene.id === project.scenes.activeSceneId)
+
+      setSettings(prev => ({ ...prev, ...project.presenter, position: { ...project.presenter.position }, isDragging: false }))
+      videoCanvasRef.current?.loadBoardItems(project.boardItems)
+      videoCanvasRef.current?.applySceneView(activeScene?.view ?? SCENE_CONSTANTS.DEFAULT_VIEW)
+      setTeleprompterScript(project.teleprompterScript)
+      setSceneCollection(project.scenes)
+      setLooseAnnotations([])
+      setMixerSettings(project.mixer)
+      setEffectsSettings(project.effects)
+      setQualityProfileId(project.qualityProfileId)
+      setProjectName(project.name)
+      history.clear()
+      console.log('📂 Opened project', project.name)
+    } catch (error) {
+      console.error('❌ Failed to open project:', error)
+      const message = error instanceof ProjectError && error.code === ProjectErrorCode.UNSUPPORTED_VERSION
+        ? t.projectNewerVersion
+        : `${t.projectOpenFailed}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      alert(`❌ ${message}`)
+    } finally {
+      setIsProjectBusy(false)
+    }
+  }
+
   const openCameraPopup = () => {
     const popup = window.open(
       '',
@@ -772,6 +1625,15 @@ export default function VideoPresenter() {
               align-items: center;
               gap: 6px;
             }
+            .recording-indicator.paused {
+              background: rgba(245, 158, 11, 0.2);
+              border-color: rgba(245, 158, 11, 0.5);
+              color: #fcd34d;
+            }
+            .recording-indicator.paused .pulse {
+              background: #f59e0b;
+              animation: none;
+            }
             .pulse {
               width: 6px;
               height: 6px;
@@ -786,9 +1648,9 @@ export default function VideoPresenter() {
           </style>
         </head>
         <body>
-          <div class="recording-indicator">
+          <div class="recording-indicator${isRecordingPaused ? ' paused' : ''}">
             <div class="pulse"></div>
-            🔴 RECORDING
+            <span class="recording-label">${isRecordingPaused ? '⏸️ PAUSED' : '🔴 RECORDING'}</span>
           </div>
           <div class="controls">
             <button onclick="togglePiP()">📺 PiP</button>
@@ -856,9 +1718,14 @@ export default function VideoPresenter() {
       const indicator = cameraPopupRef.current.document.querySelector('.recording-indicator') as HTMLElement
       if (indicator) {
         indicator.style.display = isRecording ? 'flex' : 'none'
+        indicator.classList.toggle('paused', isRecordingPaused)
+        const label = indicator.querySelector('.recording-label')
+        if (label) {
+          label.textContent = isRecordingPaused ? '⏸️ PAUSED' : '🔴 RECORDING'
+        }
       }
     }
-  }, [isRecording])
+  }, [isRecording, isRecordingPaused])
 
   // Initialize blur controller
   useEffect(() => {
@@ -920,6 +1787,46 @@ export default function VideoPresenter() {
     return () => clearInterval(interval)
   }, [blurStatus.enabled])
 
+  // Alt+1-9 switches scenes. The listener outlives renders, so it calls the
+  // latest handler.
+  const switchSceneByIndexRef = useRef<(index: number) => void>(() => {})
+  useEffect(() => {
+    switchSceneByIndexRef.current = (index: number) => {
+      const scene = sceneCollection?.scenes[index]
+      if (scene) handleSwitchScene(scene.id)
+    }
+  })
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const digit = /^Digit([1-9])$/.exec(event.code)
+      if (!event.altKey || event.ctrlKey || event.metaKey || !digit) return
+      event.preventDefault()
+      switchSceneByIndexRef.current(Number(digit[1]) - 1)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      if (event.target instanceof Element && event.target.matches('input, textarea, select, [contenteditable="true"]')) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        history.undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        history.redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [history])
+
   // Keyboard shortcut for toggling sidebar
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
@@ -936,22 +1843,38 @@ export default function VideoPresenter() {
 
 
 
+  const activeTake = libraryRecordings.find(recording => recording.id === activeRecordingId)
+
   return (
     <div className="h-full flex flex-col bg-gray-900 overflow-hidden">
-      <TopBar />
+      <TopBar
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        isProjectBusy={isProjectBusy || isRecording}
+      />
       
       <div className="flex-1 flex min-h-0">
         {/* Main video area */}
         <div className="flex-1 relative overflow-hidden">
-          <VideoCanvas
-            ref={videoCanvasRef}
-            videoRef={videoRef}
-            settings={settings}
-            onSettingsChange={setSettings}
-            isRecording={isRecording}
-            isPictureInPicture={isPictureInPicture}
-            blurController={blurControllerRef.current || undefined}
-          />
+          <div
+            className={previewTransition ? `h-full scene-transition-${previewTransition.type}` : 'h-full'}
+            style={previewTransition ? { '--scene-transition-duration': `${previewTransition.durationMs}ms` } as CSSProperties : undefined}
+          >
+            <VideoCanvas
+              ref={videoCanvasRef}
+              videoRef={videoRef}
+              settings={settings}
+              onSettingsChange={handleSettingsChange}
+              isRecording={isRecording}
+              isPictureInPicture={isPictureInPicture}
+              blurController={blurControllerRef.current || undefined}
+              onBoardChange={scheduleWorkspaceSave}
+              onSlideChange={handleSlideChange}
+              history={history}
+              annotations={annotations}
+              onAnnotationsChange={handleAnnotationsChange}
+            />
+          </div>
           
           {/* Sidebar toggle button - positioned near sidebar edge */}
           <button
@@ -984,16 +1907,47 @@ export default function VideoPresenter() {
           <div className="flex-shrink-0 animate-in slide-in-from-right duration-200">
             <ControlsPanel
               settings={settings}
-              onSettingsChange={setSettings}
+              onSettingsChange={handleSettingsChange}
               isRecording={isRecording}
               recordingSource={recordingSource}
               onRecordingSourceChange={setRecordingSource}
               onStartRecording={handleStartRecording}
               onStopRecording={handleStopRecording}
+              isRecordingPaused={isRecordingPaused}
+              onPauseRecording={handlePauseRecording}
+              onResumeRecording={handleResumeRecording}
+              recoveredRecordings={recoveredRecordings}
+              restoringRecordingId={restoringRecordingId}
+              onRestoreRecording={handleRestoreRecording}
+              onDiscardRecoveredRecording={handleDiscardRecoveredRecording}
+              libraryCount={libraryRecordings.length}
+              qualityProfileId={qualityProfileId}
+              onQualityProfileChange={setQualityProfileId}
+              captureDevices={captureDevices}
+              deviceSelection={deviceSelection}
+              isSwitchingDevice={isSwitchingDevice}
+              onCameraChange={handleCameraChange}
+              onMicrophoneChange={handleMicrophoneChange}
+              mixerSettings={mixerSettings}
+              onMixerSettingsChange={setMixerSettings}
+              audioMixer={audioMixer}
+              sceneCollection={sceneCollection}
+              onSwitchScene={handleSwitchScene}
+              onCreateScene={handleCreateScene}
+              onSaveSceneLayout={handleSaveSceneLayout}
+              onDuplicateScene={handleDuplicateScene}
+              onRenameScene={handleRenameScene}
+              onDeleteScene={handleDeleteScene}
+              onSceneTransitionChange={handleSceneTransitionChange}
+              effectsSettings={effectsSettings}
+              onEffectsSettingsChange={setEffectsSettings}
+              onOpenLibrary={() => setIsLibraryOpen(true)}
               recordingDuration={recordingDuration}
               downloadUrl={downloadUrl}
               onDownloadRecording={downloadRecording}
+              onDownloadChapters={activeTake?.markers?.length ? () => downloadChapters(activeTake) : undefined}
               onClearRecording={clearRecording}
+              onEditRecording={recordedBlob ? () => setIsEditorOpen(true) : undefined}
               recordedMimeType={recordedMimeType}
               onPictureInPicture={handlePictureInPicture}
               onToggleTeleprompter={handleToggleTeleprompter}
@@ -1001,8 +1955,11 @@ export default function VideoPresenter() {
               onAddNote={handleAddNote}
               exportFormat={exportFormat}
               onExportFormatChange={setExportFormat}
+              animationOptions={animationOptions}
+              onAnimationOptionsChange={setAnimationOptions}
               isConverting={isConverting}
               conversionProgress={conversionProgress}
+              onCancelConversion={cancelConversion}
               blurStatus={blurStatus}
               onBlurToggle={handleBlurToggle}
               onBlurIntensityChange={handleBlurIntensityChange}
@@ -1016,6 +1973,37 @@ export default function VideoPresenter() {
         isVisible={isTeleprompterVisible}
         onToggleVisibility={handleToggleTeleprompter}
         isRecording={isRecording}
+        text={teleprompterScript}
+        onTextChange={setTeleprompterScript}
+      />
+
+      {/* Post-recording trim/cut editor */}
+      {downloadUrl && recordedBlob && (
+        <RecordingEditor
+          isOpen={isEditorOpen}
+          recordingUrl={downloadUrl}
+          recordingBlob={recordedBlob}
+          mimeType={recordedMimeType}
+          durationHint={recordingDuration}
+          onApply={handleApplyEdits}
+          onClose={() => setIsEditorOpen(false)}
+        />
+      )}
+
+      <RecordingLibraryDialog
+        isOpen={isLibraryOpen}
+        recordings={libraryRecordings}
+        activeRecordingId={activeRecordingId}
+        exportFormat={exportFormat}
+        isConverting={isConverting}
+        conversionProgress={conversionProgress}
+        onCancelConversion={cancelConversion}
+        onOpen={handleOpenTake}
+        onRename={handleRenameTake}
+        onDelete={handleDeleteTake}
+        onExport={handleExportTake}
+        onDownloadChapters={downloadChapters}
+        onClose={() => setIsLibraryOpen(false)}
       />
     </div>
   )
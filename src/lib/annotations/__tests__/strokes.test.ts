@@ -0,0 +1,107 @@
+/**
+ * Tests for annotation geometry, erasing and the laser trail
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  appendPoint,
+  distanceToSegment,
+  eraseAt,
+  getArrowHead,
+  getLaserTrail,
+  getPointerPressure,
+  getPressureWidth,
+  hitTestAnnotation,
+  normalizeAnnotations
+} from '../strokes';
+import { ANNOTATION_CONSTANTS, type Annotation } from '../types';
+
+function createAnnotation(overrides: Partial<Annotation> = {}): Annotation {
+  return {
+    id: 'annotation-1',
+    shape: 'pen',
+    color: '#ef4444',
+    width: 4,
+    points: [{ x: 0, y: 0, pressure: 0.5 }, { x: 100, y: 0, pressure: 0.5 }],
+    ...overrides
+  };
+}
+
+describe('annotation strokes', () => {
+  describe('pressure', () => {
+    it('should treat mice and pressure-less input as a normal press', () => {
+      expect(getPointerPressure('mouse', 1)).toBe(ANNOTATION_CONSTANTS.DEFAULT_PRESSURE);
+      expect(getPointerPressure('pen', 0)).toBe(ANNOTATION_CONSTANTS.DEFAULT_PRESSURE);
+      expect(getPointerPressure('pen', 0.8)).toBe(0.8);
+    });
+
+    it('should keep the base width at a normal press and scale around it', () => {
+      expect(getPressureWidth(4, 0.5)).toBe(4);
+      expect(getPressureWidth(4, 0)).toBe(1);
+      expect(getPressureWidth(4, 1)).toBe(7);
+      expect(getPressureWidth(4, 3)).toBe(7);
+    });
+  });
+
+  it('should skip points too close to the previous one', () => {
+    const points = [{ x: 0, y: 0, pressure: 0.5 }];
+    expect(appendPoint(points, { x: 1, y: 0, pressure: 0.5 })).toBe(points);
+    expect(appendPoint(points, { x: 5, y: 0, pressure: 0.7 })).toHaveLength(2);
+    expect(appendPoint([], { x: 1, y: 1, pressure: 0.5 })).toHaveLength(1);
+  });
+
+  it('should place the arrow head behind the tip on both sides', () => {
+    const [left, right] = getArrowHead({ x: 0, y: 0 }, { x: 100, y: 0 }, 4);
+    expect(left.x).toBeLessThan(100);
+    expect(right.x).toBeCloseTo(left.x);
+    expect(left.y).toBeCloseTo(-right.y);
+  });
+
+  it('should measure distance to the closest point of a segment', () => {
+    expect(distanceToSegment({ x: 50, y: 10 }, { x: 0, y: 0 }, { x: 100, y: 0 })).toBe(10);
+    expect(distanceToSegment({ x: 110, y: 0 }, { x: 0, y: 0 }, { x: 100, y: 0 })).toBe(10);
+    expect(distanceToSegment({ x: 3, y: 4 }, { x: 0, y: 0 }, { x: 0, y: 0 })).toBe(5);
+  });
+
+  describe('erasing', () => {
+    it('should hit rectangles on their outline only', () => {
+      const rectangle = createAnnotation({
+        shape: 'rectangle',
+        points: [{ x: 0, y: 0, pressure: 0.5 }, { x: 100, y: 100, pressure: 0.5 }]
+      });
+      expect(hitTestAnnotation(rectangle, { x: 100, y: 50 }, 5)).toBe(true);
+      expect(hitTestAnnotation(rectangle, { x: 50, y: 50 }, 5)).toBe(false);
+    });
+
+    it('should remove whole strokes under the eraser', () => {
+      const near = createAnnotation({ id: 'near' });
+      const far = createAnnotation({ id: 'far', points: [{ x: 0, y: 200, pressure: 0.5 }] });
+
+      expect(eraseAt([near, far], { x: 50, y: 5 })).toEqual([far]);
+    });
+
+    it('should return the same list when nothing was hit', () => {
+      const annotations = [createAnnotation()];
+      expect(eraseAt(annotations, { x: 50, y: 100 })).toBe(annotations);
+    });
+  });
+
+  it('should keep only laser points younger than the fade time', () => {
+    const points = [{ x: 0, y: 0, time: 0 }, { x: 10, y: 0, time: 500 }, { x: 20, y: 0, time: 900 }];
+    expect(getLaserTrail(points, 1000, 600)).toEqual(points.slice(1));
+    expect(getLaserTrail(points, 2000, 600)).toEqual([]);
+  });
+
+  it('should drop malformed annotations when normalizing', () => {
+    const valid = createAnnotation();
+    expect(normalizeAnnotations([
+      valid,
+      { ...valid, shape: 'laser' },
+      { ...valid, width: -1 },
+      { ...valid, points: [] },
+      { ...valid, points: [{ x: 'a', y: 0, pressure: 0.5 }] },
+      null
+    ])).toEqual([valid]);
+    expect(normalizeAnnotations(undefined)).toEqual([]);
+  });
+});
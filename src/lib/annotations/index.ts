@@ -0,0 +1,4 @@
+// Annotation layer exports
+export * from './types';
+export * from './strokes';
+export * from './render';
@@ -0,0 +1,143 @@
+/**
+ * Canvas drawing for annotations, shared by the on-screen layer and the
+ * stage compositor so recordings match what the presenter sees
+ */
+
+import { getArrowHead, getLaserTrail, getPressureWidth } from './strokes';
+import { ANNOTATION_CONSTANTS, type Annotation, type LaserPoint } from './types';
+
+function drawFreehand(ctx: CanvasRenderingContext2D, annotation: Annotation): void {
+  const { points } = annotation;
+  const [first] = points;
+
+  if (points.length === 1) {
+    ctx.beginPath();
+    ctx.arc(first.x, first.y, getPressureWidth(annotation.width, first.pressure) / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+
+  // Each segment takes the average pressure of its ends so the width tapers smoothly
+  for (let index = 1; index < points.length; index++) {
+    const from = points[index - 1];
+    const to = points[index];
+    ctx.lineWidth = getPressureWidth(annotation.width, (from.pressure + to.pressure) / 2);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+}
+
+// Highlighter ink is one path so overlapping segments do not darken each other
+function drawHighlighter(ctx: CanvasRenderingContext2D, annotation: Annotation): void {
+  const { points } = annotation;
+  ctx.globalAlpha *= ANNOTATION_CONSTANTS.HIGHLIGHTER_OPACITY;
+  ctx.lineWidth = annotation.width;
+  ctx.lineCap = 'butt';
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (const point of points.slice(1)) {
+    ctx.lineTo(point.x, point.y);
+  }
+  if (points.length === 1) {
+    ctx.lineTo(points[0].x + 0.01, points[0].y);
+  }
+  ctx.stroke();
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, annotation: Annotation): void {
+  const from = annotation.points[0];
+  const to = annotation.points[annotation.points.length - 1];
+  const [left, right] = getArrowHead(from, to, annotation.width);
+
+  ctx.lineWidth = annotation.width;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawRectangle(ctx: CanvasRenderingContext2D, annotation: Annotation): void {
+  const from = annotation.points[0];
+  const to = annotation.points[annotation.points.length - 1];
+  ctx.lineWidth = annotation.width;
+  ctx.strokeRect(Math.min(from.x, to.x), Math.min(from.y, to.y), Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+}
+
+/**
+ * Draw annotations in their own (board) coordinates onto ctx
+ */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, annotations: Annotation[]): void {
+  for (const annotation of annotations) {
+    if (annotation.points.length === 0) continue;
+
+    ctx.save();
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    switch (annotation.shape) {
+      case 'pen':
+        drawFreehand(ctx, annotation);
+        break;
+      case 'highlighter':
+        drawHighlighter(ctx, annotation);
+        break;
+      case 'arrow':
+        drawArrow(ctx, annotation);
+        break;
+      case 'rectangle':
+        drawRectangle(ctx, annotation);
+        break;
+    }
+    ctx.restore();
+  }
+}
+
+/**
+ * Draw the laser pointer trail as it looks at `now`: older segments are
+ * thinner and more transparent, and the newest point gets a glowing dot
+ */
+export function drawLaserTrail(ctx: CanvasRenderingContext2D, points: LaserPoint[], now: number): void {
+  const trail = getLaserTrail(points, now);
+  if (trail.length === 0) {
+    return;
+  }
+
+  const fadeMs = ANNOTATION_CONSTANTS.LASER_FADE_MS;
+  ctx.save();
+  ctx.strokeStyle = ANNOTATION_CONSTANTS.LASER_COLOR;
+  ctx.fillStyle = ANNOTATION_CONSTANTS.LASER_COLOR;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  for (let index = 1; index < trail.length; index++) {
+    const from = trail[index - 1];
+    const to = trail[index];
+    const life = 1 - (now - to.time) / fadeMs;
+    ctx.globalAlpha = Math.max(0, life);
+    ctx.lineWidth = ANNOTATION_CONSTANTS.LASER_WIDTH * (0.4 + 0.6 * life);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+
+  const head = trail[trail.length - 1];
+  ctx.globalAlpha = Math.max(0, 1 - (now - head.time) / fadeMs);
+  ctx.shadowColor = ANNOTATION_CONSTANTS.LASER_COLOR;
+  ctx.shadowBlur = ANNOTATION_CONSTANTS.LASER_WIDTH * 2;
+  ctx.beginPath();
+  ctx.arc(head.x, head.y, ANNOTATION_CONSTANTS.LASER_WIDTH, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
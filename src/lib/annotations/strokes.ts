@@ -0,0 +1,147 @@
+/**
+ * Annotation geometry: building strokes from pointer input, hit testing for
+ * the eraser and the fading laser trail
+ */
+
+import {
+  ANNOTATION_CONSTANTS,
+  type Annotation,
+  type AnnotationPoint,
+  type AnnotationShape,
+  type LaserPoint
+} from './types';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const SHAPES: AnnotationShape[] = ['pen', 'highlighter', 'arrow', 'rectangle'];
+
+export function createAnnotationId(): string {
+  return `annotation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Pointer pressure, with mice and pressure-less devices treated as a normal press
+ */
+export function getPointerPressure(pointerType: string, pressure: number): number {
+  if (pointerType === 'mouse' || !(pressure > 0)) {
+    return ANNOTATION_CONSTANTS.DEFAULT_PRESSURE;
+  }
+  return Math.min(1, pressure);
+}
+
+/**
+ * Pen width for a pressure: the base width at a normal press, thinner when
+ * light and up to 1.75x when pressed hard
+ */
+export function getPressureWidth(width: number, pressure: number): number {
+  return width * (0.25 + 1.5 * Math.min(1, Math.max(0, pressure)));
+}
+
+/**
+ * Add a freehand point unless it is too close to the previous one to matter
+ */
+export function appendPoint(points: AnnotationPoint[], point: AnnotationPoint): AnnotationPoint[] {
+  const last = points[points.length - 1];
+  if (last && Math.hypot(point.x - last.x, point.y - last.y) < ANNOTATION_CONSTANTS.MIN_POINT_DISTANCE) {
+    return points;
+  }
+  return [...points, point];
+}
+
+/**
+ * The two back corners of an arrow head pointing from `from` to `to`
+ */
+export function getArrowHead(from: Point, to: Point, width: number): [Point, Point] {
+  const length = Math.max(ANNOTATION_CONSTANTS.ARROW_HEAD_MIN_LENGTH, width * ANNOTATION_CONSTANTS.ARROW_HEAD_SCALE);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const spread = Math.PI / 7;
+  return [
+    { x: to.x - length * Math.cos(angle - spread), y: to.y - length * Math.sin(angle - spread) },
+    { x: to.x - length * Math.cos(angle + spread), y: to.y - length * Math.sin(angle + spread) }
+  ];
+}
+
+export function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.min(1, Math.max(0, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+// The line segments an annotation is drawn with
+function getSegments(annotation: Annotation): [Point, Point][] {
+  const { points } = annotation;
+  if (points.length === 0) {
+    return [];
+  }
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  switch (annotation.shape) {
+    case 'rectangle': {
+      const corners = [first, { x: last.x, y: first.y }, last, { x: first.x, y: last.y }];
+      return corners.map((corner, index) => [corner, corners[(index + 1) % 4]]);
+    }
+    case 'arrow':
+      return [[first, last], ...getArrowHead(first, last, annotation.width).map(corner => [corner, last] as [Point, Point])];
+    default:
+      return points.length === 1 ? [[first, first]] : points.slice(1).map((point, index) => [points[index], point]);
+  }
+}
+
+/**
+ * Whether an eraser of the given radius at point touches the annotation
+ */
+export function hitTestAnnotation(annotation: Annotation, point: Point, radius: number): boolean {
+  const reach = radius + annotation.width / 2;
+  return getSegments(annotation).some(([a, b]) => distanceToSegment(point, a, b) <= reach);
+}
+
+/**
+ * Annotations left after erasing at point; whole strokes are removed
+ */
+export function eraseAt(
+  annotations: Annotation[],
+  point: Point,
+  radius: number = ANNOTATION_CONSTANTS.ERASER_RADIUS
+): Annotation[] {
+  const remaining = annotations.filter(annotation => !hitTestAnnotation(annotation, point, radius));
+  return remaining.length === annotations.length ? annotations : remaining;
+}
+
+/**
+ * Laser points still visible at `now`
+ */
+export function getLaserTrail(
+  points: LaserPoint[],
+  now: number,
+  fadeMs: number = ANNOTATION_CONSTANTS.LASER_FADE_MS
+): LaserPoint[] {
+  return points.filter(point => now - point.time < fadeMs);
+}
+
+/**
+ * Annotations read back from storage or a project file; broken entries are dropped
+ */
+export function normalizeAnnotations(value: unknown): Annotation[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((annotation): annotation is Annotation =>
+    typeof annotation?.id === 'string' &&
+    SHAPES.includes(annotation.shape) &&
+    typeof annotation.color === 'string' &&
+    Number.isFinite(annotation.width) && annotation.width > 0 &&
+    Array.isArray(annotation.points) &&
+    annotation.points.length > 0 &&
+    annotation.points.every((point: AnnotationPoint) =>
+      Number.isFinite(point?.x) && Number.isFinite(point?.y) && Number.isFinite(point?.pressure)
+    )
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Core types for drawing annotations over the presentation board
+ */
+
+export type AnnotationTool = 'pen' | 'highlighter' | 'arrow' | 'rectangle' | 'laser' | 'eraser';
+
+// Tools that leave a mark; the laser fades on its own and the eraser removes marks
+export type AnnotationShape = 'pen' | 'highlighter' | 'arrow' | 'rectangle';
+
+// A point in board coordinates; pressure is 0-1 as reported by pointer events
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+  pressure: number;
+}
+
+export interface Annotation {
+  id: string;
+  shape: AnnotationShape;
+  color: string;
+  width: number; // Base stroke width in board pixels
+  // Freehand strokes keep every point; arrows and rectangles use the first and last
+  points: AnnotationPoint[];
+}
+
+export interface LaserPoint {
+  x: number;
+  y: number;
+  time: number; // performance.now() when the pointer was there
+}
+
+export const ANNOTATION_CONSTANTS = {
+  COLORS: ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#ffffff', '#111827'],
+  DEFAULT_COLOR: '#ef4444',
+  STROKE_WIDTHS: { pen: 4, highlighter: 20, arrow: 4, rectangle: 4 } as Record<AnnotationShape, number>,
+  HIGHLIGHTER_OPACITY: 0.35,
+  // Mice report 0.5 while a button is down; pens and touch vary around it
+  DEFAULT_PRESSURE: 0.5,
+  // Freehand points closer than this (board pixels) add nothing visible
+  MIN_POINT_DISTANCE: 1.5,
+  // Arrow head length in multiples of the stroke width, never shorter than the minimum
+  ARROW_HEAD_SCALE: 4,
+  ARROW_HEAD_MIN_LENGTH: 12,
+  ERASER_RADIUS: 12,
+  LASER_COLOR: '#ef4444',
+  LASER_WIDTH: 6,
+  LASER_FADE_MS: 700,
+  // Longest edge of the on-screen drawing surface, in device pixels
+  MAX_CANVAS_SIZE: 4096
+} as const;
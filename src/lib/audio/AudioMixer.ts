@@ -0,0 +1,222 @@
+/**
+ * AudioMixer - Mixes every recording source into one Web Audio track
+ *
+ * MediaRecorder usually records only the first audio track of a stream, so
+ * sources are mixed here instead and the recording gets the single output
+ * track. Each channel runs source -> input -> fader -> panner -> output;
+ * on the microphone the voice effects chain sits between input and fader.
+ * The output track stays the same while sources are swapped, so devices can
+ * change mid-recording. Analysers tap each channel at the input and after
+ * the panner for meters: the input tells whether a device delivers anything
+ * at all, the other is what ends up in the recording.
+ */
+
+import { EffectsChain } from './EffectsChain';
+import { createDefaultEffectsSettings } from './effects';
+import { SILENT_LEVELS, measureLevels } from './levels';
+import { clampPan, getEffectiveGain, isAnySoloed } from './mixing';
+import {
+  AUDIO_CONSTANTS,
+  AudioError,
+  AudioErrorCode,
+  MIXER_CHANNEL_IDS,
+  createDefaultMixerSettings,
+  type AudioLevels,
+  type ChannelLevels,
+  type EffectsSettings,
+  type MixerChannelId,
+  type MixerSettings
+} from './types';
+
+interface MixerChannel {
+  source: MediaStreamAudioSourceNode | null;
+  input: GainNode;
+  fader: GainNode;
+  panner: StereoPannerNode;
+  inputAnalyser: AnalyserNode;
+  outputAnalyser: AnalyserNode;
+}
+
+export class AudioMixer {
+  private context: AudioContext;
+  private destination: MediaStreamAudioDestinationNode;
+  private channels = new Map<MixerChannelId, MixerChannel>();
+  private settings: MixerSettings;
+  private effects: EffectsChain;
+  private disposed = false;
+  private sampleBuffer = new Float32Array(AUDIO_CONSTANTS.ANALYSER_FFT_SIZE);
+
+  constructor(
+    settings: MixerSettings = createDefaultMixerSettings(),
+    effectsSettings: EffectsSettings = createDefaultEffectsSettings()
+  ) {
+    if (typeof AudioContext === 'undefined') {
+      throw new AudioError('Web Audio is not supported in this browser', AudioErrorCode.UNSUPPORTED);
+    }
+
+    this.context = new AudioContext();
+    this.destination = this.context.createMediaStreamDestination();
+    this.settings = settings;
+    this.effects = new EffectsChain(this.context, effectsSettings);
+
+    MIXER_CHANNEL_IDS.forEach(id => {
+      const input = this.context.createGain();
+      const fader = this.context.createGain();
+      const panner = this.context.createStereoPanner();
+      if (id === 'microphone') {
+        input.connect(this.effects.input);
+        this.effects.output.connect(fader);
+      } else {
+        input.connect(fader);
+      }
+      fader.connect(panner);
+      panner.connect(this.destination);
+
+      const inputAnalyser = this.createAnalyser();
+      const outputAnalyser = this.createAnalyser();
+      input.connect(inputAnalyser);
+      panner.connect(outputAnalyser);
+
+      this.channels.set(id, { source: null, input, fader, panner, inputAnalyser, outputAnalyser });
+    });
+
+    this.applySettings(settings, true);
+  }
+
+  /**
+   * The mixed track to record
+   */
+  get track(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  get audioContext(): AudioContext {
+    return this.context;
+  }
+
+  hasSource(id: MixerChannelId): boolean {
+    return this.getChannel(id).source !== null;
+  }
+
+  /**
+   * Resume a context created before the user interacted with the page
+   */
+  resume(): void {
+    if (!this.disposed && this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+  }
+
+  /**
+   * Current peak and RMS of a channel; silent when it has no source
+   */
+  getLevels(id: MixerChannelId): ChannelLevels {
+    const channel = this.getChannel(id);
+    if (!channel.source) {
+      return { input: SILENT_LEVELS, output: SILENT_LEVELS };
+    }
+    return {
+      input: this.readLevels(channel.inputAnalyser),
+      output: this.readLevels(channel.outputAnalyser)
+    };
+  }
+
+  /**
+   * Connect a stream's audio to a channel, replacing what was there.
+   * A MediaStreamAudioSourceNode is bound to the track it was created with,
+   * so call this again after swapping tracks inside the same stream.
+   */
+  setSource(id: MixerChannelId, stream: MediaStream | null): void {
+    this.assertActive();
+    const channel = this.getChannel(id);
+
+    channel.source?.disconnect();
+    channel.source = null;
+
+    if (stream && stream.getAudioTracks().length > 0) {
+      channel.source = this.context.createMediaStreamSource(stream);
+      channel.source.connect(channel.input);
+    }
+
+    // Contexts created outside a user gesture start suspended
+    this.resume();
+  }
+
+  /**
+   * Update gain, mute, solo and pan for every channel
+   */
+  applySettings(settings: MixerSettings, immediate: boolean = false): void {
+    this.assertActive();
+    this.settings = settings;
+    const anySoloed = isAnySoloed(settings);
+    const time = this.context.currentTime;
+    const ramp = AUDIO_CONSTANTS.PARAM_RAMP_SECONDS;
+
+    this.channels.forEach((channel, id) => {
+      const gain = getEffectiveGain(settings[id], anySoloed);
+      const pan = clampPan(settings[id].pan);
+      if (immediate) {
+        channel.fader.gain.value = gain;
+        channel.panner.pan.value = pan;
+      } else {
+        channel.fader.gain.setTargetAtTime(gain, time, ramp);
+        channel.panner.pan.setTargetAtTime(pan, time, ramp);
+      }
+    });
+  }
+
+  getSettings(): MixerSettings {
+    return this.settings;
+  }
+
+  /**
+   * Update the microphone's voice processing
+   */
+  applyEffects(settings: EffectsSettings, immediate: boolean = false): void {
+    this.assertActive();
+    this.effects.apply(settings, immediate);
+  }
+
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.channels.forEach(channel => {
+      channel.source?.disconnect();
+      channel.input.disconnect();
+      channel.fader.disconnect();
+      channel.panner.disconnect();
+      channel.inputAnalyser.disconnect();
+      channel.outputAnalyser.disconnect();
+    });
+    this.channels.clear();
+    this.effects.dispose();
+    this.context.close().catch(() => {});
+  }
+
+  private createAnalyser(): AnalyserNode {
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = AUDIO_CONSTANTS.ANALYSER_FFT_SIZE;
+    return analyser;
+  }
+
+  private readLevels(analyser: AnalyserNode): AudioLevels {
+    analyser.getFloatTimeDomainData(this.sampleBuffer);
+    return measureLevels(this.sampleBuffer);
+  }
+
+  private getChannel(id: MixerChannelId): MixerChannel {
+    const channel = this.channels.get(id);
+    if (!channel) {
+      throw new AudioError(`Unknown mixer channel: ${id}`, AudioErrorCode.UNKNOWN_CHANNEL);
+    }
+    return channel;
+  }
+
+  private assertActive(): void {
+    if (this.disposed) {
+      throw new AudioError('Mixer has been disposed', AudioErrorCode.DISPOSED);
+    }
+  }
+}
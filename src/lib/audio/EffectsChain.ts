@@ -0,0 +1,165 @@
+/**
+ * EffectsChain - Voice processing between a mixer channel's input and fader
+ *
+ * high-pass -> gate -> low shelf -> mid peak -> high shelf -> compressor
+ * -> loudness -> limiter. The gate and loudness stages are plain gain nodes
+ * driven from an analyser on a timer; the rest are native nodes. Stages are
+ * never rewired: disabling one just makes it neutral.
+ */
+
+import {
+  decibelsToGain,
+  getLoudnessCorrectionDb,
+  isGateOpen,
+  updateLoudnessEstimate
+} from './effects';
+import { levelToDb, measureLevels } from './levels';
+import { AUDIO_CONSTANTS, type EffectsSettings } from './types';
+
+// Low enough that an "off" high-pass lets everything audible through
+const NEUTRAL_HIGH_PASS_FREQUENCY = 10;
+
+export class EffectsChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private context: BaseAudioContext;
+  private highPass: BiquadFilterNode;
+  private gate: GainNode;
+  private lowShelf: BiquadFilterNode;
+  private midPeak: BiquadFilterNode;
+  private highShelf: BiquadFilterNode;
+  private compressor: DynamicsCompressorNode;
+  private loudness: GainNode;
+  private limiter: DynamicsCompressorNode;
+  private gateAnalyser: AnalyserNode;
+  private loudnessAnalyser: AnalyserNode;
+  private sampleBuffer = new Float32Array(AUDIO_CONSTANTS.ANALYSER_FFT_SIZE);
+  private settings: EffectsSettings;
+  private gateOpen = true;
+  private loudnessEstimateDb: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(context: BaseAudioContext, settings: EffectsSettings) {
+    this.context = context;
+    this.settings = settings;
+
+    this.input = context.createGain();
+    this.highPass = this.createFilter('highpass', NEUTRAL_HIGH_PASS_FREQUENCY);
+    this.gate = context.createGain();
+    this.lowShelf = this.createFilter('lowshelf', AUDIO_CONSTANTS.EQ_LOW_FREQUENCY);
+    this.midPeak = this.createFilter('peaking', AUDIO_CONSTANTS.EQ_MID_FREQUENCY);
+    this.highShelf = this.createFilter('highshelf', AUDIO_CONSTANTS.EQ_HIGH_FREQUENCY);
+    this.compressor = context.createDynamicsCompressor();
+    this.loudness = context.createGain();
+    this.limiter = context.createDynamicsCompressor();
+    this.output = context.createGain();
+
+    const stages: AudioNode[] = [
+      this.input, this.highPass, this.gate, this.lowShelf, this.midPeak,
+      this.highShelf, this.compressor, this.loudness, this.limiter, this.output
+    ];
+    stages.slice(1).forEach((node, index) => stages[index].connect(node));
+
+    // The gate listens before itself, loudness after the compressor
+    this.gateAnalyser = this.createAnalyser();
+    this.highPass.connect(this.gateAnalyser);
+    this.loudnessAnalyser = this.createAnalyser();
+    this.compressor.connect(this.loudnessAnalyser);
+
+    this.apply(settings, true);
+    this.timer = setInterval(() => this.follow(), AUDIO_CONSTANTS.EFFECTS_ANALYSIS_MS);
+  }
+
+  apply(settings: EffectsSettings, immediate: boolean = false): void {
+    const { highPass, gate, eq, compressor, limiter, loudness } = settings;
+    if (loudness.enabled !== this.settings.loudness.enabled || loudness.targetDb !== this.settings.loudness.targetDb) {
+      this.loudnessEstimateDb = null;
+    }
+    this.settings = settings;
+
+    this.setParam(this.highPass.frequency, highPass.enabled ? highPass.frequency : NEUTRAL_HIGH_PASS_FREQUENCY, immediate);
+    this.setParam(this.lowShelf.gain, eq.enabled ? eq.lowGainDb : 0, immediate);
+    this.setParam(this.midPeak.gain, eq.enabled ? eq.midGainDb : 0, immediate);
+    this.setParam(this.highShelf.gain, eq.enabled ? eq.highGainDb : 0, immediate);
+
+    this.setParam(this.compressor.threshold, compressor.enabled ? compressor.thresholdDb : 0, immediate);
+    this.setParam(this.compressor.ratio, compressor.enabled ? compressor.ratio : 1, immediate);
+    this.compressor.knee.value = 6;
+
+    // A limiter is a compressor with a hard knee, a high ratio and a fast attack
+    this.setParam(this.limiter.threshold, limiter.enabled ? limiter.ceilingDb : 0, immediate);
+    this.setParam(this.limiter.ratio, limiter.enabled ? 20 : 1, immediate);
+    this.limiter.knee.value = 0;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.1;
+
+    if (!gate.enabled) {
+      this.gateOpen = true;
+      this.setParam(this.gate.gain, 1, immediate);
+    }
+    if (!loudness.enabled) {
+      this.setParam(this.loudness.gain, 1, immediate);
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    [
+      this.input, this.highPass, this.gate, this.lowShelf, this.midPeak, this.highShelf,
+      this.compressor, this.loudness, this.limiter, this.output, this.gateAnalyser, this.loudnessAnalyser
+    ].forEach(node => node.disconnect());
+  }
+
+  private follow(): void {
+    const { gate, loudness } = this.settings;
+    const time = this.context.currentTime;
+
+    if (gate.enabled) {
+      const open = isGateOpen(this.readLevelDb(this.gateAnalyser), gate.thresholdDb, this.gateOpen);
+      if (open !== this.gateOpen) {
+        this.gateOpen = open;
+        this.gate.gain.setTargetAtTime(
+          open ? 1 : 0,
+          time,
+          open ? AUDIO_CONSTANTS.GATE_ATTACK_SECONDS : AUDIO_CONSTANTS.GATE_RELEASE_SECONDS
+        );
+      }
+    }
+
+    if (loudness.enabled) {
+      this.loudnessEstimateDb = updateLoudnessEstimate(this.loudnessEstimateDb, this.readLevelDb(this.loudnessAnalyser));
+      const correction = getLoudnessCorrectionDb(this.loudnessEstimateDb, loudness.targetDb);
+      this.loudness.gain.setTargetAtTime(decibelsToGain(correction), time, AUDIO_CONSTANTS.LOUDNESS_RAMP_SECONDS);
+    }
+  }
+
+  private readLevelDb(analyser: AnalyserNode): number {
+    analyser.getFloatTimeDomainData(this.sampleBuffer);
+    return levelToDb(measureLevels(this.sampleBuffer).rms);
+  }
+
+  private setParam(param: AudioParam, value: number, immediate: boolean): void {
+    if (immediate) {
+      param.value = value;
+    } else {
+      param.setTargetAtTime(value, this.context.currentTime, AUDIO_CONSTANTS.PARAM_RAMP_SECONDS);
+    }
+  }
+
+  private createFilter(type: BiquadFilterType, frequency: number): BiquadFilterNode {
+    const filter = this.context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    return filter;
+  }
+
+  private createAnalyser(): AnalyserNode {
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = AUDIO_CONSTANTS.ANALYSER_FFT_SIZE;
+    return analyser;
+  }
+}
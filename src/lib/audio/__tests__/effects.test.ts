@@ -0,0 +1,121 @@
+/**
+ * Tests for voice effect presets, settings persistence and dynamics rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EFFECTS_PRESETS,
+  createDefaultEffectsSettings,
+  decibelsToGain,
+  findMatchingPreset,
+  getLoudnessCorrectionDb,
+  isGateOpen,
+  loadEffectsSettings,
+  normalizeEffectsSettings,
+  saveEffectsSettings,
+  updateLoudnessEstimate
+} from '../effects';
+import { AUDIO_CONSTANTS } from '../types';
+
+describe('effects', () => {
+  describe('presets', () => {
+    it('should start with every stage off', () => {
+      const settings = createDefaultEffectsSettings();
+      expect(Object.values(settings).every(stage => !stage.enabled)).toBe(true);
+      expect(findMatchingPreset(settings)).toBe('off');
+    });
+
+    it('should recognise an unchanged preset and forget it once tweaked', () => {
+      const podcast = structuredClone(EFFECTS_PRESETS.podcast.settings);
+      expect(findMatchingPreset(podcast)).toBe('podcast');
+      podcast.gate.thresholdDb -= 5;
+      expect(findMatchingPreset(podcast)).toBeNull();
+    });
+
+    it('should not share state between default settings', () => {
+      const first = createDefaultEffectsSettings();
+      first.gate.enabled = true;
+      expect(createDefaultEffectsSettings().gate.enabled).toBe(false);
+    });
+  });
+
+  describe('normalizeEffectsSettings', () => {
+    it('should keep valid saved values', () => {
+      const saved = EFFECTS_PRESETS['voice-over'].settings;
+      expect(normalizeEffectsSettings(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+    });
+
+    it('should fall back per field for missing or malformed values', () => {
+      const settings = normalizeEffectsSettings({
+        gate: { enabled: true, thresholdDb: 'loud' },
+        compressor: { ratio: Infinity }
+      });
+      expect(settings.gate).toEqual({ enabled: true, thresholdDb: -50 });
+      expect(settings.compressor.ratio).toBe(3);
+      expect(settings.eq).toEqual(createDefaultEffectsSettings().eq);
+    });
+
+    it('should ignore anything that is not an object', () => {
+      expect(normalizeEffectsSettings('podcast')).toEqual(createDefaultEffectsSettings());
+    });
+  });
+
+  describe('persistence', () => {
+    it('should round-trip through storage', () => {
+      const store = new Map<string, string>();
+      const storage = {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => { store.set(key, value); }
+      };
+      saveEffectsSettings(EFFECTS_PRESETS.podcast.settings, storage);
+      expect(store.has(AUDIO_CONSTANTS.EFFECTS_STORAGE_KEY)).toBe(true);
+      expect(loadEffectsSettings(storage)).toEqual(EFFECTS_PRESETS.podcast.settings);
+    });
+
+    it('should use defaults when saved data is corrupt', () => {
+      expect(loadEffectsSettings({ getItem: () => '{nope' })).toEqual(createDefaultEffectsSettings());
+    });
+  });
+
+  describe('isGateOpen', () => {
+    it('should open at the threshold', () => {
+      expect(isGateOpen(-40, -40, false)).toBe(true);
+      expect(isGateOpen(-41, -40, false)).toBe(false);
+    });
+
+    it('should stay open until the level drops past the hysteresis', () => {
+      const closeBelow = -40 - AUDIO_CONSTANTS.GATE_HYSTERESIS_DB;
+      expect(isGateOpen(closeBelow, -40, true)).toBe(true);
+      expect(isGateOpen(closeBelow - 1, -40, true)).toBe(false);
+    });
+  });
+
+  describe('loudness', () => {
+    it('should start from the first loud enough measurement', () => {
+      expect(updateLoudnessEstimate(null, -20)).toBe(-20);
+    });
+
+    it('should skip pauses', () => {
+      expect(updateLoudnessEstimate(null, AUDIO_CONSTANTS.LOUDNESS_GATE_DB - 1)).toBeNull();
+      expect(updateLoudnessEstimate(-20, -80)).toBe(-20);
+    });
+
+    it('should move slowly towards new measurements', () => {
+      const estimate = updateLoudnessEstimate(-20, -10)!;
+      expect(estimate).toBeGreaterThan(-20);
+      expect(estimate).toBeLessThan(-19);
+    });
+
+    it('should correct towards the target within bounds', () => {
+      expect(getLoudnessCorrectionDb(null, -16)).toBe(0);
+      expect(getLoudnessCorrectionDb(-20, -16)).toBe(4);
+      expect(getLoudnessCorrectionDb(-60, -16)).toBe(AUDIO_CONSTANTS.MAX_LOUDNESS_CORRECTION_DB);
+      expect(getLoudnessCorrectionDb(0, -16)).toBe(-AUDIO_CONSTANTS.MAX_LOUDNESS_CORRECTION_DB);
+    });
+
+    it('should convert decibels to linear gain', () => {
+      expect(decibelsToGain(0)).toBe(1);
+      expect(decibelsToGain(-20)).toBeCloseTo(0.1);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for level measurement, signal monitoring and the mic check
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SignalMonitor,
+  evaluateMicCheck,
+  levelToDb,
+  levelToMeterPosition,
+  measureLevels
+} from '../levels';
+import { AUDIO_CONSTANTS } from '../types';
+
+describe('levels', () => {
+  describe('measureLevels', () => {
+    it('should report peak and RMS of a buffer', () => {
+      const levels = measureLevels(new Float32Array([0.5, -0.5, 0.5, -0.5]));
+      expect(levels.peak).toBe(0.5);
+      expect(levels.rms).toBeCloseTo(0.5);
+    });
+
+    it('should use the absolute peak', () => {
+      expect(measureLevels(new Float32Array([0.1, -0.9, 0.2])).peak).toBeCloseTo(0.9);
+    });
+
+    it('should treat an empty buffer as silence', () => {
+      expect(measureLevels(new Float32Array(0))).toEqual({ peak: 0, rms: 0 });
+    });
+  });
+
+  describe('levelToDb', () => {
+    it('should convert linear levels to decibels', () => {
+      expect(levelToDb(1)).toBe(0);
+      expect(levelToDb(0.1)).toBeCloseTo(-20);
+      expect(levelToDb(0)).toBe(-Infinity);
+    });
+  });
+
+  describe('levelToMeterPosition', () => {
+    it('should map the floor to 0 and full scale to 1', () => {
+      expect(levelToMeterPosition(0)).toBe(0);
+      expect(levelToMeterPosition(1)).toBe(1);
+      expect(levelToMeterPosition(2)).toBe(1);
+      expect(levelToMeterPosition(10 ** (AUDIO_CONSTANTS.METER_FLOOR_DB / 40))).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('SignalMonitor', () => {
+    const both = (peak: number, rms: number) => ({ input: { peak, rms }, output: { peak, rms } });
+    const speech = both(0.4, 0.1);
+    const silence = both(0, 0);
+
+    it('should hold a clip for a while after it happens', () => {
+      const monitor = new SignalMonitor();
+      expect(monitor.update(both(1, 0.5), 0).clipping).toBe(true);
+      expect(monitor.update(speech, AUDIO_CONSTANTS.CLIP_HOLD_MS - 1).clipping).toBe(true);
+      expect(monitor.update(speech, AUDIO_CONSTANTS.CLIP_HOLD_MS).clipping).toBe(false);
+    });
+
+    it('should only report silence once it has lasted long enough', () => {
+      const monitor = new SignalMonitor();
+      expect(monitor.update(silence, 1000).silent).toBe(false);
+      expect(monitor.update(silence, 1000 + AUDIO_CONSTANTS.SILENCE_WARNING_MS - 1).silent).toBe(false);
+      expect(monitor.update(silence, 1000 + AUDIO_CONSTANTS.SILENCE_WARNING_MS).silent).toBe(true);
+    });
+
+    it('should restart the silence timer when signal comes back', () => {
+      const monitor = new SignalMonitor();
+      monitor.update(silence, 0);
+      monitor.update(speech, 2000);
+      expect(monitor.update(silence, 4000).silent).toBe(false);
+      expect(monitor.update(silence, 4000 + AUDIO_CONSTANTS.SILENCE_WARNING_MS).silent).toBe(true);
+    });
+
+    it('should judge clipping after the fader and silence before it', () => {
+      const monitor = new SignalMonitor();
+      const mutedClip = { input: { peak: 1, rms: 0.3 }, output: { peak: 0, rms: 0 } };
+      expect(monitor.update(mutedClip, 0).clipping).toBe(false);
+      expect(monitor.update(mutedClip, AUDIO_CONSTANTS.SILENCE_WARNING_MS).silent).toBe(false);
+    });
+
+    it('should forget everything on reset', () => {
+      const monitor = new SignalMonitor();
+      monitor.update(both(1, 0), 0);
+      monitor.reset();
+      expect(monitor.update(speech, 10)).toEqual({ clipping: false, silent: false });
+    });
+  });
+
+  describe('evaluateMicCheck', () => {
+    it('should pass normal speech', () => {
+      const result = evaluateMicCheck([{ peak: 0.5, rms: 0.1 }, { peak: 0.3, rms: 0.08 }]);
+      expect(result.status).toBe('ok');
+      expect(result.peakDb).toBeCloseTo(levelToDb(0.5));
+    });
+
+    it('should flag a dead microphone', () => {
+      expect(evaluateMicCheck([{ peak: 0, rms: 0 }]).status).toBe('silent');
+      expect(evaluateMicCheck([]).status).toBe('silent');
+    });
+
+    it('should flag input that is too quiet to use', () => {
+      expect(evaluateMicCheck([{ peak: 0.01, rms: 0.002 }]).status).toBe('quiet');
+    });
+
+    it('should flag clipping', () => {
+      expect(evaluateMicCheck([{ peak: 1, rms: 0.4 }]).status).toBe('clipping');
+    });
+  });
+});
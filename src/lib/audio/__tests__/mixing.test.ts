@@ -0,0 +1,72 @@
+/**
+ * Tests for mixer gain, solo and pan rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { clampPan, gainToDecibels, getEffectiveGain, isAnySoloed, normalizeMixerSettings } from '../mixing';
+import { AUDIO_CONSTANTS, createDefaultMixerSettings, type MixerChannelSettings } from '../types';
+
+const channel = (overrides: Partial<MixerChannelSettings> = {}): MixerChannelSettings => ({
+  ...AUDIO_CONSTANTS.DEFAULT_CHANNEL,
+  ...overrides
+});
+
+describe('mixing', () => {
+  describe('getEffectiveGain', () => {
+    it('should pass the fader gain through', () => {
+      expect(getEffectiveGain(channel({ gain: 0.5 }), false)).toBe(0.5);
+    });
+
+    it('should silence muted channels', () => {
+      expect(getEffectiveGain(channel({ muted: true }), false)).toBe(0);
+    });
+
+    it('should silence channels that are not soloed while another is', () => {
+      expect(getEffectiveGain(channel(), true)).toBe(0);
+      expect(getEffectiveGain(channel({ solo: true, gain: 0.8 }), true)).toBe(0.8);
+    });
+
+    it('should let mute win over solo', () => {
+      expect(getEffectiveGain(channel({ solo: true, muted: true }), true)).toBe(0);
+    });
+
+    it('should clamp out-of-range and invalid gain', () => {
+      expect(getEffectiveGain(channel({ gain: 10 }), false)).toBe(AUDIO_CONSTANTS.MAX_GAIN);
+      expect(getEffectiveGain(channel({ gain: NaN }), false)).toBe(0);
+    });
+  });
+
+  describe('isAnySoloed', () => {
+    it('should detect a soloed channel', () => {
+      const settings = createDefaultMixerSettings();
+      expect(isAnySoloed(settings)).toBe(false);
+
+      settings.screen.solo = true;
+      expect(isAnySoloed(settings)).toBe(true);
+    });
+  });
+
+  it('should clamp pan to the stereo field', () => {
+    expect(clampPan(-3)).toBe(-1);
+    expect(clampPan(0.25)).toBe(0.25);
+  });
+
+  describe('normalizeMixerSettings', () => {
+    it('should keep valid values and clamp out-of-range ones', () => {
+      const settings = normalizeMixerSettings({ microphone: { gain: 5, pan: 0.5, muted: true }, screen: { solo: true } });
+      expect(settings.microphone).toEqual({ gain: AUDIO_CONSTANTS.MAX_GAIN, pan: 0.5, muted: true, solo: false });
+      expect(settings.screen).toEqual({ ...AUDIO_CONSTANTS.DEFAULT_CHANNEL, solo: true });
+    });
+
+    it('should fall back to defaults for garbage', () => {
+      expect(normalizeMixerSettings('nope')).toEqual(createDefaultMixerSettings());
+      expect(normalizeMixerSettings({ microphone: { gain: 'loud' } })).toEqual(createDefaultMixerSettings());
+    });
+  });
+
+  it('should convert gain to decibels', () => {
+    expect(gainToDecibels(1)).toBe(0);
+    expect(gainToDecibels(2)).toBeCloseTo(6.02, 2);
+    expect(gainToDecibels(0)).toBe(-Infinity);
+  });
+});
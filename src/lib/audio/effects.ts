@@ -0,0 +1,148 @@
+/**
+ * Voice processing presets and the pure rules behind the gate and the
+ * loudness normalizer
+ */
+
+import {
+  AUDIO_CONSTANTS,
+  type EffectsPresetId,
+  type EffectsSettings
+} from './types';
+
+export interface EffectsPreset {
+  id: EffectsPresetId;
+  name: string;
+  description: string;
+  settings: EffectsSettings;
+}
+
+const OFF: EffectsSettings = {
+  highPass: { enabled: false, frequency: 80 },
+  gate: { enabled: false, thresholdDb: -50 },
+  eq: { enabled: false, lowGainDb: 0, midGainDb: 0, highGainDb: 0 },
+  compressor: { enabled: false, thresholdDb: -24, ratio: 3 },
+  limiter: { enabled: false, ceilingDb: -1 },
+  loudness: { enabled: false, targetDb: -16 }
+};
+
+export const EFFECTS_PRESETS: Record<EffectsPresetId, EffectsPreset> = {
+  off: {
+    id: 'off',
+    name: 'Off',
+    description: 'The microphone as it comes in',
+    settings: OFF
+  },
+  'voice-over': {
+    id: 'voice-over',
+    name: 'Voice-over',
+    description: 'Tight and present for narration over slides and screen',
+    settings: {
+      highPass: { enabled: true, frequency: 100 },
+      gate: { enabled: true, thresholdDb: -45 },
+      eq: { enabled: true, lowGainDb: -2, midGainDb: 2, highGainDb: 3 },
+      compressor: { enabled: true, thresholdDb: -22, ratio: 4 },
+      limiter: { enabled: true, ceilingDb: -1 },
+      loudness: { enabled: true, targetDb: -18 }
+    }
+  },
+  podcast: {
+    id: 'podcast',
+    name: 'Podcast',
+    description: 'Warm and even, loud enough for phones and earbuds',
+    settings: {
+      highPass: { enabled: true, frequency: 80 },
+      gate: { enabled: true, thresholdDb: -50 },
+      eq: { enabled: true, lowGainDb: 2, midGainDb: -1, highGainDb: 2 },
+      compressor: { enabled: true, thresholdDb: -20, ratio: 3 },
+      limiter: { enabled: true, ceilingDb: -1 },
+      loudness: { enabled: true, targetDb: -16 }
+    }
+  }
+};
+
+export const EFFECTS_PRESET_IDS = Object.keys(EFFECTS_PRESETS) as EffectsPresetId[];
+
+export function createDefaultEffectsSettings(): EffectsSettings {
+  return structuredClone(OFF);
+}
+
+/**
+ * The preset these settings match exactly, or null once tweaked by hand
+ */
+export function findMatchingPreset(settings: EffectsSettings): EffectsPresetId | null {
+  const serialized = JSON.stringify(settings);
+  return EFFECTS_PRESET_IDS.find(id => JSON.stringify(EFFECTS_PRESETS[id].settings) === serialized) ?? null;
+}
+
+/**
+ * Fill in anything missing or malformed in saved settings from the defaults
+ */
+export function normalizeEffectsSettings(value: unknown): EffectsSettings {
+  const defaults = createDefaultEffectsSettings();
+  if (!value || typeof value !== 'object') {
+    return defaults;
+  }
+
+  const saved = value as Record<string, Record<string, unknown> | undefined>;
+  const result = defaults as unknown as Record<string, Record<string, unknown>>;
+  for (const [stage, stageDefaults] of Object.entries(result)) {
+    for (const [key, fallback] of Object.entries(stageDefaults)) {
+      const candidate = saved[stage]?.[key];
+      if (typeof candidate === typeof fallback && (typeof candidate !== 'number' || Number.isFinite(candidate))) {
+        stageDefaults[key] = candidate;
+      }
+    }
+  }
+  return defaults;
+}
+
+export function loadEffectsSettings(storage: Pick<Storage, 'getItem'> = localStorage): EffectsSettings {
+  try {
+    return normalizeEffectsSettings(JSON.parse(storage.getItem(AUDIO_CONSTANTS.EFFECTS_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return createDefaultEffectsSettings();
+  }
+}
+
+export function saveEffectsSettings(settings: EffectsSettings, storage: Pick<Storage, 'setItem'> = localStorage): void {
+  storage.setItem(AUDIO_CONSTANTS.EFFECTS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Whether the gate should be open. It opens at the threshold and closes a
+ * little below it so speech that hovers there doesn't chatter.
+ */
+export function isGateOpen(levelDb: number, thresholdDb: number, wasOpen: boolean): boolean {
+  return wasOpen
+    ? levelDb >= thresholdDb - AUDIO_CONSTANTS.GATE_HYSTERESIS_DB
+    : levelDb >= thresholdDb;
+}
+
+/**
+ * Fold one measurement into the running loudness estimate. Pauses are
+ * skipped so they don't drag the estimate down and get boosted.
+ */
+export function updateLoudnessEstimate(estimateDb: number | null, levelDb: number): number | null {
+  if (levelDb < AUDIO_CONSTANTS.LOUDNESS_GATE_DB) {
+    return estimateDb;
+  }
+  if (estimateDb === null) {
+    return levelDb;
+  }
+  return estimateDb + (levelDb - estimateDb) * AUDIO_CONSTANTS.LOUDNESS_SMOOTHING;
+}
+
+/**
+ * Gain in dB that moves the estimate to the target, within safe bounds
+ */
+export function getLoudnessCorrectionDb(estimateDb: number | null, targetDb: number): number {
+  if (estimateDb === null) {
+    return 0;
+  }
+  const max = AUDIO_CONSTANTS.MAX_LOUDNESS_CORRECTION_DB;
+  return Math.max(-max, Math.min(max, targetDb - estimateDb));
+}
+
+export function decibelsToGain(db: number): number {
+  return 10 ** (db / 20);
+}
@@ -0,0 +1,9 @@
+// Recording audio exports
+export * from './types';
+export * from './mixing';
+export * from './levels';
+export * from './effects';
+export { AudioMixer } from './AudioMixer';
+export { EffectsChain } from './EffectsChain';
+export { runMicCheck } from './micCheck';
+export { useAudioLevels, type ChannelMeter, type MixerMeters } from './useAudioLevels';
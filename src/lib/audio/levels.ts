@@ -0,0 +1,101 @@
+/**
+ * Level measurement and signal health checks for meters and warnings
+ */
+
+import {
+  AUDIO_CONSTANTS,
+  type AudioLevels,
+  type ChannelLevels,
+  type MicCheckResult,
+  type SignalStatus
+} from './types';
+
+export const SILENT_LEVELS: AudioLevels = { peak: 0, rms: 0 };
+
+export function measureLevels(samples: Float32Array): AudioLevels {
+  if (samples.length === 0) {
+    return SILENT_LEVELS;
+  }
+
+  let peak = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.abs(samples[i]);
+    if (sample > peak) {
+      peak = sample;
+    }
+    sumOfSquares += sample * sample;
+  }
+  return { peak, rms: Math.sqrt(sumOfSquares / samples.length) };
+}
+
+export function levelToDb(level: number): number {
+  return level > 0 ? 20 * Math.log10(level) : -Infinity;
+}
+
+/**
+ * Position on a meter from the floor (0) to full scale (1), linear in dB
+ */
+export function levelToMeterPosition(level: number): number {
+  const db = levelToDb(level);
+  if (db <= AUDIO_CONSTANTS.METER_FLOOR_DB) {
+    return 0;
+  }
+  return Math.min(1, 1 - db / AUDIO_CONSTANTS.METER_FLOOR_DB);
+}
+
+/**
+ * Tracks one channel over time. Clipping is judged on what gets recorded
+ * and held briefly so a single peak is visible; silence is judged on the
+ * raw input and only reported once it has lasted a while.
+ */
+export class SignalMonitor {
+  private lastClipAt = -Infinity;
+  private silentSince: number | null = null;
+
+  update(levels: ChannelLevels, now: number): SignalStatus {
+    if (levels.output.peak >= AUDIO_CONSTANTS.CLIP_THRESHOLD) {
+      this.lastClipAt = now;
+    }
+
+    if (levelToDb(levels.input.rms) < AUDIO_CONSTANTS.SILENCE_RMS_DB) {
+      this.silentSince ??= now;
+    } else {
+      this.silentSince = null;
+    }
+
+    return {
+      clipping: now - this.lastClipAt < AUDIO_CONSTANTS.CLIP_HOLD_MS,
+      silent: this.silentSince !== null && now - this.silentSince >= AUDIO_CONSTANTS.SILENCE_WARNING_MS
+    };
+  }
+
+  reset(): void {
+    this.lastClipAt = -Infinity;
+    this.silentSince = null;
+  }
+}
+
+/**
+ * Judge a few seconds of microphone input sampled during a mic check
+ */
+export function evaluateMicCheck(samples: AudioLevels[]): MicCheckResult {
+  const peak = samples.reduce((max, levels) => Math.max(max, levels.peak), 0);
+  const averageRms = samples.length
+    ? Math.sqrt(samples.reduce((sum, levels) => sum + levels.rms * levels.rms, 0) / samples.length)
+    : 0;
+
+  const peakDb = levelToDb(peak);
+  const averageRmsDb = levelToDb(averageRms);
+
+  let status: MicCheckResult['status'] = 'ok';
+  if (averageRmsDb < AUDIO_CONSTANTS.SILENCE_RMS_DB) {
+    status = 'silent';
+  } else if (peak >= AUDIO_CONSTANTS.CLIP_THRESHOLD) {
+    status = 'clipping';
+  } else if (averageRmsDb < AUDIO_CONSTANTS.MIC_CHECK_QUIET_RMS_DB) {
+    status = 'quiet';
+  }
+
+  return { status, peakDb, averageRmsDb };
+}
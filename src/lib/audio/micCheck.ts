@@ -0,0 +1,40 @@
+/**
+ * Pre-recording microphone check: sample the mic input for a few seconds
+ * while the presenter talks, then judge whether it is usable
+ */
+
+import type { AudioMixer } from './AudioMixer';
+import { evaluateMicCheck } from './levels';
+import {
+  AUDIO_CONSTANTS,
+  AudioError,
+  AudioErrorCode,
+  type AudioLevels,
+  type MicCheckResult
+} from './types';
+
+export function runMicCheck(
+  mixer: AudioMixer,
+  durationMs: number = AUDIO_CONSTANTS.MIC_CHECK_DURATION_MS
+): Promise<MicCheckResult> {
+  if (!mixer.hasSource('microphone')) {
+    return Promise.reject(
+      new AudioError('No microphone is connected to the mixer', AudioErrorCode.NO_SOURCE)
+    );
+  }
+
+  // The check is started by a click, so the context may run from here on
+  mixer.resume();
+
+  return new Promise(resolve => {
+    const samples: AudioLevels[] = [];
+    const interval = setInterval(() => {
+      samples.push(mixer.getLevels('microphone').input);
+    }, AUDIO_CONSTANTS.METER_REFRESH_MS);
+
+    setTimeout(() => {
+      clearInterval(interval);
+      resolve(evaluateMicCheck(samples));
+    }, durationMs);
+  });
+}
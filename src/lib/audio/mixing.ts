@@ -0,0 +1,62 @@
+/**
+ * Pure mixing rules shared by the mixer graph and the mixer panel
+ */
+
+import {
+  AUDIO_CONSTANTS,
+  MIXER_CHANNEL_IDS,
+  createDefaultMixerSettings,
+  type MixerChannelSettings,
+  type MixerSettings
+} from './types';
+
+export function isAnySoloed(settings: MixerSettings): boolean {
+  return Object.values(settings).some(channel => channel.solo);
+}
+
+/**
+ * Gain a channel actually plays at: mute wins, and while anything is soloed
+ * only soloed channels are heard
+ */
+export function getEffectiveGain(channel: MixerChannelSettings, anySoloed: boolean): number {
+  if (channel.muted || (anySoloed && !channel.solo)) {
+    return 0;
+  }
+  return clamp(channel.gain, 0, AUDIO_CONSTANTS.MAX_GAIN);
+}
+
+export function clampPan(pan: number): number {
+  return clamp(pan, -1, 1);
+}
+
+export function gainToDecibels(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+/**
+ * Fill in anything missing or malformed in saved mixer settings from the defaults
+ */
+export function normalizeMixerSettings(value: unknown): MixerSettings {
+  const settings = createDefaultMixerSettings();
+  const saved = value as Partial<Record<string, Partial<MixerChannelSettings>>> | null;
+  MIXER_CHANNEL_IDS.forEach(id => {
+    const channel = saved?.[id];
+    if (typeof channel?.gain === 'number') {
+      settings[id].gain = clamp(channel.gain, 0, AUDIO_CONSTANTS.MAX_GAIN);
+    }
+    if (typeof channel?.pan === 'number') {
+      settings[id].pan = clampPan(channel.pan);
+    }
+    if (typeof channel?.muted === 'boolean') {
+      settings[id].muted = channel.muted;
+    }
+    if (typeof channel?.solo === 'boolean') {
+      settings[id].solo = channel.solo;
+    }
+  });
+  return settings;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+}
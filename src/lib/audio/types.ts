@@ -0,0 +1,120 @@
+/**
+ * Core types for mixing and metering recording audio with Web Audio
+ */
+
+// Error types for better error handling
+export class AudioError extends Error {
+  constructor(
+    message: string,
+    public code: AudioErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'AudioError';
+  }
+}
+
+export enum AudioErrorCode {
+  UNSUPPORTED = 'UNSUPPORTED',
+  UNKNOWN_CHANNEL = 'UNKNOWN_CHANNEL',
+  DISPOSED = 'DISPOSED',
+  NO_SOURCE = 'NO_SOURCE'
+}
+
+export type MixerChannelId = 'microphone' | 'screen';
+
+export interface MixerChannelSettings {
+  gain: number; // Linear, 0 to AUDIO_CONSTANTS.MAX_GAIN
+  muted: boolean;
+  solo: boolean;
+  pan: number; // -1 (left) to 1 (right)
+}
+
+export type MixerSettings = Record<MixerChannelId, MixerChannelSettings>;
+
+// Linear sample levels (0-1) over one analyser window
+export interface AudioLevels {
+  peak: number;
+  rms: number;
+}
+
+// input is before the fader (is the device alive?), output is what gets recorded
+export interface ChannelLevels {
+  input: AudioLevels;
+  output: AudioLevels;
+}
+
+export interface SignalStatus {
+  clipping: boolean;
+  silent: boolean;
+}
+
+export type MicCheckStatus = 'ok' | 'quiet' | 'clipping' | 'silent';
+
+export interface MicCheckResult {
+  status: MicCheckStatus;
+  peakDb: number;
+  averageRmsDb: number;
+}
+
+export type EffectsPresetId = 'off' | 'voice-over' | 'podcast';
+
+// Every stage keeps its node in the graph; a disabled stage is set to neutral
+// values instead, so toggling mid-recording never glitches
+export interface EffectsSettings {
+  highPass: { enabled: boolean; frequency: number };
+  gate: { enabled: boolean; thresholdDb: number };
+  eq: { enabled: boolean; lowGainDb: number; midGainDb: number; highGainDb: number };
+  compressor: { enabled: boolean; thresholdDb: number; ratio: number };
+  limiter: { enabled: boolean; ceilingDb: number };
+  // Target is in approximate LUFS (speech RMS in dBFS, silence ignored)
+  loudness: { enabled: boolean; targetDb: number };
+}
+
+export const AUDIO_CONSTANTS = {
+  MAX_GAIN: 2,
+  // Short ramps avoid zipper noise when faders move during a take
+  PARAM_RAMP_SECONDS: 0.02,
+  ANALYSER_FFT_SIZE: 2048,
+  METER_REFRESH_MS: 50,
+  METER_FLOOR_DB: -60,
+  // Samples at or above this are clipped once encoded
+  CLIP_THRESHOLD: 0.99,
+  CLIP_HOLD_MS: 1500,
+  // Below this the input is treated as no signal at all, not just quiet
+  SILENCE_RMS_DB: -65,
+  SILENCE_WARNING_MS: 3000,
+  MIC_CHECK_DURATION_MS: 3000,
+  MIC_CHECK_QUIET_RMS_DB: -42,
+  EFFECTS_STORAGE_KEY: 'video-presenter-audio-effects',
+  // Gate and loudness follow the signal on this timer
+  EFFECTS_ANALYSIS_MS: 20,
+  GATE_HYSTERESIS_DB: 6,
+  GATE_ATTACK_SECONDS: 0.005,
+  GATE_RELEASE_SECONDS: 0.15,
+  EQ_LOW_FREQUENCY: 200,
+  EQ_MID_FREQUENCY: 1500,
+  EQ_HIGH_FREQUENCY: 5000,
+  MAX_EQ_GAIN_DB: 12,
+  // How fast the loudness estimate follows; a few seconds of speech
+  LOUDNESS_SMOOTHING: 0.02,
+  // Frames quieter than this are pauses and don't count towards loudness
+  LOUDNESS_GATE_DB: -50,
+  MAX_LOUDNESS_CORRECTION_DB: 12,
+  LOUDNESS_RAMP_SECONDS: 1.5,
+  DEFAULT_CHANNEL: {
+    gain: 1,
+    muted: false,
+    solo: false,
+    pan: 0
+  } as MixerChannelSettings
+} as const;
+
+export const MIXER_CHANNEL_IDS: MixerChannelId[] = ['microphone', 'screen'];
+
+export function createDefaultMixerSettings(): MixerSettings {
+  return {
+    microphone: { ...AUDIO_CONSTANTS.DEFAULT_CHANNEL },
+    screen: { ...AUDIO_CONSTANTS.DEFAULT_CHANNEL }
+  };
+}
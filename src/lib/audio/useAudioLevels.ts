@@ -0,0 +1,67 @@
+/**
+ * useAudioLevels - Polls a mixer's meters and keeps each channel's signal
+ * health, for level displays and recording warnings
+ */
+
+import { useEffect, useState } from 'react';
+import type { AudioMixer } from './AudioMixer';
+import { SILENT_LEVELS, SignalMonitor } from './levels';
+import {
+  AUDIO_CONSTANTS,
+  MIXER_CHANNEL_IDS,
+  type ChannelLevels,
+  type MixerChannelId,
+  type SignalStatus
+} from './types';
+
+export interface ChannelMeter {
+  levels: ChannelLevels;
+  status: SignalStatus;
+  // False when nothing is connected, so silence means nothing
+  active: boolean;
+}
+
+export type MixerMeters = Record<MixerChannelId, ChannelMeter>;
+
+const IDLE_METER: ChannelMeter = {
+  levels: { input: SILENT_LEVELS, output: SILENT_LEVELS },
+  status: { clipping: false, silent: false },
+  active: false
+};
+
+const createIdleMeters = (): MixerMeters =>
+  Object.fromEntries(MIXER_CHANNEL_IDS.map(id => [id, IDLE_METER])) as MixerMeters;
+
+export function useAudioLevels(mixer: AudioMixer | null, enabled: boolean = true): MixerMeters {
+  const [meters, setMeters] = useState<MixerMeters>(createIdleMeters);
+
+  useEffect(() => {
+    if (!mixer || !enabled) {
+      setMeters(createIdleMeters());
+      return;
+    }
+
+    const monitors = new Map(MIXER_CHANNEL_IDS.map(id => [id, new SignalMonitor()]));
+    const interval = setInterval(() => {
+      const now = performance.now();
+      try {
+        setMeters(Object.fromEntries(MIXER_CHANNEL_IDS.map(id => {
+          const monitor = monitors.get(id)!;
+          if (!mixer.hasSource(id)) {
+            monitor.reset();
+            return [id, IDLE_METER];
+          }
+          const levels = mixer.getLevels(id);
+          return [id, { levels, status: monitor.update(levels, now), active: true }];
+        })) as MixerMeters);
+      } catch {
+        // The mixer was disposed between ticks
+        clearInterval(interval);
+      }
+    }, AUDIO_CONSTANTS.METER_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, [mixer, enabled]);
+
+  return meters;
+}
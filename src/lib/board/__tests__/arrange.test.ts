@@ -0,0 +1,78 @@
+/**
+ * Tests for stacking order and rotation rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getPointerAngle, normalizeAngle, pickActiveItem, reorderItems, snapAngle } from '../arrange';
+
+const items = [
+  { id: 'a', zIndex: 1 },
+  { id: 'b', zIndex: 5 },
+  { id: 'c', zIndex: 3 },
+  { id: 'd', zIndex: 8 }
+];
+
+// Ids from bottom to top
+const stackOf = (stacked: { id: string; zIndex: number }[]) =>
+  [...stacked].sort((x, y) => x.zIndex - y.zIndex).map(item => item.id);
+
+describe('arrange', () => {
+  describe('reorderItems', () => {
+    it('should bring items to the front and send them to the back', () => {
+      expect(stackOf(reorderItems(items, ['c'], 'bring-to-front'))).toEqual(['a', 'b', 'd', 'c']);
+      expect(stackOf(reorderItems(items, ['b'], 'send-to-back'))).toEqual(['b', 'a', 'c', 'd']);
+    });
+
+    it('should move one step at a time', () => {
+      expect(stackOf(reorderItems(items, ['a'], 'bring-forward'))).toEqual(['c', 'a', 'b', 'd']);
+      expect(stackOf(reorderItems(items, ['d'], 'send-backward'))).toEqual(['a', 'c', 'd', 'b']);
+    });
+
+    it('should keep a selected block together', () => {
+      expect(stackOf(reorderItems(items, ['a', 'c'], 'bring-forward'))).toEqual(['b', 'a', 'c', 'd']);
+      expect(stackOf(reorderItems(items, ['a', 'd'], 'bring-to-front'))).toEqual(['c', 'b', 'a', 'd']);
+    });
+
+    it('should renumber from 1 and keep the original array order', () => {
+      const result = reorderItems(items, ['d'], 'send-to-back');
+      expect(result.map(item => item.id)).toEqual(['a', 'b', 'c', 'd']);
+      expect(result.map(item => item.zIndex)).toEqual([2, 4, 3, 1]);
+    });
+
+    it('should leave the top item where it is when brought forward', () => {
+      expect(stackOf(reorderItems(items, ['d'], 'bring-forward'))).toEqual(['a', 'c', 'b', 'd']);
+    });
+  });
+
+  describe('pickActiveItem', () => {
+    it('should prefer the first preferred item that exists', () => {
+      expect(pickActiveItem(items, ['missing', null, 'c', 'a'])?.id).toBe('c');
+    });
+
+    it('should fall back to the topmost item', () => {
+      expect(pickActiveItem(items, [null])?.id).toBe('d');
+      expect(pickActiveItem([], ['a'])).toBeNull();
+    });
+  });
+
+  describe('rotation', () => {
+    it('should normalize angles', () => {
+      expect(normalizeAngle(270)).toBe(-90);
+      expect(normalizeAngle(-190)).toBe(170);
+      expect(normalizeAngle(180)).toBe(180);
+    });
+
+    it('should measure the pointer clockwise from straight up', () => {
+      const center = { x: 100, y: 100 };
+      expect(getPointerAngle(center, { x: 100, y: 0 })).toBeCloseTo(0);
+      expect(getPointerAngle(center, { x: 200, y: 100 })).toBeCloseTo(90);
+      expect(getPointerAngle(center, { x: 0, y: 100 })).toBeCloseTo(-90);
+    });
+
+    it('should snap to steps', () => {
+      expect(snapAngle(37)).toBe(30);
+      expect(snapAngle(38)).toBe(45);
+      expect(snapAngle(44, 90)).toBe(0);
+    });
+  });
+});
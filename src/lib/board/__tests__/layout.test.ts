@@ -0,0 +1,125 @@
+/**
+ * Tests for board selection, grouping, alignment and distribution
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  alignItems,
+  canGroup,
+  canUngroup,
+  distributeItems,
+  expandToGroups,
+  getBounds,
+  getMarqueeRect,
+  groupItems,
+  rectsIntersect,
+  toggleSelection,
+  ungroupItems
+} from '../layout';
+import type { BoardLayoutItem } from '../types';
+
+const items: BoardLayoutItem[] = [
+  { id: 'a', x: 0, y: 0, width: 100, height: 50 },
+  { id: 'b', x: 200, y: 100, width: 50, height: 100, groupId: 'g1' },
+  { id: 'c', x: 400, y: 40, width: 100, height: 20, groupId: 'g1' },
+  { id: 'd', x: 150, y: 300, width: 40, height: 40 }
+];
+
+describe('board layout', () => {
+  it('should compute combined bounds', () => {
+    expect(getBounds(items)).toEqual({ x: 0, y: 0, width: 500, height: 340 });
+    expect(getBounds([])).toBeNull();
+  });
+
+  it('should normalize a marquee dragged in any direction', () => {
+    expect(getMarqueeRect({ x: 50, y: 80 }, { x: 10, y: 20 })).toEqual({ x: 10, y: 20, width: 40, height: 60 });
+  });
+
+  it('should detect overlapping rectangles', () => {
+    expect(rectsIntersect(items[0], { x: 90, y: 40, width: 10, height: 10 })).toBe(true);
+    expect(rectsIntersect(items[0], { x: 100, y: 0, width: 10, height: 10 })).toBe(false);
+  });
+
+  describe('selection', () => {
+    it('should select whole groups', () => {
+      expect(expandToGroups(['b'], items)).toEqual(['b', 'c']);
+      expect(expandToGroups(['a', 'd'], items)).toEqual(['a', 'd']);
+    });
+
+    it('should toggle a group in and out of the selection', () => {
+      expect(toggleSelection(['a'], 'c', items)).toEqual(['a', 'b', 'c']);
+      expect(toggleSelection(['a', 'b', 'c'], 'b', items)).toEqual(['a']);
+    });
+  });
+
+  describe('grouping', () => {
+    it('should only offer grouping for items not already in one group', () => {
+      expect(canGroup(['a', 'd'], items)).toBe(true);
+      expect(canGroup(['b', 'c'], items)).toBe(false);
+      expect(canGroup(['a'], items)).toBe(false);
+      expect(canUngroup(['a', 'b'], items)).toBe(true);
+      expect(canUngroup(['a', 'd'], items)).toBe(false);
+    });
+
+    it('should group and ungroup items', () => {
+      const grouped = groupItems(items, ['a', 'd'], 'g2');
+      expect(grouped.filter(item => item.groupId === 'g2').map(item => item.id)).toEqual(['a', 'd']);
+
+      const ungrouped = ungroupItems(grouped, ['b', 'c']);
+      expect(ungrouped[1]).not.toHaveProperty('groupId');
+      expect(ungrouped[0].groupId).toBe('g2');
+    });
+  });
+
+  describe('alignItems', () => {
+    const selection = [items[0], items[3]];
+
+    it('should align to the edges of the selection', () => {
+      expect(alignItems(selection, 'left').get('d')).toEqual({ x: 0, y: 300 });
+      expect(alignItems(selection, 'right').get('a')).toEqual({ x: 90, y: 0 });
+      expect(alignItems(selection, 'bottom').get('a')).toEqual({ x: 0, y: 290 });
+      expect(alignItems(selection, 'top').get('d')).toEqual({ x: 150, y: 0 });
+    });
+
+    it('should align centres', () => {
+      expect(alignItems(selection, 'center').get('d')).toEqual({ x: 75, y: 300 });
+      expect(alignItems(selection, 'middle').get('a')).toEqual({ x: 0, y: 145 });
+    });
+
+    it('should line others up with a locked item without moving it', () => {
+      const positions = alignItems([{ ...items[0], locked: true }, items[3]], 'left');
+      expect(positions.has('a')).toBe(false);
+      expect(positions.get('d')).toEqual({ x: 0, y: 300 });
+    });
+
+    it('should need at least two items', () => {
+      expect(alignItems([items[0]], 'left').size).toBe(0);
+    });
+  });
+
+  describe('distributeItems', () => {
+    it('should space items evenly between the outermost ones', () => {
+      const positions = distributeItems([items[2], items[0], items[3]], 'horizontal');
+      // Span 0..500 holds 240px of items, leaving two 130px gaps
+      expect(positions.get('a')).toEqual({ x: 0, y: 0 });
+      expect(positions.get('d')).toEqual({ x: 230, y: 300 });
+      expect(positions.get('c')).toEqual({ x: 400, y: 40 });
+    });
+
+    it('should distribute vertically', () => {
+      const positions = distributeItems([items[0], items[1], items[3]], 'vertical');
+      // Span 0..340 holds 190px of items, leaving two 75px gaps
+      expect(positions.get('b')).toEqual({ x: 200, y: 125 });
+    });
+
+    it('should leave locked items where they are', () => {
+      const positions = distributeItems([items[2], items[0], { ...items[3], locked: true }], 'horizontal');
+      expect(positions.has('d')).toBe(false);
+      expect(positions.get('c')).toEqual({ x: 400, y: 40 });
+    });
+
+    it('should need at least three items', () => {
+      expect(distributeItems([items[0], items[1]], 'horizontal').size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Tests for snapping dragged items to other items
+ */
+
+import { describe, it, expect } from 'vitest';
+import { snapRect } from '../snapping';
+
+const target = { x: 100, y: 100, width: 200, height: 100 };
+
+describe('snapRect', () => {
+  it('should snap edges that are within the threshold', () => {
+    const result = snapRect({ x: 104, y: 300, width: 50, height: 50 }, [target], 6);
+    expect(result.dx).toBe(-4);
+    expect(result.dy).toBe(0);
+    expect(result.guides).toEqual([{ orientation: 'vertical', position: 100, start: 100, end: 350 }]);
+  });
+
+  it('should snap centres', () => {
+    // Centre at 147 snaps to the target's centre at 150
+    const result = snapRect({ x: 500, y: 127, width: 40, height: 40 }, [target], 6);
+    expect(result.dy).toBe(3);
+    expect(result.guides.some(guide => guide.orientation === 'horizontal' && guide.position === 150)).toBe(true);
+  });
+
+  it('should prefer the closest line', () => {
+    const result = snapRect({ x: 297, y: 400, width: 10, height: 10 }, [target, { x: 296, y: 0, width: 10, height: 10 }], 6);
+    expect(result.dx).toBe(-1);
+  });
+
+  it('should leave far away rectangles alone', () => {
+    expect(snapRect({ x: 600, y: 600, width: 10, height: 10 }, [target], 6)).toEqual({ dx: 0, dy: 0, guides: [] });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Stacking order and rotation rules for board items
+ */
+
+import { BOARD_CONSTANTS, type StackedItem, type ZOrderCommand } from './types';
+
+type Point = { x: number; y: number };
+
+/**
+ * Restack the given items. Every item is renumbered 1..n in its new stacking
+ * order so z-indexes stay small however often items are reordered; several
+ * selected items keep their order relative to each other.
+ */
+export function reorderItems<T extends StackedItem>(items: T[], ids: string[], command: ZOrderCommand): T[] {
+  const isMoving = (item: T) => ids.includes(item.id);
+  let stack = [...items].sort((a, b) => a.zIndex - b.zIndex);
+
+  switch (command) {
+    case 'bring-to-front':
+      stack = [...stack.filter(item => !isMoving(item)), ...stack.filter(isMoving)];
+      break;
+    case 'send-to-back':
+      stack = [...stack.filter(isMoving), ...stack.filter(item => !isMoving(item))];
+      break;
+    case 'bring-forward':
+      // Walk down from the top so a selected block moves up as a whole
+      for (let i = stack.length - 2; i >= 0; i--) {
+        if (isMoving(stack[i]) && !isMoving(stack[i + 1])) {
+          [stack[i], stack[i + 1]] = [stack[i + 1], stack[i]];
+        }
+      }
+      break;
+    case 'send-backward':
+      for (let i = 1; i < stack.length; i++) {
+        if (isMoving(stack[i]) && !isMoving(stack[i - 1])) {
+          [stack[i], stack[i - 1]] = [stack[i - 1], stack[i]];
+        }
+      }
+      break;
+  }
+
+  const zIndexById = new Map(stack.map((item, index) => [item.id, index + 1]));
+  return items.map(item => ({ ...item, zIndex: zIndexById.get(item.id) ?? item.zIndex }));
+}
+
+/**
+ * The first preferred item that is still present, otherwise the topmost one.
+ * Used to decide which of several decks the slide keys turn.
+ */
+export function pickActiveItem<T extends StackedItem>(items: T[], preferredIds: (string | null)[]): T | null {
+  for (const id of preferredIds) {
+    const preferred = id && items.find(item => item.id === id);
+    if (preferred) {
+      return preferred;
+    }
+  }
+  return items.reduce<T | null>((top, item) => (!top || item.zIndex > top.zIndex ? item : top), null);
+}
+
+/**
+ * Angle in (-180, 180]
+ */
+export function normalizeAngle(angle: number): number {
+  const wrapped = ((angle % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+/**
+ * Clockwise angle of the pointer around a centre, 0 pointing straight up
+ * (where the rotation handle sits on an unrotated item)
+ */
+export function getPointerAngle(center: Point, pointer: Point): number {
+  return normalizeAngle((Math.atan2(pointer.x - center.x, center.y - pointer.y) * 180) / Math.PI);
+}
+
+export function snapAngle(angle: number, step: number = BOARD_CONSTANTS.ROTATION_SNAP_DEGREES): number {
+  return normalizeAngle(Math.round(angle / step) * step);
+}
@@ -0,0 +1,5 @@
+// Board layout exports
+export * from './types';
+export * from './layout';
+export * from './snapping';
+export * from './arrange';
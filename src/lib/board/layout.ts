@@ -0,0 +1,155 @@
+/**
+ * Selection, grouping, alignment and distribution rules for board items
+ */
+
+import { BOARD_CONSTANTS, type AlignMode, type BoardLayoutItem, type BoardRect, type DistributeAxis } from './types';
+
+type Position = { x: number; y: number };
+
+export function getBounds(rects: BoardRect[]): BoardRect | null {
+  if (rects.length === 0) {
+    return null;
+  }
+  const left = Math.min(...rects.map(rect => rect.x));
+  const top = Math.min(...rects.map(rect => rect.y));
+  const right = Math.max(...rects.map(rect => rect.x + rect.width));
+  const bottom = Math.max(...rects.map(rect => rect.y + rect.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Normalized rectangle between two corners, whichever way it was dragged
+ */
+export function getMarqueeRect(start: Position, end: Position): BoardRect {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y)
+  };
+}
+
+export function rectsIntersect(a: BoardRect, b: BoardRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Ids plus every item sharing a group with one of them; grouped items are
+ * always selected together
+ */
+export function expandToGroups(ids: string[], items: BoardLayoutItem[]): string[] {
+  const groupIds = new Set(items.filter(item => ids.includes(item.id) && item.groupId).map(item => item.groupId));
+  return items
+    .filter(item => ids.includes(item.id) || (item.groupId !== undefined && groupIds.has(item.groupId)))
+    .map(item => item.id);
+}
+
+/**
+ * Shift-click: remove the clicked item's group if it is all selected,
+ * otherwise add it
+ */
+export function toggleSelection(selectedIds: string[], itemId: string, items: BoardLayoutItem[]): string[] {
+  const clicked = expandToGroups([itemId], items);
+  if (clicked.every(id => selectedIds.includes(id))) {
+    return selectedIds.filter(id => !clicked.includes(id));
+  }
+  return [...selectedIds, ...clicked.filter(id => !selectedIds.includes(id))];
+}
+
+export function canGroup(ids: string[], items: BoardLayoutItem[]): boolean {
+  const selected = items.filter(item => ids.includes(item.id));
+  if (selected.length < 2) {
+    return false;
+  }
+  const firstGroup = selected[0].groupId;
+  return firstGroup === undefined || selected.some(item => item.groupId !== firstGroup);
+}
+
+export function canUngroup(ids: string[], items: BoardLayoutItem[]): boolean {
+  return items.some(item => ids.includes(item.id) && item.groupId !== undefined);
+}
+
+export function groupItems<T extends BoardLayoutItem>(items: T[], ids: string[], groupId: string): T[] {
+  return items.map(item => (ids.includes(item.id) ? { ...item, groupId } : item));
+}
+
+export function ungroupItems<T extends BoardLayoutItem>(items: T[], ids: string[]): T[] {
+  return items.map(item => {
+    if (!ids.includes(item.id) || item.groupId === undefined) {
+      return item;
+    }
+    const rest = { ...item };
+    delete rest.groupId;
+    return rest;
+  });
+}
+
+/**
+ * New positions that line the items up against the edge or centre of their
+ * combined bounds. Locked items get none.
+ */
+export function alignItems(items: BoardLayoutItem[], mode: AlignMode): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const bounds = getBounds(items);
+  if (!bounds || items.length < BOARD_CONSTANTS.MIN_ALIGN_ITEMS) {
+    return positions;
+  }
+
+  items.forEach(item => {
+    if (item.locked) return;
+    let { x, y } = item;
+    switch (mode) {
+      case 'left':
+        x = bounds.x;
+        break;
+      case 'center':
+        x = bounds.x + (bounds.width - item.width) / 2;
+        break;
+      case 'right':
+        x = bounds.x + bounds.width - item.width;
+        break;
+      case 'top':
+        y = bounds.y;
+        break;
+      case 'middle':
+        y = bounds.y + (bounds.height - item.height) / 2;
+        break;
+      case 'bottom':
+        y = bounds.y + bounds.height - item.height;
+        break;
+    }
+    positions.set(item.id, { x, y });
+  });
+  return positions;
+}
+
+/**
+ * New positions with equal gaps between neighbours; the outermost items
+ * stay where they are and locked items get none
+ */
+export function distributeItems(items: BoardLayoutItem[], axis: DistributeAxis): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  if (items.length < BOARD_CONSTANTS.MIN_DISTRIBUTE_ITEMS) {
+    return positions;
+  }
+
+  const horizontal = axis === 'horizontal';
+  const start = (item: BoardLayoutItem) => (horizontal ? item.x : item.y);
+  const size = (item: BoardLayoutItem) => (horizontal ? item.width : item.height);
+  const sorted = [...items].sort((a, b) => start(a) - start(b));
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const span = start(last) + size(last) - start(first);
+  const occupied = sorted.reduce((total, item) => total + size(item), 0);
+  const gap = (span - occupied) / (sorted.length - 1);
+
+  let cursor = start(first);
+  sorted.forEach(item => {
+    if (!item.locked) {
+      positions.set(item.id, horizontal ? { x: cursor, y: item.y } : { x: item.x, y: cursor });
+    }
+    cursor += size(item) + gap;
+  });
+  return positions;
+}
@@ -0,0 +1,63 @@
+/**
+ * Snap a dragged rectangle to the edges and centres of other rectangles
+ *
+ * Each axis snaps independently to the closest candidate within the
+ * threshold. Guides are returned for every target line the snapped
+ * rectangle now touches, so the board can draw them.
+ */
+
+import type { BoardRect, SnapGuide, SnapResult } from './types';
+
+// Lines closer than this count as touching
+const EPSILON = 0.5;
+
+// Left/top, centre and right/bottom of a rectangle along one axis
+function getLines(start: number, size: number): number[] {
+  return [start, start + size / 2, start + size];
+}
+
+function findOffset(moving: number[], targets: number[], threshold: number): number | null {
+  let best: number | null = null;
+  moving.forEach(line => {
+    targets.forEach(target => {
+      const offset = target - line;
+      if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+        best = offset;
+      }
+    });
+  });
+  return best;
+}
+
+export function snapRect(moving: BoardRect, targets: BoardRect[], threshold: number): SnapResult {
+  const dx = findOffset(getLines(moving.x, moving.width), targets.flatMap(t => getLines(t.x, t.width)), threshold) ?? 0;
+  const dy = findOffset(getLines(moving.y, moving.height), targets.flatMap(t => getLines(t.y, t.height)), threshold) ?? 0;
+
+  const snapped = { ...moving, x: moving.x + dx, y: moving.y + dy };
+  const guides: SnapGuide[] = [];
+
+  targets.forEach(target => {
+    getLines(snapped.x, snapped.width).forEach(line => {
+      if (getLines(target.x, target.width).some(targetLine => Math.abs(targetLine - line) < EPSILON)) {
+        guides.push({
+          orientation: 'vertical',
+          position: line,
+          start: Math.min(snapped.y, target.y),
+          end: Math.max(snapped.y + snapped.height, target.y + target.height)
+        });
+      }
+    });
+    getLines(snapped.y, snapped.height).forEach(line => {
+      if (getLines(target.y, target.height).some(targetLine => Math.abs(targetLine - line) < EPSILON)) {
+        guides.push({
+          orientation: 'horizontal',
+          position: line,
+          start: Math.min(snapped.x, target.x),
+          end: Math.max(snapped.x + snapped.width, target.x + target.width)
+        });
+      }
+    });
+  });
+
+  return { dx, dy, guides };
+}
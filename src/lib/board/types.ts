@@ -0,0 +1,55 @@
+/**
+ * Core types for arranging items on the presentation board
+ */
+
+// A rectangle in board coordinates (unzoomed pixels)
+export interface BoardRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BoardLayoutItem extends BoardRect {
+  id: string;
+  groupId?: string;
+  // Locked items are never moved, but others still line up with them
+  locked?: boolean;
+}
+
+export interface StackedItem {
+  id: string;
+  zIndex: number;
+}
+
+export type ZOrderCommand = 'bring-to-front' | 'bring-forward' | 'send-backward' | 'send-to-back';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Vertical guides sit at an x position and span y; horizontal the other way
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+}
+
+export interface SnapResult {
+  // Offset to add to the moving rectangle
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+export const BOARD_CONSTANTS = {
+  // In screen pixels; divide by the zoom level for board pixels
+  SNAP_THRESHOLD: 6,
+  // Smaller drags on empty board count as a click, not a marquee
+  MARQUEE_MIN_SIZE: 4,
+  MIN_DISTRIBUTE_ITEMS: 3,
+  MIN_ALIGN_ITEMS: 2,
+  // Shift while rotating steps by this many degrees
+  ROTATION_SNAP_DEGREES: 15
+} as const;
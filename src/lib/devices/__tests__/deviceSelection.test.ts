@@ -0,0 +1,108 @@
+/**
+ * Tests for device list grouping, selection reconciliation and constraints
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  groupDevices,
+  loadDeviceSelection,
+  reconcileSelection,
+  saveDeviceSelection,
+  toDeviceError,
+  withDevice
+} from '../deviceSelection';
+import { DEVICE_CONSTANTS, DeviceErrorCode } from '../types';
+
+const device = (kind: MediaDeviceKind, deviceId: string, label = ''): MediaDeviceInfo => ({
+  kind,
+  deviceId,
+  groupId: `group-${deviceId}`,
+  label,
+  toJSON: () => ({})
+});
+
+const memoryStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); }
+  };
+};
+
+describe('deviceSelection', () => {
+  describe('groupDevices', () => {
+    it('should split cameras and microphones and drop aliases and outputs', () => {
+      const devices = groupDevices([
+        device('videoinput', 'cam-1', 'FaceTime HD'),
+        device('audioinput', 'default', 'Default - USB Mic'),
+        device('audioinput', 'mic-1', 'USB Mic'),
+        device('audiooutput', 'speaker-1', 'Speakers'),
+        device('videoinput', 'cam-2', 'Logitech BRIO')
+      ]);
+
+      expect(devices.cameras.map(camera => camera.label)).toEqual(['FaceTime HD', 'Logitech BRIO']);
+      expect(devices.microphones.map(mic => mic.deviceId)).toEqual(['mic-1']);
+    });
+
+    it('should number devices whose labels are hidden before permission', () => {
+      const devices = groupDevices([device('videoinput', 'a'), device('videoinput', 'b')]);
+
+      expect(devices.cameras.map(camera => camera.label)).toEqual(['Camera 1', 'Camera 2']);
+    });
+
+    it('should skip devices without an id', () => {
+      expect(groupDevices([device('audioinput', '')]).microphones).toHaveLength(0);
+    });
+  });
+
+  describe('reconcileSelection', () => {
+    it('should drop devices that were unplugged', () => {
+      const devices = groupDevices([device('videoinput', 'cam-1'), device('audioinput', 'mic-1')]);
+
+      expect(reconcileSelection({ cameraId: 'cam-2', microphoneId: 'mic-1' }, devices))
+        .toEqual({ cameraId: null, microphoneId: 'mic-1' });
+    });
+  });
+
+  describe('withDevice', () => {
+    it('should replace facingMode with an exact device id', () => {
+      const constraints = withDevice({ width: { ideal: 1280 }, facingMode: 'user' }, 'cam-1');
+
+      expect(constraints).toEqual({ width: { ideal: 1280 }, deviceId: { exact: 'cam-1' } });
+    });
+
+    it('should support a soft preference', () => {
+      expect(withDevice({}, 'cam-1', 'ideal')).toEqual({ deviceId: { ideal: 'cam-1' } });
+    });
+
+    it('should leave constraints alone without a device', () => {
+      const constraints = { facingMode: 'user' };
+      expect(withDevice(constraints, null)).toBe(constraints);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should round-trip the selection', () => {
+      const storage = memoryStorage();
+      saveDeviceSelection({ cameraId: 'cam-1', microphoneId: null }, storage);
+
+      expect(loadDeviceSelection(storage)).toEqual({ cameraId: 'cam-1', microphoneId: null });
+    });
+
+    it('should ignore corrupt saved data', () => {
+      const storage = memoryStorage();
+      storage.setItem(DEVICE_CONSTANTS.STORAGE_KEY, '{not json');
+
+      expect(loadDeviceSelection(storage)).toEqual({ cameraId: null, microphoneId: null });
+    });
+  });
+
+  describe('toDeviceError', () => {
+    it('should map getUserMedia failures to error codes', () => {
+      expect(toDeviceError(new DOMException('', 'NotAllowedError'), 'camera').code).toBe(DeviceErrorCode.PERMISSION_DENIED);
+      expect(toDeviceError(new DOMException('', 'OverconstrainedError'), 'camera').code).toBe(DeviceErrorCode.NOT_FOUND);
+      expect(toDeviceError(new DOMException('', 'NotReadableError'), 'microphone').code).toBe(DeviceErrorCode.IN_USE);
+      expect(toDeviceError(new Error('boom'), 'microphone').code).toBe(DeviceErrorCode.OPEN_FAILED);
+    });
+  });
+});
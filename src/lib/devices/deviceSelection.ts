@@ -0,0 +1,98 @@
+/**
+ * Pure helpers for device lists and saved selections
+ */
+
+import {
+  DEVICE_CONSTANTS,
+  DeviceError,
+  DeviceErrorCode,
+  type CaptureDevice,
+  type CaptureDeviceList,
+  type DeviceSelection
+} from './types';
+
+/**
+ * Split enumerateDevices() output into labelled cameras and microphones.
+ * Chrome lists a "default" alias for microphones; it duplicates a real
+ * device, so it is dropped.
+ */
+export function groupDevices(devices: MediaDeviceInfo[]): CaptureDeviceList {
+  const toCaptureDevices = (kind: MediaDeviceKind, fallbackLabel: string): CaptureDevice[] =>
+    devices
+      .filter(device => device.kind === kind && device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        groupId: device.groupId,
+        label: device.label || `${fallbackLabel} ${index + 1}`
+      }));
+
+  return {
+    cameras: toCaptureDevices('videoinput', 'Camera'),
+    microphones: toCaptureDevices('audioinput', 'Microphone')
+  };
+}
+
+/**
+ * Keep a selected device only while it is still plugged in
+ */
+export function reconcileSelection(selection: DeviceSelection, devices: CaptureDeviceList): DeviceSelection {
+  const isPresent = (id: string | null, list: CaptureDevice[]) =>
+    id !== null && list.some(device => device.deviceId === id);
+
+  return {
+    cameraId: isPresent(selection.cameraId, devices.cameras) ? selection.cameraId : null,
+    microphoneId: isPresent(selection.microphoneId, devices.microphones) ? selection.microphoneId : null
+  };
+}
+
+/**
+ * Add a device to capture constraints. "exact" fails if the device is gone,
+ * which is what an explicit switch wants; "ideal" quietly falls back.
+ */
+export function withDevice(
+  constraints: MediaTrackConstraints,
+  deviceId: string | null,
+  mode: 'exact' | 'ideal' = 'exact'
+): MediaTrackConstraints {
+  if (!deviceId) {
+    return constraints;
+  }
+  // facingMode would compete with the chosen device
+  const deviceConstraints: MediaTrackConstraints = { ...constraints, deviceId: { [mode]: deviceId } };
+  delete deviceConstraints.facingMode;
+  return deviceConstraints;
+}
+
+export function loadDeviceSelection(storage: Pick<Storage, 'getItem'> = localStorage): DeviceSelection {
+  try {
+    const saved = JSON.parse(storage.getItem(DEVICE_CONSTANTS.STORAGE_KEY) ?? 'null');
+    return {
+      cameraId: typeof saved?.cameraId === 'string' ? saved.cameraId : null,
+      microphoneId: typeof saved?.microphoneId === 'string' ? saved.microphoneId : null
+    };
+  } catch {
+    return { cameraId: null, microphoneId: null };
+  }
+}
+
+export function saveDeviceSelection(selection: DeviceSelection, storage: Pick<Storage, 'setItem'> = localStorage): void {
+  storage.setItem(DEVICE_CONSTANTS.STORAGE_KEY, JSON.stringify(selection));
+}
+
+/**
+ * Turn getUserMedia failures into DeviceErrors with a readable message
+ */
+export function toDeviceError(error: unknown, kind: 'camera' | 'microphone'): DeviceError {
+  const cause = error instanceof Error ? error : new Error(String(error));
+  switch (error instanceof DOMException ? error.name : '') {
+    case 'NotAllowedError':
+      return new DeviceError(`Permission to use the ${kind} was denied`, DeviceErrorCode.PERMISSION_DENIED, cause);
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new DeviceError(`The selected ${kind} is not available`, DeviceErrorCode.NOT_FOUND, cause);
+    case 'NotReadableError':
+      return new DeviceError(`The ${kind} is being used by another application`, DeviceErrorCode.IN_USE, cause);
+    default:
+      return new DeviceError(`Failed to open the ${kind}`, DeviceErrorCode.OPEN_FAILED, cause);
+  }
+}
@@ -0,0 +1,4 @@
+// Capture device exports
+export * from './types';
+export * from './deviceSelection';
+export * from './mediaDevices';
@@ -0,0 +1,78 @@
+/**
+ * Thin wrappers around navigator.mediaDevices for device pickers
+ */
+
+import { groupDevices, toDeviceError, withDevice } from './deviceSelection';
+import {
+  DEVICE_CONSTANTS,
+  DeviceError,
+  DeviceErrorCode,
+  type CaptureDeviceList
+} from './types';
+
+const assertSupported = () => {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+    throw new DeviceError('Camera and microphone access is not supported in this browser', DeviceErrorCode.UNSUPPORTED);
+  }
+};
+
+export async function listCaptureDevices(): Promise<CaptureDeviceList> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return { cameras: [], microphones: [] };
+  }
+  return groupDevices(await navigator.mediaDevices.enumerateDevices());
+}
+
+/**
+ * Call listener whenever a device is plugged in or removed.
+ * Returns an unsubscribe function.
+ */
+export function onDeviceChange(listener: () => void): () => void {
+  const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+  if (!mediaDevices?.addEventListener) {
+    return () => {};
+  }
+  mediaDevices.addEventListener('devicechange', listener);
+  return () => mediaDevices.removeEventListener('devicechange', listener);
+}
+
+/**
+ * Open a single camera track with the given base constraints
+ */
+export async function openCamera(deviceId: string | null, constraints: MediaTrackConstraints): Promise<MediaStreamTrack> {
+  assertSupported();
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: withDevice(constraints, deviceId) });
+    return stream.getVideoTracks()[0];
+  } catch (error) {
+    throw toDeviceError(error, 'camera');
+  }
+}
+
+/**
+ * Open a single microphone track with voice processing enabled
+ */
+export async function openMicrophone(deviceId: string | null): Promise<MediaStreamTrack> {
+  assertSupported();
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: withDevice({ ...DEVICE_CONSTANTS.AUDIO_CONSTRAINTS }, deviceId)
+    });
+    return stream.getAudioTracks()[0];
+  } catch (error) {
+    throw toDeviceError(error, 'microphone');
+  }
+}
+
+/**
+ * Swap one track of a stream in place and stop the old one. Consumers that
+ * hold the stream (preview, popup, blur) keep working with the same object.
+ */
+export function replaceTrack(stream: MediaStream, track: MediaStreamTrack): void {
+  const previous = track.kind === 'video' ? stream.getVideoTracks() : stream.getAudioTracks();
+  previous.forEach(old => {
+    stream.removeTrack(old);
+    old.stop();
+  });
+  stream.addTrack(track);
+}
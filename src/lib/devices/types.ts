@@ -0,0 +1,49 @@
+/**
+ * Core types for choosing and switching capture devices
+ */
+
+// Error types for better error handling
+export class DeviceError extends Error {
+  constructor(
+    message: string,
+    public code: DeviceErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'DeviceError';
+  }
+}
+
+export enum DeviceErrorCode {
+  UNSUPPORTED = 'UNSUPPORTED',
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  NOT_FOUND = 'NOT_FOUND',
+  IN_USE = 'IN_USE',
+  OPEN_FAILED = 'OPEN_FAILED'
+}
+
+export interface CaptureDevice {
+  deviceId: string;
+  groupId: string;
+  label: string; // Falls back to "Camera 1" etc. before permission is granted
+}
+
+export interface CaptureDeviceList {
+  cameras: CaptureDevice[];
+  microphones: CaptureDevice[];
+}
+
+// null means "let the browser choose"
+export interface DeviceSelection {
+  cameraId: string | null;
+  microphoneId: string | null;
+}
+
+export const DEVICE_CONSTANTS = {
+  STORAGE_KEY: 'video-presenter-devices',
+  AUDIO_CONSTRAINTS: {
+    echoCancellation: true,
+    noiseSuppression: true,
+    sampleRate: 44100
+  }
+} as const;
@@ -0,0 +1,71 @@
+/**
+ * A paged document whose pages are plain images, such as converted slides
+ */
+
+import { fitPage } from './pages';
+import { DOCUMENT_CONSTANTS, DocumentError, DocumentErrorCode, type PagedDocument, type PageRenderOptions, type PageSize } from './types';
+
+export class ImageDocument implements PagedDocument {
+  private images = new Map<number, Promise<HTMLImageElement>>();
+  // Latest render per canvas, so an older page that finishes loading late is not drawn
+  private latestRenders = new WeakMap<HTMLCanvasElement, number>();
+  private renderCount = 0;
+
+  constructor(private urls: string[]) {}
+
+  get pageCount(): number {
+    return this.urls.length;
+  }
+
+  async getPageSize(pageNumber: number): Promise<PageSize> {
+    const image = await this.getImage(pageNumber);
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+
+  async renderPage(pageNumber: number, canvas: HTMLCanvasElement, options: PageRenderOptions): Promise<boolean> {
+    const render = ++this.renderCount;
+    this.latestRenders.set(canvas, render);
+
+    const image = await this.getImage(pageNumber);
+    if (this.latestRenders.get(canvas) !== render) {
+      return false;
+    }
+
+    const pixelRatio = Math.min(options.pixelRatio ?? 1, DOCUMENT_CONSTANTS.MAX_PIXEL_RATIO);
+    canvas.width = Math.max(1, Math.round(options.width * pixelRatio));
+    canvas.height = Math.max(1, Math.round(options.height * pixelRatio));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new DocumentError('Canvas 2D context is not available', DocumentErrorCode.RENDER_FAILED);
+    }
+    const fit = fitPage({ width: image.naturalWidth, height: image.naturalHeight }, canvas);
+    context.fillStyle = options.background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, fit.x, fit.y, fit.width, fit.height);
+    return true;
+  }
+
+  destroy(): void {
+    this.images.clear();
+  }
+
+  private getImage(pageNumber: number): Promise<HTMLImageElement> {
+    const url = this.urls[pageNumber - 1];
+    if (!Number.isInteger(pageNumber) || !url) {
+      return Promise.reject(new DocumentError(`Page ${pageNumber} does not exist`, DocumentErrorCode.INVALID_PAGE));
+    }
+    let image = this.images.get(pageNumber);
+    if (!image) {
+      const element = new Image();
+      element.src = url;
+      image = element.decode()
+        .then(() => element)
+        .catch(error => {
+          this.images.delete(pageNumber);
+          throw new DocumentError(`Failed to load page ${pageNumber}`, DocumentErrorCode.LOAD_FAILED, error as Error);
+        });
+      this.images.set(pageNumber, image);
+    }
+    return image;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * PDF loading and page rendering on top of pdf.js
+ */
+
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { fitPage } from './pages';
+import { DOCUMENT_CONSTANTS, DocumentError, DocumentErrorCode, type PagedDocument, type PageRenderOptions, type PageSize } from './types';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+// pdf.js is large and browser-only, so it is fetched the first time a PDF is opened
+function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+export class PdfDocument implements PagedDocument {
+  private pageSizes = new Map<number, PageSize>();
+  // The render in flight for each target canvas, so a newer page request replaces it
+  private renderTasks = new WeakMap<HTMLCanvasElement, RenderTask>();
+
+  private constructor(private proxy: PDFDocumentProxy) {}
+
+  static async load(src: string): Promise<PdfDocument> {
+    try {
+      const pdfjs = await loadPdfJs();
+      const proxy = await pdfjs.getDocument({ url: src }).promise;
+      return new PdfDocument(proxy);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'PasswordException') {
+        throw new DocumentError('PDF is password protected', DocumentErrorCode.PASSWORD_PROTECTED, error);
+      }
+      throw new DocumentError('Failed to load PDF', DocumentErrorCode.LOAD_FAILED, error as Error);
+    }
+  }
+
+  get pageCount(): number {
+    return this.proxy.numPages;
+  }
+
+  async getPageSize(pageNumber: number): Promise<PageSize> {
+    const cached = this.pageSizes.get(pageNumber);
+    if (cached) {
+      return cached;
+    }
+    const page = await this.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const size = { width: viewport.width, height: viewport.height };
+    this.pageSizes.set(pageNumber, size);
+    return size;
+  }
+
+  /**
+   * Draw a page centred on the canvas, letterboxed with the background colour.
+   * The page is rendered off-screen first so the canvas never shows a blank or
+   * half-drawn frame. Resolves false when a newer render for the same canvas
+   * superseded this one.
+   */
+  async renderPage(pageNumber: number, canvas: HTMLCanvasElement, options: PageRenderOptions): Promise<boolean> {
+    this.renderTasks.get(canvas)?.cancel();
+
+    const page = await this.getPage(pageNumber);
+    const pixelRatio = Math.min(options.pixelRatio ?? 1, DOCUMENT_CONSTANTS.MAX_PIXEL_RATIO);
+    const width = Math.max(1, Math.round(options.width * pixelRatio));
+    const height = Math.max(1, Math.round(options.height * pixelRatio));
+    const fit = fitPage(await this.getPageSize(pageNumber), { width, height });
+
+    const offscreen = document.createElement('canvas');
+    offscreen.width = Math.max(1, Math.round(fit.width));
+    offscreen.height = Math.max(1, Math.round(fit.height));
+    const offscreenContext = offscreen.getContext('2d');
+    if (!offscreenContext) {
+      throw new DocumentError('Canvas 2D context is not available', DocumentErrorCode.RENDER_FAILED);
+    }
+
+    const task = page.render({ canvasContext: offscreenContext, viewport: page.getViewport({ scale: fit.scale }) });
+    this.renderTasks.set(canvas, task);
+    try {
+      await task.promise;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'RenderingCancelledException') {
+        return false;
+      }
+      throw new DocumentError(`Failed to render page ${pageNumber}`, DocumentErrorCode.RENDER_FAILED, error as Error);
+    } finally {
+      if (this.renderTasks.get(canvas) === task) {
+        this.renderTasks.delete(canvas);
+      }
+    }
+
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new DocumentError('Canvas 2D context is not available', DocumentErrorCode.RENDER_FAILED);
+    }
+    context.fillStyle = options.background;
+    context.fillRect(0, 0, width, height);
+    context.drawImage(offscreen, fit.x, fit.y, fit.width, fit.height);
+    return true;
+  }
+
+  destroy(): void {
+    void this.proxy.destroy();
+  }
+
+  private async getPage(pageNumber: number) {
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > this.pageCount) {
+      throw new DocumentError(`Page ${pageNumber} does not exist`, DocumentErrorCode.INVALID_PAGE);
+    }
+    return this.proxy.getPage(pageNumber);
+  }
+}
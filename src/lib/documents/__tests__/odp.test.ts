@@ -0,0 +1,151 @@
+/**
+ * Tests for the OpenDocument slide deck parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createZip } from '../../project/zip';
+import { readBlob } from '../../export/readBlob';
+import { parseOdp } from '../odp';
+import { parseLength } from '../xml';
+import { DocumentErrorCode, type SlideShape } from '../types';
+
+const NS = 'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ' +
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0" ' +
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" ' +
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0" ' +
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0" ' +
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0" ' +
+  'xmlns:xlink="http://www.w3.org/1999/xlink" ' +
+  'xmlns:presentation="urn:oasis:names:tc:opendocument:xmlns:presentation:1.0"';
+
+const STYLES = `<office:document-styles ${NS}>
+  <office:styles>
+    <style:style style:name="standard" style:family="graphic">
+      <style:graphic-properties draw:fill="solid" draw:fill-color="#729fcf" draw:stroke="solid" svg:stroke-color="#3465a4"/>
+    </style:style>
+  </office:styles>
+  <office:automatic-styles>
+    <style:page-layout style:name="PM1">
+      <style:page-layout-properties fo:page-width="25.4cm" fo:page-height="14.2875cm"/>
+    </style:page-layout>
+  </office:automatic-styles>
+</office:document-styles>`;
+
+const CONTENT = `<office:document-content ${NS}>
+  <office:automatic-styles>
+    <style:style style:name="dp1" style:family="drawing-page">
+      <style:drawing-page-properties draw:fill="solid" draw:fill-color="#222222"/>
+    </style:style>
+    <style:style style:name="gr1" style:family="graphic" style:parent-style-name="standard">
+      <style:graphic-properties draw:stroke="none"/>
+    </style:style>
+    <style:style style:name="gr2" style:family="graphic">
+      <style:graphic-properties draw:fill="none" draw:stroke="none" draw:textarea-vertical-align="bottom"/>
+    </style:style>
+    <style:style style:name="P1" style:family="paragraph">
+      <style:paragraph-properties fo:text-align="center"/>
+      <style:text-properties fo:font-size="28pt"/>
+    </style:style>
+    <style:style style:name="T1" style:family="text">
+      <style:text-properties fo:font-weight="bold" fo:color="#ff0000"/>
+    </style:style>
+  </office:automatic-styles>
+  <office:body><office:presentation>
+    <draw:page draw:name="page1" draw:style-name="dp1">
+      <draw:frame presentation:class="title" draw:style-name="gr2" svg:x="1in" svg:y="0.5in" svg:width="8in" svg:height="1in">
+        <draw:text-box><text:p text:style-name="P1">Hello <text:span text:style-name="T1">world</text:span><text:s text:c="2"/>!</text:p></draw:text-box>
+      </draw:frame>
+      <draw:frame svg:x="0cm" svg:y="5cm" svg:width="4cm" svg:height="3cm">
+        <draw:image xlink:href="Pictures/photo.jpg"/>
+      </draw:frame>
+      <draw:custom-shape draw:style-name="gr1" svg:width="72pt" svg:height="36pt" draw:transform="rotate (1.5707963267949) translate (100pt 200pt)">
+        <draw:enhanced-geometry draw:type="ellipse"/>
+      </draw:custom-shape>
+      <draw:line svg:x1="10pt" svg:y1="50pt" svg:x2="110pt" svg:y2="20pt"/>
+      <draw:g><draw:rect draw:style-name="gr1" svg:x="0pt" svg:y="0pt" svg:width="10pt" svg:height="10pt"><text:p/></draw:rect></draw:g>
+    </draw:page>
+    <draw:page draw:name="page2"/>
+  </office:presentation></office:body>
+</office:document-content>`;
+
+function createOdp(overrides: Record<string, string | null> = {}): Promise<ArrayBuffer> {
+  const files: Record<string, string | null> = { 'styles.xml': STYLES, 'content.xml': CONTENT, ...overrides };
+  const encoder = new TextEncoder();
+  const entries = Object.entries(files)
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([path, text]) => ({ path, data: encoder.encode(text) }));
+  entries.push({ path: 'Pictures/photo.jpg', data: new Uint8Array([255, 216, 255]) });
+  return readBlob(createZip(entries));
+}
+
+describe('parseOdp', () => {
+  it('should read the page size and every page', async () => {
+    const deck = await parseOdp(await createOdp());
+    expect(deck.width).toBeCloseTo(720);
+    expect(deck.height).toBeCloseTo(405);
+    expect(deck.slides).toHaveLength(2);
+    expect(deck.slides[0].background).toBe('#222222');
+    expect(deck.slides[1]).toEqual({ background: '#ffffff', elements: [] });
+  });
+
+  it('should read text frames with paragraph and span styles', async () => {
+    const deck = await parseOdp(await createOdp());
+    const title = deck.slides[0].elements[0] as SlideShape;
+    expect(title).toMatchObject({ x: 72, y: 36, width: 576, height: 72, fill: null, stroke: null, verticalAlign: 'bottom' });
+    expect(title.paragraphs[0].align).toBe('center');
+    expect(title.paragraphs[0].runs.map(run => [run.text, run.fontSize, run.bold, run.color])).toEqual([
+      ['Hello ', 28, false, null],
+      ['world', 28, true, '#ff0000'],
+      ['  ', 28, false, null],
+      ['!', 28, false, null]
+    ]);
+  });
+
+  it('should read pictures', async () => {
+    const deck = await parseOdp(await createOdp());
+    const picture = deck.slides[0].elements[1];
+    expect(picture.kind).toBe('image');
+    expect(picture.kind === 'image' && picture.blob.type).toBe('image/jpeg');
+    expect(picture.width).toBeCloseTo(113.39, 1);
+  });
+
+  it('should turn draw:transform into a clockwise rotation about the centre', async () => {
+    const deck = await parseOdp(await createOdp());
+    const shape = deck.slides[0].elements[2] as SlideShape;
+    expect(shape.geometry).toBe('ellipse');
+    expect(shape.rotation).toBeCloseTo(-90);
+    // Rotated a quarter turn counter-clockwise about (100, 200), the shape spans x 100..136 and y 128..200
+    expect(shape.x + shape.width / 2).toBeCloseTo(118);
+    expect(shape.y + shape.height / 2).toBeCloseTo(164);
+  });
+
+  it('should inherit graphic styles from parent styles', async () => {
+    const deck = await parseOdp(await createOdp());
+    const shape = deck.slides[0].elements[2] as SlideShape;
+    expect(shape.fill).toBe('#729fcf');
+    expect(shape.stroke).toBeNull();
+  });
+
+  it('should read lines with their direction and shapes inside groups', async () => {
+    const deck = await parseOdp(await createOdp());
+    expect(deck.slides[0].elements[3]).toMatchObject({ geometry: 'line', x: 10, y: 20, width: 100, height: 30, flipH: false, flipV: true });
+    expect(deck.slides[0].elements[4]).toMatchObject({ geometry: 'rect', width: 10 });
+  });
+
+  it('should reject archives without a presentation', async () => {
+    await expect(parseOdp(await createOdp({ 'content.xml': null }))).rejects.toMatchObject({
+      code: DocumentErrorCode.INVALID_DECK
+    });
+  });
+});
+
+describe('parseLength', () => {
+  it('should convert ODF units to points', () => {
+    expect(parseLength('1in')).toBe(72);
+    expect(parseLength('2.54cm')).toBeCloseTo(72);
+    expect(parseLength('10mm')).toBeCloseTo(28.35, 2);
+    expect(parseLength('12pt')).toBe(12);
+    expect(parseLength('12')).toBeNull();
+    expect(parseLength(null)).toBeNull();
+  });
+});
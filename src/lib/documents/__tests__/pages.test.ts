@@ -0,0 +1,64 @@
+/**
+ * Tests for page navigation and fitting rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyPageAction, clampPage, fitPage, getPageAction, parsePageInput } from '../pages';
+
+describe('pages', () => {
+  describe('navigation', () => {
+    it('should clamp pages to the document', () => {
+      expect(clampPage(0, 5)).toBe(1);
+      expect(clampPage(9, 5)).toBe(5);
+      expect(clampPage(3, 0)).toBe(1);
+    });
+
+    it('should step and jump without leaving the document', () => {
+      expect(applyPageAction(1, 5, 'next')).toBe(2);
+      expect(applyPageAction(5, 5, 'next')).toBe(5);
+      expect(applyPageAction(1, 5, 'previous')).toBe(1);
+      expect(applyPageAction(3, 5, 'first')).toBe(1);
+      expect(applyPageAction(3, 5, 'last')).toBe(5);
+    });
+
+    it('should map keyboard and clicker keys', () => {
+      expect(getPageAction('PageDown')).toBe('next');
+      expect(getPageAction(' ')).toBe('next');
+      expect(getPageAction('ArrowLeft')).toBe('previous');
+      expect(getPageAction('End')).toBe('last');
+      expect(getPageAction('a')).toBeNull();
+      expect(getPageAction('toString')).toBeNull();
+    });
+  });
+
+  describe('parsePageInput', () => {
+    it('should accept page numbers inside the document', () => {
+      expect(parsePageInput(' 3 ', 5)).toBe(3);
+      expect(parsePageInput('6', 5)).toBeNull();
+      expect(parsePageInput('0', 5)).toBeNull();
+      expect(parsePageInput('2.5', 5)).toBeNull();
+      expect(parsePageInput('', 5)).toBeNull();
+    });
+  });
+
+  describe('fitPage', () => {
+    it('should letterbox a wide page in a tall box', () => {
+      expect(fitPage({ width: 200, height: 100 }, { width: 100, height: 100 })).toEqual({
+        x: 0,
+        y: 25,
+        width: 100,
+        height: 50,
+        scale: 0.5
+      });
+    });
+
+    it('should pillarbox a portrait page in a wide box', () => {
+      const fit = fitPage({ width: 100, height: 200 }, { width: 400, height: 100 });
+      expect(fit).toEqual({ x: 175, y: 0, width: 50, height: 100, scale: 0.5 });
+    });
+
+    it('should not divide by zero for empty boxes', () => {
+      expect(fitPage({ width: 100, height: 100 }, { width: 0, height: 50 }).scale).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for the PowerPoint slide deck parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createZip } from '../../project/zip';
+import { readBlob } from '../../export/readBlob';
+import { parsePptx } from '../pptx';
+import { DOCUMENT_CONSTANTS, DocumentErrorCode, type SlideShape } from '../types';
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const rels = (...relationships: [string, string, string][]) =>
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  relationships.map(([id, type, target]) => `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`).join('') +
+  '</Relationships>';
+
+// EMU for a point value
+const emu = (points: number) => points * 12700;
+const xfrm = (x: number, y: number, width: number, height: number, extra = '') =>
+  `<a:xfrm${extra}><a:off x="${emu(x)}" y="${emu(y)}"/><a:ext cx="${emu(width)}" cy="${emu(height)}"/></a:xfrm>`;
+
+const PRESENTATION = `<p:presentation ${NS}>
+  <p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst>
+  <p:sldSz cx="${emu(720)}" cy="${emu(405)}"/>
+</p:presentation>`;
+
+const THEME = `<a:theme ${NS}><a:themeElements><a:clrScheme name="Test">
+  <a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1>
+  <a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>
+  <a:accent1><a:srgbClr val="4472C4"/></a:accent1>
+</a:clrScheme></a:themeElements></a:theme>`;
+
+const MASTER = `<p:sldMaster ${NS}><p:cSld>
+  <p:bg><p:bgPr><a:solidFill><a:schemeClr val="bg1"/></a:solidFill></p:bgPr></p:bg>
+  <p:spTree>
+    <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:spPr>${xfrm(36, 20, 648, 80)}</p:spPr>
+      <p:txBody><a:bodyPr anchor="b"/></p:txBody></p:sp>
+  </p:spTree></p:cSld>
+  <p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="4400"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill></a:defRPr></a:lvl1pPr></p:titleStyle></p:txStyles>
+</p:sldMaster>`;
+
+const LAYOUT = `<p:sldLayout ${NS}><p:cSld><p:spTree/></p:cSld></p:sldLayout>`;
+
+const TITLE_SLIDE = `<p:sld ${NS}><p:cSld><p:spTree>
+  <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:spPr/>
+    <p:txBody><a:bodyPr/><a:p><a:pPr algn="ctr"/><a:r><a:rPr lang="en-US"/><a:t>Quarterly review</a:t></a:r></a:p></p:txBody></p:sp>
+</p:spTree></p:cSld></p:sld>`;
+
+const CONTENT_SLIDE = `<p:sld ${NS}><p:cSld>
+  <p:bg><p:bgPr><a:solidFill><a:srgbClr val="102030"/></a:solidFill></p:bgPr></p:bg>
+  <p:spTree>
+    <p:sp><p:nvSpPr><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+      <p:spPr>${xfrm(10, 20, 300, 100, ' rot="1800000"')}<a:prstGeom prst="ellipse"/><a:solidFill><a:schemeClr val="accent1"/></a:solidFill><a:ln w="${emu(2)}"><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></a:ln></p:spPr>
+      <p:txBody><a:bodyPr anchor="ctr"/>
+        <a:p><a:r><a:rPr sz="2400" b="1"><a:solidFill><a:srgbClr val="00FF00"/></a:solidFill></a:rPr><a:t>Bold</a:t></a:r><a:br/><a:r><a:rPr i="1"/><a:t>next</a:t></a:r></a:p>
+        <a:p><a:endParaRPr sz="1200"/></a:p>
+      </p:txBody></p:sp>
+    <p:grpSp><p:grpSpPr><a:xfrm><a:off x="${emu(100)}" y="${emu(100)}"/><a:ext cx="${emu(200)}" cy="${emu(200)}"/><a:chOff x="0" y="0"/><a:chExt cx="${emu(100)}" cy="${emu(100)}"/></a:xfrm></p:grpSpPr>
+      <p:pic><p:blipFill><a:blip r:embed="rId5"/></p:blipFill><p:spPr>${xfrm(10, 10, 50, 25)}</p:spPr></p:pic>
+    </p:grpSp>
+    <p:cxnSp><p:spPr>${xfrm(0, 300, 100, 50, ' flipV="1"')}<a:prstGeom prst="line"/></p:spPr>
+      <p:style><a:lnRef idx="1"><a:schemeClr val="accent1"/></a:lnRef></p:style></p:cxnSp>
+    <p:graphicFrame/>
+  </p:spTree></p:cSld></p:sld>`;
+
+function createPptx(overrides: Record<string, string | null> = {}): Promise<ArrayBuffer> {
+  const files: Record<string, string | null> = {
+    'ppt/presentation.xml': PRESENTATION,
+    'ppt/_rels/presentation.xml.rels': rels(
+      ['rId1', 'theme', 'theme/theme1.xml'],
+      ['rId2', 'slide', 'slides/slide1.xml'],
+      ['rId3', 'slide', 'slides/slide2.xml']
+    ),
+    'ppt/theme/theme1.xml': THEME,
+    'ppt/slideMasters/slideMaster1.xml': MASTER,
+    'ppt/slideLayouts/slideLayout1.xml': LAYOUT,
+    'ppt/slideLayouts/_rels/slideLayout1.xml.rels': rels(['rId1', 'slideMaster', '../slideMasters/slideMaster1.xml']),
+    'ppt/slides/slide1.xml': TITLE_SLIDE,
+    'ppt/slides/_rels/slide1.xml.rels': rels(['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml']),
+    'ppt/slides/slide2.xml': CONTENT_SLIDE,
+    'ppt/slides/_rels/slide2.xml.rels': rels(
+      ['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml'],
+      ['rId5', 'image', '../media/image1.png']
+    ),
+    ...overrides
+  };
+  const encoder = new TextEncoder();
+  const entries = Object.entries(files)
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([path, text]) => ({ path, data: encoder.encode(text) }));
+  entries.push({ path: 'ppt/media/image1.png', data: new Uint8Array([137, 80, 78, 71]) });
+  return readBlob(createZip(entries));
+}
+
+describe('parsePptx', () => {
+  it('should read the slide size and keep the presentation order', async () => {
+    const deck = await parsePptx(await createPptx());
+    expect(deck.width).toBe(720);
+    expect(deck.height).toBe(405);
+    expect(deck.slides).toHaveLength(2);
+    // rId3 (slide2) is listed first
+    expect(deck.slides[0].background).toBe('#102030');
+    expect(deck.slides[1].background).toBe('#ffffff');
+  });
+
+  it('should place placeholders where the master puts them and apply its text defaults', async () => {
+    const deck = await parsePptx(await createPptx());
+    const title = deck.slides[1].elements[0] as SlideShape;
+    expect(title).toMatchObject({ x: 36, y: 20, width: 648, height: 80, verticalAlign: 'bottom' });
+    expect(title.paragraphs).toEqual([{
+      align: 'center',
+      runs: [{ text: 'Quarterly review', fontSize: 44, bold: false, italic: false, color: '#000000' }]
+    }]);
+  });
+
+  it('should read shape geometry, fill, outline, rotation and text runs', async () => {
+    const deck = await parsePptx(await createPptx());
+    const shape = deck.slides[0].elements[0] as SlideShape;
+    expect(shape).toMatchObject({
+      kind: 'shape',
+      geometry: 'ellipse',
+      x: 10,
+      y: 20,
+      rotation: 30,
+      fill: '#4472c4',
+      stroke: '#ff0000',
+      strokeWidth: 2,
+      verticalAlign: 'middle'
+    });
+    expect(shape.paragraphs[0].runs.map(run => [run.text, run.fontSize, run.bold, run.italic])).toEqual([
+      ['Bold', 24, true, false],
+      ['\n', DOCUMENT_CONSTANTS.DEFAULT_FONT_SIZE, false, false],
+      ['next', DOCUMENT_CONSTANTS.DEFAULT_FONT_SIZE, false, true]
+    ]);
+    expect(shape.paragraphs[1].runs).toEqual([expect.objectContaining({ text: '', fontSize: 12 })]);
+  });
+
+  it('should map pictures inside groups onto the slide', async () => {
+    const deck = await parsePptx(await createPptx());
+    const picture = deck.slides[0].elements[1];
+    expect(picture).toMatchObject({ kind: 'image', x: 120, y: 120, width: 100, height: 50 });
+    expect(picture.kind === 'image' && picture.blob.type).toBe('image/png');
+  });
+
+  it('should read connectors as lines and skip unsupported frames', async () => {
+    const deck = await parsePptx(await createPptx());
+    expect(deck.slides[0].elements).toHaveLength(3);
+    expect(deck.slides[0].elements[2]).toMatchObject({ geometry: 'line', fill: null, stroke: '#4472c4', flipV: true });
+  });
+
+  it('should fall back to defaults for values named like object prototype keys', async () => {
+    const slide = `<p:sld ${NS}><p:cSld><p:spTree>
+      <p:sp><p:nvSpPr><p:nvPr/></p:nvSpPr><p:spPr>${xfrm(0, 0, 100, 50)}<a:prstGeom prst="constructor"/></p:spPr>
+        <p:txBody><a:bodyPr anchor="toString"/><a:p><a:pPr algn="__proto__"/><a:r><a:t>Text</a:t></a:r></a:p></p:txBody></p:sp>
+    </p:spTree></p:cSld></p:sld>`;
+    const deck = await parsePptx(await createPptx({ 'ppt/slides/slide1.xml': slide }));
+    const shape = deck.slides[1].elements[0] as SlideShape;
+    expect(shape).toMatchObject({ geometry: 'rect', verticalAlign: 'top' });
+    expect(shape.paragraphs[0].align).toBe('left');
+  });
+
+  it('should reject files that are not presentations', async () => {
+    await expect(parsePptx(await createPptx({ 'ppt/presentation.xml': null }))).rejects.toMatchObject({
+      code: DocumentErrorCode.INVALID_DECK
+    });
+    await expect(parsePptx(new TextEncoder().encode('not a zip').buffer as ArrayBuffer)).rejects.toMatchObject({
+      code: DocumentErrorCode.INVALID_DECK
+    });
+  });
+});
@@ -0,0 +1,9 @@
+// Document rendering exports
+export * from './types';
+export * from './pages';
+export { PdfDocument } from './PdfDocument';
+export { ImageDocument } from './ImageDocument';
+export { parsePptx } from './pptx';
+export { parseOdp } from './odp';
+export { renderSlide, renderSlideImages } from './slideRenderer';
+export { convertSlideDeck, isSlideDeckFile, parseSlideDeck, type ConvertedSlideDeck } from './slideDeck';
@@ -0,0 +1,344 @@
+/**
+ * OpenDocument presentation (.odp) slide deck parser
+ *
+ * Reads the frames, text boxes, pictures, rectangles, ellipses, custom shapes
+ * and lines of every page, styled through their automatic and common styles.
+ */
+
+import {
+  childElements,
+  findDescendants,
+  firstChild,
+  lookup,
+  normalizeColor,
+  parseLength,
+  readArchive,
+  readImage,
+  readXml,
+  resolvePath,
+  type ArchiveFiles
+} from './xml';
+import {
+  DOCUMENT_CONSTANTS,
+  DocumentError,
+  DocumentErrorCode,
+  type Slide,
+  type SlideDeck,
+  type SlideElement,
+  type SlideParagraph,
+  type SlideShape,
+  type SlideTextRun
+} from './types';
+
+// 28 x 15.75 cm, LibreOffice Impress's default 16:9 page
+const DEFAULT_PAGE_SIZE = { width: 793.7, height: 446.46 };
+const PROPERTY_ELEMENTS = [
+  'graphic-properties',
+  'paragraph-properties',
+  'text-properties',
+  'drawing-page-properties',
+  'page-layout-properties'
+];
+const ALIGNMENTS: Record<string, SlideParagraph['align']> = {
+  start: 'left',
+  left: 'left',
+  center: 'center',
+  end: 'right',
+  right: 'right'
+};
+const VERTICAL_ALIGNMENTS: Record<string, SlideShape['verticalAlign']> = { top: 'top', middle: 'middle', bottom: 'bottom' };
+const CUSTOM_GEOMETRIES: Record<string, SlideShape['geometry']> = {
+  rectangle: 'rect',
+  'round-rectangle': 'roundRect',
+  ellipse: 'ellipse',
+  circle: 'ellipse'
+};
+
+// Style name -> properties, with parent styles already merged in
+type StyleSheet = Map<string, Record<string, string>>;
+
+interface PageContext {
+  files: ArchiveFiles;
+  styles: StyleSheet;
+}
+
+export async function parseOdp(buffer: ArrayBuffer): Promise<SlideDeck> {
+  const files = await readArchive(buffer);
+  const content = readXml(files, 'content.xml');
+  const presentation = findDescendants(content, 'presentation')[0];
+  if (!content || !presentation) {
+    throw new DocumentError('Not an OpenDocument presentation', DocumentErrorCode.INVALID_DECK);
+  }
+  const stylesDocument = readXml(files, 'styles.xml');
+  const styles = readStyles([stylesDocument, content]);
+
+  const pageLayout = findDescendants(stylesDocument, 'page-layout')
+    .map(layout => styles.get(layout.getAttribute('style:name') ?? ''))
+    .find(properties => properties?.['fo:page-width']);
+  const width = parseLength(pageLayout?.['fo:page-width']) ?? DEFAULT_PAGE_SIZE.width;
+  const height = parseLength(pageLayout?.['fo:page-height']) ?? DEFAULT_PAGE_SIZE.height;
+
+  const context: PageContext = { files, styles };
+  const slides = childElements(presentation, 'page').map(page => parsePage(page, context));
+  if (slides.length === 0) {
+    throw new DocumentError('Presentation has no slides', DocumentErrorCode.INVALID_DECK);
+  }
+  return { width, height, slides };
+}
+
+function parsePage(page: Element, context: PageContext): Slide {
+  const style = context.styles.get(page.getAttribute('draw:style-name') ?? '');
+  const background = style?.['draw:fill'] === 'solid' ? normalizeColor(style['draw:fill-color']) : null;
+  return {
+    background: background ?? DOCUMENT_CONSTANTS.SLIDE_BACKGROUND,
+    elements: parseShapes(page, context)
+  };
+}
+
+function parseShapes(container: Element, context: PageContext): SlideElement[] {
+  return childElements(container).flatMap((element): SlideElement[] => {
+    switch (element.localName) {
+      case 'frame':
+        return parseFrame(element, context);
+      case 'rect':
+      case 'ellipse':
+      case 'custom-shape': {
+        const shape = parseShape(element, context);
+        return shape ? [shape] : [];
+      }
+      case 'line': {
+        const line = parseLine(element, context);
+        return line ? [line] : [];
+      }
+      case 'g':
+        return parseShapes(element, context);
+      default:
+        return [];
+    }
+  });
+}
+
+function parseFrame(frame: Element, context: PageContext): SlideElement[] {
+  const box = readBox(frame);
+  if (!box) {
+    return [];
+  }
+  const image = firstChild(frame, 'image');
+  const href = image?.getAttribute('xlink:href');
+  if (href) {
+    const blob = readImage(context.files, resolvePath('', href));
+    return blob ? [{ kind: 'image', ...box, blob }] : [];
+  }
+  const textBox = firstChild(frame, 'text-box');
+  if (!textBox) {
+    return [];
+  }
+  const style = getGraphicStyle(frame, context);
+  const isTitle = frame.getAttribute('presentation:class') === 'title';
+  return [{
+    kind: 'shape',
+    ...box,
+    geometry: 'rect',
+    ...readFillAndStroke(style),
+    flipH: false,
+    flipV: false,
+    paragraphs: readParagraphs(textBox, context, isTitle ? DOCUMENT_CONSTANTS.TITLE_FONT_SIZE : DOCUMENT_CONSTANTS.DEFAULT_FONT_SIZE),
+    verticalAlign: lookup(VERTICAL_ALIGNMENTS, style['draw:textarea-vertical-align']) ?? (isTitle ? 'middle' : 'top')
+  }];
+}
+
+function parseShape(element: Element, context: PageContext): SlideShape | null {
+  const box = readBox(element);
+  if (!box) {
+    return null;
+  }
+  const style = getGraphicStyle(element, context);
+  const geometryType = firstChild(element, 'enhanced-geometry')?.getAttribute('draw:type') ?? '';
+  const geometry = element.localName === 'ellipse' ? 'ellipse' : lookup(CUSTOM_GEOMETRIES, geometryType) ?? 'rect';
+  return {
+    kind: 'shape',
+    ...box,
+    geometry,
+    ...readFillAndStroke(style),
+    flipH: false,
+    flipV: false,
+    paragraphs: readParagraphs(element, context, DOCUMENT_CONSTANTS.DEFAULT_FONT_SIZE),
+    verticalAlign: lookup(VERTICAL_ALIGNMENTS, style['draw:textarea-vertical-align']) ?? 'middle'
+  };
+}
+
+function parseLine(line: Element, context: PageContext): SlideShape | null {
+  const [x1, y1, x2, y2] = ['svg:x1', 'svg:y1', 'svg:x2', 'svg:y2'].map(name => parseLength(line.getAttribute(name)));
+  if (x1 === null || y1 === null || x2 === null || y2 === null) {
+    return null;
+  }
+  const { stroke, strokeWidth } = readFillAndStroke(getGraphicStyle(line, context));
+  return {
+    kind: 'shape',
+    x: Math.min(x1, x2),
+    y: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1),
+    rotation: 0,
+    geometry: 'line',
+    fill: null,
+    stroke: stroke ?? DOCUMENT_CONSTANTS.TEXT_COLOR,
+    strokeWidth,
+    flipH: x2 < x1,
+    flipV: y2 < y1,
+    paragraphs: [],
+    verticalAlign: 'top'
+  };
+}
+
+/**
+ * Position, size and rotation of a shape. Rotated shapes carry their
+ * position in draw:transform instead of svg:x/svg:y.
+ */
+function readBox(element: Element): Pick<SlideShape, 'x' | 'y' | 'width' | 'height' | 'rotation'> | null {
+  const width = parseLength(element.getAttribute('svg:width'));
+  const height = parseLength(element.getAttribute('svg:height'));
+  if (width === null || height === null) {
+    return null;
+  }
+  const transform = element.getAttribute('draw:transform');
+  const rotate = transform?.match(/rotate\s*\(\s*(-?[\d.]+)\s*\)/);
+  const translate = transform?.match(/translate\s*\(\s*(\S+)\s+([^)\s]+)\s*\)/);
+  if (rotate && translate) {
+    // ODF rotates counter-clockwise about the shape's top-left corner, then translates
+    const angle = Number(rotate[1]);
+    const originX = parseLength(translate[1]) ?? 0;
+    const originY = parseLength(translate[2]) ?? 0;
+    const centerX = originX + (width / 2) * Math.cos(angle) + (height / 2) * Math.sin(angle);
+    const centerY = originY - (width / 2) * Math.sin(angle) + (height / 2) * Math.cos(angle);
+    return {
+      x: centerX - width / 2,
+      y: centerY - height / 2,
+      width,
+      height,
+      rotation: (-angle * 180) / Math.PI
+    };
+  }
+  return {
+    x: parseLength(element.getAttribute('svg:x')) ?? 0,
+    y: parseLength(element.getAttribute('svg:y')) ?? 0,
+    width,
+    height,
+    rotation: 0
+  };
+}
+
+// Placeholders take their look from a presentation style, tweaked by an automatic graphic style
+function getGraphicStyle(element: Element, context: PageContext): Record<string, string> {
+  return {
+    ...context.styles.get(element.getAttribute('presentation:style-name') ?? ''),
+    ...context.styles.get(element.getAttribute('draw:style-name') ?? '')
+  };
+}
+
+function readFillAndStroke(style: Record<string, string>): Pick<SlideShape, 'fill' | 'stroke' | 'strokeWidth'> {
+  const fill = style['draw:fill'] === 'solid' ? normalizeColor(style['draw:fill-color']) : null;
+  const hasStroke = style['draw:stroke'] !== undefined && style['draw:stroke'] !== 'none';
+  return {
+    fill,
+    stroke: hasStroke ? normalizeColor(style['svg:stroke-color']) ?? DOCUMENT_CONSTANTS.TEXT_COLOR : null,
+    strokeWidth: parseLength(style['svg:stroke-width']) || 1
+  };
+}
+
+function readParagraphs(container: Element, context: PageContext, defaultFontSize: number): SlideParagraph[] {
+  // Paragraphs may sit directly in the shape or inside lists
+  const paragraphs = Array.from(container.getElementsByTagName('*'))
+    .filter(element => element.localName === 'p' || element.localName === 'h');
+
+  return paragraphs.map(paragraph => {
+    const paragraphStyle = context.styles.get(paragraph.getAttribute('text:style-name') ?? '') ?? {};
+    const runs = readRuns(paragraph, paragraphStyle, context, defaultFontSize);
+    return {
+      runs: runs.length > 0 ? runs : [toRun('', paragraphStyle, defaultFontSize)],
+      align: lookup(ALIGNMENTS, paragraphStyle['fo:text-align']) ?? 'left'
+    };
+  });
+}
+
+function readRuns(
+  element: Element,
+  style: Record<string, string>,
+  context: PageContext,
+  defaultFontSize: number
+): SlideTextRun[] {
+  return Array.from(element.childNodes).flatMap((node): SlideTextRun[] => {
+    if (node.nodeType === node.TEXT_NODE) {
+      return node.textContent ? [toRun(node.textContent, style, defaultFontSize)] : [];
+    }
+    if (node.nodeType !== node.ELEMENT_NODE) {
+      return [];
+    }
+    const child = node as Element;
+    switch (child.localName) {
+      case 's':
+        return [toRun(' '.repeat(Number(child.getAttribute('text:c')) || 1), style, defaultFontSize)];
+      case 'tab':
+        return [toRun('\t', style, defaultFontSize)];
+      case 'line-break':
+        return [toRun('\n', style, defaultFontSize)];
+      case 'span':
+      case 'a': {
+        const spanStyle = context.styles.get(child.getAttribute('text:style-name') ?? '') ?? {};
+        return readRuns(child, { ...style, ...spanStyle }, context, defaultFontSize);
+      }
+      default:
+        return [];
+    }
+  });
+}
+
+function toRun(text: string, style: Record<string, string>, defaultFontSize: number): SlideTextRun {
+  const weight = style['fo:font-weight'];
+  return {
+    text,
+    fontSize: parseLength(style['fo:font-size']) ?? defaultFontSize,
+    bold: weight === 'bold' || Number(weight) >= 600,
+    italic: style['fo:font-style'] === 'italic',
+    color: normalizeColor(style['fo:color'])
+  };
+}
+
+/**
+ * Collect every named style with its properties flattened into one record.
+ * Later documents override earlier ones, so content.xml's automatic styles
+ * win over styles.xml.
+ */
+function readStyles(documents: (Document | null)[]): StyleSheet {
+  const raw = new Map<string, { parent: string | null; properties: Record<string, string> }>();
+  documents.forEach(document => {
+    [...findDescendants(document, 'style'), ...findDescendants(document, 'page-layout')].forEach(style => {
+      const name = style.getAttribute('style:name');
+      if (!name) {
+        return;
+      }
+      const properties: Record<string, string> = {};
+      childElements(style)
+        .filter(child => PROPERTY_ELEMENTS.includes(child.localName))
+        .forEach(child => Array.from(child.attributes).forEach(attribute => {
+          properties[attribute.name] = attribute.value;
+        }));
+      raw.set(name, { parent: style.getAttribute('style:parent-style-name'), properties });
+    });
+  });
+
+  const resolved: StyleSheet = new Map();
+  const resolve = (name: string, seen: Set<string>): Record<string, string> => {
+    const cached = resolved.get(name);
+    const style = raw.get(name);
+    if (cached || !style || seen.has(name)) {
+      return cached ?? {};
+    }
+    seen.add(name);
+    const properties = { ...(style.parent ? resolve(style.parent, seen) : {}), ...style.properties };
+    resolved.set(name, properties);
+    return properties;
+  };
+  raw.forEach((_, name) => resolve(name, new Set()));
+  return resolved;
+}
@@ -0,0 +1,62 @@
+/**
+ * Page navigation and fitting rules shared by document viewers
+ */
+
+import { DOCUMENT_CONSTANTS, type PageAction, type PageFit, type PageSize } from './types';
+
+export function clampPage(page: number, pageCount: number): number {
+  if (pageCount < 1) {
+    return 1;
+  }
+  return Math.min(pageCount, Math.max(1, Math.round(page)));
+}
+
+export function getPageAction(key: string): PageAction | null {
+  return Object.prototype.hasOwnProperty.call(DOCUMENT_CONSTANTS.PAGE_KEYS, key)
+    ? DOCUMENT_CONSTANTS.PAGE_KEYS[key]
+    : null;
+}
+
+export function applyPageAction(page: number, pageCount: number, action: PageAction): number {
+  switch (action) {
+    case 'next':
+      return clampPage(page + 1, pageCount);
+    case 'previous':
+      return clampPage(page - 1, pageCount);
+    case 'first':
+      return 1;
+    case 'last':
+      return clampPage(pageCount, pageCount);
+  }
+}
+
+/**
+ * Page number typed into a page-jump field, or null when it isn't one
+ */
+export function parsePageInput(value: string, pageCount: number): number | null {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) {
+    return null;
+  }
+  const page = Number(trimmed);
+  return page >= 1 && page <= pageCount ? page : null;
+}
+
+/**
+ * Scale a page to fit entirely inside a box, centred (CSS object-fit: contain)
+ */
+export function fitPage(page: PageSize, box: PageSize): PageFit {
+  if (page.width <= 0 || page.height <= 0 || box.width <= 0 || box.height <= 0) {
+    return { x: 0, y: 0, width: 0, height: 0, scale: 0 };
+  }
+  const scale = Math.min(box.width / page.width, box.height / page.height);
+  const width = page.width * scale;
+  const height = page.height * scale;
+  return {
+    x: (box.width - width) / 2,
+    y: (box.height - height) / 2,
+    width,
+    height,
+    scale
+  };
+}
@@ -0,0 +1,437 @@
+/**
+ * PowerPoint (.pptx) slide deck parser
+ *
+ * Reads the shapes, text, pictures and connectors of every slide, including
+ * the positions, sizes and text defaults placeholders inherit from their
+ * slide layout and master. Charts, tables, SmartArt and effects are skipped.
+ */
+
+import {
+  childElements,
+  findDescendants,
+  firstChild,
+  getDirectory,
+  lookup,
+  normalizeColor,
+  numberAttribute,
+  readArchive,
+  readImage,
+  readXml,
+  resolvePath,
+  type ArchiveFiles
+} from './xml';
+import {
+  DOCUMENT_CONSTANTS,
+  DocumentError,
+  DocumentErrorCode,
+  type Slide,
+  type SlideDeck,
+  type SlideElement,
+  type SlideParagraph,
+  type SlideShape,
+  type SlideTextRun
+} from './types';
+
+const EMU_PER_POINT = 12700;
+const ROTATION_UNITS_PER_DEGREE = 60000;
+const FONT_SIZE_UNITS_PER_POINT = 100;
+// 10 x 5.625 inches, PowerPoint's default 16:9 slide
+const DEFAULT_SLIDE_SIZE = { width: 720, height: 405 };
+
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+// Slides name theme colours by role; the theme names them by slot
+const SCHEME_COLOR_ALIASES: Record<string, string> = { tx1: 'dk1', bg1: 'lt1', tx2: 'dk2', bg2: 'lt2' };
+const GEOMETRIES: Record<string, SlideShape['geometry']> = {
+  rect: 'rect',
+  roundRect: 'roundRect',
+  ellipse: 'ellipse',
+  line: 'line',
+  straightConnector1: 'line'
+};
+const ALIGNMENTS: Record<string, SlideParagraph['align']> = { l: 'left', ctr: 'center', r: 'right' };
+const ANCHORS: Record<string, SlideShape['verticalAlign']> = { t: 'top', ctr: 'middle', b: 'bottom' };
+
+type Relationships = Map<string, { type: string; path: string }>;
+type Theme = Map<string, string>;
+
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+// Maps a frame inside a group onto the slide
+type FrameTransform = (frame: Frame) => Frame;
+
+interface Placeholder {
+  type: string;
+  idx: string | null;
+}
+
+interface RunDefaults {
+  fontSize: number;
+  bold: boolean;
+  color: string | null;
+}
+
+interface SlideContext {
+  files: ArchiveFiles;
+  relationships: Relationships;
+  theme: Theme;
+  // Shape trees of the slide's layout and master, where placeholders inherit from
+  inheritedTrees: Element[];
+  masterTextStyles: Element | null;
+}
+
+export async function parsePptx(buffer: ArrayBuffer): Promise<SlideDeck> {
+  const files = await readArchive(buffer);
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = readXml(files, presentationPath);
+  if (!presentation) {
+    throw new DocumentError('Not a PowerPoint presentation', DocumentErrorCode.INVALID_DECK);
+  }
+
+  const presentationRelationships = readRelationships(files, presentationPath);
+  const themePath = findRelationship(presentationRelationships, 'theme');
+  const theme = readTheme(themePath ? readXml(files, themePath) : null);
+
+  const slideSize = findDescendants(presentation, 'sldSz')[0] ?? null;
+  const width = numberAttribute(slideSize, 'cx') / EMU_PER_POINT || DEFAULT_SLIDE_SIZE.width;
+  const height = numberAttribute(slideSize, 'cy') / EMU_PER_POINT || DEFAULT_SLIDE_SIZE.height;
+
+  const slidePaths = findDescendants(presentation, 'sldId')
+    .map(slideId => presentationRelationships.get(slideId.getAttribute('r:id') ?? '')?.path)
+    .filter((path): path is string => !!path);
+
+  const slides = slidePaths.map(path => parseSlide(files, path, theme));
+  if (slides.length === 0) {
+    throw new DocumentError('Presentation has no slides', DocumentErrorCode.INVALID_DECK);
+  }
+  return { width, height, slides };
+}
+
+function parseSlide(files: ArchiveFiles, path: string, theme: Theme): Slide {
+  const slide = readXml(files, path);
+  if (!slide) {
+    throw new DocumentError(`Presentation is missing ${path}`, DocumentErrorCode.INVALID_DECK);
+  }
+  const relationships = readRelationships(files, path);
+  const layoutPath = findRelationship(relationships, 'slideLayout');
+  const layout = layoutPath ? readXml(files, layoutPath) : null;
+  const masterPath = layoutPath ? findRelationship(readRelationships(files, layoutPath), 'slideMaster') : null;
+  const master = masterPath ? readXml(files, masterPath) : null;
+
+  const context: SlideContext = {
+    files,
+    relationships,
+    theme,
+    inheritedTrees: [layout, master]
+      .map(document => findDescendants(document, 'spTree')[0])
+      .filter((tree): tree is Element => !!tree),
+    masterTextStyles: findDescendants(master, 'txStyles')[0] ?? null
+  };
+
+  const background = [slide, layout, master]
+    .map(document => readBackground(findDescendants(document, 'bg')[0] ?? null, theme))
+    .find((color): color is string => !!color);
+
+  return {
+    background: background ?? DOCUMENT_CONSTANTS.SLIDE_BACKGROUND,
+    elements: parseShapeTree(findDescendants(slide, 'spTree')[0] ?? null, context, frame => frame)
+  };
+}
+
+function parseShapeTree(tree: Element | null, context: SlideContext, transform: FrameTransform): SlideElement[] {
+  return childElements(tree).flatMap((element): SlideElement[] => {
+    switch (element.localName) {
+      case 'sp':
+      case 'cxnSp': {
+        const shape = parseShape(element, context, transform);
+        return shape ? [shape] : [];
+      }
+      case 'pic': {
+        const picture = parsePicture(element, context, transform);
+        return picture ? [picture] : [];
+      }
+      case 'grpSp':
+        return parseShapeTree(element, context, getGroupTransform(element, transform));
+      default:
+        return [];
+    }
+  });
+}
+
+function parseShape(element: Element, context: SlideContext, transform: FrameTransform): SlideShape | null {
+  const properties = firstChild(element, 'spPr');
+  const style = firstChild(element, 'style');
+  const placeholder = readPlaceholder(element);
+  const inherited = placeholder ? findInheritedShapes(placeholder, context.inheritedTrees) : [];
+
+  const frame = [element, ...inherited]
+    .map(shape => readFrame(firstChild(shape, 'spPr', 'xfrm')))
+    .find((candidate): candidate is Frame => !!candidate);
+  if (!frame) {
+    return null;
+  }
+
+  const geometry = firstChild(properties, 'prstGeom')?.getAttribute('prst') ?? 'rect';
+  const line = readLine(properties, style, context.theme);
+  const body = firstChild(element, 'txBody');
+  const isTitle = !!placeholder && TITLE_PLACEHOLDERS.includes(placeholder.type);
+  const anchor = [element, ...inherited]
+    .map(shape => firstChild(shape, 'txBody', 'bodyPr')?.getAttribute('anchor'))
+    .find((value): value is string => lookup(ANCHORS, value) !== undefined);
+
+  return {
+    kind: 'shape',
+    ...toSlideFrame(transform(frame)),
+    geometry: lookup(GEOMETRIES, geometry) ?? 'rect',
+    fill: element.localName === 'cxnSp' ? null : readFill(properties, style, context.theme),
+    stroke: line.stroke,
+    strokeWidth: line.width,
+    flipH: frame.flipH,
+    flipV: frame.flipV,
+    paragraphs: body ? readParagraphs(body, getRunDefaults(placeholder, [element, ...inherited], context), context.theme) : [],
+    verticalAlign: anchor ? ANCHORS[anchor] : isTitle ? 'middle' : 'top'
+  };
+}
+
+function parsePicture(element: Element, context: SlideContext, transform: FrameTransform): SlideElement | null {
+  const frame = readFrame(firstChild(element, 'spPr', 'xfrm'));
+  const embed = findDescendants(firstChild(element, 'blipFill'), 'blip')[0]?.getAttribute('r:embed');
+  const path = embed ? context.relationships.get(embed)?.path : null;
+  const blob = path ? readImage(context.files, path) : null;
+  if (!frame || !blob) {
+    return null;
+  }
+  return { kind: 'image', ...toSlideFrame(transform(frame)), blob };
+}
+
+function getGroupTransform(group: Element, parent: FrameTransform): FrameTransform {
+  const transform = firstChild(group, 'grpSpPr', 'xfrm');
+  const offset = firstChild(transform, 'off');
+  const extent = firstChild(transform, 'ext');
+  const childOffset = firstChild(transform, 'chOff');
+  const childExtent = firstChild(transform, 'chExt');
+  if (!offset || !extent || !childOffset || !childExtent) {
+    return parent;
+  }
+  const scaleX = numberAttribute(extent, 'cx') / (numberAttribute(childExtent, 'cx') || numberAttribute(extent, 'cx') || 1);
+  const scaleY = numberAttribute(extent, 'cy') / (numberAttribute(childExtent, 'cy') || numberAttribute(extent, 'cy') || 1);
+  const toGroup = (value: number, origin: number, childOrigin: number, scale: number) =>
+    origin + (value - childOrigin) * scale;
+
+  // Group rotation is not applied to the children
+  return frame => parent({
+    ...frame,
+    x: toGroup(frame.x, numberAttribute(offset, 'x') / EMU_PER_POINT, numberAttribute(childOffset, 'x') / EMU_PER_POINT, scaleX),
+    y: toGroup(frame.y, numberAttribute(offset, 'y') / EMU_PER_POINT, numberAttribute(childOffset, 'y') / EMU_PER_POINT, scaleY),
+    width: frame.width * scaleX,
+    height: frame.height * scaleY
+  });
+}
+
+function readFrame(transform: Element | null): Frame | null {
+  const offset = firstChild(transform, 'off');
+  const extent = firstChild(transform, 'ext');
+  if (!transform || !offset || !extent) {
+    return null;
+  }
+  return {
+    x: numberAttribute(offset, 'x') / EMU_PER_POINT,
+    y: numberAttribute(offset, 'y') / EMU_PER_POINT,
+    width: numberAttribute(extent, 'cx') / EMU_PER_POINT,
+    height: numberAttribute(extent, 'cy') / EMU_PER_POINT,
+    rotation: numberAttribute(transform, 'rot') / ROTATION_UNITS_PER_DEGREE,
+    flipH: transform.getAttribute('flipH') === '1',
+    flipV: transform.getAttribute('flipV') === '1'
+  };
+}
+
+function toSlideFrame(frame: Frame) {
+  return { x: frame.x, y: frame.y, width: frame.width, height: frame.height, rotation: frame.rotation };
+}
+
+function readPlaceholder(shape: Element): Placeholder | null {
+  const placeholder = firstChild(shape, 'nvSpPr', 'nvPr', 'ph');
+  if (!placeholder) {
+    return null;
+  }
+  return { type: placeholder.getAttribute('type') ?? 'body', idx: placeholder.getAttribute('idx') };
+}
+
+/**
+ * The layout and master shapes a placeholder inherits from, nearest first
+ */
+function findInheritedShapes(placeholder: Placeholder, trees: Element[]): Element[] {
+  const baseType = (type: string) => (type === 'ctrTitle' ? 'title' : type === 'subTitle' || type === 'obj' ? 'body' : type);
+  return trees.flatMap(tree => {
+    const candidates = childElements(tree, 'sp')
+      .map(shape => ({ shape, placeholder: readPlaceholder(shape) }))
+      .filter((candidate): candidate is { shape: Element; placeholder: Placeholder } => !!candidate.placeholder);
+    const match =
+      (placeholder.idx && candidates.find(candidate => candidate.placeholder.idx === placeholder.idx)) ||
+      candidates.find(candidate => candidate.placeholder.type === placeholder.type) ||
+      candidates.find(candidate => baseType(candidate.placeholder.type) === baseType(placeholder.type));
+    return match ? [match.shape] : [];
+  });
+}
+
+function getRunDefaults(placeholder: Placeholder | null, shapes: Element[], context: SlideContext): RunDefaults {
+  const isTitle = !!placeholder && TITLE_PLACEHOLDERS.includes(placeholder.type);
+  const masterStyle = placeholder
+    ? firstChild(context.masterTextStyles, isTitle ? 'titleStyle' : 'bodyStyle')
+    : firstChild(context.masterTextStyles, 'otherStyle');
+  const candidates = [
+    ...shapes.map(shape => firstChild(shape, 'txBody', 'lstStyle', 'lvl1pPr', 'defRPr')),
+    placeholder ? firstChild(masterStyle, 'lvl1pPr', 'defRPr') : null
+  ].filter((candidate): candidate is Element => !!candidate);
+
+  const size = candidates.find(candidate => candidate.hasAttribute('sz'));
+  const bold = candidates.find(candidate => candidate.hasAttribute('b'));
+  const color = candidates
+    .map(candidate => readColor(firstChild(candidate, 'solidFill'), context.theme))
+    .find((value): value is string => !!value);
+
+  return {
+    fontSize: size
+      ? numberAttribute(size, 'sz') / FONT_SIZE_UNITS_PER_POINT
+      : isTitle ? DOCUMENT_CONSTANTS.TITLE_FONT_SIZE : DOCUMENT_CONSTANTS.DEFAULT_FONT_SIZE,
+    bold: bold?.getAttribute('b') === '1',
+    color: color ?? null
+  };
+}
+
+function readParagraphs(body: Element, defaults: RunDefaults, theme: Theme): SlideParagraph[] {
+  return childElements(body, 'p').map(paragraph => {
+    const align = firstChild(paragraph, 'pPr')?.getAttribute('algn') ?? 'l';
+    const endProperties = firstChild(paragraph, 'endParaRPr');
+    const runs = childElements(paragraph).flatMap((child): SlideTextRun[] => {
+      if (child.localName === 'br') {
+        return [readRun('\n', firstChild(child, 'rPr'), defaults, theme)];
+      }
+      if (child.localName === 'r' || child.localName === 'fld') {
+        return [readRun(firstChild(child, 't')?.textContent ?? '', firstChild(child, 'rPr'), defaults, theme)];
+      }
+      return [];
+    });
+    return {
+      // An empty paragraph still takes up a line
+      runs: runs.length > 0 ? runs : [readRun('', endProperties, defaults, theme)],
+      align: lookup(ALIGNMENTS, align) ?? 'left'
+    };
+  });
+}
+
+function readRun(text: string, properties: Element | null, defaults: RunDefaults, theme: Theme): SlideTextRun {
+  return {
+    text,
+    fontSize: properties?.hasAttribute('sz')
+      ? numberAttribute(properties, 'sz') / FONT_SIZE_UNITS_PER_POINT
+      : defaults.fontSize,
+    bold: properties?.hasAttribute('b') ? properties.getAttribute('b') === '1' : defaults.bold,
+    italic: properties?.getAttribute('i') === '1',
+    color: readColor(firstChild(properties, 'solidFill'), theme) ?? defaults.color
+  };
+}
+
+function readFill(properties: Element | null, style: Element | null, theme: Theme): string | null {
+  if (firstChild(properties, 'noFill')) {
+    return null;
+  }
+  const solid = firstChild(properties, 'solidFill');
+  if (solid) {
+    return readColor(solid, theme);
+  }
+  // Gradients are drawn in their first colour
+  const gradientStop = firstChild(properties, 'gradFill', 'gsLst', 'gs');
+  if (gradientStop) {
+    return readColor(gradientStop, theme);
+  }
+  const reference = firstChild(style, 'fillRef');
+  return reference && reference.getAttribute('idx') !== '0' ? readColor(reference, theme) : null;
+}
+
+function readLine(properties: Element | null, style: Element | null, theme: Theme): { stroke: string | null; width: number } {
+  const line = firstChild(properties, 'ln');
+  const reference = firstChild(style, 'lnRef');
+  const width = line?.hasAttribute('w') ? numberAttribute(line, 'w') / EMU_PER_POINT : 1;
+  if (firstChild(line, 'noFill')) {
+    return { stroke: null, width };
+  }
+  const solid = firstChild(line, 'solidFill');
+  if (solid) {
+    return { stroke: readColor(solid, theme), width };
+  }
+  return {
+    stroke: reference && reference.getAttribute('idx') !== '0' ? readColor(reference, theme) : null,
+    width
+  };
+}
+
+function readBackground(background: Element | null, theme: Theme): string | null {
+  const properties = firstChild(background, 'bgPr');
+  if (properties) {
+    return readFill(properties, null, theme);
+  }
+  const reference = firstChild(background, 'bgRef');
+  return reference ? readColor(reference, theme) : null;
+}
+
+/**
+ * Colour held by a fill-like element; tints and shades are ignored
+ */
+function readColor(container: Element | null, theme: Theme): string | null {
+  for (const color of childElements(container)) {
+    switch (color.localName) {
+      case 'srgbClr':
+        return normalizeColor(color.getAttribute('val'));
+      case 'sysClr':
+        return normalizeColor(color.getAttribute('lastClr'));
+      case 'schemeClr': {
+        const name = color.getAttribute('val') ?? '';
+        return theme.get(lookup(SCHEME_COLOR_ALIASES, name) ?? name) ?? null;
+      }
+    }
+  }
+  return null;
+}
+
+function readTheme(theme: Document | null): Theme {
+  const colors: Theme = new Map();
+  childElements(findDescendants(theme, 'clrScheme')[0] ?? null).forEach(slot => {
+    const color = readColor(slot, colors);
+    if (color) {
+      colors.set(slot.localName, color);
+    }
+  });
+  return colors;
+}
+
+function readRelationships(files: ArchiveFiles, partPath: string): Relationships {
+  const directory = getDirectory(partPath);
+  const name = partPath.slice(directory.length ? directory.length + 1 : 0);
+  const document = readXml(files, `${directory ? `${directory}/` : ''}_rels/${name}.rels`);
+  const relationships: Relationships = new Map();
+  findDescendants(document, 'Relationship').forEach(relationship => {
+    const id = relationship.getAttribute('Id');
+    const target = relationship.getAttribute('Target');
+    if (id && target && relationship.getAttribute('TargetMode') !== 'External') {
+      relationships.set(id, { type: relationship.getAttribute('Type') ?? '', path: resolvePath(directory, target) });
+    }
+  });
+  return relationships;
+}
+
+function findRelationship(relationships: Relationships, type: string): string | null {
+  for (const relationship of relationships.values()) {
+    if (relationship.type.endsWith(`/${type}`)) {
+      return relationship.path;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,38 @@
+/**
+ * Turn PowerPoint and OpenDocument decks into one image per slide
+ */
+
+import { readBlob } from '../export/readBlob';
+import { parseOdp } from './odp';
+import { parsePptx } from './pptx';
+import { renderSlideImages } from './slideRenderer';
+import { DOCUMENT_CONSTANTS, DocumentError, DocumentErrorCode, type SlideDeck } from './types';
+
+export interface ConvertedSlideDeck {
+  images: Blob[];
+  // Slide size in points, for the aspect ratio
+  width: number;
+  height: number;
+}
+
+export function isSlideDeckFile(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return DOCUMENT_CONSTANTS.SLIDE_DECK_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+export async function parseSlideDeck(file: File): Promise<SlideDeck> {
+  const name = file.name.toLowerCase();
+  const buffer = await readBlob(file);
+  if (name.endsWith('.pptx')) {
+    return parsePptx(buffer);
+  }
+  if (name.endsWith('.odp')) {
+    return parseOdp(buffer);
+  }
+  throw new DocumentError(`${file.name} is not a supported slide deck`, DocumentErrorCode.UNSUPPORTED_FORMAT);
+}
+
+export async function convertSlideDeck(file: File): Promise<ConvertedSlideDeck> {
+  const deck = await parseSlideDeck(file);
+  return { images: await renderSlideImages(deck), width: deck.width, height: deck.height };
+}
@@ -0,0 +1,209 @@
+/**
+ * Draw parsed slides onto a canvas and export them as images
+ */
+
+import { DOCUMENT_CONSTANTS, DocumentError, DocumentErrorCode, type Slide, type SlideDeck, type SlideElement, type SlideShape, type SlideTextRun } from './types';
+
+interface LaidOutLine {
+  words: { run: SlideTextRun; text: string; width: number }[];
+  width: number;
+  height: number;
+  align: 'left' | 'center' | 'right';
+}
+
+/**
+ * Render every slide to a PNG, `width` pixels wide
+ */
+export async function renderSlideImages(deck: SlideDeck, width: number = DOCUMENT_CONSTANTS.SLIDE_IMAGE_WIDTH): Promise<Blob[]> {
+  const images: Blob[] = [];
+  for (const slide of deck.slides) {
+    const canvas = await renderSlide(slide, deck, width);
+    images.push(await toPng(canvas));
+  }
+  return images;
+}
+
+export async function renderSlide(slide: Slide, deck: SlideDeck, width: number): Promise<HTMLCanvasElement> {
+  const scale = width / deck.width;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(deck.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new DocumentError('Canvas 2D context is not available', DocumentErrorCode.RENDER_FAILED);
+  }
+
+  context.fillStyle = slide.background;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.scale(scale, scale);
+
+  for (const element of slide.elements) {
+    context.save();
+    rotateAboutCenter(context, element);
+    if (element.kind === 'image') {
+      await drawImage(context, element.blob, element);
+    } else {
+      drawShape(context, element);
+      drawText(context, element);
+    }
+    context.restore();
+  }
+  return canvas;
+}
+
+function rotateAboutCenter(context: CanvasRenderingContext2D, element: SlideElement): void {
+  if (!element.rotation) {
+    return;
+  }
+  const centerX = element.x + element.width / 2;
+  const centerY = element.y + element.height / 2;
+  context.translate(centerX, centerY);
+  context.rotate((element.rotation * Math.PI) / 180);
+  context.translate(-centerX, -centerY);
+}
+
+async function drawImage(context: CanvasRenderingContext2D, blob: Blob, element: SlideElement): Promise<void> {
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    context.drawImage(image, element.x, element.y, element.width, element.height);
+  } catch (error) {
+    // One unreadable picture shouldn't lose the whole slide
+    console.warn('⚠️ Slide image could not be drawn:', error);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function drawShape(context: CanvasRenderingContext2D, shape: SlideShape): void {
+  const { x, y, width, height } = shape;
+  context.beginPath();
+  switch (shape.geometry) {
+    case 'line': {
+      const startX = shape.flipH ? x + width : x;
+      const startY = shape.flipV ? y + height : y;
+      context.moveTo(startX, startY);
+      context.lineTo(shape.flipH ? x : x + width, shape.flipV ? y : y + height);
+      break;
+    }
+    case 'ellipse':
+      context.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+      break;
+    case 'roundRect':
+      context.roundRect(x, y, width, height, Math.min(width, height) * 0.16);
+      break;
+    default:
+      context.rect(x, y, width, height);
+  }
+
+  if (shape.fill && shape.geometry !== 'line') {
+    context.fillStyle = shape.fill;
+    context.fill();
+  }
+  if (shape.stroke && shape.strokeWidth > 0) {
+    context.strokeStyle = shape.stroke;
+    context.lineWidth = shape.strokeWidth;
+    context.stroke();
+  }
+}
+
+function drawText(context: CanvasRenderingContext2D, shape: SlideShape): void {
+  if (shape.paragraphs.length === 0) {
+    return;
+  }
+  const innerX = shape.x + DOCUMENT_CONSTANTS.TEXT_INSET_X;
+  const innerWidth = Math.max(0, shape.width - DOCUMENT_CONSTANTS.TEXT_INSET_X * 2);
+  const lines = shape.paragraphs.flatMap(paragraph => layoutParagraph(context, paragraph.runs, paragraph.align, innerWidth));
+  const textHeight = lines.reduce((total, line) => total + line.height, 0);
+  const innerHeight = shape.height - DOCUMENT_CONSTANTS.TEXT_INSET_Y * 2;
+
+  let lineY = shape.y + DOCUMENT_CONSTANTS.TEXT_INSET_Y;
+  if (shape.verticalAlign === 'middle') {
+    lineY += (innerHeight - textHeight) / 2;
+  } else if (shape.verticalAlign === 'bottom') {
+    lineY += innerHeight - textHeight;
+  }
+
+  context.textBaseline = 'alphabetic';
+  for (const line of lines) {
+    let wordX = innerX;
+    if (line.align === 'center') {
+      wordX += (innerWidth - line.width) / 2;
+    } else if (line.align === 'right') {
+      wordX += innerWidth - line.width;
+    }
+    // Baseline sits about 80% down a line of the largest font on it
+    const baseline = lineY + line.height * 0.8;
+    for (const word of line.words) {
+      context.font = getFont(word.run);
+      context.fillStyle = word.run.color ?? DOCUMENT_CONSTANTS.TEXT_COLOR;
+      context.fillText(word.text, wordX, baseline);
+      wordX += word.width;
+    }
+    lineY += line.height;
+  }
+}
+
+/**
+ * Break a paragraph's runs into lines that fit the width, wrapping between words
+ */
+function layoutParagraph(
+  context: CanvasRenderingContext2D,
+  runs: SlideTextRun[],
+  align: LaidOutLine['align'],
+  maxWidth: number
+): LaidOutLine[] {
+  const lines: LaidOutLine[] = [];
+  const emptyLine = (): LaidOutLine => ({ words: [], width: 0, height: 0, align });
+  let line = emptyLine();
+
+  const finishLine = (fallbackSize: number) => {
+    if (line.height === 0) {
+      line.height = fallbackSize * DOCUMENT_CONSTANTS.LINE_HEIGHT;
+    }
+    lines.push(line);
+    line = emptyLine();
+  };
+
+  for (const run of runs) {
+    context.font = getFont(run);
+    // Split into words with their trailing spaces, keeping forced line breaks
+    const pieces = run.text.split(/(\n)/).flatMap(part => (part === '\n' ? ['\n'] : part.match(/\S+\s*|\s+/g) ?? []));
+    if (pieces.length === 0) {
+      line.height = Math.max(line.height, run.fontSize * DOCUMENT_CONSTANTS.LINE_HEIGHT);
+    }
+    for (const piece of pieces) {
+      if (piece === '\n') {
+        finishLine(run.fontSize);
+        continue;
+      }
+      const width = context.measureText(piece.replace(/\t/g, '    ')).width;
+      if (line.words.length > 0 && line.width + context.measureText(piece.trimEnd()).width > maxWidth) {
+        finishLine(run.fontSize);
+      }
+      line.words.push({ run, text: piece.replace(/\t/g, '    '), width });
+      line.width += width;
+      line.height = Math.max(line.height, run.fontSize * DOCUMENT_CONSTANTS.LINE_HEIGHT);
+    }
+  }
+  finishLine(runs[0]?.fontSize ?? DOCUMENT_CONSTANTS.DEFAULT_FONT_SIZE);
+  return lines;
+}
+
+function getFont(run: SlideTextRun): string {
+  return `${run.italic ? 'italic ' : ''}${run.bold ? 'bold ' : ''}${run.fontSize}px Arial, Helvetica, sans-serif`;
+}
+
+function toPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new DocumentError('Slide could not be exported as an image', DocumentErrorCode.RENDER_FAILED));
+      }
+    }, 'image/png');
+  });
+}
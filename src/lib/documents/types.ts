@@ -0,0 +1,150 @@
+/**
+ * Core types for rendering paged documents (PDF slides) onto canvases
+ */
+
+// Error types for better error handling
+export class DocumentError extends Error {
+  constructor(
+    message: string,
+    public code: DocumentErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+export enum DocumentErrorCode {
+  LOAD_FAILED = 'LOAD_FAILED',
+  PASSWORD_PROTECTED = 'PASSWORD_PROTECTED',
+  INVALID_PAGE = 'INVALID_PAGE',
+  RENDER_FAILED = 'RENDER_FAILED',
+  INVALID_DECK = 'INVALID_DECK',
+  UNSUPPORTED_FORMAT = 'UNSUPPORTED_FORMAT'
+}
+
+export type PageAction = 'next' | 'previous' | 'first' | 'last';
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+// Where a page lands inside a box, in CSS pixels, and the scale that puts it there
+export interface PageFit {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scale: number;
+}
+
+export interface PageRenderOptions extends PageSize {
+  background: string;
+  // Device pixels per CSS pixel; capped so huge boards stay affordable
+  pixelRatio?: number;
+}
+
+// A document that can be drawn one page at a time
+export interface PagedDocument {
+  readonly pageCount: number;
+  getPageSize(pageNumber: number): Promise<PageSize>;
+  // Resolves false when a newer render for the same canvas superseded this one
+  renderPage(pageNumber: number, canvas: HTMLCanvasElement, options: PageRenderOptions): Promise<boolean>;
+  destroy(): void;
+}
+
+// A deck on the board moved to another page
+export interface SlideChangeEvent {
+  itemId: string;
+  fileName: string | null;
+  page: number;
+  previousPage: number;
+  pageCount: number | null; // Unknown until the document has loaded
+}
+
+/**
+ * Slide decks imported from PowerPoint or OpenDocument files. Positions and
+ * sizes are in points from the slide's top-left corner.
+ */
+export interface SlideTextRun {
+  text: string;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  color: string | null;
+}
+
+export interface SlideParagraph {
+  runs: SlideTextRun[];
+  align: 'left' | 'center' | 'right';
+}
+
+interface SlideElementFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees clockwise
+}
+
+export interface SlideShape extends SlideElementFrame {
+  kind: 'shape';
+  geometry: 'rect' | 'roundRect' | 'ellipse' | 'line';
+  fill: string | null;
+  stroke: string | null;
+  strokeWidth: number;
+  // Lines run from the top-left to the bottom-right corner unless flipped
+  flipH: boolean;
+  flipV: boolean;
+  paragraphs: SlideParagraph[];
+  verticalAlign: 'top' | 'middle' | 'bottom';
+}
+
+export interface SlideImage extends SlideElementFrame {
+  kind: 'image';
+  blob: Blob;
+}
+
+export type SlideElement = SlideShape | SlideImage;
+
+export interface Slide {
+  background: string;
+  elements: SlideElement[];
+}
+
+export interface SlideDeck {
+  width: number;
+  height: number;
+  slides: Slide[];
+}
+
+export const DOCUMENT_CONSTANTS = {
+  THUMBNAIL_WIDTH: 112,
+  MAX_PIXEL_RATIO: 2,
+  PAGE_BACKGROUND: '#f3f4f6',
+  PRESENT_BACKGROUND: '#000000',
+  // Width of the images slides are rendered to on import
+  SLIDE_IMAGE_WIDTH: 1280,
+  SLIDE_BACKGROUND: '#ffffff',
+  TEXT_COLOR: '#000000',
+  DEFAULT_FONT_SIZE: 18,
+  TITLE_FONT_SIZE: 40,
+  // PowerPoint's default text insets, in points
+  TEXT_INSET_X: 7.2,
+  TEXT_INSET_Y: 3.6,
+  LINE_HEIGHT: 1.2,
+  SLIDE_DECK_EXTENSIONS: ['.pptx', '.odp'],
+  // Keys sent by keyboards and presentation clickers
+  PAGE_KEYS: {
+    ArrowRight: 'next',
+    ArrowDown: 'next',
+    PageDown: 'next',
+    ' ': 'next',
+    ArrowLeft: 'previous',
+    ArrowUp: 'previous',
+    PageUp: 'previous',
+    Home: 'first',
+    End: 'last'
+  } as Record<string, PageAction>
+} as const;
@@ -0,0 +1,136 @@
+/**
+ * XML and archive helpers shared by the slide deck parsers
+ *
+ * Elements are matched by local name so the parsers don't depend on the
+ * namespace prefixes a particular office suite chose to write.
+ */
+
+import { readZip } from '../project/zip';
+import { DocumentError, DocumentErrorCode } from './types';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+// Points per unit for ODF lengths
+const POINTS_PER_UNIT: Record<string, number> = {
+  pt: 1,
+  pc: 12,
+  in: 72,
+  cm: 72 / 2.54,
+  mm: 72 / 25.4,
+  px: 0.75
+};
+
+export type ArchiveFiles = Map<string, Uint8Array>;
+
+export async function readArchive(buffer: ArrayBuffer): Promise<ArchiveFiles> {
+  try {
+    const entries = await readZip(buffer);
+    return new Map(entries.map(entry => [entry.path, entry.data]));
+  } catch (error) {
+    throw new DocumentError('Slide deck is not a valid archive', DocumentErrorCode.INVALID_DECK, error as Error);
+  }
+}
+
+/**
+ * The table entry for a value read from a file. Keys inherited from the
+ * object prototype, such as "constructor", don't count.
+ */
+export function lookup<T>(table: Record<string, T>, key: string | null | undefined): T | undefined {
+  return key != null && Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+export function readXml(files: ArchiveFiles, path: string): Document | null {
+  const data = files.get(path);
+  if (!data) {
+    return null;
+  }
+  const document = new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new DocumentError(`${path} is not valid XML`, DocumentErrorCode.INVALID_DECK);
+  }
+  return document;
+}
+
+export function childElements(element: Element | null | undefined, localName?: string): Element[] {
+  if (!element) {
+    return [];
+  }
+  return Array.from(element.children).filter(child => !localName || child.localName === localName);
+}
+
+export function firstChild(element: Element | null | undefined, ...path: string[]): Element | null {
+  let current: Element | null = element ?? null;
+  for (const localName of path) {
+    current = childElements(current, localName)[0] ?? null;
+  }
+  return current;
+}
+
+export function findDescendants(element: Element | Document | null | undefined, localName: string): Element[] {
+  if (!element) {
+    return [];
+  }
+  return Array.from(element.getElementsByTagName('*')).filter(child => child.localName === localName);
+}
+
+export function numberAttribute(element: Element | null, name: string, fallback = 0): number {
+  const value = Number(element?.getAttribute(name));
+  return element?.hasAttribute(name) && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * ODF length such as "2.5cm" in points, or null when it can't be read
+ */
+export function parseLength(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^(-?\d*\.?\d+)\s*(pt|pc|in|cm|mm|px)$/);
+  return match ? Number(match[1]) * POINTS_PER_UNIT[match[2]] : null;
+}
+
+/**
+ * Resolve a relative archive path the way relationship targets and links are written
+ */
+export function resolvePath(baseDirectory: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+  const parts = baseDirectory ? baseDirectory.split('/') : [];
+  for (const part of target.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part !== '.' && part !== '') {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+export function getDirectory(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+export function getImageMimeType(path: string): string | null {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return lookup(IMAGE_MIME_TYPES, extension) ?? null;
+}
+
+export function readImage(files: ArchiveFiles, path: string): Blob | null {
+  const data = files.get(path);
+  const mimeType = getImageMimeType(path);
+  return data && mimeType ? new Blob([data as BlobPart], { type: mimeType }) : null;
+}
+
+export function normalizeColor(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const hex = value.replace(/^#/, '');
+  return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex.toLowerCase()}` : null;
+}
@@ -0,0 +1,249 @@
+/**
+ * RecordingTrimmer - Renders kept segments of one or more recordings into a new Blob
+ *
+ * The browser has no API for cutting or joining encoded WebM/MP4, so the
+ * segments are played back in hidden video elements, drawn onto a canvas and
+ * re-recorded with MediaRecorder, pausing the recorder between segments.
+ * Audio is routed through Web Audio so nothing is heard while rendering.
+ * Rendering runs in real time: it takes as long as the output.
+ */
+
+import { loadVideo, seekTo } from '../export';
+import { getEditedDuration } from './timeline';
+import {
+  EDITING_CONSTANTS,
+  EditingError,
+  EditingErrorCode,
+  type TimeRange,
+  type TrimOptions
+} from './types';
+
+export interface RenderSource {
+  blob: Blob;
+  segments: TimeRange[];
+  durationSeconds?: number;
+}
+
+type CapturableCanvas = HTMLCanvasElement & {
+  captureStream?: (frameRate?: number) => MediaStream;
+};
+
+export class RecordingTrimmer {
+  static isSupported(): boolean {
+    if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement === 'undefined') {
+      return false;
+    }
+    return typeof (HTMLCanvasElement.prototype as CapturableCanvas).captureStream === 'function';
+  }
+
+  private static getMimeType(preferred: string | undefined, input: Blob): string | undefined {
+    return [preferred, input.type].find(
+      (type): type is string => !!type && MediaRecorder.isTypeSupported(type)
+    );
+  }
+
+  /**
+   * Keep only the given segments of a single recording
+   */
+  render(input: Blob, segments: TimeRange[], options: TrimOptions = {}): Promise<Blob> {
+    return this.renderSources([{ blob: input, segments, durationSeconds: options.durationSeconds }], options);
+  }
+
+  /**
+   * Join whole recordings end to end
+   */
+  concatenate(inputs: Blob[], options: Omit<TrimOptions, 'durationSeconds'> = {}): Promise<Blob> {
+    return this.renderSources(
+      inputs.map(blob => ({ blob, segments: [{ start: 0, end: Number.POSITIVE_INFINITY }] })),
+      options
+    );
+  }
+
+  private async renderSources(sources: RenderSource[], options: TrimOptions): Promise<Blob> {
+    const { onProgress, signal } = options;
+
+    if (sources.every(source => source.segments.length === 0)) {
+      throw new EditingError('Nothing left to export after trimming', EditingErrorCode.NO_SEGMENTS);
+    }
+    if (!RecordingTrimmer.isSupported()) {
+      throw new EditingError('This browser cannot re-record video', EditingErrorCode.UNSUPPORTED);
+    }
+    if (signal?.aborted) {
+      throw new EditingError('Rendering cancelled', EditingErrorCode.CANCELLED);
+    }
+
+    onProgress?.({ progress: 0, stage: 'Preparing recording...' });
+
+    const audioContext = new AudioContext();
+    const audioDestination = audioContext.createMediaStreamDestination();
+    const canvas = document.createElement('canvas') as CapturableCanvas;
+    const releases: Array<() => void> = [];
+    let recorder: MediaRecorder | null = null;
+    let cancelled = false;
+
+    const handleAbort = () => {
+      cancelled = true;
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    try {
+      // Load every source up front so durations are known for progress
+      const loaded = [];
+      for (const source of sources) {
+        const { video, duration, release } = await loadVideo(source.blob, source.durationSeconds);
+        releases.push(release);
+        const segments = source.segments
+          .map(segment => ({ start: segment.start, end: Math.min(segment.end, duration) }))
+          .filter(segment => segment.end > segment.start);
+        loaded.push({ video, segments });
+      }
+
+      const first = loaded[0].video;
+      canvas.width = first.videoWidth || 1280;
+      canvas.height = first.videoHeight || 720;
+      const ctx = canvas.getContext('2d');
+      const captured = canvas.captureStream?.(30);
+      if (!ctx || !captured) {
+        throw new EditingError('This browser cannot re-record video', EditingErrorCode.UNSUPPORTED);
+      }
+
+      const stream = new MediaStream([
+        ...captured.getVideoTracks(),
+        ...audioDestination.stream.getAudioTracks()
+      ]);
+      const mimeType = RecordingTrimmer.getMimeType(options.mimeType, sources[0].blob);
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          chunks.push(event.data);
+        }
+      };
+
+      const totalDuration = loaded.reduce((total, source) => total + getEditedDuration(source.segments), 0);
+      const segmentCount = loaded.reduce((total, source) => total + source.segments.length, 0);
+      let renderedDuration = 0;
+      let segmentNumber = 0;
+
+      for (const { video, segments } of loaded) {
+        // The element must be unmuted for audio to reach the Web Audio graph;
+        // it is not connected to the speakers, so playback stays silent
+        video.muted = false;
+        const audioSource = audioContext.createMediaElementSource(video);
+        audioSource.connect(audioDestination);
+
+        for (const segment of segments) {
+          segmentNumber++;
+          await seekTo(video, segment.start);
+          if (cancelled) {
+            break;
+          }
+
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          if (recorder.state === 'inactive') {
+            recorder.start(EDITING_CONSTANTS.RECORDER_TIMESLICE);
+          } else {
+            recorder.resume();
+          }
+          if (audioContext.state === 'suspended') {
+            await audioContext.resume();
+          }
+          await video.play();
+
+          await this.playSegment(video, segment, () => cancelled, (position) => {
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+            const done = renderedDuration + Math.max(0, position - segment.start);
+            onProgress?.({
+              progress: Math.min(99, (done / totalDuration) * 100),
+              stage: `Rendering segment ${segmentNumber} of ${segmentCount}...`
+            });
+          });
+
+          video.pause();
+          recorder.pause();
+          renderedDuration += segment.end - segment.start;
+        }
+
+        audioSource.disconnect();
+        if (cancelled) {
+          break;
+        }
+      }
+
+      const output = await this.stopRecorder(recorder, chunks, mimeType ?? sources[0].blob.type);
+      if (cancelled) {
+        throw new EditingError('Rendering cancelled', EditingErrorCode.CANCELLED);
+      }
+
+      onProgress?.({ progress: 100, stage: 'Rendering complete!' });
+      return output;
+    } catch (error) {
+      if (error instanceof EditingError) {
+        throw error;
+      }
+      throw new EditingError(
+        'Failed to render recording',
+        EditingErrorCode.RENDER_FAILED,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      signal?.removeEventListener('abort', handleAbort);
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+      recorder?.stream.getTracks().forEach(track => track.stop());
+      audioContext.close().catch(() => {});
+      releases.forEach(release => release());
+    }
+  }
+
+  /**
+   * Resolve once playback reaches the end of the segment (or the video ends).
+   * Polled on a timer because timeupdate only fires every ~250ms; each tick
+   * also paints the current frame onto the output canvas.
+   */
+  private playSegment(
+    video: HTMLVideoElement,
+    segment: TimeRange,
+    isCancelled: () => boolean,
+    onTick: (position: number) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearInterval(timer);
+        video.onended = null;
+        video.onerror = null;
+        resolve();
+      };
+
+      const timer = setInterval(() => {
+        onTick(video.currentTime);
+        if (isCancelled() || video.currentTime >= segment.end) {
+          finish();
+        }
+      }, EDITING_CONSTANTS.SEGMENT_POLL_INTERVAL);
+
+      video.onended = finish;
+      video.onerror = () => {
+        clearInterval(timer);
+        reject(new Error('Playback failed while rendering'));
+      };
+    });
+  }
+
+  private stopRecorder(recorder: MediaRecorder, chunks: Blob[], mimeType: string): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || mimeType }));
+      recorder.onerror = () => reject(new Error('Recorder failed while rendering'));
+      if (recorder.state === 'inactive') {
+        resolve(new Blob(chunks, { type: recorder.mimeType || mimeType }));
+      } else {
+        recorder.stop();
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const recordingTrimmer = new RecordingTrimmer();
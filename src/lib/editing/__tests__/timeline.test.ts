@@ -0,0 +1,87 @@
+/**
+ * Tests for trim/cut timeline calculations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createDefaultEdits,
+  getEditedDuration,
+  getKeptSegments,
+  getPlaybackPosition,
+  hasEdits,
+  normalizeRanges
+} from '../timeline';
+
+describe('timeline', () => {
+  describe('normalizeRanges', () => {
+    it('should sort, fix reversed ranges and merge overlaps', () => {
+      expect(normalizeRanges([
+        { start: 8, end: 6 },
+        { start: 1, end: 2 },
+        { start: 1.5, end: 3 },
+        { start: 5, end: 5 }
+      ])).toEqual([
+        { start: 1, end: 3 },
+        { start: 6, end: 8 }
+      ]);
+    });
+
+    it('should not mutate its input', () => {
+      const ranges = [{ start: 0, end: 2 }, { start: 1, end: 3 }];
+      normalizeRanges(ranges);
+      expect(ranges[0]).toEqual({ start: 0, end: 2 });
+    });
+  });
+
+  describe('getKeptSegments', () => {
+    it('should keep the whole recording without edits', () => {
+      expect(getKeptSegments(10, createDefaultEdits(10))).toEqual([{ start: 0, end: 10 }]);
+    });
+
+    it('should apply in and out points', () => {
+      expect(getKeptSegments(10, { inPoint: 1.5, outPoint: 8, cuts: [] })).toEqual([{ start: 1.5, end: 8 }]);
+    });
+
+    it('should remove middle cuts', () => {
+      expect(getKeptSegments(10, { inPoint: 0, outPoint: 10, cuts: [{ start: 2, end: 3 }, { start: 6, end: 7 }] }))
+        .toEqual([
+          { start: 0, end: 2 },
+          { start: 3, end: 6 },
+          { start: 7, end: 10 }
+        ]);
+    });
+
+    it('should clip cuts that overlap the trim points', () => {
+      expect(getKeptSegments(10, { inPoint: 2, outPoint: 8, cuts: [{ start: 1, end: 3 }, { start: 7, end: 9 }] }))
+        .toEqual([{ start: 3, end: 7 }]);
+    });
+
+    it('should drop slivers too short to record', () => {
+      expect(getKeptSegments(10, { inPoint: 0, outPoint: 10, cuts: [{ start: 0.05, end: 9.95 }] })).toEqual([]);
+    });
+
+    it('should clamp edits to the recording length', () => {
+      expect(getKeptSegments(5, { inPoint: -1, outPoint: 20, cuts: [] })).toEqual([{ start: 0, end: 5 }]);
+    });
+  });
+
+  it('should sum the kept duration', () => {
+    expect(getEditedDuration([{ start: 0, end: 2 }, { start: 3, end: 6.5 }])).toBe(5.5);
+    expect(getEditedDuration([])).toBe(0);
+  });
+
+  it('should detect whether anything was edited', () => {
+    expect(hasEdits(10, createDefaultEdits(10))).toBe(false);
+    expect(hasEdits(10, { inPoint: 1, outPoint: 10, cuts: [] })).toBe(true);
+    expect(hasEdits(10, { inPoint: 0, outPoint: 10, cuts: [{ start: 4, end: 5 }] })).toBe(true);
+  });
+
+  it('should skip gaps when mapping playback positions', () => {
+    const segments = [{ start: 1, end: 3 }, { start: 5, end: 8 }];
+
+    expect(getPlaybackPosition(0, segments)).toBe(1);
+    expect(getPlaybackPosition(2, segments)).toBe(2);
+    expect(getPlaybackPosition(3.5, segments)).toBe(5);
+    expect(getPlaybackPosition(8, segments)).toBeNull();
+  });
+});
@@ -0,0 +1,4 @@
+// Post-recording editing exports
+export * from './types';
+export * from './timeline';
+export { RecordingTrimmer, recordingTrimmer, type RenderSource } from './RecordingTrimmer';
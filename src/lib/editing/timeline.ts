@@ -0,0 +1,93 @@
+/**
+ * Pure helpers for turning trim/cut edits into the segments to keep
+ */
+
+import { EDITING_CONSTANTS, type RecordingEdits, type TimeRange } from './types';
+
+/**
+ * Edits that keep the whole recording
+ */
+export function createDefaultEdits(duration: number): RecordingEdits {
+  return { inPoint: 0, outPoint: duration, cuts: [] };
+}
+
+/**
+ * Sort ranges, fix reversed ones and merge any that overlap or touch
+ */
+export function normalizeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = ranges
+    .map(range => ({ start: Math.min(range.start, range.end), end: Math.max(range.start, range.end) }))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Segments of the original recording that survive the edits, in order
+ */
+export function getKeptSegments(duration: number, edits: RecordingEdits): TimeRange[] {
+  const inPoint = Math.max(0, Math.min(edits.inPoint, duration));
+  const outPoint = Math.max(inPoint, Math.min(edits.outPoint, duration));
+
+  const segments: TimeRange[] = [];
+  let cursor = inPoint;
+  for (const cut of normalizeRanges(edits.cuts)) {
+    if (cut.end <= cursor) {
+      continue;
+    }
+    if (cut.start >= outPoint) {
+      break;
+    }
+    if (cut.start > cursor) {
+      segments.push({ start: cursor, end: cut.start });
+    }
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (cursor < outPoint) {
+    segments.push({ start: cursor, end: outPoint });
+  }
+
+  return segments.filter(segment => segment.end - segment.start >= EDITING_CONSTANTS.MIN_SEGMENT_DURATION);
+}
+
+/**
+ * Total length of the kept segments
+ */
+export function getEditedDuration(segments: TimeRange[]): number {
+  return segments.reduce((total, segment) => total + (segment.end - segment.start), 0);
+}
+
+/**
+ * Whether the edits change the recording at all
+ */
+export function hasEdits(duration: number, edits: RecordingEdits): boolean {
+  const segments = getKeptSegments(duration, edits);
+  return segments.length !== 1 || segments[0].start > 0 || segments[0].end < duration;
+}
+
+/**
+ * Where playback should be for a given position: the position itself when it
+ * is kept, the start of the next kept segment when it falls in a gap, or
+ * null once it is past the last segment
+ */
+export function getPlaybackPosition(time: number, segments: TimeRange[]): number | null {
+  for (const segment of segments) {
+    if (time < segment.start) {
+      return segment.start;
+    }
+    if (time < segment.end) {
+      return time;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,54 @@
+/**
+ * Core types for post-recording editing (trim and cut)
+ */
+
+// Error types for better error handling
+export class EditingError extends Error {
+  constructor(
+    message: string,
+    public code: EditingErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'EditingError';
+  }
+}
+
+export enum EditingErrorCode {
+  NO_SEGMENTS = 'NO_SEGMENTS',
+  UNSUPPORTED = 'UNSUPPORTED',
+  RENDER_FAILED = 'RENDER_FAILED',
+  CANCELLED = 'CANCELLED'
+}
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// Non-destructive edit list applied on top of the original recording
+export interface RecordingEdits {
+  inPoint: number;
+  outPoint: number;
+  cuts: TimeRange[];
+}
+
+export interface TrimProgress {
+  progress: number; // 0-100
+  stage: string;
+}
+
+export interface TrimOptions {
+  mimeType?: string;
+  durationSeconds?: number;
+  onProgress?: (progress: TrimProgress) => void;
+  signal?: AbortSignal;
+}
+
+export const EDITING_CONSTANTS = {
+  // Segments shorter than this are dropped; MediaRecorder cannot resume that fast
+  MIN_SEGMENT_DURATION: 0.1,
+  // How often playback position is checked while re-recording a segment
+  SEGMENT_POLL_INTERVAL: 15,
+  RECORDER_TIMESLICE: 1000
+} as const;
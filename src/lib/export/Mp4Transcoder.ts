@@ -0,0 +1,160 @@
+/**
+ * Mp4Transcoder - Converts WebM recordings to H.264/AAC MP4 in the browser
+ *
+ * Each job gets its own worker running the bundled ffmpeg.js MP4 build.
+ * FFmpeg cannot be interrupted mid-run, so cancelling a job terminates its
+ * worker outright.
+ */
+
+import {
+  EXPORT_CONSTANTS,
+  ExportError,
+  ExportErrorCode,
+  type TranscodeOptions,
+  type TranscodeWorkerMessage,
+  type TranscodeWorkerResponse
+} from './types';
+import { readBlob } from './readBlob';
+
+const INPUT_NAME = 'input.webm';
+const OUTPUT_NAME = 'output.mp4';
+
+export class Mp4Transcoder {
+  /**
+   * FFmpeg arguments for a browser-friendly MP4: H.264 needs even dimensions
+   * and yuv420p to play everywhere, and faststart lets players begin before
+   * the whole file has downloaded.
+   */
+  static getArguments(): string[] {
+    return [
+      '-i', INPUT_NAME,
+      '-c:v', 'libx264',
+      '-preset', EXPORT_CONSTANTS.MP4_VIDEO_PRESET,
+      '-pix_fmt', 'yuv420p',
+      '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+      '-c:a', 'aac',
+      '-b:a', EXPORT_CONSTANTS.MP4_AUDIO_BITRATE,
+      '-movflags', '+faststart',
+      OUTPUT_NAME
+    ];
+  }
+
+  /**
+   * The bundled FFmpeg build only decodes VP8, so VP9 input is rejected up
+   * front instead of failing deep inside the worker
+   */
+  static async isVp9(input: Blob): Promise<boolean> {
+    if (input.type.toLowerCase().includes('vp9')) {
+      return true;
+    }
+    // The codec ID lives in the Tracks element near the start of the file
+    const header = new Uint8Array(await readBlob(input.slice(0, 4096)));
+    const codecId = new TextEncoder().encode('V_VP9');
+    for (let i = 0; i <= header.length - codecId.length; i++) {
+      if (codecId.every((byte, offset) => header[i + offset] === byte)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async transcode(input: Blob, options: TranscodeOptions = {}): Promise<Blob> {
+    const { onProgress, signal, durationSeconds } = options;
+
+    if (signal?.aborted) {
+      throw new ExportError('Conversion cancelled', ExportErrorCode.CANCELLED);
+    }
+
+    if (await Mp4Transcoder.isVp9(input)) {
+      throw new ExportError(
+        'VP9 recordings cannot be converted to MP4 in the browser. Download as WebM instead.',
+        ExportErrorCode.UNSUPPORTED_INPUT
+      );
+    }
+
+    onProgress?.({ progress: 5, stage: 'Loading video encoder...' });
+    const buffer = await readBlob(input);
+
+    return new Promise<Blob>((resolve, reject) => {
+      let worker: Worker;
+      try {
+        worker = new Worker(
+          new URL('./workers/transcodeWorker.ts', import.meta.url),
+          { type: 'module' }
+        );
+      } catch (error) {
+        reject(new ExportError(
+          'Failed to start video encoder',
+          ExportErrorCode.WORKER_FAILED,
+          error instanceof Error ? error : new Error(String(error))
+        ));
+        return;
+      }
+
+      const messageId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const { TRANSCODE_PROGRESS_START: start, TRANSCODE_PROGRESS_END: end } = EXPORT_CONSTANTS;
+
+      const cleanup = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        worker.terminate();
+      };
+
+      const handleAbort = () => {
+        cleanup();
+        reject(new ExportError('Conversion cancelled', ExportErrorCode.CANCELLED));
+      };
+
+      signal?.addEventListener('abort', handleAbort);
+
+      worker.onmessage = (event: MessageEvent<TranscodeWorkerResponse>) => {
+        const { id, type, data } = event.data;
+        if (id !== messageId) {
+          return;
+        }
+
+        if (type === 'PROGRESS') {
+          const { fraction, encodedSeconds } = data as { fraction: number; encodedSeconds: number };
+          onProgress?.({
+            progress: start + fraction * (end - start),
+            stage: `Encoding MP4... ${Math.floor(encodedSeconds)}s`
+          });
+        } else if (type === 'SUCCESS') {
+          cleanup();
+          onProgress?.({ progress: 100, stage: 'Conversion complete!' });
+          resolve(new Blob([(data as { output: ArrayBuffer }).output], { type: 'video/mp4' }));
+        } else {
+          cleanup();
+          const errorData = data as { message: string; code: ExportErrorCode };
+          reject(new ExportError(errorData.message, errorData.code));
+        }
+      };
+
+      worker.onerror = (event: ErrorEvent) => {
+        cleanup();
+        reject(new ExportError(
+          'Video encoder crashed',
+          ExportErrorCode.WORKER_FAILED,
+          event.error instanceof Error ? event.error : undefined
+        ));
+      };
+
+      onProgress?.({ progress: start, stage: 'Encoding MP4...' });
+
+      const message: TranscodeWorkerMessage = {
+        id: messageId,
+        type: 'TRANSCODE',
+        data: {
+          input: buffer,
+          inputName: INPUT_NAME,
+          outputName: OUTPUT_NAME,
+          arguments: Mp4Transcoder.getArguments(),
+          durationSeconds
+        }
+      };
+      worker.postMessage(message, [buffer]);
+    });
+  }
+}
+
+// Singleton instance
+export const mp4Transcoder = new Mp4Transcoder();
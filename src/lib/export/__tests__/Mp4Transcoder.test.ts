@@ -0,0 +1,127 @@
+/**
+ * Tests for Mp4Transcoder worker orchestration
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Mp4Transcoder } from '../Mp4Transcoder';
+import { ExportError, ExportErrorCode, type TranscodeWorkerMessage } from '../types';
+
+// Mock Worker that lets each test drive the responses
+class MockWorker {
+  static instances: MockWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  lastMessage: TranscodeWorkerMessage | null = null;
+  terminated = false;
+
+  constructor() {
+    MockWorker.instances.push(this);
+  }
+
+  postMessage(message: TranscodeWorkerMessage) {
+    this.lastMessage = message;
+  }
+
+  respond(type: 'PROGRESS' | 'SUCCESS' | 'ERROR', data: unknown) {
+    this.onmessage?.({
+      data: { id: this.lastMessage?.id, type, data }
+    } as MessageEvent);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+global.Worker = MockWorker as unknown as typeof Worker;
+
+const webmBlob = () => new Blob([new Uint8Array([0x1a, 0x45, 0xdf, 0xa3])], { type: 'video/webm;codecs=vp8,opus' });
+
+// Wait until the transcoder has posted its job to the worker
+const waitForJob = async (): Promise<MockWorker> => {
+  await vi.waitFor(() => {
+    expect(MockWorker.instances[0]?.lastMessage).toBeTruthy();
+  });
+  return MockWorker.instances[0];
+};
+
+describe('Mp4Transcoder', () => {
+  let transcoder: Mp4Transcoder;
+
+  beforeEach(() => {
+    MockWorker.instances = [];
+    transcoder = new Mp4Transcoder();
+  });
+
+  it('should build H.264/AAC arguments with even dimensions', () => {
+    const args = Mp4Transcoder.getArguments();
+    expect(args).toContain('libx264');
+    expect(args).toContain('aac');
+    expect(args).toContain('yuv420p');
+    expect(args[args.indexOf('-vf') + 1]).toBe('scale=trunc(iw/2)*2:trunc(ih/2)*2');
+  });
+
+  it('should detect VP9 input from the mime type or the codec ID', async () => {
+    expect(await Mp4Transcoder.isVp9(new Blob([], { type: 'video/webm;codecs=vp9' }))).toBe(true);
+    expect(await Mp4Transcoder.isVp9(new Blob(['....V_VP9....'], { type: 'video/webm' }))).toBe(true);
+    expect(await Mp4Transcoder.isVp9(new Blob(['....V_VP8....'], { type: 'video/webm' }))).toBe(false);
+  });
+
+  it('should reject VP9 input without starting a worker', async () => {
+    await expect(
+      transcoder.transcode(new Blob([], { type: 'video/webm;codecs=vp9' }))
+    ).rejects.toMatchObject({ code: ExportErrorCode.UNSUPPORTED_INPUT });
+    expect(MockWorker.instances).toHaveLength(0);
+  });
+
+  it('should map worker progress and resolve with an MP4 blob', async () => {
+    const onProgress = vi.fn();
+    const promise = transcoder.transcode(webmBlob(), { onProgress, durationSeconds: 8 });
+    const worker = await waitForJob();
+
+    expect(worker.lastMessage?.data.durationSeconds).toBe(8);
+
+    worker.respond('PROGRESS', { fraction: 0.5, encodedSeconds: 4 });
+    expect(onProgress).toHaveBeenLastCalledWith({ progress: 52.5, stage: 'Encoding MP4... 4s' });
+
+    worker.respond('SUCCESS', { output: new Uint8Array([1, 2, 3]).buffer });
+    const result = await promise;
+
+    expect(result.type).toBe('video/mp4');
+    expect(result.size).toBe(3);
+    expect(onProgress).toHaveBeenLastCalledWith({ progress: 100, stage: 'Conversion complete!' });
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should surface worker errors as ExportError', async () => {
+    const promise = transcoder.transcode(webmBlob());
+    const worker = await waitForJob();
+
+    worker.respond('ERROR', { message: 'FFmpeg produced no output', code: ExportErrorCode.TRANSCODE_FAILED });
+
+    await expect(promise).rejects.toBeInstanceOf(ExportError);
+    await expect(promise).rejects.toMatchObject({ code: ExportErrorCode.TRANSCODE_FAILED });
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should terminate the worker when cancelled', async () => {
+    const controller = new AbortController();
+    const promise = transcoder.transcode(webmBlob(), { signal: controller.signal });
+    const worker = await waitForJob();
+
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ code: ExportErrorCode.CANCELLED });
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should not start when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      transcoder.transcode(webmBlob(), { signal: controller.signal })
+    ).rejects.toMatchObject({ code: ExportErrorCode.CANCELLED });
+    expect(MockWorker.instances).toHaveLength(0);
+  });
+});
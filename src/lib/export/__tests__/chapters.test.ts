@@ -0,0 +1,54 @@
+/**
+ * Tests for building chapters and the WebVTT sidecar
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildChapters, createWebVttChapters, formatVttTimestamp } from '../chapters';
+
+describe('buildChapters', () => {
+  it('should run each chapter until the next one and add a start chapter', () => {
+    const chapters = buildChapters([
+      { timeMs: 42000, label: 'Deck · Slide 3' },
+      { timeMs: 12500, label: 'Deck · Slide 2' }
+    ], 60000);
+
+    expect(chapters).toEqual([
+      { startMs: 0, endMs: 12500, title: 'Start' },
+      { startMs: 12500, endMs: 42000, title: 'Deck · Slide 2' },
+      { startMs: 42000, endMs: 60000, title: 'Deck · Slide 3' }
+    ]);
+  });
+
+  it('should keep the last of simultaneous markers and drop those past the end', () => {
+    const chapters = buildChapters([
+      { timeMs: 0, label: 'Intro scene' },
+      { timeMs: 0, label: 'Slide 1' },
+      { timeMs: 90000, label: 'After the end' }
+    ], 30000);
+
+    expect(chapters).toEqual([{ startMs: 0, endMs: 30000, title: 'Slide 1' }]);
+  });
+
+  it('should return no chapters without markers', () => {
+    expect(buildChapters([], 30000)).toEqual([]);
+  });
+});
+
+describe('createWebVttChapters', () => {
+  it('should format timestamps with hours and milliseconds', () => {
+    expect(formatVttTimestamp(3723004)).toBe('01:02:03.004');
+  });
+
+  it('should write one cue per chapter', () => {
+    const vtt = createWebVttChapters([
+      { startMs: 0, endMs: 1500, title: 'Start' },
+      { startMs: 1500, endMs: 4000, title: 'Before --> after' }
+    ]);
+
+    expect(vtt).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:00:01.500\nStart\n\n' +
+      '2\n00:00:01.500 --> 00:00:04.000\nBefore → after\n'
+    );
+  });
+});
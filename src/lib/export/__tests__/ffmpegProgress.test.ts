@@ -0,0 +1,38 @@
+/**
+ * Tests for FFmpeg log parsing used to report transcode progress
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getProgressFraction,
+  parseFfmpegDuration,
+  parseFfmpegProgressTime,
+  parseFfmpegTime
+} from '../ffmpegProgress';
+
+describe('ffmpegProgress', () => {
+  it('should parse FFmpeg timestamps into seconds', () => {
+    expect(parseFfmpegTime('00:00:05.50')).toBe(5.5);
+    expect(parseFfmpegTime('01:02:03')).toBe(3723);
+    expect(parseFfmpegTime('N/A')).toBeNull();
+  });
+
+  it('should read the input duration from the header line', () => {
+    expect(parseFfmpegDuration('  Duration: 00:00:10.04, start: 0.000000, bitrate: 512 kb/s')).toBeCloseTo(10.04);
+    expect(parseFfmpegDuration('  Duration: N/A, start: 0.000000, bitrate: N/A')).toBeNull();
+    expect(parseFfmpegDuration('Stream #0:0: Video: vp8')).toBeNull();
+  });
+
+  it('should read the encoded time from status lines', () => {
+    const line = 'frame=  120 fps= 24 q=28.0 size=     256kB time=00:00:04.00 bitrate= 524.3kbits/s speed=0.8x';
+    expect(parseFfmpegProgressTime(line)).toBe(4);
+    expect(parseFfmpegProgressTime('Press [q] to stop')).toBeNull();
+  });
+
+  it('should clamp the progress fraction and handle unknown durations', () => {
+    expect(getProgressFraction(5, 10)).toBe(0.5);
+    expect(getProgressFraction(12, 10)).toBe(1);
+    expect(getProgressFraction(5, null)).toBe(0);
+    expect(getProgressFraction(5, Infinity)).toBe(0);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Tests for the animated GIF encoder
+ * Output is decoded back (block structure and LZW) to verify it round-trips.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { GifEncoder, lzwEncode, mapToPalette, quantizePalette } from '../gifEncoder';
+import { ExportErrorCode } from '../types';
+
+interface DecodedFrame {
+  delay: number;
+  width: number;
+  height: number;
+  palette: Uint8Array;
+  indices: Uint8Array;
+}
+
+// Reference GIF LZW decoder
+function lzwDecode(data: Uint8Array, pixelCount: number): Uint8Array {
+  const minCodeSize = data[0];
+  const bytes: number[] = [];
+  let offset = 1;
+  while (data[offset] !== 0) {
+    const length = data[offset];
+    bytes.push(...data.subarray(offset + 1, offset + 1 + length));
+    offset += length + 1;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let dictionary: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitPosition = 0;
+
+  const reset = () => {
+    dictionary = [];
+    for (let i = 0; i < clearCode; i++) {
+      dictionary[i] = [i];
+    }
+    dictionary[clearCode] = [];
+    dictionary[endCode] = [];
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (bitPosition + codeSize <= bytes.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitPosition++) {
+      code |= ((bytes[bitPosition >> 3] >> (bitPosition & 7)) & 1) << bit;
+    }
+
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+
+    let entry: number[];
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (previous) {
+      entry = [...previous, previous[0]];
+    } else {
+      throw new Error(`Invalid code ${code}`);
+    }
+
+    output.push(...entry);
+    if (previous && dictionary.length < 4096) {
+      dictionary.push([...previous, entry[0]]);
+      if (dictionary.length === 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+    previous = entry;
+  }
+
+  expect(output).toHaveLength(pixelCount);
+  return new Uint8Array(output);
+}
+
+function decodeGif(gif: Uint8Array): { width: number; height: number; loopCount: number | null; frames: DecodedFrame[] } {
+  expect(String.fromCharCode(...gif.subarray(0, 6))).toBe('GIF89a');
+  const width = gif[6] | (gif[7] << 8);
+  const height = gif[8] | (gif[9] << 8);
+  expect(gif[10] & 0x80).toBe(0); // No global color table
+
+  const frames: DecodedFrame[] = [];
+  let loopCount: number | null = null;
+  let delay = 0;
+  let offset = 13;
+
+  const skipSubBlocks = () => {
+    while (offset < gif.length && gif[offset] !== 0) {
+      offset += gif[offset] + 1;
+    }
+    offset++;
+  };
+
+  while (offset < gif.length && gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x21 && gif[offset + 1] === 0xff) {
+      expect(String.fromCharCode(...gif.subarray(offset + 3, offset + 14))).toBe('NETSCAPE2.0');
+      loopCount = gif[offset + 16] | (gif[offset + 17] << 8);
+      offset += 14;
+      skipSubBlocks();
+    } else if (gif[offset] === 0x21 && gif[offset + 1] === 0xf9) {
+      delay = gif[offset + 4] | (gif[offset + 5] << 8);
+      offset += 8;
+    } else if (gif[offset] === 0x2c) {
+      const frameWidth = gif[offset + 5] | (gif[offset + 6] << 8);
+      const frameHeight = gif[offset + 7] | (gif[offset + 8] << 8);
+      const packed = gif[offset + 9];
+      expect(packed & 0x80).toBe(0x80);
+      const tableSize = 3 * (1 << ((packed & 0x07) + 1));
+      const palette = gif.subarray(offset + 10, offset + 10 + tableSize);
+      offset += 10 + tableSize;
+
+      const dataStart = offset;
+      offset++; // LZW minimum code size
+      skipSubBlocks();
+      const indices = lzwDecode(gif.subarray(dataStart, offset), frameWidth * frameHeight);
+      frames.push({ delay, width: frameWidth, height: frameHeight, palette, indices });
+    } else {
+      throw new Error(`Unexpected block 0x${gif[offset].toString(16)} at ${offset}`);
+    }
+  }
+
+  expect(offset).toBe(gif.length - 1);
+  return { width, height, loopCount, frames };
+}
+
+// jsdom has no ImageData constructor in every version; build a compatible object
+function imageData(width: number, height: number, fill: (x: number, y: number) => [number, number, number]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = fill(x, y);
+      data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+}
+
+const colorAt = (frame: DecodedFrame, pixel: number) =>
+  Array.from(frame.palette.subarray(frame.indices[pixel] * 3, frame.indices[pixel] * 3 + 3));
+
+describe('gifEncoder', () => {
+  describe('lzwEncode', () => {
+    it('should round-trip short and repetitive input', () => {
+      const inputs = [
+        new Uint8Array([0]),
+        new Uint8Array([1, 0, 1, 0, 1, 0, 3, 3, 3, 3, 2]),
+        new Uint8Array(5000).fill(2)
+      ];
+      for (const input of inputs) {
+        expect(Array.from(lzwDecode(lzwEncode(input, 2), input.length))).toEqual(Array.from(input));
+      }
+    });
+
+    it('should reset the code table once it fills up', () => {
+      // Pseudo-random data forces many distinct codes
+      let seed = 42;
+      const input = new Uint8Array(40000).map(() => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        return seed % 256;
+      });
+
+      const encoded = lzwEncode(input, 8);
+      expect(Array.from(lzwDecode(encoded, input.length))).toEqual(Array.from(input));
+    });
+
+    it('should split data into sub-blocks of at most 255 bytes', () => {
+      const encoded = lzwEncode(new Uint8Array(20000).map((_, i) => (i * 7) % 256), 8);
+      let offset = 1;
+      while (encoded[offset] !== 0) {
+        expect(encoded[offset]).toBeLessThanOrEqual(255);
+        offset += encoded[offset] + 1;
+      }
+      expect(offset).toBe(encoded.length - 1);
+    });
+  });
+
+  describe('quantizePalette', () => {
+    it('should keep exact colors when there are fewer than the limit', () => {
+      const image = imageData(4, 4, (x) => (x < 2 ? [255, 0, 0] : [0, 0, 255]));
+      const palette = quantizePalette(image.data);
+
+      const colors = [];
+      for (let i = 0; i < palette.length; i += 3) {
+        colors.push(Array.from(palette.subarray(i, i + 3)));
+      }
+      expect(colors).toHaveLength(2);
+      expect(colors).toEqual(expect.arrayContaining([[255, 0, 0], [0, 0, 255]]));
+    });
+
+    it('should never exceed the color limit', () => {
+      const image = imageData(64, 64, (x, y) => [x * 4, y * 4, (x + y) * 2]);
+      expect(quantizePalette(image.data, 256).length / 3).toBeLessThanOrEqual(256);
+      expect(quantizePalette(image.data, 16).length / 3).toBe(16);
+    });
+  });
+
+  describe('mapToPalette', () => {
+    it('should pick the nearest color without dithering', () => {
+      const image = imageData(2, 1, (x) => (x === 0 ? [250, 10, 10] : [10, 10, 240]));
+      const palette = new Uint8Array([0, 0, 255, 255, 0, 0]);
+      expect(Array.from(mapToPalette(image.data, 2, 1, palette, false))).toEqual([1, 0]);
+    });
+
+    it('should mix palette colors to approximate a mid tone when dithering', () => {
+      const image = imageData(16, 16, () => [128, 128, 128]);
+      const palette = new Uint8Array([0, 0, 0, 255, 255, 255]);
+
+      const plain = mapToPalette(image.data, 16, 16, palette, false);
+      const dithered = mapToPalette(image.data, 16, 16, palette, true);
+
+      expect(new Set(plain).size).toBe(1);
+      const whiteShare = dithered.reduce((total, index) => total + index, 0) / dithered.length;
+      expect(whiteShare).toBeGreaterThan(0.4);
+      expect(whiteShare).toBeLessThan(0.6);
+    });
+  });
+
+  describe('GifEncoder', () => {
+    let gif: ReturnType<typeof decodeGif>;
+
+    beforeAll(() => {
+      const encoder = new GifEncoder(8, 4, { loopCount: 0 });
+      encoder.addFrame(imageData(8, 4, () => [255, 0, 0]), 100);
+      encoder.addFrame(imageData(8, 4, (x) => (x < 4 ? [0, 255, 0] : [0, 0, 255])), 250, { dither: false });
+      gif = decodeGif(encoder.finish());
+    });
+
+    it('should write the logical screen and an infinite loop extension', () => {
+      expect(gif.width).toBe(8);
+      expect(gif.height).toBe(4);
+      expect(gif.loopCount).toBe(0);
+    });
+
+    it('should store each frame with its delay in hundredths of a second', () => {
+      expect(gif.frames).toHaveLength(2);
+      expect(gif.frames.map(frame => frame.delay)).toEqual([10, 25]);
+      expect(gif.frames.every(frame => frame.width === 8 && frame.height === 4)).toBe(true);
+    });
+
+    it('should decode back to the original pixels', () => {
+      const [first, second] = gif.frames;
+      for (let pixel = 0; pixel < 32; pixel++) {
+        expect(colorAt(first, pixel)).toEqual([255, 0, 0]);
+        expect(colorAt(second, pixel)).toEqual(pixel % 8 < 4 ? [0, 255, 0] : [0, 0, 255]);
+      }
+    });
+
+    it('should encode the loop count as extra repeats and omit it for a single play', () => {
+      const looped = new GifEncoder(2, 2, { loopCount: 3 });
+      looped.addFrame(imageData(2, 2, () => [0, 0, 0]), 100);
+      expect(decodeGif(looped.finish()).loopCount).toBe(2);
+
+      const once = new GifEncoder(2, 2, { loopCount: 1 });
+      once.addFrame(imageData(2, 2, () => [0, 0, 0]), 100);
+      expect(decodeGif(once.finish()).loopCount).toBeNull();
+    });
+
+    it('should reject mismatched frames and empty animations', () => {
+      const encoder = new GifEncoder(4, 4);
+      expect(() => encoder.addFrame(imageData(2, 2, () => [0, 0, 0]), 100))
+        .toThrow(expect.objectContaining({ code: ExportErrorCode.INVALID_FRAME }));
+      expect(() => encoder.finish()).toThrow(expect.objectContaining({ code: ExportErrorCode.INVALID_FRAME }));
+    });
+  });
+});
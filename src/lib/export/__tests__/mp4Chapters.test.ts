@@ -0,0 +1,129 @@
+/**
+ * Tests for the MP4 chapter writer
+ * Small synthetic files are parsed back box by box to check the chapter list
+ * and that chunk offsets still point at the same media bytes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addMp4Chapters } from '../mp4Chapters';
+import { ExportErrorCode } from '../types';
+
+const ascii = (value: string) => Array.from(value, char => char.charCodeAt(0));
+const be32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+function box(type: string, ...payload: number[][]): number[] {
+  const body = payload.flat();
+  return [...be32(body.length + 8), ...ascii(type), ...body];
+}
+
+// stco with absolute offsets of each chunk, filled in once the layout is known
+function stco(offsets: number[]): number[] {
+  return box('stco', [0, 0, 0, 0], be32(offsets.length), ...offsets.map(be32));
+}
+
+const MEDIA = [0xde, 0xad, 0xbe, 0xef, 0xca, 0xfe];
+
+function moov(offsets: number[], extra: number[][] = []): number[] {
+  return box('moov', box('mvhd', [0, 0, 0, 0]), box('trak', box('mdia', box('minf', box('stbl', stco(offsets))))), ...extra);
+}
+
+// ftyp, moov, mdat: chunk offsets point past moov
+function faststartFile(extra: number[][] = []): Uint8Array {
+  const ftyp = box('ftyp', ascii('isom'));
+  const moovLength = moov([0, 0], extra).length;
+  const mediaStart = ftyp.length + moovLength + 8;
+  return new Uint8Array([...ftyp, ...moov([mediaStart, mediaStart + 4], extra), ...box('mdat', MEDIA)]);
+}
+
+function findBox(bytes: Uint8Array, path: string[], start = 0, end = bytes.length): { start: number; end: number } | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = uint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === path[0]) {
+      return path.length === 1 ? { start: offset, end: offset + size } : findBox(bytes, path.slice(1), offset + 8, offset + size);
+    }
+    offset += size;
+  }
+  return null;
+}
+
+function readChapters(bytes: Uint8Array): { start: number; title: string }[] {
+  const chpl = findBox(bytes, ['moov', 'udta', 'chpl']);
+  expect(chpl).not.toBeNull();
+  const chapters = [];
+  let offset = chpl!.start + 17;
+  for (let index = 0; index < bytes[chpl!.start + 16]; index++) {
+    const start = uint32(bytes, offset) * 0x100000000 + uint32(bytes, offset + 4);
+    const length = bytes[offset + 8];
+    chapters.push({ start, title: new TextDecoder().decode(bytes.subarray(offset + 9, offset + 9 + length)) });
+    offset += 9 + length;
+  }
+  return chapters;
+}
+
+function chunkOffsets(bytes: Uint8Array): number[] {
+  const table = findBox(bytes, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stco'])!;
+  const count = uint32(bytes, table.start + 12);
+  return Array.from({ length: count }, (_, index) => uint32(bytes, table.start + 16 + index * 4));
+}
+
+const chapters = [
+  { startMs: 0, endMs: 1500, title: 'Start' },
+  { startMs: 1500, endMs: 4000, title: 'Slide 2 — Résumé' }
+];
+
+describe('addMp4Chapters', () => {
+  it('should add a chpl chapter list in 100 ns units', () => {
+    const output = addMp4Chapters(faststartFile(), chapters);
+
+    expect(readChapters(output)).toEqual([
+      { start: 0, title: 'Start' },
+      { start: 15000000, title: 'Slide 2 — Résumé' }
+    ]);
+    const moovBox = findBox(output, ['moov'])!;
+    expect(uint32(output, moovBox.start)).toBe(moovBox.end - moovBox.start);
+  });
+
+  it('should shift chunk offsets when moov comes before the media', () => {
+    const input = faststartFile();
+    const output = addMp4Chapters(input, chapters);
+
+    const before = chunkOffsets(input);
+    const after = chunkOffsets(output);
+    expect(after).toEqual(before.map(offset => offset + output.length - input.length));
+    expect(Array.from(output.subarray(after[0], after[0] + MEDIA.length))).toEqual(MEDIA);
+  });
+
+  it('should leave offsets alone when moov comes after the media', () => {
+    const ftyp = box('ftyp', ascii('isom'));
+    const mediaStart = ftyp.length + 8;
+    const input = new Uint8Array([...ftyp, ...box('mdat', MEDIA), ...moov([mediaStart, mediaStart + 4])]);
+
+    expect(chunkOffsets(addMp4Chapters(input, chapters))).toEqual([mediaStart, mediaStart + 4]);
+  });
+
+  it('should add to an existing udta box', () => {
+    const output = addMp4Chapters(faststartFile([box('udta', box('©nam', ascii('Talk')))]), chapters);
+
+    expect(findBox(output, ['moov', 'udta', '©nam'])).not.toBeNull();
+    expect(readChapters(output)).toHaveLength(2);
+    expect(Array.from(output.subarray(chunkOffsets(output)[0], chunkOffsets(output)[0] + 4))).toEqual(MEDIA.slice(0, 4));
+  });
+
+  it('should keep files that already have chapters and skip empty lists', () => {
+    const withChapters = addMp4Chapters(faststartFile(), chapters);
+
+    expect(addMp4Chapters(withChapters, chapters)).toBe(withChapters);
+    const input = faststartFile();
+    expect(addMp4Chapters(input, [])).toBe(input);
+  });
+
+  it('should reject files without a moov box', () => {
+    expect(() => addMp4Chapters(new Uint8Array(box('mdat', MEDIA)), chapters)).toThrow(
+      expect.objectContaining({ code: ExportErrorCode.INVALID_CONTAINER })
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for the WebM chapter writer
+ * Synthetic files shaped like MediaRecorder output (unknown-size Segment) and
+ * like indexed files (known sizes, SeekHead, Cues) are parsed back element by
+ * element.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addWebMChapters } from '../webmChapters';
+import { ExportErrorCode } from '../types';
+
+interface ParsedElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+const UNKNOWN_SIZE = [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff];
+
+const idBytes = (id: number) => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256);
+  return bytes;
+};
+
+// Known sizes are written with an 8-byte size field, as muxers often do
+function element(id: number, ...children: number[][]): number[] {
+  const body = children.flat();
+  const size = [0x01, 0, 0, 0, ...[24, 16, 8, 0].map(shift => (body.length >>> shift) & 0xff)];
+  return [...idBytes(id), ...size, ...body];
+}
+
+const uint = (id: number, value: number) => element(id, [value >> 8, value & 0xff]);
+
+function vint(bytes: Uint8Array, offset: number): { length: number; value: number } {
+  const length = 8 - Math.floor(Math.log2(bytes[offset]));
+  let value = bytes[offset] & ((1 << (8 - length)) - 1);
+  for (let index = 1; index < length; index++) value = value * 256 + bytes[offset + index];
+  return { length, value };
+}
+
+function readElements(bytes: Uint8Array, start: number, end: number): ParsedElement[] {
+  const elements: ParsedElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const idLength = vint(bytes, offset).length;
+    const id = bytes.subarray(offset, offset + idLength).reduce((value, byte) => value * 256 + byte, 0);
+    const size = vint(bytes, offset + idLength);
+    const dataStart = offset + idLength + size.length;
+    const unknown = size.value === 2 ** (7 * size.length) - 1;
+    elements.push({ id, start: offset, dataStart, end: unknown ? end : dataStart + size.value });
+    offset = unknown ? end : dataStart + size.value;
+  }
+  return elements;
+}
+
+const child = (bytes: Uint8Array, parent: ParsedElement, id: number) =>
+  readElements(bytes, parent.dataStart, parent.end).find(candidate => candidate.id === id)!;
+const readUint = (bytes: Uint8Array, target: ParsedElement) =>
+  bytes.subarray(target.dataStart, target.end).reduce((value, byte) => value * 256 + byte, 0);
+
+const EBML_HEADER = element(0x1a45dfa3, element(0x4282, [0x77, 0x65, 0x62, 0x6d]));
+const INFO = element(0x1549a966, uint(0x2ad7b1, 1000));
+const TRACKS = element(0x1654ae6b, element(0xae, uint(0xd7, 1)));
+const CLUSTER_BODY = [...uint(0xe7, 0), 0xa3, 0x84, 0x81, 0x00, 0x00, 0x80];
+
+const chapters = [
+  { startMs: 0, endMs: 1500, title: 'Start' },
+  { startMs: 1500, endMs: 4000, title: 'Slide 2' }
+];
+
+function segmentOf(bytes: Uint8Array): ParsedElement {
+  return readElements(bytes, 0, bytes.length)[1];
+}
+
+describe('addWebMChapters', () => {
+  it('should insert chapters before the first cluster of a MediaRecorder file', () => {
+    const input = new Uint8Array([
+      ...EBML_HEADER,
+      ...idBytes(0x18538067), ...UNKNOWN_SIZE, ...INFO, ...TRACKS,
+      ...idBytes(0x1f43b675), ...UNKNOWN_SIZE, ...CLUSTER_BODY
+    ]);
+    const output = addWebMChapters(input, chapters);
+
+    const topLevel = readElements(output, segmentOf(output).dataStart, output.length);
+    expect(topLevel.map(item => item.id)).toEqual([0x1549a966, 0x1654ae6b, 0x1043a770, 0x1f43b675]);
+
+    const edition = child(output, topLevel[2], 0x45b9);
+    const atoms = readElements(output, edition.dataStart, edition.end).filter(item => item.id === 0xb6);
+    expect(atoms.map(atom => readUint(output, child(output, atom, 0x91)))).toEqual([0, 1500000000]);
+    expect(atoms.map(atom => readUint(output, child(output, atom, 0x92)))).toEqual([1500000000, 4000000000]);
+    const display = child(output, atoms[1], 0x80);
+    const title = child(output, display, 0x85);
+    expect(new TextDecoder().decode(output.subarray(title.dataStart, title.end))).toBe('Slide 2');
+    expect(Array.from(output.subarray(output.length - CLUSTER_BODY.length))).toEqual(CLUSTER_BODY);
+  });
+
+  it('should grow a known Segment and shift SeekHead and Cues positions', () => {
+    // Positions are relative to the Segment data and filled in from the layout
+    const build = (clusterPosition: number) => {
+      const seekHead = element(0x114d9b74, element(0x4dbb, element(0x53ab, [0x1f, 0x43, 0xb6, 0x75]), element(0x53ac, [0, 0, clusterPosition >> 8, clusterPosition & 0xff])));
+      const cues = element(0x1c53bb6b, element(0xbb, uint(0xb3, 0), element(0xb7, uint(0xf7, 1), element(0xf1, [0, 0, clusterPosition >> 8, clusterPosition & 0xff]))));
+      return { seekHead, cues, position: seekHead.length + INFO.length + TRACKS.length };
+    };
+    const { seekHead, cues } = build(build(0).position);
+    const input = new Uint8Array([...EBML_HEADER, ...element(0x18538067, seekHead, INFO, TRACKS, element(0x1f43b675, CLUSTER_BODY), cues)]);
+
+    const output = addWebMChapters(input, chapters);
+    const segment = segmentOf(output);
+    expect(segment.end).toBe(output.length);
+
+    const topLevel = readElements(output, segment.dataStart, segment.end);
+    const cluster = topLevel.find(item => item.id === 0x1f43b675)!;
+    const seekPosition = child(output, child(output, topLevel[0], 0x4dbb), 0x53ac);
+    const cueCluster = child(output, child(output, child(output, topLevel[topLevel.length - 1], 0xbb), 0xb7), 0xf1);
+    expect(readUint(output, seekPosition)).toBe(cluster.start - segment.dataStart);
+    expect(readUint(output, cueCluster)).toBe(cluster.start - segment.dataStart);
+  });
+
+  it('should keep files that already have chapters', () => {
+    const input = new Uint8Array([
+      ...EBML_HEADER,
+      ...idBytes(0x18538067), ...UNKNOWN_SIZE, ...INFO, ...element(0x1043a770), ...TRACKS,
+      ...idBytes(0x1f43b675), ...UNKNOWN_SIZE, ...CLUSTER_BODY
+    ]);
+
+    expect(addWebMChapters(input, chapters)).toBe(input);
+  });
+
+  it('should reject files that are not WebM', () => {
+    expect(() => addWebMChapters(new Uint8Array([0x00, 0x00, 0x00, 0x18, ...Array.from('ftyp', c => c.charCodeAt(0))]), chapters)).toThrow(
+      expect.objectContaining({ code: ExportErrorCode.INVALID_CONTAINER })
+    );
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for the animated WebP muxer
+ * The produced files are parsed back chunk by chunk to check the container layout.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { muxAnimatedWebP, parseWebPImage } from '../webpMuxer';
+import { ExportErrorCode } from '../types';
+
+interface Chunk {
+  id: string;
+  payload: Uint8Array;
+}
+
+const ascii = (value: string) => Array.from(value, char => char.charCodeAt(0));
+const uint24 = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  (uint24(bytes, offset) | (bytes[offset + 3] << 24)) >>> 0;
+const le32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+function chunk(id: string, payload: number[]): number[] {
+  return [...ascii(id), ...le32(payload.length), ...payload, ...(payload.length % 2 ? [0] : [])];
+}
+
+function riff(chunks: number[][]): Uint8Array {
+  const body = [...ascii('WEBP'), ...chunks.flat()];
+  return new Uint8Array([...ascii('RIFF'), ...le32(body.length), ...body]);
+}
+
+// Minimal lossy bitstream: frame tag, start code and 14-bit dimensions
+function vp8Payload(width: number, height: number, extra: number[] = [1, 2, 3]): number[] {
+  return [0x10, 0x02, 0x00, 0x9d, 0x01, 0x2a, width & 0xff, width >> 8, height & 0xff, height >> 8, ...extra];
+}
+
+// Minimal lossless bitstream: signature and packed width-1/height-1/alpha bits
+function vp8lPayload(width: number, height: number, alpha: boolean): number[] {
+  const bits = ((width - 1) | ((height - 1) << 14) | (alpha ? 1 << 28 : 0)) >>> 0;
+  return [0x2f, ...le32(bits), 0xaa];
+}
+
+function readChunks(bytes: Uint8Array, start: number, end: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const length = uint32(bytes, offset + 4);
+    chunks.push({ id, payload: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length & 1);
+  }
+  expect(offset).toBe(end);
+  return chunks;
+}
+
+function parseContainer(bytes: Uint8Array): Chunk[] {
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('RIFF');
+  expect(uint32(bytes, 4)).toBe(bytes.length - 8);
+  expect(String.fromCharCode(...bytes.subarray(8, 12))).toBe('WEBP');
+  return readChunks(bytes, 12, bytes.length);
+}
+
+describe('webpMuxer', () => {
+  describe('parseWebPImage', () => {
+    it('should read a simple lossy image', () => {
+      const image = parseWebPImage(riff([chunk('VP8 ', vp8Payload(320, 180))]));
+
+      expect(image).toMatchObject({ width: 320, height: 180, hasAlpha: false });
+      expect(Array.from(image.chunks)).toEqual(chunk('VP8 ', vp8Payload(320, 180)));
+    });
+
+    it('should keep the ALPH chunk of extended lossy images', () => {
+      const vp8x = [0x10, 0, 0, 0, ...[63, 0, 0], ...[35, 0, 0]];
+      const image = parseWebPImage(riff([
+        chunk('VP8X', vp8x),
+        chunk('ALPH', [0, 9, 9]),
+        chunk('VP8 ', vp8Payload(64, 36))
+      ]));
+
+      expect(image).toMatchObject({ width: 64, height: 36, hasAlpha: true });
+      expect(Array.from(image.chunks)).toEqual([...chunk('ALPH', [0, 9, 9]), ...chunk('VP8 ', vp8Payload(64, 36))]);
+    });
+
+    it('should read lossless dimensions and alpha', () => {
+      const image = parseWebPImage(riff([chunk('VP8L', vp8lPayload(1000, 2, true))]));
+      expect(image).toMatchObject({ width: 1000, height: 2, hasAlpha: true });
+    });
+
+    it('should reject files that are not still WebP images', () => {
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...new Array(16).fill(0)]);
+      expect(() => parseWebPImage(png)).toThrow(expect.objectContaining({ code: ExportErrorCode.INVALID_FRAME }));
+      expect(() => parseWebPImage(riff([chunk('ANIM', [0, 0, 0, 0, 0, 0])]))).toThrow(/already animated/);
+      expect(() => parseWebPImage(riff([chunk('VP8 ', [0, 0, 0, 1, 2, 3, 0, 0, 0, 0])]))).toThrow(/start code/);
+    });
+  });
+
+  describe('muxAnimatedWebP', () => {
+    const frameA = parseWebPImage(riff([chunk('VP8 ', vp8Payload(320, 180))]));
+    const frameB = parseWebPImage(riff([chunk('VP8 ', vp8Payload(320, 180, [4, 5]))]));
+
+    it('should write VP8X, ANIM and one ANMF chunk per frame', () => {
+      const webp = muxAnimatedWebP(
+        [{ image: frameA, duration: 100 }, { image: frameB, duration: 250 }],
+        { loopCount: 3 }
+      );
+      const chunks = parseContainer(webp);
+
+      expect(chunks.map(c => c.id)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+
+      const [vp8x, anim] = chunks;
+      expect(vp8x.payload[0] & 0x02).toBe(0x02); // animation
+      expect(vp8x.payload[0] & 0x10).toBe(0); // no alpha
+      expect(uint24(vp8x.payload, 4) + 1).toBe(320);
+      expect(uint24(vp8x.payload, 7) + 1).toBe(180);
+
+      expect(anim.payload[4] | (anim.payload[5] << 8)).toBe(3);
+    });
+
+    it('should store frame geometry, durations and bitstreams in ANMF chunks', () => {
+      const webp = muxAnimatedWebP([{ image: frameA, duration: 100 }, { image: frameB, duration: 250.4 }]);
+      const frames = parseContainer(webp).filter(c => c.id === 'ANMF');
+
+      frames.forEach((frame, index) => {
+        const { payload } = frame;
+        expect(uint24(payload, 0)).toBe(0);
+        expect(uint24(payload, 3)).toBe(0);
+        expect(uint24(payload, 6) + 1).toBe(320);
+        expect(uint24(payload, 9) + 1).toBe(180);
+        expect(payload[15] & 0x02).toBe(0x02); // do not blend
+
+        const inner = readChunks(payload, 16, payload.length);
+        expect(inner.map(c => c.id)).toEqual(['VP8 ']);
+        expect(Array.from(inner[0].payload)).toEqual(index === 0 ? vp8Payload(320, 180) : vp8Payload(320, 180, [4, 5]));
+      });
+
+      expect(uint24(frames[0].payload, 12)).toBe(100);
+      expect(uint24(frames[1].payload, 12)).toBe(250);
+    });
+
+    it('should default to an infinite loop and flag alpha frames', () => {
+      const alphaFrame = parseWebPImage(riff([chunk('VP8L', vp8lPayload(400, 200, true))]));
+      const chunks = parseContainer(muxAnimatedWebP([
+        { image: frameA, duration: 100 },
+        { image: alphaFrame, duration: 100 }
+      ]));
+
+      const [vp8x, anim] = chunks;
+      expect(vp8x.payload[0] & 0x10).toBe(0x10);
+      expect(uint24(vp8x.payload, 4) + 1).toBe(400);
+      expect(uint24(vp8x.payload, 7) + 1).toBe(200);
+      expect(anim.payload[4] | (anim.payload[5] << 8)).toBe(0);
+    });
+
+    it('should pad odd-sized frame data to keep chunks aligned', () => {
+      const odd = parseWebPImage(riff([chunk('VP8 ', vp8Payload(8, 8, [1]))]));
+      const webp = muxAnimatedWebP([{ image: odd, duration: 40 }, { image: odd, duration: 40 }]);
+
+      expect(webp.length % 2).toBe(0);
+      expect(parseContainer(webp).filter(c => c.id === 'ANMF')).toHaveLength(2);
+    });
+
+    it('should reject an empty frame list', () => {
+      expect(() => muxAnimatedWebP([])).toThrow(expect.objectContaining({ code: ExportErrorCode.INVALID_FRAME }));
+    });
+  });
+});
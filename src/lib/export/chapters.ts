@@ -0,0 +1,57 @@
+/**
+ * Chapters - Turn timestamped markers into sections of a recording and write
+ * them as a WebVTT chapters sidecar
+ */
+
+import { EXPORT_CONSTANTS, type Chapter, type ChapterMarker } from './types';
+
+/**
+ * One chapter per marker inside the recording, each running until the next
+ * one. Markers at the same moment keep the last; time before the first marker
+ * becomes a "Start" chapter.
+ */
+export function buildChapters(markers: ChapterMarker[], durationMs: number): Chapter[] {
+  const sorted = markers
+    .filter(marker => marker.timeMs >= 0 && marker.timeMs < durationMs)
+    .sort((a, b) => a.timeMs - b.timeMs);
+  const starts = sorted.filter((marker, index) => sorted[index + 1]?.timeMs !== marker.timeMs);
+  if (starts.length === 0) {
+    return [];
+  }
+  if (starts[0].timeMs > 0) {
+    starts.unshift({ timeMs: 0, label: EXPORT_CONSTANTS.CHAPTER_START_TITLE });
+  }
+
+  return starts.map((marker, index) => ({
+    startMs: Math.round(marker.timeMs),
+    endMs: Math.round(starts[index + 1]?.timeMs ?? durationMs),
+    title: marker.label.replace(/\s+/g, ' ').trim() || `Chapter ${index + 1}`
+  }));
+}
+
+/**
+ * hh:mm:ss.ttt as used by WebVTT cue timings
+ */
+export function formatVttTimestamp(ms: number): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+}
+
+/**
+ * A WebVTT file with one cue per chapter, for <track kind="chapters"> and
+ * players that read chapter sidecars
+ */
+export function createWebVttChapters(chapters: Chapter[]): string {
+  const cues = chapters.map((chapter, index) => [
+    String(index + 1),
+    `${formatVttTimestamp(chapter.startMs)} --> ${formatVttTimestamp(chapter.endMs)}`,
+    // A cue payload must not contain the timing arrow
+    chapter.title.replace(/-->/g, '→')
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
@@ -0,0 +1,40 @@
+/**
+ * Helpers for turning FFmpeg's stderr log into progress information
+ */
+
+/**
+ * Parse an FFmpeg timestamp (HH:MM:SS.ms) into seconds
+ */
+export function parseFfmpegTime(value: string): number | null {
+  const match = /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * Input duration from the "Duration: 00:00:10.00, start: ..." header line
+ */
+export function parseFfmpegDuration(line: string): number | null {
+  const match = /Duration:\s*([\d:.]+)/.exec(line);
+  return match ? parseFfmpegTime(match[1]) : null;
+}
+
+/**
+ * Encoded time from a "frame=... time=00:00:05.12 ..." status line
+ */
+export function parseFfmpegProgressTime(line: string): number | null {
+  const match = /time=\s*([\d:.]+)/.exec(line);
+  return match ? parseFfmpegTime(match[1]) : null;
+}
+
+/**
+ * Fraction (0-1) of the input that has been processed
+ */
+export function getProgressFraction(encodedSeconds: number, durationSeconds: number | null): number {
+  if (!durationSeconds || durationSeconds <= 0 || !Number.isFinite(durationSeconds)) {
+    return 0;
+  }
+  return Math.max(0, Math.min(1, encodedSeconds / durationSeconds));
+}
@@ -0,0 +1,374 @@
+/**
+ * Animated GIF encoder
+ *
+ * Each frame gets its own 256-colour palette from median-cut quantization,
+ * is optionally Floyd-Steinberg dithered against it and is then LZW
+ * compressed into a GIF89a stream with a NETSCAPE2.0 loop extension.
+ */
+
+import { EXPORT_CONSTANTS, ExportError, ExportErrorCode } from './types';
+
+export interface GifEncoderOptions {
+  loopCount?: number; // Total number of plays, 0 = loop forever
+}
+
+export interface GifFrameOptions {
+  dither?: boolean;
+}
+
+const MAX_CODE = 4096;
+const HISTOGRAM_SIZE = 1 << 15; // 5 bits per channel
+
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+interface ColorBox {
+  keys: number[];
+  count: number;
+  channel: number; // Channel with the widest range
+  range: number;
+}
+
+const channelValue = (key: number, channel: number) => (key >> (10 - channel * 5)) & 0x1f;
+
+function createBox(keys: number[], counts: Uint32Array): ColorBox {
+  const min = [31, 31, 31];
+  const max = [0, 0, 0];
+  let count = 0;
+  for (const key of keys) {
+    count += counts[key];
+    for (let c = 0; c < 3; c++) {
+      const value = channelValue(key, c);
+      min[c] = Math.min(min[c], value);
+      max[c] = Math.max(max[c], value);
+    }
+  }
+  const ranges = max.map((value, c) => value - min[c]);
+  const channel = ranges.indexOf(Math.max(...ranges));
+  return { keys, count, channel, range: ranges[channel] };
+}
+
+/**
+ * Median-cut quantization of RGBA pixels into at most maxColors RGB entries
+ */
+export function quantizePalette(pixels: Uint8ClampedArray, maxColors: number = EXPORT_CONSTANTS.GIF_MAX_COLORS): Uint8Array {
+  const counts = new Uint32Array(HISTOGRAM_SIZE);
+  const sums = new Float64Array(HISTOGRAM_SIZE * 3);
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const key = colorKey(pixels[i], pixels[i + 1], pixels[i + 2]);
+    counts[key]++;
+    sums[key * 3] += pixels[i];
+    sums[key * 3 + 1] += pixels[i + 1];
+    sums[key * 3 + 2] += pixels[i + 2];
+  }
+
+  const keys: number[] = [];
+  for (let key = 0; key < HISTOGRAM_SIZE; key++) {
+    if (counts[key] > 0) {
+      keys.push(key);
+    }
+  }
+  if (keys.length === 0) {
+    return new Uint8Array(3);
+  }
+
+  const boxes: ColorBox[] = [createBox(keys, counts)];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range, weighted by pixel count
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      const score = box.keys.length > 1 ? box.range * Math.sqrt(box.count) : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        target = index;
+      }
+    });
+
+    if (target === -1) {
+      break;
+    }
+
+    const box = boxes[target];
+    box.keys.sort((a, b) => channelValue(a, box.channel) - channelValue(b, box.channel));
+
+    // Cut at the pixel-weighted median, leaving at least one key on each side
+    let seen = 0;
+    let split = 1;
+    for (; split < box.keys.length - 1; split++) {
+      seen += counts[box.keys[split - 1]];
+      if (seen >= box.count / 2) {
+        break;
+      }
+    }
+
+    boxes.splice(
+      target,
+      1,
+      createBox(box.keys.slice(0, split), counts),
+      createBox(box.keys.slice(split), counts)
+    );
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const key of box.keys) {
+      r += sums[key * 3];
+      g += sums[key * 3 + 1];
+      b += sums[key * 3 + 2];
+    }
+    palette[index * 3] = Math.round(r / box.count);
+    palette[index * 3 + 1] = Math.round(g / box.count);
+    palette[index * 3 + 2] = Math.round(b / box.count);
+  });
+  return palette;
+}
+
+/**
+ * Map RGBA pixels to palette indices, optionally diffusing the error
+ * with Floyd-Steinberg dithering
+ */
+export function mapToPalette(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  dither = true
+): Uint8Array {
+  const indices = new Uint8Array(width * height);
+  const colorCount = palette.length / 3;
+  const cache = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+
+  const nearest = (r: number, g: number, b: number) => {
+    const key = colorKey(r, g, b);
+    if (cache[key] !== -1) {
+      return cache[key];
+    }
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colorCount; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+
+  if (!dither) {
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = nearest(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+    }
+    return indices;
+  }
+
+  const buffer = new Float32Array(width * height * 3);
+  for (let i = 0; i < indices.length; i++) {
+    buffer[i * 3] = pixels[i * 4];
+    buffer[i * 3 + 1] = pixels[i * 4 + 1];
+    buffer[i * 3 + 2] = pixels[i * 4 + 2];
+  }
+
+  const spread = (x: number, y: number, error: number[], weight: number) => {
+    if (x < 0 || x >= width || y >= height) {
+      return;
+    }
+    const offset = (y * width + x) * 3;
+    buffer[offset] += error[0] * weight;
+    buffer[offset + 1] += error[1] * weight;
+    buffer[offset + 2] += error[2] * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const r = Math.max(0, Math.min(255, Math.round(buffer[pixel * 3])));
+      const g = Math.max(0, Math.min(255, Math.round(buffer[pixel * 3 + 1])));
+      const b = Math.max(0, Math.min(255, Math.round(buffer[pixel * 3 + 2])));
+      const index = nearest(r, g, b);
+      indices[pixel] = index;
+
+      const error = [r - palette[index * 3], g - palette[index * 3 + 1], b - palette[index * 3 + 2]];
+      spread(x + 1, y, error, 7 / 16);
+      spread(x - 1, y + 1, error, 3 / 16);
+      spread(x, y + 1, error, 5 / 16);
+      spread(x + 1, y + 1, error, 1 / 16);
+    }
+  }
+  return indices;
+}
+
+/**
+ * GIF-flavoured LZW compression, packed LSB-first into 255-byte sub-blocks
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const output: number[] = [minCodeSize];
+  const block: number[] = [];
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    output.push(block.length, ...block);
+    block.length = 0;
+  };
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) {
+        flushBlock();
+      }
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+
+  if (indices.length > 0) {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const value = indices[i];
+      const key = prefix * 256 + value;
+      const existing = dictionary.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+
+      emit(prefix);
+      if (nextCode === MAX_CODE) {
+        // Table full: start over so the decoder stays in sync
+        emit(clearCode);
+        dictionary = new Map();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) {
+          codeSize++;
+        }
+        dictionary.set(key, nextCode++);
+      }
+      prefix = value;
+    }
+    emit(prefix);
+  }
+
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+  }
+  if (block.length > 0) {
+    flushBlock();
+  }
+  output.push(0); // Block terminator
+  return new Uint8Array(output);
+}
+
+/**
+ * Streams frames into a GIF89a file
+ */
+export class GifEncoder {
+  private parts: Uint8Array[] = [];
+  private frameCount = 0;
+
+  constructor(
+    private width: number,
+    private height: number,
+    options: GifEncoderOptions = {}
+  ) {
+    if (width < 1 || height < 1 || width > 0xffff || height > 0xffff) {
+      throw new ExportError(`Invalid GIF size ${width}x${height}`, ExportErrorCode.INVALID_FRAME);
+    }
+
+    const { loopCount = 0 } = options;
+    const header = [
+      ...Array.from('GIF89a', char => char.charCodeAt(0)),
+      width & 0xff, width >> 8,
+      height & 0xff, height >> 8,
+      0x00, // No global color table; every frame carries its own
+      0x00, // Background color index
+      0x00 // Pixel aspect ratio
+    ];
+
+    // Without the NETSCAPE extension a GIF plays exactly once
+    if (loopCount !== 1) {
+      const repeats = loopCount === 0 ? 0 : loopCount - 1;
+      header.push(
+        0x21, 0xff, 0x0b,
+        ...Array.from('NETSCAPE2.0', char => char.charCodeAt(0)),
+        0x03, 0x01, repeats & 0xff, (repeats >> 8) & 0xff,
+        0x00
+      );
+    }
+
+    this.parts.push(new Uint8Array(header));
+  }
+
+  addFrame(imageData: ImageData, delayMs: number, options: GifFrameOptions = {}): void {
+    if (imageData.width !== this.width || imageData.height !== this.height) {
+      throw new ExportError(
+        `Frame size ${imageData.width}x${imageData.height} does not match GIF size ${this.width}x${this.height}`,
+        ExportErrorCode.INVALID_FRAME
+      );
+    }
+
+    const palette = quantizePalette(imageData.data);
+    const indices = mapToPalette(imageData.data, this.width, this.height, palette, options.dither ?? true);
+
+    // Color tables hold a power-of-two number of entries, at least two
+    const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+    const table = new Uint8Array(3 * (1 << tableBits));
+    table.set(palette);
+
+    // GIF delays are in hundredths of a second
+    const delay = Math.max(0, Math.min(0xffff, Math.round(delayMs / 10)));
+
+    this.parts.push(
+      new Uint8Array([
+        // Graphic control extension: keep the previous frame, no transparency
+        0x21, 0xf9, 0x04, 0x04, delay & 0xff, delay >> 8, 0x00, 0x00,
+        // Image descriptor with a local color table
+        0x2c, 0, 0, 0, 0,
+        this.width & 0xff, this.width >> 8,
+        this.height & 0xff, this.height >> 8,
+        0x80 | (tableBits - 1)
+      ]),
+      table,
+      lzwEncode(indices, Math.max(2, tableBits))
+    );
+    this.frameCount++;
+  }
+
+  finish(): Uint8Array {
+    if (this.frameCount === 0) {
+      throw new ExportError('Cannot create an animation without frames', ExportErrorCode.INVALID_FRAME);
+    }
+
+    const parts = [...this.parts, new Uint8Array([0x3b])];
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+}
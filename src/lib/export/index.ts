@@ -0,0 +1,11 @@
+// Export pipeline exports
+export * from './types';
+export * from './ffmpegProgress';
+export { Mp4Transcoder, mp4Transcoder } from './Mp4Transcoder';
+export * from './webpMuxer';
+export * from './gifEncoder';
+export { readBlob } from './readBlob';
+export * from './videoElement';
+export * from './chapters';
+export { addMp4Chapters } from './mp4Chapters';
+export { addWebMChapters } from './webmChapters';
@@ -0,0 +1,191 @@
+/**
+ * MP4 chapter writer
+ *
+ * Adds a Nero-style chapter list (moov/udta/chpl), which VLC, mpv and ffmpeg
+ * based players read. Growing moov shifts everything after it, so when moov
+ * comes before the media data the absolute offsets in stco/co64 and explicit
+ * tfhd base offsets are moved along with it.
+ */
+
+import { EXPORT_CONSTANTS, ExportError, ExportErrorCode, type Chapter } from './types';
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+// Boxes whose children may hold chunk offsets
+const CONTAINER_TYPES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'moof', 'traf']);
+const TFHD_BASE_DATA_OFFSET_PRESENT = 0x000001;
+// chpl times are in 100 ns units
+const CHPL_UNITS_PER_MS = 10000;
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const readUint64 = (bytes: Uint8Array, offset: number) =>
+  readUint32(bytes, offset) * 0x100000000 + readUint32(bytes, offset + 4);
+
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+}
+
+function writeUint64(target: Uint8Array, offset: number, value: number): void {
+  writeUint32(target, offset, Math.floor(value / 0x100000000));
+  writeUint32(target, offset + 4, value % 0x100000000);
+}
+
+function invalidContainer(reason: string): ExportError {
+  return new ExportError(`Invalid MP4 file: ${reason}`, ExportErrorCode.INVALID_CONTAINER);
+}
+
+function readBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32(bytes, offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint64(bytes, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end of its parent
+    }
+    if (size < headerSize || offset + size > end) {
+      throw invalidContainer(`box at ${offset} overruns its parent`);
+    }
+
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    boxes.push({ type, start: offset, headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+const children = (bytes: Uint8Array, box: Box) => readBoxes(bytes, box.start + box.headerSize, box.end);
+
+function box(type: string, payload: Uint8Array): Uint8Array {
+  const output = new Uint8Array(8 + payload.length);
+  writeUint32(output, 0, output.length);
+  output.set(new TextEncoder().encode(type), 4);
+  output.set(payload, 8);
+  return output;
+}
+
+function growBox(bytes: Uint8Array, target: Box, delta: number): void {
+  if (target.headerSize === 16) {
+    writeUint64(bytes, target.start + 8, target.end - target.start + delta);
+  } else {
+    writeUint32(bytes, target.start, target.end - target.start + delta);
+  }
+}
+
+/**
+ * UTF-8 title cut to the byte limit without splitting a character
+ */
+function encodeTitle(title: string): Uint8Array {
+  const encoder = new TextEncoder();
+  let encoded = encoder.encode(title);
+  let characters = Array.from(title);
+  while (encoded.length > EXPORT_CONSTANTS.MP4_MAX_CHAPTER_TITLE_BYTES) {
+    characters = characters.slice(0, -1);
+    encoded = encoder.encode(characters.join(''));
+  }
+  return encoded;
+}
+
+export function createChplBox(chapters: Chapter[]): Uint8Array {
+  const entries = chapters.slice(0, EXPORT_CONSTANTS.MP4_MAX_CHAPTERS).map(chapter => {
+    const title = encodeTitle(chapter.title);
+    const entry = new Uint8Array(9 + title.length);
+    writeUint64(entry, 0, Math.round(chapter.startMs * CHPL_UNITS_PER_MS));
+    entry[8] = title.length;
+    entry.set(title, 9);
+    return entry;
+  });
+
+  // Version 1, no flags, a reserved word and the chapter count
+  const payload = new Uint8Array(9 + entries.reduce((total, entry) => total + entry.length, 0));
+  payload[0] = 1;
+  payload[8] = entries.length;
+  let offset = 9;
+  for (const entry of entries) {
+    payload.set(entry, offset);
+    offset += entry.length;
+  }
+  return box('chpl', payload);
+}
+
+/**
+ * Move absolute file offsets at or past `from` by `delta`
+ */
+function shiftOffsets(bytes: Uint8Array, boxes: Box[], from: number, delta: number): void {
+  for (const current of boxes) {
+    const body = current.start + current.headerSize;
+    if (current.type === 'stco' || current.type === 'co64') {
+      const wide = current.type === 'co64';
+      const count = readUint32(bytes, body + 4);
+      for (let index = 0; index < count; index++) {
+        const offset = body + 8 + index * (wide ? 8 : 4);
+        const value = wide ? readUint64(bytes, offset) : readUint32(bytes, offset);
+        if (value < from) continue;
+        if (wide) {
+          writeUint64(bytes, offset, value + delta);
+        } else if (value + delta > 0xffffffff) {
+          throw invalidContainer('chunk offsets no longer fit in stco');
+        } else {
+          writeUint32(bytes, offset, value + delta);
+        }
+      }
+    } else if (current.type === 'tfhd') {
+      const flags = readUint32(bytes, body) & 0xffffff;
+      const offset = body + 8; // After version/flags and track ID
+      if ((flags & TFHD_BASE_DATA_OFFSET_PRESENT) && readUint64(bytes, offset) >= from) {
+        writeUint64(bytes, offset, readUint64(bytes, offset) + delta);
+      }
+    } else if (CONTAINER_TYPES.has(current.type)) {
+      shiftOffsets(bytes, children(bytes, current), from, delta);
+    }
+  }
+}
+
+/**
+ * Add a chapter list to an MP4 file. Files that already carry one are
+ * returned unchanged.
+ */
+export function addMp4Chapters(bytes: Uint8Array, chapters: Chapter[]): Uint8Array {
+  if (chapters.length === 0) {
+    return bytes;
+  }
+
+  const moov = readBoxes(bytes, 0, bytes.length).find(candidate => candidate.type === 'moov');
+  if (!moov) {
+    throw invalidContainer('no moov box');
+  }
+  const udta = children(bytes, moov).find(candidate => candidate.type === 'udta');
+  if (udta && children(bytes, udta).some(candidate => candidate.type === 'chpl')) {
+    return bytes;
+  }
+
+  const chpl = createChplBox(chapters);
+  const inserted = udta ? chpl : box('udta', chpl);
+  const insertAt = udta ? udta.end : moov.end;
+  const delta = inserted.length;
+
+  const output = new Uint8Array(bytes.length + delta);
+  output.set(bytes.subarray(0, insertAt), 0);
+  output.set(inserted, insertAt);
+  output.set(bytes.subarray(insertAt), insertAt + delta);
+  growBox(output, moov, delta);
+  if (udta) {
+    growBox(output, udta, delta);
+  }
+
+  shiftOffsets(output, readBoxes(output, 0, output.length), insertAt, delta);
+  return output;
+}
@@ -0,0 +1,13 @@
+/**
+ * Read a Blob into an ArrayBuffer
+ * FileReader is used rather than Blob.arrayBuffer() so the same code path
+ * works in older Safari and in jsdom-based tests.
+ */
+export function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read blob'));
+    reader.readAsArrayBuffer(blob);
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Core types for in-browser export pipelines (transcoding, animated images)
+ */
+
+// Error types for better error handling
+export class ExportError extends Error {
+  constructor(
+    message: string,
+    public code: ExportErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+export enum ExportErrorCode {
+  CANCELLED = 'CANCELLED',
+  UNSUPPORTED_INPUT = 'UNSUPPORTED_INPUT',
+  TRANSCODE_FAILED = 'TRANSCODE_FAILED',
+  WORKER_FAILED = 'WORKER_FAILED',
+  UNSUPPORTED_OUTPUT = 'UNSUPPORTED_OUTPUT',
+  INVALID_FRAME = 'INVALID_FRAME',
+  INVALID_CONTAINER = 'INVALID_CONTAINER'
+}
+
+export interface ExportProgress {
+  progress: number; // 0-100
+  stage: string;
+}
+
+export interface TranscodeOptions {
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+  // MediaRecorder WebM files carry no duration, so callers that know it
+  // (e.g. from the recording timer) should pass it for accurate progress
+  durationSeconds?: number;
+}
+
+// Anything with a time and a label that starts a section, e.g. a recording marker
+export interface ChapterMarker {
+  timeMs: number;
+  label: string;
+}
+
+// A titled section of a recording, written to chapter tracks and sidecars
+export interface Chapter {
+  startMs: number;
+  endMs: number;
+  title: string;
+}
+
+export const EXPORT_CONSTANTS = {
+  MP4_VIDEO_PRESET: 'veryfast',
+  MP4_AUDIO_BITRATE: '128k',
+  // Progress range reserved for the encoder itself; the rest covers loading and muxing
+  TRANSCODE_PROGRESS_START: 10,
+  TRANSCODE_PROGRESS_END: 95,
+  // Animated image export
+  ANIMATION_DEFAULT_FPS: 10,
+  WEBP_FRAME_QUALITY: 0.8,
+  WEBP_MAX_DIMENSION: 16383,
+  WEBP_MAX_FRAME_DURATION: 0xffffff, // ms, 24-bit field
+  GIF_MAX_COLORS: 256,
+  // Chapters
+  CHAPTER_START_TITLE: 'Start', // Covers the time before the first marker
+  CHAPTER_LANGUAGE: 'eng',
+  MP4_MAX_CHAPTERS: 255, // Count and title lengths are single bytes in the chpl atom
+  MP4_MAX_CHAPTER_TITLE_BYTES: 255
+} as const;
+
+// Messages exchanged with the transcoding worker
+export interface TranscodeWorkerMessage {
+  id: string;
+  type: 'TRANSCODE';
+  data: {
+    input: ArrayBuffer;
+    inputName: string;
+    outputName: string;
+    arguments: string[];
+    durationSeconds?: number;
+  };
+}
+
+export interface TranscodeWorkerResponse {
+  id: string;
+  type: 'PROGRESS' | 'SUCCESS' | 'ERROR';
+  data:
+    | { fraction: number; encodedSeconds: number }
+    | { output: ArrayBuffer }
+    | { message: string; code: ExportErrorCode };
+}
@@ -0,0 +1,73 @@
+/**
+ * Helpers for driving a detached <video> element over a recorded Blob
+ */
+
+/**
+ * Seek and wait for the frame at the new position to be available
+ */
+export function seekTo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Failed to seek video'));
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Work out the real duration of a loaded video.
+ * MediaRecorder WebM files have no duration in their header; seeking past
+ * the end makes the browser scan the file and fill it in.
+ */
+export async function resolveDuration(video: HTMLVideoElement, durationHint?: number): Promise<number> {
+  let duration = video.duration;
+  if (!Number.isFinite(duration)) {
+    if (durationHint && durationHint > 0) {
+      duration = durationHint;
+    } else {
+      await seekTo(video, Number.MAX_SAFE_INTEGER);
+      duration = video.duration;
+      await seekTo(video, 0);
+    }
+  }
+
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error('Could not determine video duration');
+  }
+  return duration;
+}
+
+/**
+ * Load a recording into a detached video element.
+ * Call release() when done to free the object URL.
+ */
+export async function loadVideo(
+  blob: Blob,
+  durationHint?: number
+): Promise<{ video: HTMLVideoElement; duration: number; release: () => void }> {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(blob);
+  const release = () => {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  };
+
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('Failed to load video'));
+      video.src = url;
+    });
+
+    const duration = await resolveDuration(video, durationHint);
+    return { video, duration, release };
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * WebM chapter writer
+ *
+ * Inserts a Matroska Chapters element (one edition, one ChapterAtom per
+ * chapter) in front of the first Cluster, where demuxers read it while
+ * parsing the header. Segment-relative positions in SeekHead and Cues that
+ * point past the insertion are shifted to match. MediaRecorder output has an
+ * unknown-size Segment and no index, so usually only the insert is needed.
+ */
+
+import { EXPORT_CONSTANTS, ExportError, ExportErrorCode, type Chapter } from './types';
+
+interface Element {
+  id: number;
+  start: number;
+  dataStart: number;
+  size: number | null; // null when the writer left the size unknown
+}
+
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const CLUSTER_ID = 0x1f43b675;
+const SEEK_HEAD_ID = 0x114d9b74;
+const SEEK_ID = 0x4dbb;
+const SEEK_POSITION_ID = 0x53ac;
+const CUES_ID = 0x1c53bb6b;
+const CUE_POINT_ID = 0xbb;
+const CUE_TRACK_POSITIONS_ID = 0xb7;
+const CUE_CLUSTER_POSITION_ID = 0xf1;
+const CHAPTERS_ID = 0x1043a770;
+const EDITION_ENTRY_ID = 0x45b9;
+const EDITION_UID_ID = 0x45bc;
+const EDITION_FLAG_DEFAULT_ID = 0x45db;
+const CHAPTER_ATOM_ID = 0xb6;
+const CHAPTER_UID_ID = 0x73c4;
+const CHAPTER_TIME_START_ID = 0x91;
+const CHAPTER_TIME_END_ID = 0x92;
+const CHAPTER_DISPLAY_ID = 0x80;
+const CHAP_STRING_ID = 0x85;
+const CHAP_LANGUAGE_ID = 0x437c;
+
+const NANOSECONDS_PER_MS = 1000000;
+
+function invalidContainer(reason: string): ExportError {
+  return new ExportError(`Invalid WebM file: ${reason}`, ExportErrorCode.INVALID_CONTAINER);
+}
+
+/**
+ * Length of the variable-size integer starting at offset, from its leading zeros
+ */
+function vintLength(bytes: Uint8Array, offset: number): number {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) {
+    throw invalidContainer(`bad variable-size integer at ${offset}`);
+  }
+  return 8 - Math.floor(Math.log2(first));
+}
+
+function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let index = 0; index < length; index++) {
+    value = value * 256 + bytes[offset + index];
+  }
+  return value;
+}
+
+function readElement(bytes: Uint8Array, offset: number): Element {
+  const idLength = vintLength(bytes, offset);
+  const id = readUint(bytes, offset, idLength);
+  const sizeStart = offset + idLength;
+  const sizeLength = vintLength(bytes, sizeStart);
+  const dataStart = sizeStart + sizeLength;
+
+  // Drop the length marker bit; all remaining bits set means unknown
+  const sizeBytes = [bytes[sizeStart] & (0xff >> sizeLength), ...bytes.subarray(sizeStart + 1, dataStart)];
+  const unknown = sizeBytes[0] === 0xff >> sizeLength && sizeBytes.slice(1).every(byte => byte === 0xff);
+  const size = sizeBytes.reduce((value, byte) => value * 256 + byte, 0);
+  return { id, start: offset, dataStart, size: unknown ? null : size };
+}
+
+function readChildren(bytes: Uint8Array, start: number, end: number): Element[] {
+  const elements: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const element = readElement(bytes, offset);
+    elements.push(element);
+    if (element.size === null) {
+      break; // Its end can only be found by parsing its content
+    }
+    offset = element.dataStart + element.size;
+  }
+  return elements;
+}
+
+function writeUint(target: Uint8Array, offset: number, length: number, value: number): void {
+  for (let index = length - 1; index >= 0; index--) {
+    target[offset + index] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  if (value > 0) {
+    throw invalidContainer('a shifted position no longer fits its field');
+  }
+}
+
+/**
+ * Rewrite an element's size in place, keeping the width of the size field
+ */
+function writeSize(target: Uint8Array, { start, dataStart }: Element, size: number): void {
+  const sizeStart = start + vintLength(target, start);
+  const length = dataStart - sizeStart;
+  if (size >= 2 ** (7 * length) - 1) {
+    throw invalidContainer('the Segment size no longer fits its field');
+  }
+  writeUint(target, sizeStart, length, size);
+  target[sizeStart] |= 0x80 >> (length - 1);
+}
+
+function encodeUint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+}
+
+function encodeSize(size: number): Uint8Array {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) {
+    length++;
+  }
+  const output = new Uint8Array(length);
+  writeUint(output, 0, length, size);
+  output[0] |= 0x80 >> (length - 1);
+  return output;
+}
+
+function element(id: number, ...children: Uint8Array[]): Uint8Array {
+  const idBytes = encodeUint(id);
+  const dataLength = children.reduce((total, child) => total + child.length, 0);
+  const sizeBytes = encodeSize(dataLength);
+  const output = new Uint8Array(idBytes.length + sizeBytes.length + dataLength);
+  output.set(idBytes, 0);
+  output.set(sizeBytes, idBytes.length);
+  let offset = idBytes.length + sizeBytes.length;
+  for (const child of children) {
+    output.set(child, offset);
+    offset += child.length;
+  }
+  return output;
+}
+
+const uintElement = (id: number, value: number) => element(id, encodeUint(value));
+const stringElement = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+export function createChaptersElement(chapters: Chapter[]): Uint8Array {
+  const atoms = chapters.map((chapter, index) => element(
+    CHAPTER_ATOM_ID,
+    uintElement(CHAPTER_UID_ID, index + 1),
+    uintElement(CHAPTER_TIME_START_ID, Math.round(chapter.startMs * NANOSECONDS_PER_MS)),
+    uintElement(CHAPTER_TIME_END_ID, Math.round(chapter.endMs * NANOSECONDS_PER_MS)),
+    element(
+      CHAPTER_DISPLAY_ID,
+      stringElement(CHAP_STRING_ID, chapter.title),
+      stringElement(CHAP_LANGUAGE_ID, EXPORT_CONSTANTS.CHAPTER_LANGUAGE)
+    )
+  ));
+
+  return element(
+    CHAPTERS_ID,
+    element(EDITION_ENTRY_ID, uintElement(EDITION_UID_ID, 1), uintElement(EDITION_FLAG_DEFAULT_ID, 1), ...atoms)
+  );
+}
+
+/**
+ * Shift every position field with the given path of element IDs inside parent
+ */
+function shiftPositions(
+  bytes: Uint8Array,
+  parent: Element,
+  path: number[],
+  from: number,
+  delta: number
+): void {
+  if (parent.size === null) return;
+  const [id, ...rest] = path;
+  for (const child of readChildren(bytes, parent.dataStart, parent.dataStart + parent.size)) {
+    if (child.id !== id || child.size === null) continue;
+    if (rest.length > 0) {
+      shiftPositions(bytes, child, rest, from, delta);
+    } else {
+      const position = readUint(bytes, child.dataStart, child.size);
+      if (position >= from) {
+        writeUint(bytes, child.dataStart, child.size, position + delta);
+      }
+    }
+  }
+}
+
+/**
+ * Add chapters to a WebM file. Files that already carry chapters are
+ * returned unchanged.
+ */
+export function addWebMChapters(bytes: Uint8Array, chapters: Chapter[]): Uint8Array {
+  if (chapters.length === 0) {
+    return bytes;
+  }
+
+  const header = readElement(bytes, 0);
+  if (header.id !== EBML_ID || header.size === null) {
+    throw invalidContainer('missing EBML header');
+  }
+  const segment = readElement(bytes, header.dataStart + header.size);
+  if (segment.id !== SEGMENT_ID) {
+    throw invalidContainer('missing Segment');
+  }
+
+  const segmentEnd = segment.size === null ? bytes.length : segment.dataStart + segment.size;
+  const topLevel = readChildren(bytes, segment.dataStart, segmentEnd);
+  if (topLevel.some(child => child.id === CHAPTERS_ID)) {
+    return bytes;
+  }
+
+  const inserted = createChaptersElement(chapters);
+  const insertAt = topLevel.find(child => child.id === CLUSTER_ID)?.start ?? segmentEnd;
+  const delta = inserted.length;
+
+  const output = new Uint8Array(bytes.length + delta);
+  output.set(bytes.subarray(0, insertAt), 0);
+  output.set(inserted, insertAt);
+  output.set(bytes.subarray(insertAt), insertAt + delta);
+
+  if (segment.size !== null) {
+    writeSize(output, segment, segment.size + delta);
+  }
+
+  // Positions are relative to the start of the Segment's data
+  const from = insertAt - segment.dataStart;
+  for (const child of readChildren(output, segment.dataStart, segment.size === null ? output.length : segmentEnd + delta)) {
+    if (child.id === SEEK_HEAD_ID) {
+      shiftPositions(output, child, [SEEK_ID, SEEK_POSITION_ID], from, delta);
+    } else if (child.id === CUES_ID) {
+      shiftPositions(output, child, [CUE_POINT_ID, CUE_TRACK_POSITIONS_ID, CUE_CLUSTER_POSITION_ID], from, delta);
+    }
+  }
+  return output;
+}
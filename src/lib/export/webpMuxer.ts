@@ -0,0 +1,212 @@
+/**
+ * Animated WebP muxer
+ *
+ * Browsers can only encode still WebP images, so each frame is encoded with
+ * the canvas and the resulting bitstreams are stitched into a RIFF container
+ * with VP8X, ANIM and one ANMF chunk per frame, as described in the WebP
+ * container specification.
+ */
+
+import { EXPORT_CONSTANTS, ExportError, ExportErrorCode } from './types';
+
+export interface WebPImage {
+  width: number;
+  height: number;
+  hasAlpha: boolean;
+  // Raw ALPH/VP8/VP8L chunks (headers included) that make up the image
+  chunks: Uint8Array;
+}
+
+export interface AnimatedWebPFrame {
+  image: WebPImage;
+  duration: number; // milliseconds
+}
+
+export interface AnimatedWebPOptions {
+  loopCount?: number; // 0 = loop forever
+  backgroundColor?: number; // 0xAARRGGBB
+}
+
+const VP8X_FLAG_ANIMATION = 0x02;
+const VP8X_FLAG_ALPHA = 0x10;
+const ANMF_FLAG_NO_BLEND = 0x02;
+
+const ascii = (value: string) => new TextEncoder().encode(value);
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+function writeUint24(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  writeUint24(target, offset, value);
+  target[offset + 3] = (value >>> 24) & 0xff;
+}
+
+/**
+ * Build a RIFF chunk, padding the payload to an even length
+ */
+function createChunk(id: string, payload: Uint8Array): Uint8Array {
+  const padded = payload.length + (payload.length & 1);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(ascii(id), 0);
+  writeUint32(chunk, 4, payload.length);
+  chunk.set(payload, 8);
+  return chunk;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function invalidFrame(reason: string): ExportError {
+  return new ExportError(`Invalid WebP frame: ${reason}`, ExportErrorCode.INVALID_FRAME);
+}
+
+/**
+ * Read the dimensions from a VP8 (lossy) or VP8L (lossless) bitstream
+ */
+function readBitstreamSize(id: string, payload: Uint8Array): { width: number; height: number } {
+  if (id === 'VP8 ') {
+    if (payload.length < 10 || payload[3] !== 0x9d || payload[4] !== 0x01 || payload[5] !== 0x2a) {
+      throw invalidFrame('missing VP8 start code');
+    }
+    return {
+      width: (payload[6] | (payload[7] << 8)) & 0x3fff,
+      height: (payload[8] | (payload[9] << 8)) & 0x3fff
+    };
+  }
+
+  if (payload.length < 5 || payload[0] !== 0x2f) {
+    throw invalidFrame('missing VP8L signature');
+  }
+  const bits = readUint32(payload, 1);
+  return {
+    width: (bits & 0x3fff) + 1,
+    height: ((bits >>> 14) & 0x3fff) + 1
+  };
+}
+
+/**
+ * Parse a still WebP file into the chunks needed for an animation frame
+ */
+export function parseWebPImage(data: Uint8Array): WebPImage {
+  if (data.length < 20 || fourCC(data, 0) !== 'RIFF' || fourCC(data, 8) !== 'WEBP') {
+    throw invalidFrame('not a RIFF/WEBP file');
+  }
+
+  const end = Math.min(data.length, 8 + readUint32(data, 4));
+  const imageChunks: Uint8Array[] = [];
+  let size: { width: number; height: number } | null = null;
+  let hasAlpha = false;
+  let offset = 12;
+
+  while (offset + 8 <= end) {
+    const id = fourCC(data, offset);
+    const length = readUint32(data, offset + 4);
+    const payloadEnd = offset + 8 + length;
+    if (payloadEnd > end) {
+      throw invalidFrame(`truncated ${id.trim()} chunk`);
+    }
+    const payload = data.subarray(offset + 8, payloadEnd);
+    const chunkEnd = Math.min(payloadEnd + (length & 1), end);
+
+    if (id === 'ALPH') {
+      hasAlpha = true;
+      imageChunks.push(data.subarray(offset, chunkEnd));
+    } else if (id === 'VP8 ' || id === 'VP8L') {
+      size = readBitstreamSize(id, payload);
+      // Lossless images carry their own alpha; the header bit says whether it is used
+      if (id === 'VP8L' && (payload[4] & 0x10)) {
+        hasAlpha = true;
+      }
+      imageChunks.push(data.subarray(offset, chunkEnd));
+    } else if (id === 'ANIM' || id === 'ANMF') {
+      throw invalidFrame('frame is already animated');
+    }
+    // VP8X, ICCP, EXIF and XMP carry nothing an animation frame needs
+
+    offset = payloadEnd + (length & 1);
+  }
+
+  if (!size) {
+    throw invalidFrame('no VP8 or VP8L bitstream');
+  }
+
+  const chunks = concat(imageChunks.map(chunk =>
+    // Re-pad chunks whose padding byte was cut off at the end of the file
+    chunk.length % 2 === 0 ? chunk : concat([chunk, new Uint8Array(1)])
+  ));
+
+  return { ...size, hasAlpha, chunks };
+}
+
+/**
+ * Stitch still frames into an animated WebP file
+ */
+export function muxAnimatedWebP(frames: AnimatedWebPFrame[], options: AnimatedWebPOptions = {}): Uint8Array {
+  if (frames.length === 0) {
+    throw new ExportError('Cannot create an animation without frames', ExportErrorCode.INVALID_FRAME);
+  }
+
+  const { loopCount = 0, backgroundColor = 0 } = options;
+  const canvasWidth = Math.max(...frames.map(frame => frame.image.width));
+  const canvasHeight = Math.max(...frames.map(frame => frame.image.height));
+  const hasAlpha = frames.some(frame => frame.image.hasAlpha);
+
+  if (canvasWidth > EXPORT_CONSTANTS.WEBP_MAX_DIMENSION || canvasHeight > EXPORT_CONSTANTS.WEBP_MAX_DIMENSION) {
+    throw new ExportError(
+      `WebP frames cannot exceed ${EXPORT_CONSTANTS.WEBP_MAX_DIMENSION}px`,
+      ExportErrorCode.INVALID_FRAME
+    );
+  }
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = VP8X_FLAG_ANIMATION | (hasAlpha ? VP8X_FLAG_ALPHA : 0);
+  writeUint24(vp8x, 4, canvasWidth - 1);
+  writeUint24(vp8x, 7, canvasHeight - 1);
+
+  const anim = new Uint8Array(6);
+  // Stored as BGRA byte order
+  anim[0] = backgroundColor & 0xff;
+  anim[1] = (backgroundColor >> 8) & 0xff;
+  anim[2] = (backgroundColor >> 16) & 0xff;
+  anim[3] = (backgroundColor >>> 24) & 0xff;
+  anim[4] = loopCount & 0xff;
+  anim[5] = (loopCount >> 8) & 0xff;
+
+  const anmfChunks = frames.map(({ image, duration }) => {
+    const header = new Uint8Array(16);
+    // Frames are drawn at the top-left corner; X/Y offsets stay zero
+    writeUint24(header, 6, image.width - 1);
+    writeUint24(header, 9, image.height - 1);
+    writeUint24(header, 12, Math.max(0, Math.min(EXPORT_CONSTANTS.WEBP_MAX_FRAME_DURATION, Math.round(duration))));
+    // Every frame is a full picture, so skip blending and leave disposal off
+    header[15] = ANMF_FLAG_NO_BLEND;
+    return createChunk('ANMF', concat([header, image.chunks]));
+  });
+
+  const body = concat([
+    ascii('WEBP'),
+    createChunk('VP8X', vp8x),
+    createChunk('ANIM', anim),
+    ...anmfChunks
+  ]);
+
+  const header = new Uint8Array(8);
+  header.set(ascii('RIFF'), 0);
+  writeUint32(header, 4, body.length);
+  return concat([header, body]);
+}
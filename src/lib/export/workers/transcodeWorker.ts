@@ -0,0 +1,83 @@
+/**
+ * Web Worker that runs the ffmpeg.js MP4 build off the main thread
+ * FFmpeg runs synchronously inside the worker, so progress is reported from
+ * its log output and cancellation is done by terminating the worker.
+ */
+
+import ffmpeg from 'ffmpeg.js/ffmpeg-mp4.js';
+import { ExportError, ExportErrorCode, type TranscodeWorkerMessage, type TranscodeWorkerResponse } from '../types';
+import { getProgressFraction, parseFfmpegDuration, parseFfmpegProgressTime } from '../ffmpegProgress';
+
+function transcode(id: string, data: TranscodeWorkerMessage['data']): ArrayBuffer {
+  let durationSeconds = data.durationSeconds ?? null;
+  const log: string[] = [];
+
+  const result = ffmpeg({
+    MEMFS: [{ name: data.inputName, data: new Uint8Array(data.input) }],
+    arguments: data.arguments,
+    print: () => {},
+    printErr: (line: string) => {
+      log.push(line);
+      if (log.length > 20) {
+        log.shift();
+      }
+
+      if (!durationSeconds) {
+        durationSeconds = parseFfmpegDuration(line);
+      }
+
+      const encodedSeconds = parseFfmpegProgressTime(line);
+      if (encodedSeconds !== null) {
+        const response: TranscodeWorkerResponse = {
+          id,
+          type: 'PROGRESS',
+          data: { fraction: getProgressFraction(encodedSeconds, durationSeconds), encodedSeconds }
+        };
+        self.postMessage(response);
+      }
+    }
+  });
+
+  const output = result.MEMFS.find(file => file.name === data.outputName);
+  if (!output || output.data.byteLength === 0) {
+    throw new ExportError(
+      `FFmpeg produced no output: ${log.slice(-3).join(' ').trim() || 'unknown error'}`,
+      ExportErrorCode.TRANSCODE_FAILED
+    );
+  }
+
+  // Copy into a standalone buffer so it can be transferred back
+  return output.data.slice().buffer;
+}
+
+// Message handler
+self.onmessage = (event: MessageEvent<TranscodeWorkerMessage>) => {
+  const { id, type, data } = event.data;
+
+  try {
+    if (type !== 'TRANSCODE') {
+      throw new Error(`Unknown message type: ${type}`);
+    }
+
+    const output = transcode(id, data);
+    const response: TranscodeWorkerResponse = {
+      id,
+      type: 'SUCCESS',
+      data: { output }
+    };
+
+    (self as unknown as Worker).postMessage(response, [output]);
+
+  } catch (error) {
+    const response: TranscodeWorkerResponse = {
+      id,
+      type: 'ERROR',
+      data: {
+        message: error instanceof Error ? error.message : String(error),
+        code: error instanceof ExportError ? error.code : ExportErrorCode.TRANSCODE_FAILED
+      }
+    };
+
+    self.postMessage(response);
+  }
+};
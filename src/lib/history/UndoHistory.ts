@@ -0,0 +1,147 @@
+/**
+ * UndoHistory - Command-based undo/redo stack
+ *
+ * Changes are pushed after they have been made; undo and redo run the
+ * command's callbacks. While a callback runs, isApplying is true so the
+ * state updates it causes are not recorded again as new changes.
+ */
+
+import { HISTORY_CONSTANTS, type HistoryCommand, type HistoryState } from './types';
+
+interface HistoryEntry {
+  command: HistoryCommand;
+  updatedAt: number;
+}
+
+export class UndoHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private listeners = new Set<() => void>();
+  private coalescing = true;
+  private applying = false;
+
+  constructor(
+    private maxEntries: number = HISTORY_CONSTANTS.MAX_ENTRIES,
+    private coalesceWindowMs: number = HISTORY_CONSTANTS.COALESCE_WINDOW_MS
+  ) {}
+
+  get isApplying(): boolean {
+    return this.applying;
+  }
+
+  push(command: HistoryCommand, now: number = Date.now()): void {
+    if (this.applying) {
+      return;
+    }
+
+    const top = this.undoStack[this.undoStack.length - 1];
+    if (
+      this.coalescing &&
+      top &&
+      command.coalesceKey !== undefined &&
+      top.command.coalesceKey === command.coalesceKey &&
+      now - top.updatedAt <= this.coalesceWindowMs
+    ) {
+      // Undo goes back to before the first change, redo to after the last
+      top.command = { ...command, undo: top.command.undo };
+      top.updatedAt = now;
+    } else {
+      this.undoStack.push({ command, updatedAt: now });
+      if (this.undoStack.length > this.maxEntries) {
+        this.undoStack.splice(0, this.undoStack.length - this.maxEntries);
+      }
+    }
+
+    this.coalescing = true;
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /**
+   * Finish the current gesture so the next change starts a new step, even
+   * with the same coalesce key
+   */
+  endCoalescing(): void {
+    this.coalescing = false;
+  }
+
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return false;
+    }
+    this.run(entry.command.undo);
+    this.redoStack.push(entry.command);
+    this.coalescing = false;
+    this.notify();
+    return true;
+  }
+
+  redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) {
+      return false;
+    }
+    this.run(command.redo);
+    this.undoStack.push({ command, updatedAt: 0 });
+    this.coalescing = false;
+    this.notify();
+    return true;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  getState(): HistoryState {
+    return {
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.command.label ?? null,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label ?? null
+    };
+  }
+
+  /**
+   * Listen for stack changes; returns an unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private run(callback: () => void): void {
+    this.applying = true;
+    try {
+      callback();
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Command that swaps a whole value between its before and after states
+ */
+export function createValueCommand<T>(
+  label: string,
+  before: T,
+  after: T,
+  apply: (value: T) => void,
+  coalesceKey?: string
+): HistoryCommand {
+  return {
+    label,
+    coalesceKey,
+    undo: () => apply(before),
+    redo: () => apply(after)
+  };
+}
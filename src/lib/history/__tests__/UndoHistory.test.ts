@@ -0,0 +1,116 @@
+/**
+ * Tests for the undo/redo stack
+ */
+
+import { describe, it, expect } from 'vitest';
+import { UndoHistory, createValueCommand } from '../UndoHistory';
+
+function createCounter() {
+  const state = { value: 0 };
+  const set = (value: number) => {
+    state.value = value;
+  };
+  const change = (history: UndoHistory, next: number, coalesceKey?: string, now = 0) => {
+    const before = state.value;
+    set(next);
+    history.push(createValueCommand(`Set ${next}`, before, next, set, coalesceKey), now);
+  };
+  return { state, change };
+}
+
+describe('UndoHistory', () => {
+  it('should undo and redo in order', () => {
+    const history = new UndoHistory();
+    const { state, change } = createCounter();
+    change(history, 1);
+    change(history, 2);
+
+    expect(history.undo()).toBe(true);
+    expect(state.value).toBe(1);
+    expect(history.undo()).toBe(true);
+    expect(state.value).toBe(0);
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(state.value).toBe(1);
+    expect(history.getState()).toMatchObject({ canUndo: true, canRedo: true, undoLabel: 'Set 1', redoLabel: 'Set 2' });
+  });
+
+  it('should drop the redo stack on a new change', () => {
+    const history = new UndoHistory();
+    const { change } = createCounter();
+    change(history, 1);
+    history.undo();
+    change(history, 5);
+
+    expect(history.getState().canRedo).toBe(false);
+  });
+
+  it('should coalesce changes with the same key inside the window', () => {
+    const history = new UndoHistory(100, 500);
+    const { state, change } = createCounter();
+    change(history, 1, 'drag', 0);
+    change(history, 2, 'drag', 300);
+    change(history, 3, 'drag', 600);
+
+    history.undo();
+    expect(state.value).toBe(0);
+    history.redo();
+    expect(state.value).toBe(3);
+  });
+
+  it('should start a new step after the window or a finished gesture', () => {
+    const history = new UndoHistory(100, 500);
+    const { state, change } = createCounter();
+    change(history, 1, 'drag', 0);
+    change(history, 2, 'drag', 2000);
+    history.endCoalescing();
+    change(history, 3, 'drag', 2100);
+
+    history.undo();
+    expect(state.value).toBe(2);
+    history.undo();
+    expect(state.value).toBe(1);
+  });
+
+  it('should keep only the newest entries', () => {
+    const history = new UndoHistory(3);
+    const { state, change } = createCounter();
+    [1, 2, 3, 4, 5].forEach(value => change(history, value));
+
+    while (history.undo()) {
+      // Undo everything that was kept
+    }
+    expect(state.value).toBe(2);
+  });
+
+  it('should not record changes made while undoing', () => {
+    const history = new UndoHistory();
+    let value = 0;
+    const set = (next: number) => {
+      value = next;
+      // A state setter that reports back into history, as React effects would
+      history.push(createValueCommand('echo', 0, next, () => {}));
+    };
+    set(1);
+    history.clear();
+    history.push(createValueCommand('Set 1', 0, 1, set));
+
+    history.undo();
+    expect(value).toBe(0);
+    expect(history.getState()).toMatchObject({ canUndo: false, canRedo: true });
+  });
+
+  it('should notify subscribers until they unsubscribe', () => {
+    const history = new UndoHistory();
+    const { change } = createCounter();
+    let calls = 0;
+    const unsubscribe = history.subscribe(() => calls++);
+
+    change(history, 1);
+    history.undo();
+    unsubscribe();
+    history.redo();
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,3 @@
+// Undo/redo exports
+export * from './types';
+export { UndoHistory, createValueCommand } from './UndoHistory';
@@ -0,0 +1,27 @@
+/**
+ * Core types for undo/redo of board and presenter changes
+ */
+
+/**
+ * One undoable change. Commands that share a coalesceKey and arrive in quick
+ * succession (a drag, typing into a note) merge into a single step.
+ */
+export interface HistoryCommand {
+  label: string;
+  coalesceKey?: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+export const HISTORY_CONSTANTS = {
+  MAX_ENTRIES: 100,
+  // Changes further apart than this start a new step even with the same key
+  COALESCE_WINDOW_MS: 1000
+} as const;
@@ -0,0 +1,156 @@
+/**
+ * RecordingLibrary - Keeps every finished take in IndexedDB
+ *
+ * Takes are stored whole (video, thumbnail and metadata in one record) so a
+ * presenter can record several attempts, compare them and export the best
+ * one later, even after a reload.
+ */
+
+import {
+  STORAGE_CONSTANTS,
+  isStorageAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone
+} from '../storage';
+import { createThumbnail } from './thumbnail';
+import {
+  LIBRARY_CONSTANTS,
+  LibraryError,
+  LibraryErrorCode,
+  type AddRecordingOptions,
+  type LibraryRecording
+} from './types';
+
+const { RECORDINGS } = STORAGE_CONSTANTS.STORES;
+
+export class RecordingLibrary {
+  isSupported(): boolean {
+    return isStorageAvailable();
+  }
+
+  /**
+   * Next free "Take N" name, continuing after the highest existing number
+   */
+  static getNextTakeName(existingNames: string[]): string {
+    const prefix = LIBRARY_CONSTANTS.DEFAULT_NAME_PREFIX;
+    const pattern = new RegExp(`^${prefix} (\\d+)$`);
+    const highest = existingNames.reduce((max, name) => {
+      const match = pattern.exec(name.trim());
+      return match ? Math.max(max, Number(match[1])) : max;
+    }, 0);
+    return `${prefix} ${highest + 1}`;
+  }
+
+  /**
+   * Trim and cap a user-entered name; returns null when nothing is left
+   */
+  static normalizeName(name: string): string | null {
+    const normalized = name.replace(/\s+/g, ' ').trim().slice(0, LIBRARY_CONSTANTS.MAX_NAME_LENGTH);
+    return normalized || null;
+  }
+
+  /**
+   * File name for exporting a take, without extension
+   */
+  static toFileName(name: string): string {
+    const safe = name
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '') // Strip accents left by NFKD
+      .replace(/[^a-zA-Z0-9-_ ]+/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .toLowerCase();
+    return safe || 'recording';
+  }
+
+  /**
+   * All takes, newest first
+   */
+  async list(): Promise<LibraryRecording[]> {
+    if (!this.isSupported()) {
+      return [];
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(RECORDINGS, 'readonly');
+    const recordings = await requestToPromise<LibraryRecording[]>(
+      transaction.objectStore(RECORDINGS).index('createdAt').getAll()
+    );
+    return recordings.reverse();
+  }
+
+  async get(id: string): Promise<LibraryRecording> {
+    const db = await openDatabase();
+    const transaction = db.transaction(RECORDINGS, 'readonly');
+    const recording = await requestToPromise<LibraryRecording | undefined>(
+      transaction.objectStore(RECORDINGS).get(id)
+    );
+    if (!recording) {
+      throw new LibraryError(`Recording ${id} not found`, LibraryErrorCode.NOT_FOUND);
+    }
+    return recording;
+  }
+
+  /**
+   * Save a take. A missing thumbnail never blocks saving the video.
+   */
+  async add(blob: Blob, options: AddRecordingOptions): Promise<LibraryRecording> {
+    let thumbnail: Blob | null = null;
+    try {
+      thumbnail = await createThumbnail(blob, options.durationSeconds);
+    } catch (error) {
+      console.warn('⚠️ Saving take without thumbnail:', error);
+    }
+
+    const createdAt = options.createdAt ?? Date.now();
+    const name = (options.name && RecordingLibrary.normalizeName(options.name)) ||
+      RecordingLibrary.getNextTakeName((await this.list()).map(recording => recording.name));
+
+    const recording: LibraryRecording = {
+      id: `${createdAt}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      createdAt,
+      updatedAt: createdAt,
+      durationSeconds: options.durationSeconds,
+      size: blob.size,
+      mimeType: options.mimeType || blob.type,
+      source: options.source,
+      thumbnail,
+      blob,
+      markers: options.markers ?? []
+    };
+
+    await this.put(recording);
+    return recording;
+  }
+
+  async rename(id: string, name: string): Promise<LibraryRecording> {
+    const normalized = RecordingLibrary.normalizeName(name);
+    const recording = await this.get(id);
+    if (!normalized || normalized === recording.name) {
+      return recording;
+    }
+
+    const renamed = { ...recording, name: normalized, updatedAt: Date.now() };
+    await this.put(renamed);
+    return renamed;
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(RECORDINGS, 'readwrite');
+    transaction.objectStore(RECORDINGS).delete(id);
+    await transactionDone(transaction);
+  }
+
+  private async put(recording: LibraryRecording): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(RECORDINGS, 'readwrite');
+    transaction.objectStore(RECORDINGS).put(recording);
+    await transactionDone(transaction);
+  }
+}
+
+// Singleton instance
+export const recordingLibrary = new RecordingLibrary();
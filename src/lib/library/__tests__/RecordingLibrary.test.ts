@@ -0,0 +1,47 @@
+/**
+ * Tests for RecordingLibrary naming helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecordingLibrary } from '../RecordingLibrary';
+import { LIBRARY_CONSTANTS } from '../types';
+
+describe('RecordingLibrary', () => {
+  describe('getNextTakeName', () => {
+    it('should start at Take 1 for an empty library', () => {
+      expect(RecordingLibrary.getNextTakeName([])).toBe('Take 1');
+    });
+
+    it('should continue after the highest take number', () => {
+      expect(RecordingLibrary.getNextTakeName(['Take 1', 'Take 4', 'Take 2'])).toBe('Take 5');
+    });
+
+    it('should ignore renamed takes', () => {
+      expect(RecordingLibrary.getNextTakeName(['Final intro', 'Take 2 (edited)', 'Take 1'])).toBe('Take 2');
+    });
+  });
+
+  describe('normalizeName', () => {
+    it('should collapse whitespace and trim', () => {
+      expect(RecordingLibrary.normalizeName('  Best   take \n')).toBe('Best take');
+    });
+
+    it('should reject empty names', () => {
+      expect(RecordingLibrary.normalizeName('   ')).toBeNull();
+    });
+
+    it('should cap the length', () => {
+      expect(RecordingLibrary.normalizeName('x'.repeat(200))).toHaveLength(LIBRARY_CONSTANTS.MAX_NAME_LENGTH);
+    });
+  });
+
+  describe('toFileName', () => {
+    it('should produce a safe lowercase slug', () => {
+      expect(RecordingLibrary.toFileName('Apresentação: Take 3 / final')).toBe('apresentacao-take-3-final');
+    });
+
+    it('should fall back when nothing usable remains', () => {
+      expect(RecordingLibrary.toFileName('???')).toBe('recording');
+    });
+  });
+});
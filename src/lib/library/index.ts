@@ -0,0 +1,4 @@
+// Recordings library exports
+export * from './types';
+export { createThumbnail } from './thumbnail';
+export { RecordingLibrary, recordingLibrary } from './RecordingLibrary';
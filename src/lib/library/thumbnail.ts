@@ -0,0 +1,45 @@
+/**
+ * Poster frames for library takes
+ */
+
+import { loadVideo, seekTo } from '../export';
+import { LIBRARY_CONSTANTS, LibraryError, LibraryErrorCode } from './types';
+
+/**
+ * Grab a small JPEG from early in the recording
+ */
+export async function createThumbnail(blob: Blob, durationHint?: number): Promise<Blob> {
+  try {
+    const { video, duration, release } = await loadVideo(blob, durationHint);
+    try {
+      await seekTo(video, Math.min(LIBRARY_CONSTANTS.THUMBNAIL_TIME, duration / 2));
+
+      const scale = Math.min(1, LIBRARY_CONSTANTS.THUMBNAIL_WIDTH / (video.videoWidth || 1));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+      canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Canvas context not available');
+      }
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      return await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+          thumbnail => (thumbnail ? resolve(thumbnail) : reject(new Error('Failed to encode thumbnail'))),
+          'image/jpeg',
+          LIBRARY_CONSTANTS.THUMBNAIL_QUALITY
+        );
+      });
+    } finally {
+      release();
+    }
+  } catch (error) {
+    throw new LibraryError(
+      'Failed to create thumbnail',
+      LibraryErrorCode.THUMBNAIL_FAILED,
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
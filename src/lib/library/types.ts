@@ -0,0 +1,55 @@
+/**
+ * Core types for the local recordings library
+ */
+
+import type { RecordingMarker } from '../recording/types';
+
+// Error types for better error handling
+export class LibraryError extends Error {
+  constructor(
+    message: string,
+    public code: LibraryErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'LibraryError';
+  }
+}
+
+export enum LibraryErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  THUMBNAIL_FAILED = 'THUMBNAIL_FAILED'
+}
+
+// One take kept in the library
+export interface LibraryRecording {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  durationSeconds: number;
+  size: number;
+  mimeType: string;
+  source: string; // RecordingSource from the presenter ('camera' | 'screen' | 'both')
+  thumbnail: Blob | null;
+  blob: Blob;
+  markers?: RecordingMarker[]; // Missing on takes saved before markers existed
+}
+
+export interface AddRecordingOptions {
+  durationSeconds: number;
+  source: string;
+  name?: string; // Defaults to the next "Take N"
+  mimeType?: string; // Defaults to blob.type
+  createdAt?: number;
+  markers?: RecordingMarker[];
+}
+
+export const LIBRARY_CONSTANTS = {
+  DEFAULT_NAME_PREFIX: 'Take',
+  MAX_NAME_LENGTH: 80,
+  THUMBNAIL_WIDTH: 192,
+  THUMBNAIL_QUALITY: 0.7,
+  // Seconds into the take; skips the black first frame most recordings start with
+  THUMBNAIL_TIME: 1
+} as const;
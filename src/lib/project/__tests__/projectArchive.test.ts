@@ -0,0 +1,136 @@
+/**
+ * Tests for packing and unpacking project files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createDefaultEffectsSettings } from '../../audio/effects';
+import { createDefaultMixerSettings } from '../../audio/types';
+import { readBlob } from '../../export/readBlob';
+import { createDefaultSceneCollection } from '../../scenes/scenes';
+import type { ScenePresenter } from '../../scenes/types';
+import { getProjectFileName, packProject, unpackProject } from '../projectArchive';
+import { PROJECT_CONSTANTS, ProjectErrorCode, type ProjectState } from '../types';
+import { createZip, readZip } from '../zip';
+
+const presenter: ScenePresenter = {
+  backgroundType: 'visible',
+  shape: 'rectangle',
+  color: '#3b82f6',
+  virtualBackground: 'blob:background',
+  videoFilter: 'none',
+  size: 'medium',
+  position: { x: 16, y: 16 }
+};
+
+const createState = (): ProjectState => ({
+  name: 'Quarterly review',
+  presenter,
+  boardItems: [
+    { id: 'img', type: 'image', src: 'blob:image', fileName: 'chart.PNG', x: 10, y: 20, width: 300, height: 200, rotation: 0, zIndex: 1 },
+    { id: 'note', type: 'note', content: 'Remember the demo', x: 0, y: 0, width: 200, height: 150, rotation: 5, zIndex: 2 }
+  ],
+  teleprompterScript: 'Hello and welcome',
+  scenes: createDefaultSceneCollection(presenter),
+  mixer: { ...createDefaultMixerSettings(), screen: { gain: 0.5, muted: true, solo: false, pan: 0 } },
+  effects: createDefaultEffectsSettings(),
+  qualityProfileId: 'hd-1080p60'
+});
+
+const media: Record<string, Blob> = {
+  'blob:background': new Blob(['background'], { type: 'image/jpeg' }),
+  'blob:image': new Blob(['image'], { type: 'image/png' })
+};
+
+const fetchAsset = async (url: string) => media[url];
+
+async function readManifest(project: Blob) {
+  const entries = await readZip(await readBlob(project));
+  const manifest = entries.find(entry => entry.path === PROJECT_CONSTANTS.MANIFEST_PATH)!;
+  return { entries, manifest: JSON.parse(new TextDecoder().decode(manifest.data)) };
+}
+
+describe('project archive', () => {
+  it('should embed local media and reference it by path', async () => {
+    const { entries, manifest } = await readManifest(await packProject(createState(), fetchAsset));
+
+    expect(manifest.format).toBe(PROJECT_CONSTANTS.FORMAT);
+    expect(manifest.version).toBe(PROJECT_CONSTANTS.VERSION);
+    expect(manifest.presenter.virtualBackground).toBe('assets/1.jpeg');
+    expect(manifest.scenes.scenes.every((scene: { presenter: ScenePresenter }) =>
+      scene.presenter.virtualBackground === 'assets/1.jpeg')).toBe(true);
+    expect(manifest.boardItems[0].src).toBe('assets/2.png');
+    expect(entries.map(entry => entry.path)).toEqual(['project.json', 'assets/1.jpeg', 'assets/2.png']);
+  });
+
+  it('should restore the state with new object URLs', async () => {
+    const project = await packProject(createState(), fetchAsset);
+    const created: Blob[] = [];
+    const state = await unpackProject(project, blob => {
+      created.push(blob);
+      return `blob:restored-${created.length}`;
+    });
+
+    const expected = createState();
+    expect(state.presenter.virtualBackground).toBe('blob:restored-1');
+    expect(state.boardItems[0].src).toBe('blob:restored-2');
+    expect(state.boardItems[1]).toEqual(expected.boardItems[1]);
+    expect(state.teleprompterScript).toBe(expected.teleprompterScript);
+    expect(state.mixer).toEqual(expected.mixer);
+    expect(state.qualityProfileId).toBe('hd-1080p60');
+    expect(created[1].type).toBe('image/png');
+    expect(new TextDecoder().decode(await readBlob(created[1]))).toBe('image');
+  });
+
+  it('should embed the slide images of converted decks', async () => {
+    const state = createState();
+    state.boardItems.push({
+      id: 'deck', type: 'document', src: 'blob:deck', fileName: 'talk.pptx', pages: ['blob:slide-1', 'blob:slide-2'],
+      x: 0, y: 0, width: 320, height: 224, rotation: 0, zIndex: 3
+    });
+    const slides: Record<string, Blob> = {
+      ...media,
+      'blob:deck': new Blob(['deck']),
+      'blob:slide-1': new Blob(['one'], { type: 'image/png' }),
+      'blob:slide-2': new Blob(['two'], { type: 'image/png' })
+    };
+    const project = await packProject(state, async url => slides[url]);
+    const { manifest } = await readManifest(project);
+    expect(manifest.boardItems[2].pages).toEqual(['assets/4.png', 'assets/5.png']);
+
+    const restored = await unpackProject(project, blob => `blob:restored-${blob.size}`);
+    expect(restored.boardItems[2].pages).toEqual(['blob:restored-3', 'blob:restored-3']);
+  });
+
+  it('should keep built-in backgrounds as they are', async () => {
+    const state = { ...createState(), presenter: { ...presenter, virtualBackground: 'tech' }, boardItems: [] };
+    state.scenes = createDefaultSceneCollection(state.presenter);
+    const { entries, manifest } = await readManifest(await packProject(state, fetchAsset));
+    expect(manifest.presenter.virtualBackground).toBe('tech');
+    expect(entries).toHaveLength(1);
+  });
+
+  it('should report media that can no longer be read', async () => {
+    const failing = async () => {
+      throw new Error('revoked');
+    };
+    await expect(packProject(createState(), failing)).rejects.toMatchObject({ code: ProjectErrorCode.MISSING_ASSET });
+  });
+
+  it('should reject archives without a manifest', async () => {
+    const zip = createZip([{ path: 'readme.txt', data: new TextEncoder().encode('hi') }]);
+    await expect(unpackProject(zip)).rejects.toMatchObject({ code: ProjectErrorCode.INVALID_ARCHIVE });
+  });
+
+  it('should reject archives with missing assets', async () => {
+    const { manifest } = await readManifest(await packProject(createState(), fetchAsset));
+    const zip = createZip([
+      { path: PROJECT_CONSTANTS.MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest)) }
+    ]);
+    await expect(unpackProject(zip, () => 'blob:unused')).rejects.toMatchObject({ code: ProjectErrorCode.MISSING_ASSET });
+  });
+
+  it('should build a safe file name', () => {
+    expect(getProjectFileName('Q3: review/final')).toBe('Q3 reviewfinal.vpproj');
+    expect(getProjectFileName('???')).toBe(`${PROJECT_CONSTANTS.DEFAULT_NAME}.vpproj`);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for project manifest validation and migrations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createDefaultMixerSettings } from '../../audio/types';
+import { createDefaultEffectsSettings } from '../../audio/effects';
+import { DEFAULT_QUALITY_PROFILE_ID } from '../../recording/qualityProfiles';
+import { migrateManifest, normalizeProjectName, parseManifest, validateManifest } from '../schema';
+import { PROJECT_CONSTANTS, ProjectErrorCode } from '../types';
+
+const presenter = {
+  backgroundType: 'visible',
+  shape: 'circle',
+  color: '#3b82f6',
+  virtualBackground: 'tech',
+  videoFilter: 'none',
+  size: 'medium',
+  position: { x: 16, y: 16 }
+};
+
+const manifest = (overrides: Record<string, unknown> = {}) => ({
+  format: PROJECT_CONSTANTS.FORMAT,
+  version: PROJECT_CONSTANTS.VERSION,
+  name: 'Demo',
+  presenter,
+  boardItems: [{ id: 'note-1', type: 'note', content: 'Hi', x: 0, y: 0, width: 200, height: 150, rotation: 0, zIndex: 1 }],
+  assets: [],
+  ...overrides
+});
+
+describe('project schema', () => {
+  describe('migrateManifest', () => {
+    it('should reject files that are not projects', () => {
+      expect(() => migrateManifest({ hello: 'world' })).toThrow(expect.objectContaining({
+        code: ProjectErrorCode.INVALID_MANIFEST
+      }));
+      expect(() => migrateManifest(manifest({ version: 'one' }))).toThrow(expect.objectContaining({
+        code: ProjectErrorCode.INVALID_MANIFEST
+      }));
+    });
+
+    it('should reject projects from a newer version', () => {
+      expect(() => migrateManifest(manifest({ version: PROJECT_CONSTANTS.VERSION + 1 }))).toThrow(expect.objectContaining({
+        code: ProjectErrorCode.UNSUPPORTED_VERSION
+      }));
+    });
+
+    it('should apply migrations one version at a time', () => {
+      const migrations = [
+        { from: 1, migrate: (value: Record<string, unknown>) => ({ ...value, title: value.name }) },
+        { from: 2, migrate: (value: Record<string, unknown>) => ({ ...value, name: `${value.title}!` }) }
+      ];
+      const migrated = migrateManifest(manifest({ version: 1 }), migrations, 3);
+      expect(migrated.version).toBe(3);
+      expect(migrated.name).toBe('Demo!');
+    });
+
+    it('should fail when a migration step is missing', () => {
+      expect(() => migrateManifest(manifest({ version: 1 }), [], 2)).toThrow(expect.objectContaining({
+        code: ProjectErrorCode.UNSUPPORTED_VERSION
+      }));
+    });
+  });
+
+  describe('validateManifest', () => {
+    it('should fill in optional sections with defaults', () => {
+      const result = validateManifest(manifest());
+      expect(result.teleprompterScript).toBe('');
+      expect(result.mixer).toEqual(createDefaultMixerSettings());
+      expect(result.effects).toEqual(createDefaultEffectsSettings());
+      expect(result.qualityProfileId).toBe(DEFAULT_QUALITY_PROFILE_ID);
+      expect(result.scenes.scenes.length).toBeGreaterThan(0);
+      expect(result.scenes.scenes[0].presenter.shape).toBe('circle');
+    });
+
+    it('should reject a broken presenter', () => {
+      expect(() => validateManifest(manifest({ presenter: { ...presenter, shape: 'blob' } }))).toThrow(
+        expect.objectContaining({ code: ProjectErrorCode.INVALID_MANIFEST })
+      );
+    });
+
+    it('should reject broken board items', () => {
+      expect(() => validateManifest(manifest({ boardItems: [{ id: 'x', type: 'image', x: 'left' }] }))).toThrow(
+        expect.objectContaining({ code: ProjectErrorCode.INVALID_MANIFEST })
+      );
+    });
+
+    it('should keep the current page of a deck', () => {
+      const deck = { id: 'deck', type: 'deck', src: 'assets/talk.pdf', page: 4, x: 0, y: 0, width: 320, height: 224, rotation: 0, zIndex: 1 };
+
+      expect(validateManifest(manifest({ boardItems: [deck] })).boardItems[0].page).toBe(4);
+      expect(() => validateManifest(manifest({ boardItems: [{ ...deck, page: 0 }] }))).toThrow(
+        expect.objectContaining({ code: ProjectErrorCode.INVALID_MANIFEST })
+      );
+    });
+
+    it('should reject assets outside the assets directory', () => {
+      expect(() => validateManifest(manifest({ assets: [{ path: '../evil.png', mimeType: 'image/png' }] }))).toThrow(
+        expect.objectContaining({ code: ProjectErrorCode.INVALID_MANIFEST })
+      );
+    });
+  });
+
+  it('should reject manifests that are not JSON', () => {
+    expect(() => parseManifest('{nope')).toThrow(expect.objectContaining({ code: ProjectErrorCode.INVALID_MANIFEST }));
+  });
+
+  it('should normalize project names', () => {
+    expect(normalizeProjectName('  Pitch  ')).toBe('Pitch');
+    expect(normalizeProjectName('')).toBe(PROJECT_CONSTANTS.DEFAULT_NAME);
+    expect(normalizeProjectName('x'.repeat(200))).toHaveLength(PROJECT_CONSTANTS.MAX_NAME_LENGTH);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for the zip reader and writer used by project files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readBlob } from '../../export/readBlob';
+import { ProjectErrorCode } from '../types';
+import { crc32, createZip, readZip } from '../zip';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('zip', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(text('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('should round-trip entries in order', async () => {
+    const entries = [
+      { path: 'project.json', data: text('{"a":1}') },
+      { path: 'assets/1.png', data: new Uint8Array([0, 1, 2, 255]) },
+      { path: 'assets/ünïcode.txt', data: text('hello') }
+    ];
+    const zip = createZip(entries);
+
+    const read = await readZip(await readBlob(zip));
+    expect(read.map(entry => entry.path)).toEqual(entries.map(entry => entry.path));
+    read.forEach((entry, index) => expect(Array.from(entry.data)).toEqual(Array.from(entries[index].data)));
+  });
+
+  it('should start with a local file header', async () => {
+    const bytes = new Uint8Array(await readBlob(createZip([{ path: 'a', data: text('a') }])));
+    expect(Array.from(bytes.subarray(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+  });
+
+  it('should reject data that is not a zip', async () => {
+    await expect(readZip(text('definitely not a zip').buffer as ArrayBuffer)).rejects.toMatchObject({
+      code: ProjectErrorCode.INVALID_ARCHIVE
+    });
+  });
+
+  it('should reject entries that fail their checksum', async () => {
+    const bytes = new Uint8Array(await readBlob(createZip([{ path: 'a.txt', data: text('hello') }])));
+    bytes[30 + 'a.txt'.length] ^= 0xff; // First byte of the entry's data
+    await expect(readZip(bytes.buffer)).rejects.toMatchObject({ code: ProjectErrorCode.INVALID_ARCHIVE });
+  });
+});
@@ -0,0 +1,5 @@
+// Project file exports
+export * from './types';
+export * from './schema';
+export * from './zip';
+export * from './projectArchive';
@@ -0,0 +1,173 @@
+/**
+ * Pack the presentation setup into a project file and unpack it again
+ *
+ * A project file is a zip with project.json at the root and every local
+ * media file (uploaded board items and custom backgrounds) under assets/.
+ * Media that only exists as a blob: or data: URL in this tab is embedded;
+ * anything else, such as built-in background ids, is stored as is.
+ */
+
+import { readBlob } from '../export/readBlob';
+import { parseManifest } from './schema';
+import { createZip, readZip } from './zip';
+import {
+  PROJECT_CONSTANTS,
+  ProjectError,
+  ProjectErrorCode,
+  type ProjectAsset,
+  type ProjectManifest,
+  type ProjectState
+} from './types';
+
+export type AssetFetcher = (url: string) => Promise<Blob>;
+export type AssetUrlFactory = (blob: Blob) => string;
+
+const defaultFetchAsset: AssetFetcher = async url => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to read ${url}`);
+  }
+  return response.blob();
+};
+
+const defaultCreateUrl: AssetUrlFactory = blob => URL.createObjectURL(blob);
+
+export function isEmbeddableUrl(url: string): boolean {
+  return url.startsWith('blob:') || url.startsWith('data:');
+}
+
+/**
+ * Every media URL the state refers to, without duplicates
+ */
+export function listMediaUrls(state: ProjectState): string[] {
+  const urls = new Set<string>();
+  const add = (url: string | null | undefined) => {
+    if (url) {
+      urls.add(url);
+    }
+  };
+  add(state.presenter.virtualBackground);
+  state.scenes.scenes.forEach(scene => add(scene.presenter.virtualBackground));
+  state.boardItems.forEach(item => {
+    add(item.src);
+    item.pages?.forEach(add);
+  });
+  return [...urls];
+}
+
+/**
+ * Copy of the state with every media URL passed through `map`
+ */
+export function mapMediaUrls(state: ProjectState, map: (url: string) => string): ProjectState {
+  const mapUrl = <T extends string | null | undefined>(url: T): T => (url ? map(url) : url) as T;
+  return {
+    ...state,
+    presenter: { ...state.presenter, virtualBackground: mapUrl(state.presenter.virtualBackground) },
+    scenes: {
+      ...state.scenes,
+      scenes: state.scenes.scenes.map(scene => ({
+        ...scene,
+        presenter: { ...scene.presenter, virtualBackground: mapUrl(scene.presenter.virtualBackground) }
+      }))
+    },
+    boardItems: state.boardItems.map(item => ({
+      ...item,
+      src: mapUrl(item.src),
+      ...(item.pages ? { pages: item.pages.map(map) } : {})
+    }))
+  };
+}
+
+export function getProjectFileName(name: string): string {
+  const base = name.replace(/[\\/:*?"<>|]+/g, '').trim() || PROJECT_CONSTANTS.DEFAULT_NAME;
+  return `${base}${PROJECT_CONSTANTS.FILE_EXTENSION}`;
+}
+
+/**
+ * Build a project file from the current state
+ */
+export async function packProject(
+  state: ProjectState,
+  fetchAsset: AssetFetcher = defaultFetchAsset,
+  now: Date = new Date()
+): Promise<Blob> {
+  const assets: ProjectAsset[] = [];
+  const files: { path: string; data: Uint8Array }[] = [];
+  const paths = new Map<string, string>();
+
+  for (const url of listMediaUrls(state).filter(isEmbeddableUrl)) {
+    let blob: Blob;
+    try {
+      blob = await fetchAsset(url);
+    } catch (error) {
+      throw new ProjectError('A media file in this project could not be read', ProjectErrorCode.MISSING_ASSET, error as Error);
+    }
+    const fileName = state.boardItems.find(item => item.src === url)?.fileName;
+    const path = `${PROJECT_CONSTANTS.ASSETS_DIR}${assets.length + 1}${getExtension(fileName, blob.type)}`;
+    paths.set(url, path);
+    assets.push({ path, mimeType: blob.type });
+    files.push({ path, data: new Uint8Array(await readBlob(blob)) });
+  }
+
+  const manifest: ProjectManifest = {
+    ...mapMediaUrls(state, url => paths.get(url) ?? url),
+    format: PROJECT_CONSTANTS.FORMAT,
+    version: PROJECT_CONSTANTS.VERSION,
+    savedAt: now.toISOString(),
+    assets
+  };
+  const manifestData = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+
+  return createZip([{ path: PROJECT_CONSTANTS.MANIFEST_PATH, data: manifestData }, ...files]);
+}
+
+/**
+ * Read a project file back into state, with embedded media turned into
+ * fresh object URLs
+ */
+export async function unpackProject(
+  file: Blob,
+  createUrl: AssetUrlFactory = defaultCreateUrl
+): Promise<ProjectState> {
+  const entries = await readZip(await readBlob(file));
+  const manifestEntry = entries.find(entry => entry.path === PROJECT_CONSTANTS.MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new ProjectError('Project file has no manifest', ProjectErrorCode.INVALID_ARCHIVE);
+  }
+  const manifest = parseManifest(new TextDecoder().decode(manifestEntry.data));
+
+  // Check everything first so no object URLs leak from a broken file
+  const declared = new Set(manifest.assets.map(asset => asset.path));
+  const undeclared = listMediaUrls(manifest).find(url => url.startsWith(PROJECT_CONSTANTS.ASSETS_DIR) && !declared.has(url));
+  const absent = manifest.assets.find(asset => !entries.some(entry => entry.path === asset.path))?.path;
+  if (undeclared || absent) {
+    throw new ProjectError(`Project file is missing ${undeclared ?? absent}`, ProjectErrorCode.MISSING_ASSET);
+  }
+
+  const urls = new Map<string, string>();
+  manifest.assets.forEach(asset => {
+    const entry = entries.find(candidate => candidate.path === asset.path)!;
+    urls.set(asset.path, createUrl(new Blob([entry.data as BlobPart], { type: asset.mimeType })));
+  });
+
+  const state = mapMediaUrls(manifest, url => urls.get(url) ?? url);
+  return {
+    name: state.name,
+    presenter: state.presenter,
+    boardItems: state.boardItems,
+    teleprompterScript: state.teleprompterScript,
+    scenes: state.scenes,
+    mixer: state.mixer,
+    effects: state.effects,
+    qualityProfileId: state.qualityProfileId
+  };
+}
+
+function getExtension(fileName: string | undefined, mimeType: string): string {
+  const fromName = fileName?.match(/\.[a-z0-9]{1,5}$/i)?.[0];
+  if (fromName) {
+    return fromName.toLowerCase();
+  }
+  const subtype = mimeType.split('/')[1]?.split(/[+;]/)[0];
+  return subtype && /^[a-z0-9]{1,5}$/i.test(subtype) ? `.${subtype}` : '';
+}
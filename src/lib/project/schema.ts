@@ -0,0 +1,154 @@
+/**
+ * Project manifest validation and version migrations
+ *
+ * Every manifest carries the format version it was written with. Older
+ * manifests are upgraded one version at a time through PROJECT_MIGRATIONS
+ * before validation, so validation only ever knows the current shape.
+ * Anything optional that is missing or malformed falls back to its default;
+ * the presenter, board items and asset list must be intact.
+ */
+
+import { createDefaultEffectsSettings, normalizeEffectsSettings } from '../audio/effects';
+import { normalizeMixerSettings } from '../audio/mixing';
+import { DEFAULT_QUALITY_PROFILE_ID, isQualityProfileId } from '../recording/qualityProfiles';
+import { createDefaultSceneCollection, normalizeSceneCollection } from '../scenes/scenes';
+import type { ScenePresenter } from '../scenes/types';
+import {
+  PROJECT_CONSTANTS,
+  ProjectError,
+  ProjectErrorCode,
+  type ProjectAsset,
+  type ProjectBoardItem,
+  type ProjectManifest,
+  type ProjectMigration
+} from './types';
+
+// One entry per format version bump, e.g. { from: 1, migrate: ... } for v2
+export const PROJECT_MIGRATIONS: ProjectMigration[] = [];
+
+const BACKGROUND_TYPES = ['visible', 'blurred', 'hidden'];
+const SHAPES = ['rectangle', 'circle', 'rounded', 'hexagon', 'diamond', 'heart', 'star'];
+const VIDEO_FILTERS = ['none', 'grayscale', 'sepia', 'invert'];
+const SIZES = ['small', 'medium', 'large', 'xlarge'];
+const ITEM_TYPES = ['image', 'video', 'document', 'deck', 'note'];
+
+/**
+ * Upgrade a parsed manifest to the current format version
+ */
+export function migrateManifest(
+  value: unknown,
+  migrations: ProjectMigration[] = PROJECT_MIGRATIONS,
+  currentVersion: number = PROJECT_CONSTANTS.VERSION
+): Record<string, unknown> {
+  if (!isRecord(value) || value.format !== PROJECT_CONSTANTS.FORMAT) {
+    throw new ProjectError('This file is not a VideoPresenter project', ProjectErrorCode.INVALID_MANIFEST);
+  }
+
+  let version = value.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectError('Project version is missing', ProjectErrorCode.INVALID_MANIFEST);
+  }
+  if (version > currentVersion) {
+    throw new ProjectError(
+      `Project was saved by a newer version (format ${version}); update the app to open it`,
+      ProjectErrorCode.UNSUPPORTED_VERSION
+    );
+  }
+
+  let manifest = value;
+  while (version < currentVersion) {
+    const migration = migrations.find(candidate => candidate.from === version);
+    if (!migration) {
+      throw new ProjectError(`No migration from project format ${version}`, ProjectErrorCode.UNSUPPORTED_VERSION);
+    }
+    version += 1;
+    manifest = { ...migration.migrate(manifest), version };
+  }
+  return manifest;
+}
+
+/**
+ * Check a current-version manifest and fill in optional fields
+ */
+export function validateManifest(value: Record<string, unknown>): ProjectManifest {
+  const presenter = value.presenter;
+  if (!isPresenter(presenter)) {
+    throw new ProjectError('Project presenter settings are invalid', ProjectErrorCode.INVALID_MANIFEST);
+  }
+  if (!Array.isArray(value.boardItems) || !value.boardItems.every(isBoardItem)) {
+    throw new ProjectError('Project board items are invalid', ProjectErrorCode.INVALID_MANIFEST);
+  }
+  if (!Array.isArray(value.assets) || !value.assets.every(isAsset)) {
+    throw new ProjectError('Project asset list is invalid', ProjectErrorCode.INVALID_MANIFEST);
+  }
+
+  const presenterCopy: ScenePresenter = { ...presenter, position: { ...presenter.position } };
+  return {
+    format: PROJECT_CONSTANTS.FORMAT,
+    version: PROJECT_CONSTANTS.VERSION,
+    name: normalizeProjectName(value.name),
+    savedAt: typeof value.savedAt === 'string' ? value.savedAt : new Date(0).toISOString(),
+    presenter: presenterCopy,
+    boardItems: value.boardItems.map(item => ({ ...item })),
+    assets: value.assets.map(asset => ({ path: asset.path, mimeType: asset.mimeType })),
+    teleprompterScript: typeof value.teleprompterScript === 'string' ? value.teleprompterScript : '',
+    scenes: normalizeSceneCollection(value.scenes) ?? createDefaultSceneCollection(presenterCopy),
+    mixer: normalizeMixerSettings(value.mixer),
+    effects: isRecord(value.effects) ? normalizeEffectsSettings(value.effects) : createDefaultEffectsSettings(),
+    qualityProfileId: isQualityProfileId(value.qualityProfileId) ? value.qualityProfileId : DEFAULT_QUALITY_PROFILE_ID
+  };
+}
+
+export function parseManifest(json: string): ProjectManifest {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new ProjectError('Project manifest is not valid JSON', ProjectErrorCode.INVALID_MANIFEST, error as Error);
+  }
+  return validateManifest(migrateManifest(value));
+}
+
+export function normalizeProjectName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim().slice(0, PROJECT_CONSTANTS.MAX_NAME_LENGTH) : '';
+  return name || PROJECT_CONSTANTS.DEFAULT_NAME;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPresenter(value: unknown): value is ScenePresenter {
+  return isRecord(value) &&
+    BACKGROUND_TYPES.includes(value.backgroundType as string) &&
+    SHAPES.includes(value.shape as string) &&
+    typeof value.color === 'string' &&
+    (value.virtualBackground === null || typeof value.virtualBackground === 'string') &&
+    VIDEO_FILTERS.includes(value.videoFilter as string) &&
+    SIZES.includes(value.size as string) &&
+    isRecord(value.position) &&
+    isFiniteNumber(value.position.x) &&
+    isFiniteNumber(value.position.y);
+}
+
+function isBoardItem(value: unknown): value is ProjectBoardItem {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    ITEM_TYPES.includes(value.type as string) &&
+    ['x', 'y', 'width', 'height', 'rotation', 'zIndex'].every(key => isFiniteNumber(value[key])) &&
+    ['src', 'content', 'fileName', 'groupId'].every(key => value[key] === undefined || typeof value[key] === 'string') &&
+    (value.locked === undefined || typeof value.locked === 'boolean') &&
+    (value.pages === undefined || (Array.isArray(value.pages) && value.pages.every(page => typeof page === 'string'))) &&
+    (value.page === undefined || (Number.isInteger(value.page) && (value.page as number) >= 1));
+}
+
+function isAsset(value: unknown): value is ProjectAsset {
+  return isRecord(value) &&
+    typeof value.path === 'string' &&
+    value.path.startsWith(PROJECT_CONSTANTS.ASSETS_DIR) &&
+    typeof value.mimeType === 'string';
+}
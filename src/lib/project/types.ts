@@ -0,0 +1,91 @@
+/**
+ * Core types for saving a presentation setup as a portable project file
+ */
+
+import type { EffectsSettings, MixerSettings } from '../audio/types';
+import type { QualityProfileId } from '../recording/qualityProfiles';
+import type { SceneCollection, ScenePresenter } from '../scenes/types';
+
+// Error types for better error handling
+export class ProjectError extends Error {
+  constructor(
+    message: string,
+    public code: ProjectErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+export enum ProjectErrorCode {
+  INVALID_ARCHIVE = 'INVALID_ARCHIVE',
+  UNSUPPORTED_COMPRESSION = 'UNSUPPORTED_COMPRESSION',
+  INVALID_MANIFEST = 'INVALID_MANIFEST',
+  UNSUPPORTED_VERSION = 'UNSUPPORTED_VERSION',
+  MISSING_ASSET = 'MISSING_ASSET'
+}
+
+// Mirrors the canvas BoardItem; src is an asset path inside a project file
+export interface ProjectBoardItem {
+  id: string;
+  type: 'image' | 'video' | 'document' | 'deck' | 'note';
+  src?: string;
+  content?: string;
+  fileName?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  zIndex: number;
+  groupId?: string;
+  locked?: boolean;
+  // Asset paths of converted slide images, one per page
+  pages?: string[];
+  page?: number; // Current page of a deck, from 1
+}
+
+/**
+ * Everything a project restores. While the app runs, media is referenced by
+ * object URLs; inside a project file those become asset paths.
+ */
+export interface ProjectState {
+  name: string;
+  presenter: ScenePresenter;
+  boardItems: ProjectBoardItem[];
+  teleprompterScript: string;
+  scenes: SceneCollection;
+  mixer: MixerSettings;
+  effects: EffectsSettings;
+  qualityProfileId: QualityProfileId;
+}
+
+export interface ProjectAsset {
+  path: string;
+  mimeType: string;
+}
+
+export interface ProjectManifest extends ProjectState {
+  format: typeof PROJECT_CONSTANTS.FORMAT;
+  version: number;
+  savedAt: string;
+  assets: ProjectAsset[];
+}
+
+// Upgrades a manifest from version `from` to `from + 1`
+export interface ProjectMigration {
+  from: number;
+  migrate: (manifest: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export const PROJECT_CONSTANTS = {
+  FORMAT: 'videopresenter-project',
+  VERSION: 1,
+  MANIFEST_PATH: 'project.json',
+  ASSETS_DIR: 'assets/',
+  FILE_EXTENSION: '.vpproj',
+  MIME_TYPE: 'application/zip',
+  DEFAULT_NAME: 'Untitled project',
+  MAX_NAME_LENGTH: 80
+} as const;
@@ -0,0 +1,180 @@
+/**
+ * Minimal zip archive reader and writer
+ *
+ * Project files are ordinary zip archives so they can be inspected with any
+ * archiver. Entries are written uncompressed (method 0): the media inside is
+ * already compressed and the manifest is small. Reading also accepts
+ * deflated entries (method 8), which is what most archivers produce when a
+ * project is unpacked and re-zipped by hand. Office slide decks (.pptx,
+ * .odp) are deflated zip archives too and are read with the same code.
+ */
+
+import { ProjectError, ProjectErrorCode } from './types';
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const VERSION = 20;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Pack entries into a zip archive, in the given order
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.path);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    writeCommonFields(localView, 4, crc, entry.data.length, name.length);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, VERSION, true); // Version made by
+    writeCommonFields(centralView, 6, crc, entry.data.length, name.length);
+    // Comment length, disk number, internal and external attributes stay 0
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, entry.data);
+    centralDirectory.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  const directorySize = centralDirectory.reduce((total, header) => total + header.length, 0);
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end] as BlobPart[], { type: 'application/zip' });
+}
+
+/**
+ * Unpack every file in a zip archive; directory entries are skipped
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const endOffset = findEndOfCentralDirectory(view);
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ProjectError('Zip central directory is corrupt', ProjectErrorCode.INVALID_ARCHIVE);
+    }
+    const method = view.getUint16(offset + 10, true);
+    const expectedCrc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) {
+      continue;
+    }
+
+    // The local header's extra field may differ from the central one
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ProjectError(`Zip entry ${path} is corrupt`, ProjectErrorCode.INVALID_ARCHIVE);
+    }
+    const dataOffset = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataOffset + compressedSize > bytes.length) {
+      throw new ProjectError(`Zip entry ${path} is truncated`, ProjectErrorCode.INVALID_ARCHIVE);
+    }
+
+    const data = await decompress(bytes.slice(dataOffset, dataOffset + compressedSize), method, path);
+    if (crc32(data) !== expectedCrc) {
+      throw new ProjectError(`Zip entry ${path} failed its checksum`, ProjectErrorCode.INVALID_ARCHIVE);
+    }
+    entries.push({ path, data });
+  }
+  return entries;
+}
+
+function writeCommonFields(view: DataView, offset: number, crc: number, size: number, nameLength: number): void {
+  view.setUint16(offset, VERSION, true); // Version needed to extract
+  view.setUint16(offset + 2, FLAG_UTF8, true);
+  view.setUint16(offset + 4, METHOD_STORE, true);
+  // Modification time and date stay 0; the manifest records when it was saved
+  view.setUint32(offset + 10, crc, true);
+  view.setUint32(offset + 14, size, true); // Compressed size
+  view.setUint32(offset + 18, size, true); // Uncompressed size
+  view.setUint16(offset + 22, nameLength, true);
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new ProjectError('Not a zip archive', ProjectErrorCode.INVALID_ARCHIVE);
+}
+
+async function decompress(data: Uint8Array, method: number, path: string): Promise<Uint8Array> {
+  if (method === METHOD_STORE) {
+    return data;
+  }
+  if (method !== METHOD_DEFLATE || typeof DecompressionStream === 'undefined') {
+    throw new ProjectError(
+      `Zip entry ${path} uses an unsupported compression method`,
+      ProjectErrorCode.UNSUPPORTED_COMPRESSION
+    );
+  }
+
+  try {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (error) {
+    throw new ProjectError(`Zip entry ${path} could not be decompressed`, ProjectErrorCode.INVALID_ARCHIVE, error as Error);
+  }
+}
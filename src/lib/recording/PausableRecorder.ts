@@ -0,0 +1,195 @@
+/**
+ * PausableRecorder - MediaRecorder with pause/resume and an accurate clock
+ *
+ * Uses MediaRecorder.pause()/resume() where available. Older browsers
+ * without them get a fallback: pausing stops the current recorder, resuming
+ * starts a new one on the same stream, and the resulting segments are joined
+ * into one file when recording stops.
+ */
+
+import { recordingTrimmer } from '../editing';
+import { RecordingClock } from './RecordingClock';
+import {
+  RECORDING_CONSTANTS,
+  RecordingError,
+  RecordingErrorCode,
+  type RecorderState,
+  type RecordingResult
+} from './types';
+
+interface RecorderSession {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  // Position in the segment order, assigned when the recorder starts
+  index: number;
+}
+
+export class PausableRecorder {
+  readonly clock: RecordingClock;
+  private session: RecorderSession | null = null;
+  private segments: Blob[][] = [];
+  private timeslice: number = RECORDING_CONSTANTS.DEFAULT_TIMESLICE;
+  private pendingSegmentStop: Promise<void> | null = null;
+  private _state: RecorderState = 'inactive';
+
+  // segment changes only when the pause fallback starts a new recorder
+  ondataavailable: ((chunk: Blob, segment: number) => void) | null = null;
+  onerror: ((error: Event) => void) | null = null;
+  onstatechange: ((state: RecorderState) => void) | null = null;
+
+  constructor(
+    private stream: MediaStream,
+    private options: MediaRecorderOptions = {},
+    now?: () => number
+  ) {
+    this.clock = new RecordingClock(now);
+    // Create the first recorder eagerly so unsupported options fail here
+    this.session = this.createSession();
+  }
+
+  static supportsNativePause(): boolean {
+    return typeof MediaRecorder !== 'undefined' &&
+      typeof MediaRecorder.prototype.pause === 'function' &&
+      typeof MediaRecorder.prototype.resume === 'function';
+  }
+
+  get state(): RecorderState {
+    return this._state;
+  }
+
+  get mimeType(): string {
+    return this.session?.recorder.mimeType || this.options.mimeType || '';
+  }
+
+  start(timeslice: number = RECORDING_CONSTANTS.DEFAULT_TIMESLICE): void {
+    if (this._state !== 'inactive') {
+      throw new RecordingError('Recording already started', RecordingErrorCode.INVALID_STATE);
+    }
+    this.timeslice = timeslice;
+    this.segments = [];
+    this.session ??= this.createSession();
+    this.session.index = 0;
+    this.session.recorder.start(timeslice);
+    this.clock.start();
+    this.setState('recording');
+  }
+
+  pause(): void {
+    if (this._state !== 'recording' || !this.session) {
+      return;
+    }
+
+    if (PausableRecorder.supportsNativePause()) {
+      this.session.recorder.pause();
+    } else {
+      // Close the current segment; a new recorder is created on resume
+      const previous = this.pendingSegmentStop;
+      const closing = this.stopSession(this.session);
+      this.pendingSegmentStop = Promise.all([previous, closing]).then(() => undefined);
+      this.session = null;
+    }
+
+    this.clock.pause();
+    this.setState('paused');
+  }
+
+  resume(): void {
+    if (this._state !== 'paused') {
+      return;
+    }
+
+    if (this.session) {
+      this.session.recorder.resume();
+    } else {
+      this.session = this.createSession();
+      // Closed segments are pushed synchronously on pause, so this is the next index
+      this.session.index = this.segments.length;
+      this.session.recorder.start(this.timeslice);
+    }
+
+    this.clock.resume();
+    this.setState('recording');
+  }
+
+  /**
+   * Stop recording and return the finished file.
+   * With the fallback this joins the segments, which runs in real time.
+   */
+  async stop(): Promise<RecordingResult> {
+    if (this._state === 'inactive') {
+      throw new RecordingError('Recording not started', RecordingErrorCode.INVALID_STATE);
+    }
+
+    const durationMs = this.clock.stop();
+    const mimeType = this.mimeType;
+    this.setState('inactive');
+
+    await this.pendingSegmentStop;
+    this.pendingSegmentStop = null;
+    if (this.session) {
+      await this.stopSession(this.session);
+      this.session = null;
+    }
+
+    const segmentBlobs = this.segments
+      .filter(chunks => chunks.length > 0)
+      .map(chunks => new Blob(chunks, { type: mimeType }));
+
+    if (segmentBlobs.length <= 1) {
+      return {
+        blob: segmentBlobs[0] ?? new Blob([], { type: mimeType }),
+        mimeType,
+        durationMs,
+        segmentCount: segmentBlobs.length
+      };
+    }
+
+    try {
+      console.log(`🔗 Joining ${segmentBlobs.length} recording segments...`);
+      const blob = await recordingTrimmer.concatenate(segmentBlobs, { mimeType });
+      return { blob, mimeType: blob.type || mimeType, durationMs, segmentCount: segmentBlobs.length };
+    } catch (error) {
+      throw new RecordingError(
+        'Failed to join recording segments',
+        RecordingErrorCode.FINALIZE_FAILED,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  private createSession(): RecorderSession {
+    const recorder = new MediaRecorder(this.stream, this.options);
+    const session: RecorderSession = { recorder, chunks: [], index: 0 };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        session.chunks.push(event.data);
+        this.ondataavailable?.(event.data, session.index);
+      }
+    };
+    recorder.onerror = (event) => {
+      this.onerror?.(event);
+    };
+    return session;
+  }
+
+  /**
+   * Stop a recorder, keeping its place in the segment order. The chunk
+   * array is shared, so the final dataavailable event still lands in it.
+   */
+  private stopSession(session: RecorderSession): Promise<void> {
+    this.segments.push(session.chunks);
+    return new Promise<void>(resolve => {
+      if (session.recorder.state === 'inactive') {
+        resolve();
+        return;
+      }
+      session.recorder.onstop = () => resolve();
+      session.recorder.stop();
+    });
+  }
+
+  private setState(state: RecorderState): void {
+    this._state = state;
+    this.onstatechange?.(state);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * RecordingClock - Measures active recording time across pauses
+ *
+ * Counting timer ticks drifts and keeps counting while paused; the clock
+ * instead sums the wall-clock length of each recorded segment.
+ */
+
+export class RecordingClock {
+  private accumulatedMs = 0;
+  private segmentStartedAt: number | null = null;
+  private segments = 0;
+
+  constructor(private now: () => number = () => Date.now()) {}
+
+  start(): void {
+    this.accumulatedMs = 0;
+    this.segments = 1;
+    this.segmentStartedAt = this.now();
+  }
+
+  pause(): void {
+    if (this.segmentStartedAt === null) {
+      return;
+    }
+    this.accumulatedMs += this.now() - this.segmentStartedAt;
+    this.segmentStartedAt = null;
+  }
+
+  resume(): void {
+    if (this.segmentStartedAt !== null || this.segments === 0) {
+      return;
+    }
+    this.segments++;
+    this.segmentStartedAt = this.now();
+  }
+
+  stop(): number {
+    this.pause();
+    return this.accumulatedMs;
+  }
+
+  reset(): void {
+    this.accumulatedMs = 0;
+    this.segmentStartedAt = null;
+    this.segments = 0;
+  }
+
+  get isRunning(): boolean {
+    return this.segmentStartedAt !== null;
+  }
+
+  get segmentCount(): number {
+    return this.segments;
+  }
+
+  getElapsedMs(): number {
+    const current = this.segmentStartedAt === null ? 0 : this.now() - this.segmentStartedAt;
+    return this.accumulatedMs + current;
+  }
+
+  getElapsedSeconds(): number {
+    return Math.floor(this.getElapsedMs() / 1000);
+  }
+}
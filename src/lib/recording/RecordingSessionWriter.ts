@@ -0,0 +1,62 @@
+/**
+ * RecordingSessionWriter - Queues a take's chunks into the RecordingStore
+ *
+ * Chunks arrive from MediaRecorder callbacks faster than the session record
+ * may be created, so writes are chained to keep them in order. Storage
+ * failures (quota, private mode) are logged once and never interrupt the
+ * recording itself; whatever was written stays recoverable.
+ */
+
+import { recordingStore, type CreateSessionOptions, type RecordingStore } from './RecordingStore';
+
+export class RecordingSessionWriter {
+  private queue: Promise<string | null>;
+  private failed = false;
+
+  constructor(options: CreateSessionOptions, private store: RecordingStore = recordingStore) {
+    this.queue = store.isSupported()
+      ? store.createSession(options).then(
+          session => session.id,
+          error => {
+            console.warn('⚠️ Crash recovery unavailable for this recording:', error);
+            return null;
+          }
+        )
+      : Promise.resolve(null);
+  }
+
+  write(chunk: Blob, segment: number, durationMs: number): void {
+    this.queue = this.queue.then(async sessionId => {
+      if (!sessionId || this.failed) {
+        return sessionId;
+      }
+      try {
+        await this.store.appendChunk(sessionId, chunk, segment, durationMs);
+      } catch (error) {
+        this.failed = true;
+        console.warn('⚠️ Stopped saving recording chunks:', error);
+      }
+      return sessionId;
+    });
+  }
+
+  /**
+   * The take was finished safely, so its backup is no longer needed
+   */
+  async complete(): Promise<void> {
+    const sessionId = await this.queue;
+    if (sessionId) {
+      await this.store.deleteSession(sessionId);
+    }
+  }
+
+  /**
+   * Keep the backup and offer it for recovery
+   */
+  async abandon(): Promise<void> {
+    const sessionId = await this.queue;
+    if (sessionId) {
+      this.store.releaseSession(sessionId);
+    }
+  }
+}
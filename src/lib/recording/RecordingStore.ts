@@ -0,0 +1,248 @@
+/**
+ * RecordingStore - Streams recording chunks into IndexedDB as they arrive
+ *
+ * Each take gets a session record plus one record per chunk, written in the
+ * same transaction so the two never disagree. A finished take is deleted;
+ * anything left behind was interrupted (crash, reload, closed tab) and can
+ * be rebuilt on the next load. The writing tab holds a Web Lock for the
+ * session so other open tabs do not offer a live recording for recovery.
+ */
+
+import { recordingTrimmer } from '../editing';
+import {
+  STORAGE_CONSTANTS,
+  StorageError,
+  StorageErrorCode,
+  isStorageAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone
+} from '../storage';
+import {
+  RECORDING_CONSTANTS,
+  RecordingError,
+  RecordingErrorCode,
+  type RecordingChunkRecord,
+  type RecordingSessionRecord,
+  type RecoveredRecording
+} from './types';
+
+const { RECORDING_SESSIONS, RECORDING_CHUNKS } = STORAGE_CONSTANTS.STORES;
+
+export interface CreateSessionOptions {
+  mimeType: string;
+  source: string;
+  startedAt?: number;
+}
+
+export class RecordingStore {
+  // Sessions written by this tab, mapped to their lock release
+  private locks = new Map<string, () => void>();
+
+  isSupported(): boolean {
+    return isStorageAvailable();
+  }
+
+  /**
+   * Decide whether a stored session is abandoned. heldLocks is null when the
+   * Web Locks API is missing, in which case staleness is the only signal.
+   */
+  static isInterrupted(
+    session: RecordingSessionRecord,
+    heldLocks: ReadonlySet<string> | null,
+    now: number = Date.now()
+  ): boolean {
+    if (heldLocks) {
+      return !heldLocks.has(RECORDING_CONSTANTS.SESSION_LOCK_PREFIX + session.id);
+    }
+    return now - session.updatedAt > RECORDING_CONSTANTS.STALE_SESSION_MS;
+  }
+
+  /**
+   * Rebuild one blob per recorder segment from stored chunks, in any order
+   */
+  static assembleSegments(chunks: RecordingChunkRecord[], mimeType: string): Blob[] {
+    const bySegment = new Map<number, RecordingChunkRecord[]>();
+    for (const chunk of chunks) {
+      const list = bySegment.get(chunk.segment) ?? [];
+      list.push(chunk);
+      bySegment.set(chunk.segment, list);
+    }
+
+    return [...bySegment.keys()]
+      .sort((a, b) => a - b)
+      .map(segment => {
+        const ordered = bySegment.get(segment)!.sort((a, b) => a.sequence - b.sequence);
+        return new Blob(ordered.map(chunk => chunk.data), { type: mimeType });
+      });
+  }
+
+  async createSession(options: CreateSessionOptions): Promise<RecordingSessionRecord> {
+    const startedAt = options.startedAt ?? Date.now();
+    const session: RecordingSessionRecord = {
+      id: `${startedAt}-${Math.random().toString(36).substr(2, 9)}`,
+      mimeType: options.mimeType,
+      source: options.source,
+      startedAt,
+      updatedAt: startedAt,
+      durationMs: 0,
+      chunkCount: 0,
+      byteSize: 0
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction(RECORDING_SESSIONS, 'readwrite');
+    transaction.objectStore(RECORDING_SESSIONS).put(session);
+    await transactionDone(transaction);
+
+    this.acquireLock(session.id);
+    return session;
+  }
+
+  /**
+   * Persist one chunk. Calls for the same session must be made in recording
+   * order; IndexedDB runs overlapping readwrite transactions in that order.
+   */
+  async appendChunk(sessionId: string, data: Blob, segment: number, durationMs: number): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([RECORDING_SESSIONS, RECORDING_CHUNKS], 'readwrite');
+    const sessions = transaction.objectStore(RECORDING_SESSIONS);
+    const done = transactionDone(transaction);
+
+    const session = await requestToPromise<RecordingSessionRecord | undefined>(sessions.get(sessionId));
+    if (!session) {
+      transaction.abort();
+      await done.catch(() => {});
+      throw new StorageError(`Recording session ${sessionId} not found`, StorageErrorCode.NOT_FOUND);
+    }
+
+    const chunk: RecordingChunkRecord = { sessionId, sequence: session.chunkCount, segment, data };
+    transaction.objectStore(RECORDING_CHUNKS).put(chunk);
+    sessions.put({
+      ...session,
+      updatedAt: Date.now(),
+      durationMs: Math.max(session.durationMs, durationMs),
+      chunkCount: session.chunkCount + 1,
+      byteSize: session.byteSize + data.size
+    });
+
+    await done;
+  }
+
+  /**
+   * Sessions left behind by a previous page load, newest first. Empty ones
+   * are useless and get cleaned up on the way.
+   */
+  async listInterrupted(): Promise<RecordingSessionRecord[]> {
+    if (!this.isSupported()) {
+      return [];
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(RECORDING_SESSIONS, 'readonly');
+    const sessions = await requestToPromise<RecordingSessionRecord[]>(
+      transaction.objectStore(RECORDING_SESSIONS).getAll()
+    );
+
+    const heldLocks = await this.queryHeldLocks();
+    const interrupted = sessions.filter(session =>
+      !this.locks.has(session.id) && RecordingStore.isInterrupted(session, heldLocks)
+    );
+
+    const empty = interrupted.filter(session => session.chunkCount === 0);
+    await Promise.all(empty.map(session => this.deleteSession(session.id)));
+
+    return interrupted
+      .filter(session => session.chunkCount > 0)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Rebuild an interrupted recording. Sessions recorded with the pause
+   * fallback hold several files, which are joined in real time.
+   */
+  async restore(sessionId: string): Promise<RecoveredRecording> {
+    const db = await openDatabase();
+    const transaction = db.transaction([RECORDING_SESSIONS, RECORDING_CHUNKS], 'readonly');
+    const [session, chunks] = await Promise.all([
+      requestToPromise<RecordingSessionRecord | undefined>(
+        transaction.objectStore(RECORDING_SESSIONS).get(sessionId)
+      ),
+      requestToPromise<RecordingChunkRecord[]>(
+        transaction.objectStore(RECORDING_CHUNKS).index('sessionId').getAll(sessionId)
+      )
+    ]);
+
+    if (!session || chunks.length === 0) {
+      throw new StorageError(`Recording session ${sessionId} not found`, StorageErrorCode.NOT_FOUND);
+    }
+
+    const segments = RecordingStore.assembleSegments(chunks, session.mimeType);
+    if (segments.length === 1) {
+      return { session, blob: segments[0] };
+    }
+
+    try {
+      const blob = await recordingTrimmer.concatenate(segments, { mimeType: session.mimeType });
+      return { session, blob };
+    } catch (error) {
+      throw new RecordingError(
+        'Failed to join recovered recording segments',
+        RecordingErrorCode.FINALIZE_FAILED,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Remove a session and its chunks, e.g. once the take is safely finished
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([RECORDING_SESSIONS, RECORDING_CHUNKS], 'readwrite');
+    transaction.objectStore(RECORDING_SESSIONS).delete(sessionId);
+    transaction.objectStore(RECORDING_CHUNKS).delete(
+      IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity])
+    );
+    await transactionDone(transaction);
+
+    this.releaseSession(sessionId);
+  }
+
+  /**
+   * Stop claiming a session without deleting it, so it is offered for
+   * recovery (e.g. when finishing the take failed)
+   */
+  releaseSession(sessionId: string): void {
+    this.locks.get(sessionId)?.();
+    this.locks.delete(sessionId);
+  }
+
+  private acquireLock(sessionId: string): void {
+    // Resolving the promise releases the lock, even if it is not granted yet
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    this.locks.set(sessionId, release);
+
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return;
+    }
+
+    navigator.locks.request(RECORDING_CONSTANTS.SESSION_LOCK_PREFIX + sessionId, () => held)
+      .catch(error => {
+        console.warn('⚠️ Could not lock recording session:', error);
+      });
+  }
+
+  private async queryHeldLocks(): Promise<Set<string> | null> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return null;
+    }
+
+    const snapshot = await navigator.locks.query();
+    return new Set((snapshot.held ?? []).map(lock => lock.name ?? ''));
+  }
+}
+
+// Singleton instance
+export const recordingStore = new RecordingStore();
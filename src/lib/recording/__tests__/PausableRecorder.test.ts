@@ -0,0 +1,191 @@
+/**
+ * Tests for PausableRecorder native pause and segment fallback
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PausableRecorder } from '../PausableRecorder';
+import { RecordingErrorCode } from '../types';
+import { readBlob } from '../../export/readBlob';
+
+const { concatenate } = vi.hoisted(() => ({
+  concatenate: vi.fn(async (blobs: Blob[]) => new Blob(blobs, { type: 'video/webm' }))
+}));
+
+vi.mock('../../editing', () => ({
+  recordingTrimmer: { concatenate }
+}));
+
+// Mock MediaRecorder that emits one chunk per state change
+class MockMediaRecorder {
+  static instances: MockMediaRecorder[] = [];
+  state: 'inactive' | 'recording' | 'paused' = 'inactive';
+  mimeType: string;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(public stream: MediaStream, options: MediaRecorderOptions = {}) {
+    this.mimeType = options.mimeType ?? 'video/webm';
+    MockMediaRecorder.instances.push(this);
+  }
+
+  static isTypeSupported() {
+    return true;
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  pause() {
+    this.emit('paused-data');
+    this.state = 'paused';
+  }
+
+  resume() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    // Real recorders deliver the final chunk asynchronously, before onstop
+    setTimeout(() => {
+      this.emit('final-data');
+      this.onstop?.();
+    }, 0);
+  }
+
+  emit(content: string) {
+    this.ondataavailable?.({ data: new Blob([content], { type: this.mimeType }) });
+  }
+}
+
+const stream = {} as MediaStream;
+
+const readText = async (blob: Blob) => new TextDecoder().decode(await readBlob(blob));
+
+describe('PausableRecorder', () => {
+  const originalMediaRecorder = global.MediaRecorder;
+  let now: number;
+
+  beforeEach(() => {
+    MockMediaRecorder.instances = [];
+    concatenate.mockClear();
+    now = 0;
+    global.MediaRecorder = MockMediaRecorder as unknown as typeof MediaRecorder;
+  });
+
+  afterEach(() => {
+    global.MediaRecorder = originalMediaRecorder;
+  });
+
+  describe('with native pause', () => {
+    it('should pause and resume the same MediaRecorder', async () => {
+      const recorder = new PausableRecorder(stream, { mimeType: 'video/webm' }, () => now);
+      const states: string[] = [];
+      recorder.onstatechange = state => states.push(state);
+
+      recorder.start();
+      now += 2000;
+      recorder.pause();
+      expect(MockMediaRecorder.instances[0].state).toBe('paused');
+      now += 10000;
+      recorder.resume();
+      now += 3000;
+
+      const result = await recorder.stop();
+
+      expect(MockMediaRecorder.instances).toHaveLength(1);
+      expect(states).toEqual(['recording', 'paused', 'recording', 'inactive']);
+      expect(result.durationMs).toBe(5000);
+      expect(result.segmentCount).toBe(1);
+      expect(await readText(result.blob)).toBe('paused-datafinal-data');
+      expect(concatenate).not.toHaveBeenCalled();
+    });
+
+    it('should forward chunks as they arrive', async () => {
+      const recorder = new PausableRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = chunk => chunks.push(chunk);
+
+      recorder.start();
+      MockMediaRecorder.instances[0].emit('a');
+      await recorder.stop();
+
+      expect(chunks).toHaveLength(2);
+    });
+  });
+
+  describe('without native pause', () => {
+    const { pause, resume } = MockMediaRecorder.prototype;
+
+    beforeEach(() => {
+      // Simulate a browser whose MediaRecorder has no pause/resume
+      (MockMediaRecorder.prototype as { pause?: unknown }).pause = undefined;
+      (MockMediaRecorder.prototype as { resume?: unknown }).resume = undefined;
+    });
+
+    afterEach(() => {
+      MockMediaRecorder.prototype.pause = pause;
+      MockMediaRecorder.prototype.resume = resume;
+    });
+
+    it('should record each segment separately and join them on stop', async () => {
+      const recorder = new PausableRecorder(stream, { mimeType: 'video/webm' }, () => now);
+
+      recorder.start();
+      now += 1000;
+      recorder.pause();
+      expect(MockMediaRecorder.instances[0].state).toBe('inactive');
+
+      now += 5000;
+      recorder.resume();
+      expect(MockMediaRecorder.instances).toHaveLength(2);
+      now += 2000;
+
+      const result = await recorder.stop();
+
+      expect(result.durationMs).toBe(3000);
+      expect(result.segmentCount).toBe(2);
+      expect(concatenate).toHaveBeenCalledTimes(1);
+
+      const [segments] = concatenate.mock.calls[0];
+      expect(segments).toHaveLength(2);
+      expect(await readText(segments[0])).toBe('final-data');
+      expect(await readText(segments[1])).toBe('final-data');
+    });
+
+    it('should tag chunks with the segment they belong to', async () => {
+      const recorder = new PausableRecorder(stream);
+      const segments: number[] = [];
+      recorder.ondataavailable = (_chunk, segment) => segments.push(segment);
+
+      recorder.start();
+      recorder.pause();
+      recorder.resume();
+      await recorder.stop();
+
+      expect(segments).toEqual([0, 1]);
+    });
+
+    it('should skip joining when stopped while paused after one segment', async () => {
+      const recorder = new PausableRecorder(stream);
+
+      recorder.start();
+      recorder.pause();
+      const result = await recorder.stop();
+
+      expect(result.segmentCount).toBe(1);
+      expect(concatenate).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should reject invalid state transitions', async () => {
+    const recorder = new PausableRecorder(stream);
+
+    await expect(recorder.stop()).rejects.toMatchObject({ code: RecordingErrorCode.INVALID_STATE });
+    recorder.start();
+    expect(() => recorder.start()).toThrow(expect.objectContaining({ code: RecordingErrorCode.INVALID_STATE }));
+    await recorder.stop();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for RecordingClock pause-aware timing
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecordingClock } from '../RecordingClock';
+
+describe('RecordingClock', () => {
+  let now: number;
+  let clock: RecordingClock;
+
+  beforeEach(() => {
+    now = 1000;
+    clock = new RecordingClock(() => now);
+  });
+
+  it('should measure time since start', () => {
+    clock.start();
+    now += 2500;
+
+    expect(clock.getElapsedMs()).toBe(2500);
+    expect(clock.getElapsedSeconds()).toBe(2);
+    expect(clock.isRunning).toBe(true);
+  });
+
+  it('should not count time spent paused', () => {
+    clock.start();
+    now += 3000;
+    clock.pause();
+    now += 60000;
+
+    expect(clock.getElapsedMs()).toBe(3000);
+    expect(clock.isRunning).toBe(false);
+
+    clock.resume();
+    now += 1500;
+    expect(clock.getElapsedMs()).toBe(4500);
+    expect(clock.segmentCount).toBe(2);
+  });
+
+  it('should ignore repeated pause and resume calls', () => {
+    clock.start();
+    now += 1000;
+    clock.pause();
+    clock.pause();
+    now += 1000;
+    clock.resume();
+    clock.resume();
+    now += 1000;
+
+    expect(clock.getElapsedMs()).toBe(2000);
+    expect(clock.segmentCount).toBe(2);
+  });
+
+  it('should not resume before it was started', () => {
+    clock.resume();
+    now += 1000;
+    expect(clock.getElapsedMs()).toBe(0);
+  });
+
+  it('should freeze the total on stop and restart from zero', () => {
+    clock.start();
+    now += 4000;
+    expect(clock.stop()).toBe(4000);
+    now += 1000;
+    expect(clock.getElapsedMs()).toBe(4000);
+
+    clock.start();
+    now += 500;
+    expect(clock.getElapsedMs()).toBe(500);
+    expect(clock.segmentCount).toBe(1);
+  });
+});
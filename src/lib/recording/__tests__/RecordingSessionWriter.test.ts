@@ -0,0 +1,80 @@
+/**
+ * Tests for RecordingSessionWriter write ordering and failure handling
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RecordingSessionWriter } from '../RecordingSessionWriter';
+import type { RecordingStore } from '../RecordingStore';
+
+vi.mock('../../editing', () => ({
+  recordingTrimmer: { concatenate: vi.fn() }
+}));
+
+const createStore = (overrides: Partial<Record<keyof RecordingStore, unknown>> = {}) => {
+  const written: string[] = [];
+  const store = {
+    isSupported: () => true,
+    // Session creation is slower than the first chunk callbacks
+    createSession: vi.fn(() => new Promise(resolve => setTimeout(() => resolve({ id: 'take-1' }), 5))),
+    appendChunk: vi.fn(async (_id: string, chunk: Blob, segment: number) => {
+      written.push(`${segment}:${chunk.size}`);
+    }),
+    deleteSession: vi.fn(async () => {}),
+    releaseSession: vi.fn(),
+    ...overrides
+  };
+  return { store: store as unknown as RecordingStore, mocks: store, written };
+};
+
+const options = { mimeType: 'video/webm', source: 'camera' };
+
+describe('RecordingSessionWriter', () => {
+  it('should write chunks in order once the session exists', async () => {
+    const { store, mocks, written } = createStore();
+    const writer = new RecordingSessionWriter(options, store);
+
+    writer.write(new Blob(['a']), 0, 1000);
+    writer.write(new Blob(['bb']), 0, 2000);
+    writer.write(new Blob(['ccc']), 1, 3000);
+    await writer.complete();
+
+    expect(written).toEqual(['0:1', '0:2', '1:3']);
+    expect(mocks.deleteSession).toHaveBeenCalledWith('take-1');
+  });
+
+  it('should stop writing after a storage failure without throwing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const appendChunk = vi.fn().mockRejectedValue(new Error('QuotaExceededError'));
+    const { store } = createStore({ appendChunk });
+    const writer = new RecordingSessionWriter(options, store);
+
+    writer.write(new Blob(['a']), 0, 1000);
+    writer.write(new Blob(['b']), 0, 2000);
+    await writer.abandon();
+
+    expect(appendChunk).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('should release the session for recovery when abandoned', async () => {
+    const { store, mocks } = createStore();
+    const writer = new RecordingSessionWriter(options, store);
+
+    await writer.abandon();
+
+    expect(mocks.releaseSession).toHaveBeenCalledWith('take-1');
+    expect(mocks.deleteSession).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when storage is unavailable', async () => {
+    const { store, mocks } = createStore({ isSupported: () => false });
+    const writer = new RecordingSessionWriter(options, store);
+
+    writer.write(new Blob(['a']), 0, 1000);
+    await writer.complete();
+
+    expect(mocks.createSession).not.toHaveBeenCalled();
+    expect(mocks.appendChunk).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for RecordingStore recovery helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecordingStore } from '../RecordingStore';
+import { RECORDING_CONSTANTS, type RecordingChunkRecord, type RecordingSessionRecord } from '../types';
+import { readBlob } from '../../export/readBlob';
+
+const session = (overrides: Partial<RecordingSessionRecord> = {}): RecordingSessionRecord => ({
+  id: 'take-1',
+  mimeType: 'video/webm',
+  source: 'camera',
+  startedAt: 0,
+  updatedAt: 0,
+  durationMs: 0,
+  chunkCount: 1,
+  byteSize: 1,
+  ...overrides
+});
+
+const chunk = (sequence: number, segment: number, content: string): RecordingChunkRecord => ({
+  sessionId: 'take-1',
+  sequence,
+  segment,
+  data: new Blob([content])
+});
+
+const readText = async (blob: Blob) => new TextDecoder().decode(await readBlob(blob));
+
+describe('RecordingStore', () => {
+  describe('isInterrupted', () => {
+    it('should treat sessions locked by another tab as live', () => {
+      const held = new Set([`${RECORDING_CONSTANTS.SESSION_LOCK_PREFIX}take-1`]);
+
+      expect(RecordingStore.isInterrupted(session(), held)).toBe(false);
+      expect(RecordingStore.isInterrupted(session({ id: 'take-2' }), held)).toBe(true);
+    });
+
+    it('should fall back to staleness without the Web Locks API', () => {
+      const updatedAt = 1_000_000;
+
+      expect(RecordingStore.isInterrupted(session({ updatedAt }), null, updatedAt + 1000)).toBe(false);
+      expect(RecordingStore.isInterrupted(
+        session({ updatedAt }),
+        null,
+        updatedAt + RECORDING_CONSTANTS.STALE_SESSION_MS + 1
+      )).toBe(true);
+    });
+  });
+
+  describe('assembleSegments', () => {
+    it('should order chunks by sequence within each segment', async () => {
+      const blobs = RecordingStore.assembleSegments(
+        [chunk(2, 0, 'c'), chunk(0, 0, 'a'), chunk(1, 0, 'b')],
+        'video/webm'
+      );
+
+      expect(blobs).toHaveLength(1);
+      expect(blobs[0].type).toBe('video/webm');
+      expect(await readText(blobs[0])).toBe('abc');
+    });
+
+    it('should return one blob per segment in segment order', async () => {
+      const blobs = RecordingStore.assembleSegments(
+        [chunk(3, 1, 'd'), chunk(0, 0, 'a'), chunk(2, 1, 'c'), chunk(1, 0, 'b')],
+        'video/webm'
+      );
+
+      expect(await Promise.all(blobs.map(readText))).toEqual(['ab', 'cd']);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for recording markers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addMarker, createSceneMarker, createSlideMarker, getSlideMarkerLabel, remapMarkers } from '../markers';
+
+describe('getSlideMarkerLabel', () => {
+  it('should name the deck without its extension', () => {
+    expect(getSlideMarkerLabel({ fileName: 'Quarterly review.pptx', page: 3 })).toBe('Quarterly review · Slide 3');
+  });
+
+  it('should fall back to the slide number', () => {
+    expect(getSlideMarkerLabel({ fileName: null, page: 1 })).toBe('Slide 1');
+  });
+});
+
+describe('createSlideMarker', () => {
+  it('should round the time and never go negative', () => {
+    expect(createSlideMarker({ fileName: 'talk.pdf', page: 2 }, 1234.6)).toEqual({
+      kind: 'slide',
+      timeMs: 1235,
+      label: 'talk · Slide 2'
+    });
+    expect(createSlideMarker({ fileName: 'talk.pdf', page: 2 }, -5).timeMs).toBe(0);
+  });
+});
+
+describe('createSceneMarker', () => {
+  it('should use the scene name', () => {
+    expect(createSceneMarker(' Demo ', 500)).toEqual({ kind: 'scene', timeMs: 500, label: 'Demo' });
+  });
+});
+
+describe('addMarker', () => {
+  it('should keep markers that are far enough apart', () => {
+    const first = createSlideMarker({ fileName: null, page: 2 }, 1000);
+    const second = createSlideMarker({ fileName: null, page: 3 }, 5000);
+
+    expect(addMarker(addMarker([], first), second)).toEqual([first, second]);
+  });
+
+  it('should collapse quick slide changes into the last one', () => {
+    const markers = [2, 3, 4].reduce(
+      (list, page, index) => addMarker(list, createSlideMarker({ fileName: null, page }, 1000 + index * 200)),
+      [createSlideMarker({ fileName: null, page: 1 }, 0)]
+    );
+
+    expect(markers.map(marker => marker.label)).toEqual(['Slide 1', 'Slide 4']);
+  });
+
+  it('should not collapse markers of different kinds', () => {
+    const slide = createSlideMarker({ fileName: null, page: 2 }, 1000);
+    const scene = createSceneMarker('Close-up', 1200);
+
+    expect(addMarker([slide], scene)).toEqual([slide, scene]);
+  });
+});
+
+describe('remapMarkers', () => {
+  const marker = (timeMs: number, label = `At ${timeMs}`) => ({ kind: 'slide' as const, timeMs, label });
+
+  it('should shift markers onto the trimmed timeline', () => {
+    const segments = [{ start: 2, end: 5 }, { start: 8, end: 10 }];
+    expect(remapMarkers([marker(2000), marker(4500), marker(9000)], segments)).toEqual([
+      { ...marker(2000), timeMs: 0 },
+      { ...marker(4500), timeMs: 2500 },
+      { ...marker(9000), timeMs: 4000 }
+    ]);
+  });
+
+  it('should drop markers in removed ranges', () => {
+    const segments = [{ start: 1, end: 3 }, { start: 6, end: 8 }];
+    expect(remapMarkers([marker(500), marker(3000), marker(5999), marker(8000)], segments)).toEqual([]);
+  });
+
+  it('should keep markers as they are when nothing was cut', () => {
+    const markers = [marker(0), marker(1500)];
+    expect(remapMarkers(markers, [{ start: 0, end: 10 }])).toEqual(markers);
+  });
+});
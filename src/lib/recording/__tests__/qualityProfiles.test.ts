@@ -0,0 +1,80 @@
+/**
+ * Tests for quality profile lookup and MediaRecorder option building
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_QUALITY_PROFILE_ID,
+  QUALITY_PROFILES,
+  getCameraConstraints,
+  getDisplayConstraints,
+  getQualityProfile,
+  getRecorderOptions,
+  isQualityProfileId
+} from '../qualityProfiles';
+
+describe('qualityProfiles', () => {
+  describe('getQualityProfile', () => {
+    it('should return the requested profile', () => {
+      expect(getQualityProfile('hd-1080p60').fps).toBe(60);
+    });
+
+    it('should fall back to the default for unknown or missing ids', () => {
+      expect(getQualityProfile('8k-120').id).toBe(DEFAULT_QUALITY_PROFILE_ID);
+      expect(getQualityProfile(null).id).toBe(DEFAULT_QUALITY_PROFILE_ID);
+    });
+
+    it('should not treat inherited object keys as profile ids', () => {
+      expect(isQualityProfileId('toString')).toBe(false);
+      expect(isQualityProfileId('__proto__')).toBe(false);
+      expect(getQualityProfile('constructor').id).toBe(DEFAULT_QUALITY_PROFILE_ID);
+    });
+  });
+
+  describe('getRecorderOptions', () => {
+    it('should use the first supported codec in profile order', () => {
+      const profile = QUALITY_PROFILES['screen-4k'];
+      const options = getRecorderOptions(profile, type => type.includes('vp9') || type.includes('vp8'));
+
+      expect(options.mimeType).toBe('video/webm; codecs=vp8,opus');
+      expect(options.videoBitsPerSecond).toBe(profile.videoBitsPerSecond);
+      expect(options.audioBitsPerSecond).toBe(profile.audioBitsPerSecond);
+      expect(options.videoKeyFrameIntervalDuration).toBe(profile.keyframeIntervalSeconds * 1000);
+    });
+
+    it('should prefer VP8 over VP9 so WebM takes can be converted to MP4', () => {
+      Object.values(QUALITY_PROFILES).forEach(profile => {
+        const options = getRecorderOptions(profile, type => type.startsWith('video/webm'));
+        expect(options.mimeType).toBe('video/webm; codecs=vp8,opus');
+      });
+    });
+
+    it('should fall back to a bare container type', () => {
+      const options = getRecorderOptions(QUALITY_PROFILES['draft-720p30'], type => type === 'video/webm');
+
+      expect(options.mimeType).toBe('video/webm');
+    });
+
+    it('should leave the mime type to the browser when nothing matches', () => {
+      const options = getRecorderOptions(QUALITY_PROFILES['hd-1080p30'], () => false);
+
+      expect(options).not.toHaveProperty('mimeType');
+    });
+  });
+
+  describe('capture constraints', () => {
+    it('should cap camera resolution at 1080p while keeping the aspect ratio', () => {
+      const constraints = getCameraConstraints(QUALITY_PROFILES['screen-4k']);
+
+      expect(constraints.width).toEqual({ ideal: 1920 });
+      expect(constraints.height).toEqual({ ideal: 1080 });
+    });
+
+    it('should request the full profile size for screen capture', () => {
+      const constraints = getDisplayConstraints(QUALITY_PROFILES['screen-4k']);
+
+      expect(constraints.width).toEqual({ ideal: 3840 });
+      expect(constraints.frameRate).toEqual({ ideal: 30 });
+    });
+  });
+});
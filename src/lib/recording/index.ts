@@ -0,0 +1,8 @@
+// Recording capture exports
+export * from './types';
+export { RecordingClock } from './RecordingClock';
+export { PausableRecorder } from './PausableRecorder';
+export { RecordingStore, recordingStore, type CreateSessionOptions } from './RecordingStore';
+export { RecordingSessionWriter } from './RecordingSessionWriter';
+export * from './qualityProfiles';
+export * from './markers';
@@ -0,0 +1,69 @@
+/**
+ * Recording markers - Timestamped stage events kept alongside a take
+ */
+
+import type { TimeRange } from '../editing/types';
+import { RECORDING_CONSTANTS, type RecordingMarker } from './types';
+
+export interface SlideMarkerDetails {
+  fileName: string | null;
+  page: number;
+}
+
+/**
+ * Chapter-style label for a slide: "Deck name · Slide 3"
+ */
+export function getSlideMarkerLabel({ fileName, page }: SlideMarkerDetails): string {
+  const deckName = fileName?.replace(/\.[^.]+$/, '').trim();
+  return deckName ? `${deckName} · Slide ${page}` : `Slide ${page}`;
+}
+
+export function createSlideMarker(details: SlideMarkerDetails, timeMs: number): RecordingMarker {
+  return {
+    kind: 'slide',
+    timeMs: Math.max(0, Math.round(timeMs)),
+    label: getSlideMarkerLabel(details)
+  };
+}
+
+export function createSceneMarker(sceneName: string, timeMs: number): RecordingMarker {
+  return {
+    kind: 'scene',
+    timeMs: Math.max(0, Math.round(timeMs)),
+    label: sceneName.trim() || 'Scene'
+  };
+}
+
+/**
+ * Append a marker, replacing the previous one of the same kind when they are
+ * within MARKER_MERGE_MS of each other
+ */
+export function addMarker(markers: RecordingMarker[], marker: RecordingMarker): RecordingMarker[] {
+  const last = markers[markers.length - 1];
+  if (
+    last &&
+    last.kind === marker.kind &&
+    marker.timeMs - last.timeMs < RECORDING_CONSTANTS.MARKER_MERGE_MS
+  ) {
+    return [...markers.slice(0, -1), marker];
+  }
+  return [...markers, marker];
+}
+
+/**
+ * Move markers onto the timeline of a trimmed take made of the kept segments
+ * (in seconds, in order). Markers inside removed ranges are dropped.
+ */
+export function remapMarkers(markers: RecordingMarker[], segments: TimeRange[]): RecordingMarker[] {
+  return markers.flatMap(marker => {
+    const time = marker.timeMs / 1000;
+    let offset = 0;
+    for (const segment of segments) {
+      if (time >= segment.start && time < segment.end) {
+        return [{ ...marker, timeMs: Math.round((offset + time - segment.start) * 1000) }];
+      }
+      offset += segment.end - segment.start;
+    }
+    return [];
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Named recording quality profiles
+ *
+ * A profile ties together everything that decides how big and how sharp a
+ * take is: capture constraints, the stage canvas size, encoder bitrates,
+ * codec preference and keyframe cadence.
+ */
+
+export type QualityProfileId = 'draft-720p30' | 'hd-1080p30' | 'hd-1080p60' | 'screen-4k';
+
+export interface QualityProfile {
+  id: QualityProfileId;
+  name: string;
+  description: string;
+  width: number;
+  height: number;
+  fps: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  // MIME types to try in order; the browser default is used if none match
+  codecs: string[];
+  // Seconds between keyframes; shorter seeks faster, longer compresses better
+  keyframeIntervalSeconds: number;
+}
+
+// Options newer Chromium builds accept; others ignore unknown members
+export type QualityRecorderOptions = MediaRecorderOptions & {
+  videoKeyFrameIntervalDuration?: number;
+};
+
+const H264 = 'video/mp4; codecs=h264,aac';
+const H264_BASELINE = 'video/mp4; codecs=avc1.42E01E,mp4a.40.2';
+// VP8 is the only WebM codec the bundled MP4 transcoder can decode, so every
+// profile ranks it above VP9 for browsers that cannot record MP4
+const VP8 = 'video/webm; codecs=vp8,opus';
+const VP9 = 'video/webm; codecs=vp9,opus';
+
+export const QUALITY_PROFILES: Record<QualityProfileId, QualityProfile> = {
+  'draft-720p30': {
+    id: 'draft-720p30',
+    name: '720p30 Draft',
+    description: 'Small files for reviews and quick shares',
+    width: 1280,
+    height: 720,
+    fps: 30,
+    videoBitsPerSecond: 1_500_000,
+    audioBitsPerSecond: 96_000,
+    codecs: [VP8, H264, H264_BASELINE, VP9],
+    keyframeIntervalSeconds: 4
+  },
+  'hd-1080p30': {
+    id: 'hd-1080p30',
+    name: '1080p30',
+    description: 'Sharp talks and tutorials',
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    videoBitsPerSecond: 5_000_000,
+    audioBitsPerSecond: 128_000,
+    codecs: [H264, H264_BASELINE, VP8, VP9],
+    keyframeIntervalSeconds: 2
+  },
+  'hd-1080p60': {
+    id: 'hd-1080p60',
+    name: '1080p60',
+    description: 'Smooth motion for demos and fast scrolling',
+    width: 1920,
+    height: 1080,
+    fps: 60,
+    videoBitsPerSecond: 8_000_000,
+    audioBitsPerSecond: 160_000,
+    codecs: [H264, H264_BASELINE, VP8, VP9],
+    keyframeIntervalSeconds: 2
+  },
+  'screen-4k': {
+    id: 'screen-4k',
+    name: '4K Screen',
+    description: 'Readable code and small text on large displays',
+    width: 3840,
+    height: 2160,
+    fps: 30,
+    videoBitsPerSecond: 20_000_000,
+    audioBitsPerSecond: 160_000,
+    codecs: [H264, VP8, H264_BASELINE, VP9],
+    keyframeIntervalSeconds: 2
+  }
+};
+
+export const DEFAULT_QUALITY_PROFILE_ID: QualityProfileId = 'hd-1080p30';
+
+// Cameras rarely go beyond 1080p; screen capture carries the extra detail
+const MAX_CAMERA_HEIGHT = 1080;
+
+export function isQualityProfileId(value: unknown): value is QualityProfileId {
+  return typeof value === 'string' && Object.hasOwn(QUALITY_PROFILES, value);
+}
+
+export function getQualityProfile(id: string | null | undefined): QualityProfile {
+  return QUALITY_PROFILES[isQualityProfileId(id) ? id : DEFAULT_QUALITY_PROFILE_ID];
+}
+
+export function getCameraConstraints(profile: QualityProfile): MediaTrackConstraints {
+  const scale = Math.min(1, MAX_CAMERA_HEIGHT / profile.height);
+  return {
+    width: { ideal: Math.round(profile.width * scale) },
+    height: { ideal: Math.round(profile.height * scale) },
+    frameRate: { ideal: profile.fps },
+    facingMode: 'user'
+  };
+}
+
+export function getDisplayConstraints(profile: QualityProfile): MediaTrackConstraints {
+  return {
+    width: { ideal: profile.width },
+    height: { ideal: profile.height },
+    frameRate: { ideal: profile.fps }
+  };
+}
+
+/**
+ * Pick the first codec the browser can record and build MediaRecorder options
+ */
+export function getRecorderOptions(
+  profile: QualityProfile,
+  isTypeSupported: (mimeType: string) => boolean = type => MediaRecorder.isTypeSupported(type)
+): QualityRecorderOptions {
+  const mimeType = profile.codecs.find(type => isTypeSupported(type)) ??
+    ['video/mp4', 'video/webm'].find(type => isTypeSupported(type));
+
+  return {
+    ...(mimeType ? { mimeType } : {}),
+    videoBitsPerSecond: profile.videoBitsPerSecond,
+    audioBitsPerSecond: profile.audioBitsPerSecond,
+    videoKeyFrameIntervalDuration: profile.keyframeIntervalSeconds * 1000
+  };
+}
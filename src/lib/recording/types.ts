@@ -0,0 +1,77 @@
+/**
+ * Core types for capturing recordings
+ */
+
+// Error types for better error handling
+export class RecordingError extends Error {
+  constructor(
+    message: string,
+    public code: RecordingErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+export enum RecordingErrorCode {
+  INVALID_STATE = 'INVALID_STATE',
+  RECORDER_FAILED = 'RECORDER_FAILED',
+  FINALIZE_FAILED = 'FINALIZE_FAILED'
+}
+
+export type RecorderState = 'inactive' | 'recording' | 'paused';
+
+export interface RecordingResult {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number; // Active time, excluding pauses
+  // Number of MediaRecorder sessions that were joined (1 with native pause)
+  segmentCount: number;
+}
+
+// A recording persisted chunk by chunk so it survives a crash or reload
+export interface RecordingSessionRecord {
+  id: string;
+  mimeType: string;
+  source: string; // RecordingSource from the presenter ('camera' | 'screen' | 'both')
+  startedAt: number;
+  updatedAt: number;
+  durationMs: number; // Active time covered by the stored chunks
+  chunkCount: number;
+  byteSize: number;
+}
+
+export interface RecordingChunkRecord {
+  sessionId: string;
+  sequence: number;
+  segment: number; // Pause fallback segment; each one is a separate file
+  data: Blob;
+}
+
+// Something that happened on stage during a take, e.g. a slide turn or scene switch
+export interface RecordingMarker {
+  kind: RecordingMarkerKind;
+  timeMs: number; // Active recording time, excluding pauses
+  label: string;
+}
+
+export type RecordingMarkerKind = 'slide' | 'scene';
+
+export interface RecoveredRecording {
+  session: RecordingSessionRecord;
+  blob: Blob;
+}
+
+export const RECORDING_CONSTANTS = {
+  DEFAULT_TIMESLICE: 1000,
+  // How often the UI timer reads the clock
+  TIMER_INTERVAL: 250,
+  // Web Lock held by the tab that is writing a session
+  SESSION_LOCK_PREFIX: 'recording-session-',
+  // Without the Web Locks API, sessions untouched this long count as interrupted
+  STALE_SESSION_MS: 30000,
+  // Markers of one kind closer together than this collapse into the later one,
+  // so flicking through slides leaves only the slide that was actually shown
+  MARKER_MERGE_MS: 1000
+} as const;
@@ -0,0 +1,198 @@
+/**
+ * Tests for scene list operations and persistence
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applySceneAnnotations,
+  createDefaultSceneCollection,
+  createScene,
+  deleteScene,
+  duplicateScene,
+  getCopyName,
+  getSceneAnnotations,
+  loadSceneCollection,
+  normalizeSceneName,
+  normalizeTransition,
+  saveSceneCollection,
+  updateScene
+} from '../scenes';
+import { SCENE_CONSTANTS, SceneErrorCode, type ScenePresenter } from '../types';
+import type { Annotation } from '../../annotations/types';
+
+const presenter: ScenePresenter = {
+  backgroundType: 'visible',
+  shape: 'rectangle',
+  color: '#3b82f6',
+  virtualBackground: 'tech',
+  videoFilter: 'none',
+  size: 'medium',
+  position: { x: 16, y: 16 }
+};
+
+const annotation: Annotation = {
+  id: 'annotation-1',
+  shape: 'pen',
+  color: '#ef4444',
+  width: 4,
+  points: [{ x: 10, y: 10, pressure: 0.5 }, { x: 40, y: 20, pressure: 0.7 }]
+};
+
+function createMemoryStorage() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); }
+  };
+}
+
+describe('scenes', () => {
+  describe('createScene', () => {
+    it('should copy presenter and view so later edits do not leak in', () => {
+      const view = { ...SCENE_CONSTANTS.DEFAULT_VIEW, hiddenItemIds: ['a'] };
+      const livePresenter = { ...presenter, position: { x: 1, y: 2 } };
+      const scene = createScene('  Intro  ', livePresenter, view);
+
+      livePresenter.position.x = 99;
+      view.hiddenItemIds.push('b');
+
+      expect(scene.name).toBe('Intro');
+      expect(scene.presenter.position.x).toBe(1);
+      expect(scene.view.hiddenItemIds).toEqual(['a']);
+    });
+  });
+
+  describe('names', () => {
+    it('should normalize and cap names', () => {
+      expect(normalizeSceneName('  Q   and A ')).toBe('Q and A');
+      expect(normalizeSceneName('   ')).toBeNull();
+      expect(normalizeSceneName('x'.repeat(100))).toHaveLength(SCENE_CONSTANTS.MAX_NAME_LENGTH);
+    });
+
+    it('should find a free copy name', () => {
+      expect(getCopyName('Intro', ['Intro'])).toBe('Intro copy');
+      expect(getCopyName('Intro', ['Intro', 'Intro copy', 'Intro copy 2'])).toBe('Intro copy 3');
+    });
+  });
+
+  describe('collection operations', () => {
+    it('should start with the three common layouts', () => {
+      const collection = createDefaultSceneCollection(presenter);
+      expect(collection.scenes.map(scene => scene.name)).toEqual(['Full camera', 'Slides + bubble', 'Screen only']);
+      expect(collection.scenes[0].view.itemsVisible).toBe(false);
+      expect(collection.scenes[2].presenter.backgroundType).toBe('hidden');
+      expect(collection.transition).toEqual(SCENE_CONSTANTS.DEFAULT_TRANSITION);
+    });
+
+    it('should insert duplicates after the original with a new id', () => {
+      const collection = createDefaultSceneCollection(presenter);
+      const original = collection.scenes[0];
+      const result = duplicateScene(collection, original.id);
+
+      expect(result.scenes).toHaveLength(4);
+      expect(result.scenes[1].name).toBe('Full camera copy');
+      expect(result.scenes[1].id).not.toBe(original.id);
+      expect(result.scenes[1].presenter).toEqual(original.presenter);
+    });
+
+    it('should copy annotations into duplicates', () => {
+      const collection = createDefaultSceneCollection(presenter);
+      const original = { ...collection.scenes[0], annotations: [annotation] };
+      const result = duplicateScene({ ...collection, scenes: [original] }, original.id);
+
+      expect(result.scenes[1].annotations).toEqual([annotation]);
+      expect(result.scenes[1].annotations).not.toBe(original.annotations);
+    });
+
+    it('should update a scene in place', () => {
+      const collection = createDefaultSceneCollection(presenter);
+      const id = collection.scenes[1].id;
+      const result = updateScene(collection, id, { name: 'Slides' });
+
+      expect(result.scenes[1]).toMatchObject({ id, name: 'Slides' });
+      expect(collection.scenes[1].name).toBe('Slides + bubble');
+    });
+
+    it('should clear the active scene when it is deleted', () => {
+      const collection = { ...createDefaultSceneCollection(presenter) };
+      collection.activeSceneId = collection.scenes[0].id;
+      const result = deleteScene(collection, collection.scenes[0].id);
+
+      expect(result.scenes).toHaveLength(2);
+      expect(result.activeSceneId).toBeNull();
+    });
+
+    it('should refuse to delete the last scene or unknown ones', () => {
+      const collection = createDefaultSceneCollection(presenter);
+      const single = { ...collection, scenes: [collection.scenes[0]] };
+
+      expect(() => deleteScene(single, single.scenes[0].id)).toThrow(
+        expect.objectContaining({ code: SceneErrorCode.LAST_SCENE })
+      );
+      expect(() => deleteScene(collection, 'missing')).toThrow(
+        expect.objectContaining({ code: SceneErrorCode.NOT_FOUND })
+      );
+    });
+  });
+
+  describe('transitions', () => {
+    it('should keep valid transitions and clamp durations', () => {
+      expect(normalizeTransition({ type: 'slide', durationMs: 600 })).toEqual({ type: 'slide', durationMs: 600 });
+      expect(normalizeTransition({ type: 'cut', durationMs: 99999 }).durationMs).toBe(SCENE_CONSTANTS.MAX_TRANSITION_MS);
+      expect(normalizeTransition({ type: 'spin' })).toEqual(SCENE_CONSTANTS.DEFAULT_TRANSITION);
+      expect(normalizeTransition(null)).toEqual(SCENE_CONSTANTS.DEFAULT_TRANSITION);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should round-trip scenes through storage', () => {
+      const storage = createMemoryStorage();
+      const collection = createDefaultSceneCollection(presenter);
+      collection.activeSceneId = collection.scenes[1].id;
+
+      saveSceneCollection(collection, storage);
+      expect(loadSceneCollection(storage)).toEqual(collection);
+    });
+
+    it('should leave annotations out of storage and put them back by scene id', () => {
+      const storage = createMemoryStorage();
+      const collection = createDefaultSceneCollection(presenter);
+      const withAnnotations = updateScene(collection, collection.scenes[1].id, { annotations: [annotation] });
+
+      saveSceneCollection(withAnnotations, storage);
+      const loaded = loadSceneCollection(storage)!;
+      expect(loaded.scenes.every(scene => scene.annotations.length === 0)).toBe(true);
+
+      const stored = getSceneAnnotations(withAnnotations);
+      expect(stored).toEqual({ [collection.scenes[1].id]: [annotation] });
+      expect(applySceneAnnotations(loaded, stored)).toEqual(withAnnotations);
+    });
+
+    it('should return null when nothing usable is stored', () => {
+      expect(loadSceneCollection(createMemoryStorage())).toBeNull();
+      expect(loadSceneCollection({ getItem: () => '{broken' })).toBeNull();
+      expect(loadSceneCollection({ getItem: () => JSON.stringify({ scenes: [{ name: 'no id' }] }) })).toBeNull();
+    });
+
+    it('should drop an active id that no longer matches a scene', () => {
+      const storage = createMemoryStorage();
+      saveSceneCollection({ ...createDefaultSceneCollection(presenter), activeSceneId: 'gone' }, storage);
+      expect(loadSceneCollection(storage)?.activeSceneId).toBeNull();
+    });
+
+    it('should keep valid annotations and default older scenes to none', () => {
+      const storage = createMemoryStorage();
+      const [first, second] = createDefaultSceneCollection(presenter).scenes;
+      const broken = { ...annotation, id: 'broken', points: [] };
+      const legacy = { id: second.id, name: second.name, presenter: second.presenter, view: second.view };
+      storage.setItem(SCENE_CONSTANTS.STORAGE_KEY, JSON.stringify({
+        scenes: [{ ...first, annotations: [annotation, broken] }, legacy]
+      }));
+
+      const loaded = loadSceneCollection(storage);
+      expect(loaded?.scenes[0].annotations).toEqual([annotation]);
+      expect(loaded?.scenes[1].annotations).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,3 @@
+// Presentation scene exports
+export * from './types';
+export * from './scenes';
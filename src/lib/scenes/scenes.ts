@@ -0,0 +1,230 @@
+/**
+ * Pure scene list operations and persistence
+ *
+ * Scenes are plain data: switching one in copies its presenter settings and
+ * view onto the live board, so editing the board afterwards never changes a
+ * saved scene until it is explicitly updated.
+ */
+
+import { normalizeAnnotations } from '../annotations/strokes';
+import type { Annotation } from '../annotations/types';
+import {
+  SCENE_CONSTANTS,
+  SceneError,
+  SceneErrorCode,
+  type Scene,
+  type SceneCollection,
+  type ScenePresenter,
+  type SceneTransition,
+  type SceneView
+} from './types';
+
+const TRANSITION_TYPES = ['cut', 'fade', 'slide'];
+
+export function createSceneId(): string {
+  return `scene-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function createScene(
+  name: string,
+  presenter: ScenePresenter,
+  view: SceneView,
+  annotations: Annotation[] = []
+): Scene {
+  return {
+    id: createSceneId(),
+    name: normalizeSceneName(name) ?? 'Scene',
+    presenter: { ...presenter, position: { ...presenter.position } },
+    view: cloneView(view),
+    annotations: [...annotations]
+  };
+}
+
+/**
+ * Trim and cap a user-entered name; returns null when nothing is left
+ */
+export function normalizeSceneName(name: string): string | null {
+  const normalized = name.replace(/\s+/g, ' ').trim().slice(0, SCENE_CONSTANTS.MAX_NAME_LENGTH);
+  return normalized || null;
+}
+
+/**
+ * "Name copy", then "Name copy 2" and so on, skipping names in use
+ */
+export function getCopyName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames);
+  const base = `${name} copy`;
+  if (!taken.has(base)) {
+    return base;
+  }
+  let index = 2;
+  while (taken.has(`${base} ${index}`)) {
+    index++;
+  }
+  return `${base} ${index}`;
+}
+
+/**
+ * Insert a copy right after the original
+ */
+export function duplicateScene(collection: SceneCollection, sceneId: string): SceneCollection {
+  const index = findSceneIndex(collection, sceneId);
+  const original = collection.scenes[index];
+  const copy = createScene(
+    getCopyName(original.name, collection.scenes.map(scene => scene.name)),
+    original.presenter,
+    original.view,
+    original.annotations
+  );
+  const scenes = [...collection.scenes];
+  scenes.splice(index + 1, 0, copy);
+  return { ...collection, scenes };
+}
+
+export function updateScene(
+  collection: SceneCollection,
+  sceneId: string,
+  changes: Partial<Omit<Scene, 'id'>>
+): SceneCollection {
+  const index = findSceneIndex(collection, sceneId);
+  const scenes = [...collection.scenes];
+  scenes[index] = { ...scenes[index], ...changes };
+  return { ...collection, scenes };
+}
+
+/**
+ * Remove a scene. One always remains so there is something to switch to.
+ */
+export function deleteScene(collection: SceneCollection, sceneId: string): SceneCollection {
+  findSceneIndex(collection, sceneId);
+  if (collection.scenes.length <= 1) {
+    throw new SceneError('The last scene cannot be deleted', SceneErrorCode.LAST_SCENE);
+  }
+  return {
+    ...collection,
+    scenes: collection.scenes.filter(scene => scene.id !== sceneId),
+    activeSceneId: collection.activeSceneId === sceneId ? null : collection.activeSceneId
+  };
+}
+
+/**
+ * The layouts most talks alternate between, built on the current look
+ */
+export function createStarterScenes(presenter: ScenePresenter): Scene[] {
+  const view = SCENE_CONSTANTS.DEFAULT_VIEW;
+  return [
+    // Position 0,0 centers the presenter on the board
+    createScene('Full camera', { ...presenter, size: 'xlarge', position: { x: 0, y: 0 } }, { ...view, itemsVisible: false }),
+    createScene('Slides + bubble', { ...presenter, size: 'small', shape: 'circle', position: { x: 16, y: 16 } }, view),
+    createScene('Screen only', { ...presenter, backgroundType: 'hidden' }, view)
+  ];
+}
+
+export function createDefaultSceneCollection(presenter: ScenePresenter): SceneCollection {
+  return {
+    scenes: createStarterScenes(presenter),
+    activeSceneId: null,
+    transition: { ...SCENE_CONSTANTS.DEFAULT_TRANSITION }
+  };
+}
+
+export function normalizeTransition(value: unknown): SceneTransition {
+  const transition = value as Partial<SceneTransition> | null;
+  const type = TRANSITION_TYPES.includes(transition?.type as string)
+    ? transition!.type!
+    : SCENE_CONSTANTS.DEFAULT_TRANSITION.type;
+  const durationMs = typeof transition?.durationMs === 'number' && Number.isFinite(transition.durationMs)
+    ? Math.min(SCENE_CONSTANTS.MAX_TRANSITION_MS, Math.max(SCENE_CONSTANTS.MIN_TRANSITION_MS, transition.durationMs))
+    : SCENE_CONSTANTS.DEFAULT_TRANSITION.durationMs;
+  return { type, durationMs };
+}
+
+/**
+ * A scene collection read back from storage or a project file, or null when
+ * it holds no usable scenes
+ */
+export function normalizeSceneCollection(value: unknown): SceneCollection | null {
+  const saved = value as Partial<SceneCollection> | null;
+  const scenes = Array.isArray(saved?.scenes) ? saved.scenes.filter(isScene) : [];
+  if (scenes.length === 0) {
+    return null;
+  }
+  return {
+    scenes: scenes.map(scene => ({
+      ...scene,
+      view: { ...SCENE_CONSTANTS.DEFAULT_VIEW, ...scene.view },
+      // Scenes saved before annotations existed have none
+      annotations: normalizeAnnotations(scene.annotations)
+    })),
+    activeSceneId: scenes.some(scene => scene.id === saved!.activeSceneId) ? saved!.activeSceneId! : null,
+    transition: normalizeTransition(saved!.transition)
+  };
+}
+
+/**
+ * Saved scenes, or null when nothing usable is stored yet
+ */
+export function loadSceneCollection(storage: Pick<Storage, 'getItem'> = localStorage): SceneCollection | null {
+  try {
+    return normalizeSceneCollection(JSON.parse(storage.getItem(SCENE_CONSTANTS.STORAGE_KEY) ?? 'null'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the scene list without its annotations; freehand strokes quickly
+ * outgrow the localStorage quota, so they go to the workspace store instead
+ */
+export function saveSceneCollection(collection: SceneCollection, storage: Pick<Storage, 'setItem'> = localStorage): void {
+  const scenes = collection.scenes.map(scene => ({ ...scene, annotations: [] }));
+  storage.setItem(SCENE_CONSTANTS.STORAGE_KEY, JSON.stringify({ ...collection, scenes }));
+}
+
+/**
+ * Each scene's annotations by scene id, leaving out scenes without any
+ */
+export function getSceneAnnotations(collection: SceneCollection): Record<string, Annotation[]> {
+  return Object.fromEntries(
+    collection.scenes.filter(scene => scene.annotations.length > 0).map(scene => [scene.id, scene.annotations])
+  );
+}
+
+/**
+ * Put stored annotations back on the scenes they belong to
+ */
+export function applySceneAnnotations(
+  collection: SceneCollection,
+  annotations: Record<string, Annotation[]>
+): SceneCollection {
+  return {
+    ...collection,
+    scenes: collection.scenes.map(scene => annotations[scene.id] ? { ...scene, annotations: annotations[scene.id] } : scene)
+  };
+}
+
+function isScene(value: unknown): value is Scene {
+  const scene = value as Scene | null;
+  return typeof scene?.id === 'string' &&
+    typeof scene.name === 'string' &&
+    typeof scene.presenter === 'object' && scene.presenter !== null &&
+    typeof scene.presenter.position?.x === 'number' &&
+    typeof scene.view === 'object' && scene.view !== null;
+}
+
+function findSceneIndex(collection: SceneCollection, sceneId: string): number {
+  const index = collection.scenes.findIndex(scene => scene.id === sceneId);
+  if (index === -1) {
+    throw new SceneError(`Scene ${sceneId} not found`, SceneErrorCode.NOT_FOUND);
+  }
+  return index;
+}
+
+function cloneView(view: SceneView): SceneView {
+  return {
+    ...view,
+    panOffset: { ...view.panOffset },
+    presenterSize: view.presenterSize ? { ...view.presenterSize } : null,
+    hiddenItemIds: [...view.hiddenItemIds]
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Core types for named presentation scenes
+ */
+
+import type { Annotation } from '../annotations/types';
+
+// Error types for better error handling
+export class SceneError extends Error {
+  constructor(
+    message: string,
+    public code: SceneErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'SceneError';
+  }
+}
+
+export enum SceneErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  LAST_SCENE = 'LAST_SCENE'
+}
+
+export type SceneTransitionType = 'cut' | 'fade' | 'slide';
+
+export interface SceneTransition {
+  type: SceneTransitionType;
+  durationMs: number;
+}
+
+// The presenter settings a scene controls; mirrors PresenterSettings
+export interface ScenePresenter {
+  backgroundType: 'visible' | 'blurred' | 'hidden';
+  shape: 'rectangle' | 'circle' | 'rounded' | 'hexagon' | 'diamond' | 'heart' | 'star';
+  color: string;
+  virtualBackground: string | null;
+  videoFilter: 'none' | 'grayscale' | 'sepia' | 'invert';
+  size: 'small' | 'medium' | 'large' | 'xlarge';
+  position: { x: number; y: number };
+}
+
+// Board state kept by the canvas rather than in presenter settings
+export interface SceneView {
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
+  // Set when the presenter was resized by hand
+  presenterSize: { width: number; height: number } | null;
+  itemsVisible: boolean;
+  hiddenItemIds: string[];
+}
+
+export interface Scene {
+  id: string;
+  name: string;
+  presenter: ScenePresenter;
+  view: SceneView;
+  // Drawings made while the scene is active; they come back with it
+  annotations: Annotation[];
+}
+
+export interface SceneCollection {
+  scenes: Scene[];
+  activeSceneId: string | null;
+  transition: SceneTransition;
+}
+
+export const SCENE_CONSTANTS = {
+  STORAGE_KEY: 'video-presenter-scenes',
+  MAX_NAME_LENGTH: 40,
+  MIN_TRANSITION_MS: 100,
+  MAX_TRANSITION_MS: 2000,
+  DEFAULT_TRANSITION: { type: 'fade', durationMs: 400 } as SceneTransition,
+  DEFAULT_VIEW: {
+    zoomLevel: 1,
+    panOffset: { x: 0, y: 0 },
+    presenterSize: null,
+    itemsVisible: true,
+    hiddenItemIds: []
+  } as SceneView
+} as const;
@@ -0,0 +1,464 @@
+/**
+ * StageCompositor - Renders the whole presentation stage into an offscreen canvas
+ *
+ * The board preview is built from DOM elements (CSS shapes, filters, transforms),
+ * which MediaRecorder cannot see. The compositor redraws the same scene every
+ * frame - background, screen capture, board items and the shaped presenter
+ * bubble, with the board's zoom/pan applied - so the canvas' captureStream()
+ * matches what the presenter sees on screen. Annotations and the laser pointer
+ * are drawn on top with the same renderer as the on-screen layer, and zoom or
+ * spotlight focus effects are applied over the whole stage. Scene switches can be blended
+ * over a copy of the last frame before the switch.
+ */
+
+import { drawAnnotations, drawLaserTrail } from '../annotations/render';
+import { createDiagonalGradient, VIRTUAL_BACKGROUND_GRADIENTS } from './backgrounds';
+import { getFocusTransform } from './focus';
+import { traceRoundedRect, traceShape } from './shapes';
+import { getTransitionFrame } from './transitions';
+import {
+  STAGE_CONSTANTS,
+  type StageCompositorOptions,
+  type StageFocusFrame,
+  type StageItem,
+  type StagePresenter,
+  type StageSnapshot,
+  type StageTransition
+} from './types';
+
+type Layer =
+  | { kind: 'item'; zIndex: number; item: StageItem }
+  | { kind: 'presenter'; zIndex: number; presenter: StagePresenter };
+
+export class StageCompositor {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private options: StageCompositorOptions;
+  private getSnapshot: () => StageSnapshot | null;
+  private screenSource: HTMLVideoElement | null = null;
+  private backgroundImages = new Map<string, HTMLImageElement>();
+  private renderTimer: ReturnType<typeof setInterval> | null = null;
+  private stream: MediaStream | null = null;
+  private previousFrame: HTMLCanvasElement | null = null;
+  private transition: { transition: StageTransition; startedAt: number } | null = null;
+
+  constructor(getSnapshot: () => StageSnapshot | null, options?: Partial<StageCompositorOptions>) {
+    this.getSnapshot = getSnapshot;
+    this.options = {
+      width: STAGE_CONSTANTS.DEFAULT_WIDTH,
+      height: STAGE_CONSTANTS.DEFAULT_HEIGHT,
+      fps: STAGE_CONSTANTS.DEFAULT_FPS,
+      ...options
+    };
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = this.options.width;
+    this.canvas.height = this.options.height;
+
+    const context = this.canvas.getContext('2d', { alpha: false });
+    if (!context) {
+      throw new Error('Canvas context not available for stage compositing');
+    }
+    this.ctx = context;
+  }
+
+  /**
+   * Screen capture drawn full-stage underneath board items and the presenter
+   */
+  setScreenSource(video: HTMLVideoElement | null): void {
+    this.screenSource = video;
+  }
+
+  getCanvas(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  /**
+   * Start the render loop. A timer is used instead of requestAnimationFrame
+   * because rAF is paused in background tabs, which is exactly when screen
+   * recordings happen.
+   */
+  start(): void {
+    if (this.renderTimer) {
+      return;
+    }
+    this.renderFrame();
+    this.renderTimer = setInterval(() => this.renderFrame(), 1000 / this.options.fps);
+  }
+
+  stop(): void {
+    if (this.renderTimer) {
+      clearInterval(this.renderTimer);
+      this.renderTimer = null;
+    }
+  }
+
+  /**
+   * Video track of the composited stage (audio is attached by the caller)
+   */
+  captureStream(): MediaStream {
+    if (!this.stream) {
+      this.stream = this.canvas.captureStream(this.options.fps);
+    }
+    return this.stream;
+  }
+
+  /**
+   * Keep the frame on screen now and blend the next ones over it. Call it
+   * right before the snapshot switches to the new scene.
+   */
+  startTransition(transition: StageTransition): void {
+    if (!this.previousFrame) {
+      this.previousFrame = document.createElement('canvas');
+      this.previousFrame.width = this.options.width;
+      this.previousFrame.height = this.options.height;
+    }
+    this.previousFrame.getContext('2d')?.drawImage(this.canvas, 0, 0);
+    this.transition = { transition, startedAt: performance.now() };
+  }
+
+  dispose(): void {
+    this.stop();
+    this.transition = null;
+    this.previousFrame = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.screenSource = null;
+    this.backgroundImages.clear();
+  }
+
+  /**
+   * Draw a single frame from the current snapshot
+   */
+  renderFrame(): void {
+    const { ctx } = this;
+    const { width, height } = this.options;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.filter = 'none';
+    ctx.fillStyle = STAGE_CONSTANTS.BASE_BACKGROUND[1];
+    ctx.fillRect(0, 0, width, height);
+
+    const snapshot = this.getSnapshot();
+    if (!snapshot || snapshot.width <= 0 || snapshot.height <= 0) {
+      return;
+    }
+
+    let frame = this.transition
+      ? getTransitionFrame(this.transition.transition, performance.now() - this.transition.startedAt)
+      : null;
+    if (frame?.done) {
+      this.transition = null;
+      frame = null;
+    }
+
+    // Fit the stage into the output frame, letterboxing if the aspect differs
+    const scale = Math.min(width / snapshot.width, height / snapshot.height);
+    const offsetX = (width - snapshot.width * scale) / 2 + (frame ? frame.incomingOffset * width : 0);
+    const offsetY = (height - snapshot.height * scale) / 2;
+
+    ctx.save();
+    ctx.translate(offsetX, offsetY);
+    ctx.scale(scale, scale);
+    ctx.beginPath();
+    ctx.rect(0, 0, snapshot.width, snapshot.height);
+    ctx.clip();
+
+    const focus = snapshot.focus?.amount ? snapshot.focus : null;
+    if (focus?.kind === 'zoom') {
+      const zoom = getFocusTransform(focus, snapshot.width, snapshot.height);
+      ctx.translate(zoom.x, zoom.y);
+      ctx.scale(zoom.scale, zoom.scale);
+    }
+
+    this.drawBaseBackground(snapshot);
+    this.drawScreen(snapshot);
+
+    ctx.save();
+    this.applyBoardTransform(snapshot);
+    this.drawVirtualBackground(snapshot);
+    this.collectLayers(snapshot).forEach(layer => {
+      if (layer.kind === 'presenter') {
+        this.drawPresenter(layer.presenter);
+      } else {
+        this.drawItem(layer.item);
+      }
+    });
+    drawAnnotations(ctx, snapshot.annotations ?? []);
+    drawLaserTrail(ctx, snapshot.laserTrail ?? [], performance.now());
+    ctx.restore();
+
+    if (focus?.kind === 'spotlight') {
+      this.drawSpotlight(snapshot, focus);
+    }
+
+    ctx.restore();
+
+    if (frame && this.previousFrame) {
+      ctx.globalAlpha = frame.outgoingAlpha;
+      ctx.drawImage(this.previousFrame, frame.outgoingOffset * width, 0);
+      ctx.globalAlpha = 1;
+    }
+  }
+
+  /**
+   * Mirror the CSS transform on the board wrapper: the wrapper grows by
+   * 1/zoom when zoomed out, is centered, then scaled around its center and
+   * translated by the pan offset.
+   */
+  private applyBoardTransform(snapshot: StageSnapshot): void {
+    const { zoomLevel, panOffset } = snapshot;
+    const boardWidth = zoomLevel < 1 ? snapshot.width / zoomLevel : snapshot.width;
+    const boardHeight = zoomLevel < 1 ? snapshot.height / zoomLevel : snapshot.height;
+    const boardLeft = zoomLevel < 1 ? -(boardWidth - snapshot.width) / 2 : 0;
+    const boardTop = zoomLevel < 1 ? -(boardHeight - snapshot.height) / 2 : 0;
+
+    this.ctx.translate(boardLeft + boardWidth / 2 + panOffset.x, boardTop + boardHeight / 2 + panOffset.y);
+    this.ctx.scale(zoomLevel, zoomLevel);
+    this.ctx.translate(-boardWidth / 2, -boardHeight / 2);
+  }
+
+  /**
+   * Dim the stage around the focused region
+   */
+  private drawSpotlight(snapshot: StageSnapshot, focus: StageFocusFrame): void {
+    const { ctx } = this;
+    const { region } = focus;
+    ctx.save();
+    ctx.globalAlpha = STAGE_CONSTANTS.SPOTLIGHT_DIM_OPACITY * focus.amount;
+    ctx.fillStyle = '#000000';
+    ctx.beginPath();
+    ctx.rect(0, 0, snapshot.width, snapshot.height);
+    traceRoundedRect(ctx, region.x, region.y, region.width, region.height, STAGE_CONSTANTS.SPOTLIGHT_CORNER_RADIUS);
+    ctx.fill('evenodd');
+    ctx.restore();
+  }
+
+  private collectLayers(snapshot: StageSnapshot): Layer[] {
+    const layers: Layer[] = snapshot.items.map(item => ({ kind: 'item', zIndex: item.zIndex, item }));
+    if (snapshot.presenter) {
+      layers.push({ kind: 'presenter', zIndex: snapshot.presenter.zIndex, presenter: snapshot.presenter });
+    }
+    // Stable sort keeps DOM order for equal z-index, like the browser does
+    return layers.sort((a, b) => a.zIndex - b.zIndex);
+  }
+
+  private drawBaseBackground(snapshot: StageSnapshot): void {
+    this.ctx.fillStyle = createDiagonalGradient(this.ctx, snapshot.width, snapshot.height, [
+      [0, STAGE_CONSTANTS.BASE_BACKGROUND[0]],
+      [1, STAGE_CONSTANTS.BASE_BACKGROUND[1]]
+    ]);
+    this.ctx.fillRect(0, 0, snapshot.width, snapshot.height);
+  }
+
+  private drawScreen(snapshot: StageSnapshot): void {
+    const video = this.screenSource;
+    if (!video || video.readyState < 2 || !video.videoWidth) {
+      return;
+    }
+    // Contain: the whole shared screen stays visible
+    const scale = Math.min(snapshot.width / video.videoWidth, snapshot.height / video.videoHeight);
+    const drawWidth = video.videoWidth * scale;
+    const drawHeight = video.videoHeight * scale;
+    this.ctx.drawImage(
+      video,
+      (snapshot.width - drawWidth) / 2,
+      (snapshot.height - drawHeight) / 2,
+      drawWidth,
+      drawHeight
+    );
+  }
+
+  private drawVirtualBackground(snapshot: StageSnapshot): void {
+    const background = snapshot.virtualBackground;
+    if (!background || this.screenSource) {
+      return;
+    }
+
+    const boardWidth = snapshot.zoomLevel < 1 ? snapshot.width / snapshot.zoomLevel : snapshot.width;
+    const boardHeight = snapshot.zoomLevel < 1 ? snapshot.height / snapshot.zoomLevel : snapshot.height;
+
+    this.ctx.save();
+    this.ctx.globalAlpha = STAGE_CONSTANTS.VIRTUAL_BACKGROUND_OPACITY;
+
+    const stops = VIRTUAL_BACKGROUND_GRADIENTS[background];
+    if (stops) {
+      this.ctx.fillStyle = createDiagonalGradient(this.ctx, boardWidth, boardHeight, stops);
+      this.ctx.fillRect(0, 0, boardWidth, boardHeight);
+    } else {
+      const image = this.getBackgroundImage(background);
+      if (image.complete && image.naturalWidth) {
+        this.drawCover(image, image.naturalWidth, image.naturalHeight, 0, 0, boardWidth, boardHeight);
+      }
+    }
+
+    this.ctx.restore();
+  }
+
+  private getBackgroundImage(src: string): HTMLImageElement {
+    let image = this.backgroundImages.get(src);
+    if (!image) {
+      image = new Image();
+      image.src = src;
+      this.backgroundImages.set(src, image);
+    }
+    return image;
+  }
+
+  private drawPresenter(presenter: StagePresenter): void {
+    const { ctx } = this;
+    const { x, y, width, height } = presenter.rect;
+    const size = getSourceSize(presenter.source);
+
+    ctx.save();
+    traceShape(ctx, presenter.shape, x, y, width, height);
+    ctx.clip();
+
+    if (presenter.source && size) {
+      ctx.filter = presenter.filter;
+      this.drawCover(presenter.source, size.width, size.height, x, y, width, height);
+      ctx.filter = 'none';
+    } else {
+      ctx.fillStyle = '#1f2937'; // bg-gray-800 placeholder
+      ctx.fillRect(x, y, width, height);
+    }
+
+    // The CSS border is drawn inside the box, so stroke twice as wide and
+    // let the clip remove the outer half
+    ctx.lineWidth = STAGE_CONSTANTS.PRESENTER_BORDER_WIDTH * 2;
+    ctx.strokeStyle = presenter.color;
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private drawItem(item: StageItem): void {
+    const { ctx } = this;
+
+    ctx.save();
+    if (item.rotation) {
+      ctx.translate(item.x + item.width / 2, item.y + item.height / 2);
+      ctx.rotate((item.rotation * Math.PI) / 180);
+      ctx.translate(-(item.x + item.width / 2), -(item.y + item.height / 2));
+    }
+
+    ctx.beginPath();
+    traceRoundedRect(ctx, item.x, item.y, item.width, item.height, STAGE_CONSTANTS.ITEM_CORNER_RADIUS);
+    ctx.clip();
+
+    const size = getSourceSize(item.source);
+    if (item.type === 'note') {
+      this.drawNote(item);
+    } else if (item.source && size) {
+      this.drawCover(item.source, size.width, size.height, item.x, item.y, item.width, item.height);
+    } else {
+      this.drawPlaceholder(item);
+    }
+
+    ctx.restore();
+  }
+
+  private drawNote(item: StageItem): void {
+    const { ctx } = this;
+    const padding = 8;
+    const lineHeight = 20;
+
+    ctx.fillStyle = STAGE_CONSTANTS.NOTE_BACKGROUND;
+    ctx.fillRect(item.x, item.y, item.width, item.height);
+    ctx.fillStyle = '#000000';
+    ctx.font = '14px ui-sans-serif, system-ui, sans-serif';
+    ctx.textBaseline = 'top';
+
+    const lines = wrapText(ctx, item.content || '', item.width - padding * 2);
+    lines.forEach((line, index) => {
+      const lineY = item.y + padding + index * lineHeight;
+      if (lineY + lineHeight <= item.y + item.height) {
+        ctx.fillText(line, item.x + padding, lineY);
+      }
+    });
+  }
+
+  private drawPlaceholder(item: StageItem): void {
+    const { ctx } = this;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(item.x, item.y, item.width, item.height);
+    ctx.fillStyle = '#374151';
+    ctx.font = '14px ui-sans-serif, system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(item.fileName || '', item.x + item.width / 2, item.y + item.height / 2, item.width - 16);
+    ctx.textAlign = 'start';
+  }
+
+  /**
+   * Draw a source scaled to cover the target box (CSS object-fit: cover)
+   */
+  private drawCover(
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    const scale = Math.max(width / sourceWidth, height / sourceHeight);
+    const cropWidth = width / scale;
+    const cropHeight = height / scale;
+    this.ctx.drawImage(
+      source,
+      (sourceWidth - cropWidth) / 2,
+      (sourceHeight - cropHeight) / 2,
+      cropWidth,
+      cropHeight,
+      x,
+      y,
+      width,
+      height
+    );
+  }
+}
+
+/**
+ * Intrinsic size of a drawable source, or null when it has nothing to draw yet
+ */
+export function getSourceSize(source: CanvasImageSource | null): { width: number; height: number } | null {
+  if (!source) {
+    return null;
+  }
+  if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+    return source.readyState >= 2 && source.videoWidth
+      ? { width: source.videoWidth, height: source.videoHeight }
+      : null;
+  }
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return source.complete && source.naturalWidth
+      ? { width: source.naturalWidth, height: source.naturalHeight }
+      : null;
+  }
+  if (typeof HTMLCanvasElement !== 'undefined' && source instanceof HTMLCanvasElement) {
+    return source.width && source.height ? { width: source.width, height: source.height } : null;
+  }
+  return null;
+}
+
+/**
+ * Greedy word wrap that honours explicit line breaks
+ */
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+}
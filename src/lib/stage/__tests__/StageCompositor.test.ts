@@ -0,0 +1,369 @@
+/**
+ * Unit tests for StageCompositor
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StageCompositor, wrapText } from '../StageCompositor';
+import { getShapeClipPath, getPresenterFilter } from '../shapes';
+import { getVirtualBackgroundCss } from '../backgrounds';
+import { easeInOut, getTransitionFrame } from '../transitions';
+import { animateFocus, boardRectToStage, getFocusFrame, getFocusTransform, padFocusRegion } from '../focus';
+import type { StageSnapshot } from '../types';
+
+function createMockContext() {
+  return {
+    setTransform: vi.fn(),
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    scale: vi.fn(),
+    rotate: vi.fn(),
+    beginPath: vi.fn(),
+    closePath: vi.fn(),
+    rect: vi.fn(),
+    clip: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    arc: vi.fn(),
+    arcTo: vi.fn(),
+    ellipse: vi.fn(),
+    fill: vi.fn(),
+    stroke: vi.fn(),
+    fillRect: vi.fn(),
+    strokeRect: vi.fn(),
+    fillText: vi.fn(),
+    drawImage: vi.fn(),
+    measureText: vi.fn((text: string) => ({ width: text.length * 10 })),
+    createLinearGradient: vi.fn(() => ({ addColorStop: vi.fn() })),
+    globalAlpha: 1,
+    filter: 'none',
+    fillStyle: '',
+    strokeStyle: '',
+    lineWidth: 1,
+    font: '',
+    textAlign: 'start',
+    textBaseline: 'alphabetic'
+  };
+}
+
+function createSnapshot(overrides: Partial<StageSnapshot> = {}): StageSnapshot {
+  return {
+    width: 640,
+    height: 360,
+    zoomLevel: 1,
+    panOffset: { x: 0, y: 0 },
+    virtualBackground: null,
+    presenter: null,
+    items: [],
+    ...overrides
+  };
+}
+
+describe('StageCompositor', () => {
+  let mockContext: ReturnType<typeof createMockContext>;
+  let originalGetContext: typeof HTMLCanvasElement.prototype.getContext;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    originalGetContext = HTMLCanvasElement.prototype.getContext;
+    HTMLCanvasElement.prototype.getContext = vi.fn(() => mockContext) as unknown as typeof HTMLCanvasElement.prototype.getContext;
+  });
+
+  afterEach(() => {
+    HTMLCanvasElement.prototype.getContext = originalGetContext;
+    vi.useRealTimers();
+  });
+
+  describe('constructor', () => {
+    it('should size the output canvas from options', () => {
+      const compositor = new StageCompositor(() => null, { width: 1920, height: 1080 });
+
+      expect(compositor.getCanvas().width).toBe(1920);
+      expect(compositor.getCanvas().height).toBe(1080);
+    });
+
+    it('should throw if no 2D context is available', () => {
+      HTMLCanvasElement.prototype.getContext = vi.fn(() => null) as unknown as typeof HTMLCanvasElement.prototype.getContext;
+
+      expect(() => new StageCompositor(() => null)).toThrow('Canvas context not available');
+    });
+  });
+
+  describe('renderFrame', () => {
+    it('should only clear the frame when there is no snapshot', () => {
+      const compositor = new StageCompositor(() => null);
+      compositor.renderFrame();
+
+      expect(mockContext.fillRect).toHaveBeenCalledTimes(1);
+      expect(mockContext.fillRect).toHaveBeenCalledWith(0, 0, 1280, 720);
+      expect(mockContext.drawImage).not.toHaveBeenCalled();
+    });
+
+    it('should letterbox the stage into the output frame', () => {
+      // 640x480 stage into 1280x720: height-limited at 1.5x, centered horizontally
+      const compositor = new StageCompositor(() => createSnapshot({ width: 640, height: 480 }));
+      compositor.renderFrame();
+
+      expect(mockContext.translate).toHaveBeenNthCalledWith(1, 160, 0);
+      expect(mockContext.scale).toHaveBeenNthCalledWith(1, 1.5, 1.5);
+    });
+
+    it('should apply the board zoom and pan around the board center', () => {
+      const compositor = new StageCompositor(() => createSnapshot({
+        width: 1280,
+        height: 720,
+        zoomLevel: 2,
+        panOffset: { x: 10, y: -20 }
+      }));
+      compositor.renderFrame();
+
+      expect(mockContext.translate).toHaveBeenCalledWith(650, 340);
+      expect(mockContext.scale).toHaveBeenCalledWith(2, 2);
+      expect(mockContext.translate).toHaveBeenCalledWith(-640, -360);
+    });
+
+    it('should draw items and the presenter in z-index order', () => {
+      const presenterSource = document.createElement('canvas');
+      presenterSource.width = 320;
+      presenterSource.height = 240;
+      const lowSource = document.createElement('canvas');
+      lowSource.width = 100;
+      lowSource.height = 100;
+      const highSource = document.createElement('canvas');
+      highSource.width = 100;
+      highSource.height = 100;
+
+      const compositor = new StageCompositor(() => createSnapshot({
+        presenter: {
+          rect: { x: 16, y: 16, width: 320, height: 240 },
+          shape: 'circle',
+          color: '#3b82f6',
+          filter: 'grayscale(1)',
+          zIndex: 10,
+          source: presenterSource
+        },
+        items: [
+          { id: 'high', type: 'image', x: 0, y: 0, width: 50, height: 50, rotation: 0, zIndex: 20, source: highSource },
+          { id: 'low', type: 'image', x: 0, y: 0, width: 50, height: 50, rotation: 0, zIndex: 1, source: lowSource }
+        ]
+      }));
+      compositor.renderFrame();
+
+      const drawnSources = mockContext.drawImage.mock.calls.map(call => call[0]);
+      expect(drawnSources).toEqual([lowSource, presenterSource, highSource]);
+      expect(mockContext.ellipse).toHaveBeenCalledWith(176, 136, 160, 120, 0, 0, Math.PI * 2);
+      expect(mockContext.strokeStyle).toBe('#3b82f6');
+    });
+
+    it('should render notes as text instead of images', () => {
+      const compositor = new StageCompositor(() => createSnapshot({
+        items: [
+          { id: 'note', type: 'note', x: 10, y: 10, width: 200, height: 150, rotation: 0, zIndex: 1, content: 'Hello', source: null }
+        ]
+      }));
+      compositor.renderFrame();
+
+      expect(mockContext.fillText).toHaveBeenCalledWith('Hello', 18, 18);
+      expect(mockContext.drawImage).not.toHaveBeenCalled();
+    });
+
+    it('should zoom the whole stage into a focused region', () => {
+      const compositor = new StageCompositor(() => createSnapshot({
+        width: 1280,
+        height: 720,
+        focus: { kind: 'zoom', region: { x: 640, y: 360, width: 640, height: 360 }, amount: 1 }
+      }));
+      compositor.renderFrame();
+
+      expect(mockContext.translate).toHaveBeenNthCalledWith(2, -1280, -720);
+      expect(mockContext.scale).toHaveBeenNthCalledWith(2, 2, 2);
+    });
+
+    it('should dim everything around a spotlight', () => {
+      const compositor = new StageCompositor(() => createSnapshot({
+        focus: { kind: 'spotlight', region: { x: 100, y: 50, width: 200, height: 100 }, amount: 0.5 }
+      }));
+      compositor.renderFrame();
+
+      expect(mockContext.rect).toHaveBeenLastCalledWith(0, 0, 640, 360);
+      expect(mockContext.fill).toHaveBeenLastCalledWith('evenodd');
+      // Half way in; the mock keeps the last alpha set since restore() is a no-op
+      expect(mockContext.globalAlpha).toBeCloseTo(0.65 * 0.5);
+    });
+
+    it('should draw annotations after the board items', () => {
+      const source = document.createElement('canvas');
+      source.width = 100;
+      source.height = 100;
+      const calls: string[] = [];
+      mockContext.drawImage.mockImplementation(() => { calls.push('item'); });
+      mockContext.strokeRect.mockImplementation(() => { calls.push('rectangle'); });
+
+      const compositor = new StageCompositor(() => createSnapshot({
+        items: [
+          { id: 'item', type: 'image', x: 0, y: 0, width: 50, height: 50, rotation: 0, zIndex: 20, source }
+        ],
+        annotations: [{
+          id: 'box',
+          shape: 'rectangle',
+          color: '#22c55e',
+          width: 4,
+          points: [{ x: 60, y: 40, pressure: 0.5 }, { x: 10, y: 10, pressure: 0.5 }]
+        }]
+      }));
+      compositor.renderFrame();
+
+      expect(calls).toEqual(['item', 'rectangle']);
+      expect(mockContext.strokeRect).toHaveBeenCalledWith(10, 10, 50, 30);
+    });
+  });
+
+  describe('transitions', () => {
+    it('should fade the previous frame out over the new scene', () => {
+      const now = vi.spyOn(performance, 'now').mockReturnValue(1000);
+      const compositor = new StageCompositor(() => createSnapshot());
+      const alphas: number[] = [];
+      mockContext.drawImage.mockImplementation(() => { alphas.push(mockContext.globalAlpha); });
+
+      compositor.startTransition({ type: 'fade', durationMs: 400 });
+      now.mockReturnValue(1200);
+      compositor.renderFrame();
+
+      // One copy of the outgoing frame, one blend of it over the new scene
+      expect(mockContext.drawImage).toHaveBeenCalledTimes(2);
+      expect(alphas[1]).toBeCloseTo(0.5);
+      expect(mockContext.globalAlpha).toBe(1);
+      now.mockRestore();
+    });
+
+    it('should slide the new scene in from the right', () => {
+      const now = vi.spyOn(performance, 'now').mockReturnValue(0);
+      const compositor = new StageCompositor(() => createSnapshot({ width: 1280, height: 720 }));
+
+      compositor.startTransition({ type: 'slide', durationMs: 400 });
+      now.mockReturnValue(200);
+      compositor.renderFrame();
+
+      expect(mockContext.translate).toHaveBeenNthCalledWith(1, 640, 0);
+      expect(mockContext.drawImage).toHaveBeenLastCalledWith(expect.any(HTMLCanvasElement), -640, 0);
+      now.mockRestore();
+    });
+
+    it('should stop blending once the transition is over', () => {
+      const now = vi.spyOn(performance, 'now').mockReturnValue(0);
+      const compositor = new StageCompositor(() => createSnapshot());
+
+      compositor.startTransition({ type: 'fade', durationMs: 400 });
+      mockContext.drawImage.mockClear();
+      now.mockReturnValue(400);
+      compositor.renderFrame();
+
+      expect(mockContext.drawImage).not.toHaveBeenCalled();
+      now.mockRestore();
+    });
+  });
+
+  describe('render loop', () => {
+    it('should render on a timer until stopped', () => {
+      vi.useFakeTimers();
+      const getSnapshot = vi.fn(() => null);
+      const compositor = new StageCompositor(getSnapshot, { fps: 10 });
+
+      compositor.start();
+      vi.advanceTimersByTime(300);
+      expect(getSnapshot).toHaveBeenCalledTimes(4);
+
+      compositor.stop();
+      vi.advanceTimersByTime(300);
+      expect(getSnapshot).toHaveBeenCalledTimes(4);
+    });
+  });
+});
+
+describe('stage helpers', () => {
+  it('should ease transitions and finish at the duration', () => {
+    const halfway = getTransitionFrame({ type: 'fade', durationMs: 400 }, 200);
+    expect(halfway.progress).toBeCloseTo(0.5);
+    expect(halfway.outgoingAlpha).toBeCloseTo(0.5);
+    expect(halfway.done).toBe(false);
+    expect(getTransitionFrame({ type: 'slide', durationMs: 400 }, 500)).toMatchObject({
+      progress: 1,
+      incomingOffset: 0,
+      outgoingOffset: -1,
+      done: true
+    });
+    expect(easeInOut(0.25)).toBeLessThan(0.25);
+  });
+
+  it('should ease focus effects in, between regions and out', () => {
+    const region = { x: 0, y: 0, width: 100, height: 100 };
+    const entering = animateFocus(null, { kind: 'spotlight', region }, 0, 400);
+    expect(getFocusFrame(entering, 200)?.amount).toBeCloseTo(0.5);
+    expect(getFocusFrame(entering, 400)).toEqual({ kind: 'spotlight', region, amount: 1 });
+
+    const moving = animateFocus(entering, { kind: 'spotlight', region: { x: 100, y: 0, width: 100, height: 100 } }, 400, 400);
+    expect(getFocusFrame(moving, 600)?.region.x).toBeCloseTo(50);
+
+    const leaving = animateFocus(moving, null, 800, 400);
+    expect(getFocusFrame(leaving, 1000)?.amount).toBeCloseTo(0.5);
+    expect(getFocusFrame(leaving, 1200)).toBeNull();
+    expect(animateFocus(null, null, 0)).toBeNull();
+  });
+
+  it('should ease out one effect before easing in another', () => {
+    const region = { x: 0, y: 0, width: 100, height: 100 };
+    const zoom = { kind: 'zoom' as const, region, amount: 1 };
+    const animation = { from: zoom, to: { ...zoom, kind: 'spotlight' as const }, startedAt: 0, durationMs: 400 };
+
+    expect(getFocusFrame(animation, 100)?.kind).toBe('zoom');
+    expect(getFocusFrame(animation, 300)?.kind).toBe('spotlight');
+  });
+
+  it('should cap the focus zoom and keep it inside the stage', () => {
+    const tiny = getFocusTransform({ kind: 'zoom', region: { x: 0, y: 0, width: 10, height: 10 }, amount: 1 }, 1280, 720);
+    expect(tiny).toEqual({ scale: 4, x: 0, y: 0 });
+
+    const half = getFocusTransform({ kind: 'zoom', region: { x: 320, y: 180, width: 640, height: 360 }, amount: 0.5 }, 1280, 720);
+    expect(half).toEqual({ scale: 1.5, x: -320, y: -180 });
+  });
+
+  it('should pad focus regions within the stage', () => {
+    expect(padFocusRegion({ x: 10, y: 100, width: 100, height: 100 }, 640, 220)).toEqual({
+      x: 0, y: 76, width: 134, height: 144
+    });
+  });
+
+  it('should map board rectangles onto the stage like the board transform', () => {
+    const rect = { x: 100, y: 100, width: 50, height: 50 };
+    expect(boardRectToStage(rect, { width: 800, height: 600, zoomLevel: 1, panOffset: { x: 0, y: 0 } })).toEqual(rect);
+    expect(boardRectToStage(rect, { width: 800, height: 600, zoomLevel: 2, panOffset: { x: 10, y: 0 } })).toEqual({
+      x: -190, y: -100, width: 100, height: 100
+    });
+    // Zoomed out the board is 1600x1200, centered: its origin is at (-400, -300)
+    expect(boardRectToStage({ x: 400, y: 300, width: 100, height: 100 }, {
+      width: 800, height: 600, zoomLevel: 0.5, panOffset: { x: 0, y: 0 }
+    })).toEqual({ x: 200, y: 150, width: 50, height: 50 });
+  });
+
+  it('should build CSS clip paths only for polygon shapes', () => {
+    expect(getShapeClipPath('diamond')).toBe('polygon(50% 0%, 100% 50%, 50% 100%, 0% 50%)');
+    expect(getShapeClipPath('circle')).toBeUndefined();
+    expect(getShapeClipPath('rectangle')).toBeUndefined();
+  });
+
+  it('should combine blur and color filters', () => {
+    expect(getPresenterFilter('blurred', 'sepia')).toBe('blur(10px) sepia(1)');
+    expect(getPresenterFilter('visible', 'none')).toBe('none');
+  });
+
+  it('should map presets to gradients and anything else to an image url', () => {
+    expect(getVirtualBackgroundCss('space')).toBe('linear-gradient(135deg, #667eea 0%, #764ba2 100%)');
+    expect(getVirtualBackgroundCss('blob:abc')).toBe('url(blob:abc)');
+  });
+
+  it('should wrap text to the available width', () => {
+    const ctx = createMockContext() as unknown as CanvasRenderingContext2D;
+
+    expect(wrapText(ctx, 'aaa bbb ccc\nddd', 75)).toEqual(['aaa bbb', 'ccc', 'ddd']);
+  });
+});
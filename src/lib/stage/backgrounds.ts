@@ -0,0 +1,54 @@
+/**
+ * Virtual background presets shared by the board preview and the compositor
+ */
+
+type GradientStop = [offset: number, color: string];
+
+// All presets are 135deg linear gradients
+export const VIRTUAL_BACKGROUND_GRADIENTS: Record<string, GradientStop[]> = {
+  space: [[0, '#667eea'], [1, '#764ba2']],
+  office: [[0, '#ffecd2'], [1, '#fcb69f']],
+  forest: [[0, '#1f2937'], [0.5, '#059669'], [1, '#10b981']],
+  ocean: [[0, '#2563eb'], [0.5, '#06b6d4'], [1, '#14b8a6']],
+  sunset: [[0, '#f97316'], [0.5, '#ec4899'], [1, '#9333ea']],
+  'modern-office': [[0, '#f1f5f9'], [0.5, '#e2e8f0'], [1, '#cbd5e1']],
+  library: [[0, '#78350f'], [0.5, '#ca8a04'], [1, '#ea580c']],
+  city: [[0, '#334155'], [0.5, '#1e40af'], [1, '#3730a3']],
+  tech: [[0, '#22d3ee'], [0.5, '#3b82f6'], [1, '#9333ea']],
+  waves: [[0, '#a78bfa'], [0.5, '#8b5cf6'], [1, '#4f46e5']],
+  warm: [[0, '#fda4af'], [0.5, '#f472b6'], [1, '#ef4444']],
+  'clean-white': [[0, '#f9fafb'], [1, '#ffffff']],
+  'dark-pro': [[0, '#111827'], [0.5, '#1e293b'], [1, '#18181b']],
+  'soft-blur': [[0, '#eff6ff'], [0.5, '#e0e7ff'], [1, '#e9d5ff']]
+};
+
+/**
+ * CSS background-image for a virtual background preset or custom image URL
+ */
+export function getVirtualBackgroundCss(background: string): string {
+  const stops = VIRTUAL_BACKGROUND_GRADIENTS[background];
+  if (!stops) {
+    return `url(${background})`;
+  }
+  return `linear-gradient(135deg, ${stops.map(([offset, color]) => `${color} ${offset * 100}%`).join(', ')})`;
+}
+
+/**
+ * Canvas equivalent of a 135deg CSS linear gradient over the given box
+ */
+export function createDiagonalGradient(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  stops: readonly (readonly [number, string])[]
+): CanvasGradient {
+  // A 135deg CSS gradient runs top-left to bottom-right along a line whose
+  // length makes the corners land exactly on the first and last stops
+  const length = (width + height) / Math.SQRT2;
+  const cx = width / 2;
+  const cy = height / 2;
+  const dx = (length / 2) * Math.SQRT1_2;
+  const gradient = ctx.createLinearGradient(cx - dx, cy - dx, cx + dx, cy + dx);
+  stops.forEach(([offset, color]) => gradient.addColorStop(offset, color));
+  return gradient;
+}
@@ -0,0 +1,149 @@
+/**
+ * Zoom-to-region and spotlight effects
+ *
+ * Unlike the board zoom, which is an editing aid, focus effects are part of
+ * the presentation: they are eased in and out, shown in the preview and drawn
+ * by the compositor, so they end up in the recording.
+ */
+
+import { easeInOut } from './transitions';
+import {
+  STAGE_CONSTANTS,
+  type StageFocus,
+  type StageFocusAnimation,
+  type StageFocusFrame,
+  type StageFocusTransform,
+  type StageRect
+} from './types';
+
+interface StageView {
+  width: number;
+  height: number;
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
+}
+
+const lerp = (from: number, to: number, progress: number) => from + (to - from) * progress;
+
+function lerpRect(from: StageRect, to: StageRect, progress: number): StageRect {
+  return {
+    x: lerp(from.x, to.x, progress),
+    y: lerp(from.y, to.y, progress),
+    width: lerp(from.width, to.width, progress),
+    height: lerp(from.height, to.height, progress)
+  };
+}
+
+/**
+ * The focus effect as it looks `now`, or null when none is showing
+ */
+export function getFocusFrame(animation: StageFocusAnimation | null, now: number): StageFocusFrame | null {
+  if (!animation) {
+    return null;
+  }
+  const { from, to, startedAt, durationMs } = animation;
+  const linear = durationMs > 0 ? Math.min(1, Math.max(0, (now - startedAt) / durationMs)) : 1;
+  const progress = easeInOut(linear);
+
+  if (!from && !to) {
+    return null;
+  }
+  if (!from) {
+    return { ...to!, amount: to!.amount * progress };
+  }
+  if (!to) {
+    return progress >= 1 ? null : { ...from, amount: from.amount * (1 - progress) };
+  }
+  if (from.kind === to.kind) {
+    return {
+      kind: to.kind,
+      region: lerpRect(from.region, to.region, progress),
+      amount: lerp(from.amount, to.amount, progress)
+    };
+  }
+  // Switching effects: the old one eases out before the new one eases in
+  return progress < 0.5
+    ? { ...from, amount: from.amount * (1 - progress * 2) }
+    : { ...to, amount: to.amount * (progress * 2 - 1) };
+}
+
+/**
+ * Start easing from whatever is showing `now` towards focus, or back to no
+ * effect when focus is null
+ */
+export function animateFocus(
+  animation: StageFocusAnimation | null,
+  focus: StageFocus | null,
+  now: number,
+  durationMs: number = STAGE_CONSTANTS.FOCUS_DURATION_MS
+): StageFocusAnimation | null {
+  const from = getFocusFrame(animation, now);
+  if (!from && !focus) {
+    return null;
+  }
+  return {
+    from,
+    to: focus ? { kind: focus.kind, region: { ...focus.region }, amount: 1 } : null,
+    startedAt: now,
+    durationMs
+  };
+}
+
+export function isFocusAnimating(animation: StageFocusAnimation | null, now: number): boolean {
+  return animation !== null && now - animation.startedAt < animation.durationMs;
+}
+
+/**
+ * Grow a region by the focus padding, keeping it on the stage
+ */
+export function padFocusRegion(region: StageRect, width: number, height: number): StageRect {
+  const padding = STAGE_CONSTANTS.FOCUS_PADDING;
+  const x = Math.max(0, region.x - padding);
+  const y = Math.max(0, region.y - padding);
+  return {
+    x,
+    y,
+    width: Math.min(width, region.x + region.width + padding) - x,
+    height: Math.min(height, region.y + region.height + padding) - y
+  };
+}
+
+/**
+ * Scale and offset that make the region fill the stage at full amount. The
+ * zoom is capped and never shows anything beyond the stage edges.
+ */
+export function getFocusTransform(frame: StageFocusFrame, width: number, height: number): StageFocusTransform {
+  const { region } = frame;
+  const fullScale = Math.min(
+    STAGE_CONSTANTS.FOCUS_MAX_ZOOM,
+    Math.max(1, Math.min(width / Math.max(1, region.width), height / Math.max(1, region.height)))
+  );
+  // Center the region, then pull back so the zoomed stage still covers the view
+  const fullX = Math.min(0, Math.max(width * (1 - fullScale), width / 2 - fullScale * (region.x + region.width / 2)));
+  const fullY = Math.min(0, Math.max(height * (1 - fullScale), height / 2 - fullScale * (region.y + region.height / 2)));
+
+  return {
+    scale: lerp(1, fullScale, frame.amount),
+    x: lerp(0, fullX, frame.amount),
+    y: lerp(0, fullY, frame.amount)
+  };
+}
+
+/**
+ * Where a rectangle in board coordinates shows on the stage, mirroring the
+ * board zoom and pan
+ */
+export function boardRectToStage(rect: StageRect, view: StageView): StageRect {
+  const { zoomLevel, panOffset } = view;
+  // Zoomed out, the board grows by 1/zoom and stays centered on the stage
+  const boardLeft = zoomLevel < 1 ? -(view.width / zoomLevel - view.width) / 2 : 0;
+  const boardTop = zoomLevel < 1 ? -(view.height / zoomLevel - view.height) / 2 : 0;
+  const centerX = view.width / 2;
+  const centerY = view.height / 2;
+  return {
+    x: centerX + zoomLevel * (rect.x + boardLeft - centerX) + panOffset.x,
+    y: centerY + zoomLevel * (rect.y + boardTop - centerY) + panOffset.y,
+    width: rect.width * zoomLevel,
+    height: rect.height * zoomLevel
+  };
+}
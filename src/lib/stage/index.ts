@@ -0,0 +1,7 @@
+// Stage compositing exports
+export * from './types';
+export * from './shapes';
+export * from './backgrounds';
+export * from './transitions';
+export * from './focus';
+export { StageCompositor } from './StageCompositor';
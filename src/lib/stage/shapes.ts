@@ -0,0 +1,115 @@
+/**
+ * Presenter shape geometry shared by the DOM preview (CSS clip-path) and the
+ * canvas compositor (Path2D clipping), so both render the same outline.
+ */
+
+import type { StageShape } from './types';
+
+type Point = [number, number]; // percentages of width / height
+
+export const SHAPE_POLYGONS: Partial<Record<StageShape, Point[]>> = {
+  hexagon: [[50, 0], [93.3, 25], [93.3, 75], [50, 100], [6.7, 75], [6.7, 25]],
+  diamond: [[50, 0], [100, 50], [50, 100], [0, 50]],
+  heart: [[50, 20], [20, 0], [0, 30], [0, 60], [50, 100], [100, 60], [100, 30], [80, 0]],
+  star: [[50, 0], [61, 35], [98, 35], [68, 57], [79, 91], [50, 70], [21, 91], [32, 57], [2, 35], [39, 35]]
+};
+
+// Corner radii matching the Tailwind classes used by the preview
+const SHAPE_CORNER_RADIUS: Partial<Record<StageShape, number>> = {
+  rectangle: 8, // rounded-lg
+  rounded: 24 // rounded-3xl
+};
+
+/**
+ * CSS clip-path for polygon shapes, or undefined for shapes drawn with border-radius
+ */
+export function getShapeClipPath(shape: StageShape): string | undefined {
+  const polygon = SHAPE_POLYGONS[shape];
+  if (!polygon) {
+    return undefined;
+  }
+  return `polygon(${polygon.map(([x, y]) => `${x}% ${y}%`).join(', ')})`;
+}
+
+/**
+ * CSS filter applied to the presenter video for the given settings
+ */
+export function getPresenterFilter(
+  backgroundType: 'visible' | 'blurred' | 'hidden',
+  videoFilter: 'none' | 'grayscale' | 'sepia' | 'invert'
+): string {
+  const filterParts: string[] = [];
+  if (backgroundType === 'blurred') filterParts.push('blur(10px)');
+  switch (videoFilter) {
+    case 'grayscale':
+      filterParts.push('grayscale(1)');
+      break;
+    case 'sepia':
+      filterParts.push('sepia(1)');
+      break;
+    case 'invert':
+      filterParts.push('invert(1)');
+      break;
+  }
+  return filterParts.join(' ') || 'none';
+}
+
+/**
+ * Append a rounded rectangle to the current path
+ */
+export function traceRoundedRect(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+): void {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  ctx.moveTo(x + r, y);
+  ctx.lineTo(x + width - r, y);
+  ctx.arcTo(x + width, y, x + width, y + r, r);
+  ctx.lineTo(x + width, y + height - r);
+  ctx.arcTo(x + width, y + height, x + width - r, y + height, r);
+  ctx.lineTo(x + r, y + height);
+  ctx.arcTo(x, y + height, x, y + height - r, r);
+  ctx.lineTo(x, y + r);
+  ctx.arcTo(x, y, x + r, y, r);
+  ctx.closePath();
+}
+
+/**
+ * Trace the outline of a presenter shape inside the given box as a new path
+ */
+export function traceShape(
+  ctx: CanvasRenderingContext2D,
+  shape: StageShape,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  ctx.beginPath();
+
+  if (shape === 'circle') {
+    ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+    return;
+  }
+
+  const polygon = SHAPE_POLYGONS[shape];
+  if (polygon) {
+    polygon.forEach(([px, py], index) => {
+      const pointX = x + (px / 100) * width;
+      const pointY = y + (py / 100) * height;
+      if (index === 0) {
+        ctx.moveTo(pointX, pointY);
+      } else {
+        ctx.lineTo(pointX, pointY);
+      }
+    });
+    ctx.closePath();
+    return;
+  }
+
+  traceRoundedRect(ctx, x, y, width, height, SHAPE_CORNER_RADIUS[shape] ?? 0);
+}
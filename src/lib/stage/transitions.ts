@@ -0,0 +1,24 @@
+/**
+ * Scene transition timing shared by the recording compositor and the preview
+ */
+
+import type { StageTransition, StageTransitionFrame } from './types';
+
+// Smooth start and end so slides don't jolt
+export function easeInOut(progress: number): number {
+  return progress < 0.5
+    ? 2 * progress * progress
+    : 1 - (-2 * progress + 2) ** 2 / 2;
+}
+
+export function getTransitionFrame(transition: StageTransition, elapsedMs: number): StageTransitionFrame {
+  const linear = transition.durationMs > 0 ? Math.min(1, Math.max(0, elapsedMs / transition.durationMs)) : 1;
+  const progress = easeInOut(linear);
+  const done = linear >= 1;
+
+  if (transition.type === 'slide') {
+    // The new scene pushes the old one out to the left
+    return { progress, incomingOffset: 1 - progress, outgoingOffset: -progress, outgoingAlpha: done ? 0 : 1, done };
+  }
+  return { progress, incomingOffset: 0, outgoingOffset: 0, outgoingAlpha: 1 - progress, done };
+}
@@ -0,0 +1,128 @@
+/**
+ * Core types for compositing the presentation stage into a recordable canvas
+ */
+
+import type { Annotation, LaserPoint } from '../annotations/types';
+
+export type StageShape = 'rectangle' | 'circle' | 'rounded' | 'hexagon' | 'diamond' | 'heart' | 'star';
+
+export interface StageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface StagePresenter {
+  rect: StageRect;
+  shape: StageShape;
+  color: string;
+  filter: string; // CSS filter string, e.g. 'blur(10px) grayscale(1)'
+  zIndex: number;
+  source: CanvasImageSource | null;
+}
+
+export interface StageItem {
+  id: string;
+  type: 'image' | 'video' | 'document' | 'deck' | 'note';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  zIndex: number;
+  content?: string;
+  fileName?: string;
+  source: CanvasImageSource | null;
+}
+
+/**
+ * Everything the compositor needs to draw one frame, expressed in the
+ * board's own (unzoomed) coordinate space
+ */
+export interface StageSnapshot {
+  width: number;
+  height: number;
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
+  virtualBackground: string | null;
+  presenter: StagePresenter | null;
+  items: StageItem[];
+  // Drawn above every item, including a stroke still being drawn
+  annotations?: Annotation[];
+  laserTrail?: LaserPoint[];
+  // Zoom or spotlight effect at this moment, over the whole stage
+  focus?: StageFocusFrame | null;
+}
+
+// A scene change blended over the previous frame; cuts need no transition
+export interface StageTransition {
+  type: 'fade' | 'slide';
+  durationMs: number;
+}
+
+// How to draw one frame of a transition, progress from 0 to 1
+export interface StageTransitionFrame {
+  progress: number;
+  // Horizontal offsets as a fraction of the stage width
+  incomingOffset: number;
+  outgoingOffset: number;
+  outgoingAlpha: number;
+  done: boolean;
+}
+
+// Presentation effects on a region of the stage, in stage coordinates:
+// 'zoom' fills the frame with the region, 'spotlight' dims everything else
+export type StageFocusKind = 'zoom' | 'spotlight';
+
+export interface StageFocus {
+  kind: StageFocusKind;
+  region: StageRect;
+}
+
+// A focus effect part way in or out; amount runs from 0 (off) to 1
+export interface StageFocusFrame extends StageFocus {
+  amount: number;
+}
+
+// Easing from one focus frame to another; null ends are no effect
+export interface StageFocusAnimation {
+  from: StageFocusFrame | null;
+  to: StageFocusFrame | null;
+  startedAt: number;
+  durationMs: number;
+}
+
+// Maps stage coordinates to zoomed ones: scale first, then translate
+export interface StageFocusTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface StageCompositorOptions {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export const STAGE_CONSTANTS = {
+  DEFAULT_WIDTH: 1280,
+  DEFAULT_HEIGHT: 720,
+  DEFAULT_FPS: 30,
+  PRESENTER_BORDER_WIDTH: 4,
+  PRESENTER_Z_INDEX: 10,
+  ITEM_CORNER_RADIUS: 8,
+  BASE_BACKGROUND: ['#1e293b', '#0f172a'],
+  VIRTUAL_BACKGROUND_OPACITY: 0.3,
+  NOTE_BACKGROUND: '#fef08a',
+  FOCUS_DURATION_MS: 500,
+  // Zooming further than this makes screen recordings too blurry to read
+  FOCUS_MAX_ZOOM: 4,
+  // Space kept around a focused region, in stage pixels
+  FOCUS_PADDING: 24,
+  // Drags smaller than this pick no region
+  FOCUS_MIN_REGION: 16,
+  SPOTLIGHT_DIM_OPACITY: 0.65,
+  SPOTLIGHT_CORNER_RADIUS: 16
+} as const;
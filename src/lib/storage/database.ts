@@ -0,0 +1,100 @@
+/**
+ * Shared IndexedDB connection for the app
+ *
+ * Every feature that persists data uses the same database; schema changes
+ * are appended to MIGRATIONS so existing users are upgraded step by step.
+ */
+
+import { STORAGE_CONSTANTS, StorageError, StorageErrorCode } from './types';
+
+const { STORES } = STORAGE_CONSTANTS;
+
+// MIGRATIONS[n] upgrades a database from version n to n + 1
+const MIGRATIONS: Array<(db: IDBDatabase) => void> = [
+  (db) => {
+    db.createObjectStore(STORES.RECORDING_SESSIONS, { keyPath: 'id' });
+    const chunks = db.createObjectStore(STORES.RECORDING_CHUNKS, { keyPath: ['sessionId', 'sequence'] });
+    chunks.createIndex('sessionId', 'sessionId');
+  },
+  (db) => {
+    const recordings = db.createObjectStore(STORES.RECORDINGS, { keyPath: 'id' });
+    recordings.createIndex('createdAt', 'createdAt');
+  },
+  (db) => {
+    db.createObjectStore(STORES.WORKSPACE, { keyPath: 'id' });
+  }
+];
+
+let connection: Promise<IDBDatabase> | null = null;
+
+export function isStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function toStorageError(error: DOMException | null, fallback: string): StorageError {
+  const code = error?.name === 'QuotaExceededError'
+    ? StorageErrorCode.QUOTA_EXCEEDED
+    : StorageErrorCode.REQUEST_FAILED;
+  return new StorageError(error?.message || fallback, code, error ?? undefined);
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isStorageAvailable()) {
+    return Promise.reject(new StorageError('IndexedDB is not available', StorageErrorCode.UNAVAILABLE));
+  }
+
+  connection ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(STORAGE_CONSTANTS.DB_NAME, STORAGE_CONSTANTS.DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      for (let version = event.oldVersion; version < STORAGE_CONSTANTS.DB_VERSION; version++) {
+        MIGRATIONS[version](db);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading; close so it is not blocked, reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      connection = null;
+      reject(new StorageError(
+        'Failed to open database',
+        StorageErrorCode.OPEN_FAILED,
+        request.error ?? undefined
+      ));
+    };
+
+    request.onblocked = () => {
+      console.warn('⚠️ Database upgrade blocked by another open tab');
+    };
+  });
+
+  return connection;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error, 'Database request failed'));
+  });
+}
+
+/**
+ * Resolve once a transaction commits. Writes are only durable at this point,
+ * so callers should await it rather than the individual requests.
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(toStorageError(transaction.error, 'Database transaction failed'));
+    transaction.onabort = () => reject(toStorageError(transaction.error, 'Database transaction aborted'));
+  });
+}
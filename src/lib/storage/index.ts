@@ -0,0 +1,3 @@
+// Browser persistence exports
+export * from './types';
+export { openDatabase, isStorageAvailable, requestToPromise, transactionDone } from './database';
@@ -0,0 +1,36 @@
+/**
+ * Core types for browser persistence (IndexedDB)
+ */
+
+// Error types for better error handling
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public code: StorageErrorCode,
+    public cause?: Error
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export enum StorageErrorCode {
+  UNAVAILABLE = 'UNAVAILABLE',
+  OPEN_FAILED = 'OPEN_FAILED',
+  BLOCKED = 'BLOCKED',
+  REQUEST_FAILED = 'REQUEST_FAILED',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
+  NOT_FOUND = 'NOT_FOUND'
+}
+
+export const STORAGE_CONSTANTS = {
+  DB_NAME: 'videopresenter-pro',
+  // Bump together with a new entry in MIGRATIONS (database.ts)
+  DB_VERSION: 3,
+  STORES: {
+    RECORDING_SESSIONS: 'recordingSessions',
+    RECORDING_CHUNKS: 'recordingChunks',
+    RECORDINGS: 'recordings',
+    WORKSPACE: 'workspace'
+  }
+} as const;
@@ -43,15 +43,128 @@ export interface Translations {
   camera: string
   screen: string
   both: string
+  recordingQuality: string
+  qualityDraft720: string
+  qualityDraft720Description: string
+  quality1080p30Description: string
+  quality1080p60Description: string
+  qualityScreen4k: string
+  qualityScreen4kDescription: string
+  devices: string
+  noCameraFound: string
+  noMicrophoneFound: string
+  audioMixer: string
+  microphone: string
+  screenAudio: string
+  mute: string
+  solo: string
+  gain: string
+  pan: string
+  inputLevel: string
+  checkMicrophone: string
+  micCheckRunning: string
+  micCheckOk: string
+  micCheckQuiet: string
+  micCheckClipping: string
+  micCheckSilent: string
+  micCheckUnavailable: string
+  micMutedWarning: string
+  micSilentWarning: string
+  clippingWarning: string
+  voiceProcessing: string
+  effectsOff: string
+  effectsOffDescription: string
+  effectsVoiceOver: string
+  effectsVoiceOverDescription: string
+  effectsPodcast: string
+  effectsPodcastDescription: string
+  effectsCustom: string
+  customizeEffects: string
+  highPassFilter: string
+  noiseGate: string
+  equalizer: string
+  eqLow: string
+  eqMid: string
+  eqHigh: string
+  compressor: string
+  limiter: string
+  loudnessNormalization: string
+  threshold: string
+  ratio: string
+  ceiling: string
+  target: string
+  scenes: string
+  newScene: string
+  saveSceneLayout: string
+  duplicateScene: string
+  renameScene: string
+  deleteScene: string
+  sceneTransition: string
+  transitionCut: string
+  transitionFade: string
+  transitionSlide: string
+  scenesHint: string
+  
+  // Project files
+  saveProject: string
+  openProject: string
+  saveProjectHint: string
+  openProjectHint: string
+  projectNamePrompt: string
+  projectSaveFailed: string
+  projectOpenFailed: string
+  projectNewerVersion: string
   stopRecording: string
   recordingActive: string
+  recordingPaused: string
+  pauseRecording: string
+  resumeRecording: string
+  recoveredRecordings: string
+  recoveredRecordingsHint: string
+  restoreRecording: string
+  restoringRecording: string
+  discardRecording: string
+  recordingLibrary: string
+  openLibrary: string
+  libraryEmpty: string
+  openTake: string
+  currentTake: string
+  renameTake: string
+  deleteTake: string
+  confirmDeleteTake: string
+  selectToCompare: string
+  compareTakes: string
+  compareHint: string
+  playBoth: string
+  restart: string
+  backToLibrary: string
   screenCameraRecording: string
   preview: string
   exportFormat: string
   download: string
   recordAgain: string
+  downloadChapters: string
   converting: string
   conversionProgress: string
+  cancelConversion: string
+  frameRate: string
+  outputWidth: string
+  originalSize: string
+  loop: string
+  loopForever: string
+  playOnce: string
+  editRecording: string
+  recordingEditor: string
+  setInPoint: string
+  setOutPoint: string
+  cutSelection: string
+  resetEdits: string
+  applyEdits: string
+  renderingEdits: string
+  editedLength: string
+  removedSegments: string
+  restoreSegment: string
+  editorHint: string
   
   // Picture in Picture
   stayVisible: string
@@ -151,15 +264,128 @@ export const translations: Record<Language, Translations> = {
     camera: 'Camera',
     screen: 'Screen',
     both: 'Both',
+    recordingQuality: 'Quality',
+    qualityDraft720: '720p30 Draft',
+    qualityDraft720Description: 'Small files for reviews and quick shares',
+    quality1080p30Description: 'Sharp talks and tutorials',
+    quality1080p60Description: 'Smooth motion for demos and fast scrolling',
+    qualityScreen4k: '4K Screen',
+    qualityScreen4kDescription: 'Readable code and small text on large displays',
+    devices: 'Devices',
+    noCameraFound: 'No camera found',
+    noMicrophoneFound: 'No microphone found',
+    audioMixer: 'Audio Mixer',
+    microphone: 'Microphone',
+    screenAudio: 'Screen audio',
+    mute: 'Mute',
+    solo: 'Solo',
+    gain: 'Gain',
+    pan: 'Pan',
+    inputLevel: 'Input level',
+    checkMicrophone: 'Check microphone',
+    micCheckRunning: 'Speak normally for a few seconds…',
+    micCheckOk: 'Microphone sounds good',
+    micCheckQuiet: 'Very quiet. Move closer or raise the gain.',
+    micCheckClipping: 'Too loud, the sound distorts. Lower the gain.',
+    micCheckSilent: 'No sound from the microphone. Check the device and system mute.',
+    micCheckUnavailable: 'No microphone to check',
+    micMutedWarning: 'Microphone is muted. Your voice is not being recorded.',
+    micSilentWarning: 'No sound from the microphone for a few seconds',
+    clippingWarning: 'Audio is clipping. Lower the gain.',
+    voiceProcessing: 'Voice Processing',
+    effectsOff: 'Off',
+    effectsOffDescription: 'The microphone as it comes in',
+    effectsVoiceOver: 'Voice-over',
+    effectsVoiceOverDescription: 'Tight and present for narration over slides and screen',
+    effectsPodcast: 'Podcast',
+    effectsPodcastDescription: 'Warm and even, loud enough for phones and earbuds',
+    effectsCustom: 'Custom',
+    customizeEffects: 'Customize',
+    highPassFilter: 'High-pass',
+    noiseGate: 'Noise gate',
+    equalizer: 'EQ',
+    eqLow: 'Low',
+    eqMid: 'Mid',
+    eqHigh: 'High',
+    compressor: 'Compressor',
+    limiter: 'Limiter',
+    loudnessNormalization: 'Loudness',
+    threshold: 'Threshold',
+    ratio: 'Ratio',
+    ceiling: 'Ceiling',
+    target: 'Target',
+    scenes: 'Scenes',
+    newScene: 'New scene',
+    saveSceneLayout: 'Save current layout to this scene',
+    duplicateScene: 'Duplicate',
+    renameScene: 'Rename',
+    deleteScene: 'Delete scene',
+    sceneTransition: 'Transition',
+    transitionCut: 'Cut',
+    transitionFade: 'Fade',
+    transitionSlide: 'Slide',
+    scenesHint: 'Alt+1–9 switches scenes, also while recording',
+    
+    // Project files
+    saveProject: 'Save project',
+    openProject: 'Open project',
+    saveProjectHint: 'Save board, settings, script and backgrounds to a file',
+    openProjectHint: 'Open a project file shared with you',
+    projectNamePrompt: 'Project name',
+    projectSaveFailed: 'Could not save the project',
+    projectOpenFailed: 'Could not open the project',
+    projectNewerVersion: 'This project was saved by a newer version of the app. Update to open it.',
     stopRecording: 'Stop Recording',
     recordingActive: 'Recording',
+    recordingPaused: 'Paused',
+    pauseRecording: 'Pause',
+    resumeRecording: 'Resume',
+    recoveredRecordings: 'Recovered recordings',
+    recoveredRecordingsHint: 'These recordings were interrupted before they finished.',
+    restoreRecording: 'Restore',
+    restoringRecording: 'Restoring...',
+    discardRecording: 'Discard',
+    recordingLibrary: 'Recording Library',
+    openLibrary: 'Library',
+    libraryEmpty: 'Finished recordings will appear here.',
+    openTake: 'Open',
+    currentTake: 'Current',
+    renameTake: 'Rename',
+    deleteTake: 'Delete',
+    confirmDeleteTake: 'Delete this take? This cannot be undone.',
+    selectToCompare: 'Select to compare',
+    compareTakes: 'Compare',
+    compareHint: 'Select two takes to compare',
+    playBoth: 'Play both',
+    restart: 'Restart',
+    backToLibrary: 'Back to library',
     screenCameraRecording: 'Screen + Camera recording active',
     preview: 'Preview',
     exportFormat: 'Export Format:',
     download: 'Download',
     recordAgain: 'Record Again',
+    downloadChapters: 'Chapters (.vtt)',
     converting: 'Converting to',
     conversionProgress: 'This may take a few moments...',
+    cancelConversion: 'Cancel',
+    frameRate: 'Frame rate',
+    outputWidth: 'Width',
+    originalSize: 'Original',
+    loop: 'Loop',
+    loopForever: 'Forever',
+    playOnce: 'Once',
+    editRecording: 'Trim & Cut',
+    recordingEditor: 'Edit Recording',
+    setInPoint: 'Set In',
+    setOutPoint: 'Set Out',
+    cutSelection: 'Cut Selection',
+    resetEdits: 'Reset',
+    applyEdits: 'Apply Edits',
+    renderingEdits: 'Rendering edits in real time...',
+    editedLength: 'Edited length',
+    removedSegments: 'Removed segments',
+    restoreSegment: 'Restore',
+    editorHint: 'Drag on the timeline to select a range to cut. Drag the handles to trim the start and end.',
     
     // Picture in Picture
     stayVisible: 'Stay Visible',
@@ -258,15 +484,128 @@ export const translations: Record<Language, Translations> = {
     camera: 'Câmera',
     screen: 'Tela',
     both: 'Ambos',
+    recordingQuality: 'Qualidade',
+    qualityDraft720: 'Rascunho 720p30',
+    qualityDraft720Description: 'Arquivos pequenos para revisões e compartilhamentos rápidos',
+    quality1080p30Description: 'Palestras e tutoriais nítidos',
+    quality1080p60Description: 'Movimento suave para demos e rolagem rápida',
+    qualityScreen4k: 'Tela 4K',
+    qualityScreen4kDescription: 'Código e textos pequenos legíveis em telas grandes',
+    devices: 'Dispositivos',
+    noCameraFound: 'Nenhuma câmera encontrada',
+    noMicrophoneFound: 'Nenhum microfone encontrado',
+    audioMixer: 'Mixer de áudio',
+    microphone: 'Microfone',
+    screenAudio: 'Áudio da tela',
+    mute: 'Silenciar',
+    solo: 'Solo',
+    gain: 'Ganho',
+    pan: 'Pan',
+    inputLevel: 'Nível de entrada',
+    checkMicrophone: 'Testar microfone',
+    micCheckRunning: 'Fale normalmente por alguns segundos…',
+    micCheckOk: 'O microfone está bom',
+    micCheckQuiet: 'Muito baixo. Aproxime-se ou aumente o ganho.',
+    micCheckClipping: 'Alto demais, o som distorce. Diminua o ganho.',
+    micCheckSilent: 'Nenhum som do microfone. Verifique o dispositivo e o mudo do sistema.',
+    micCheckUnavailable: 'Nenhum microfone para testar',
+    micMutedWarning: 'O microfone está mudo. Sua voz não está sendo gravada.',
+    micSilentWarning: 'Nenhum som do microfone há alguns segundos',
+    clippingWarning: 'O áudio está distorcendo. Diminua o ganho.',
+    voiceProcessing: 'Processamento de voz',
+    effectsOff: 'Desligado',
+    effectsOffDescription: 'O microfone como ele chega',
+    effectsVoiceOver: 'Locução',
+    effectsVoiceOverDescription: 'Firme e presente para narrar slides e tela',
+    effectsPodcast: 'Podcast',
+    effectsPodcastDescription: 'Quente e uniforme, alto o bastante para celulares e fones',
+    effectsCustom: 'Personalizado',
+    customizeEffects: 'Personalizar',
+    highPassFilter: 'Passa-altas',
+    noiseGate: 'Noise gate',
+    equalizer: 'Equalizador',
+    eqLow: 'Graves',
+    eqMid: 'Médios',
+    eqHigh: 'Agudos',
+    compressor: 'Compressor',
+    limiter: 'Limitador',
+    loudnessNormalization: 'Loudness',
+    threshold: 'Limiar',
+    ratio: 'Razão',
+    ceiling: 'Teto',
+    target: 'Alvo',
+    scenes: 'Cenas',
+    newScene: 'Nova cena',
+    saveSceneLayout: 'Salvar o layout atual nesta cena',
+    duplicateScene: 'Duplicar',
+    renameScene: 'Renomear',
+    deleteScene: 'Excluir cena',
+    sceneTransition: 'Transição',
+    transitionCut: 'Corte',
+    transitionFade: 'Esmaecer',
+    transitionSlide: 'Deslizar',
+    scenesHint: 'Alt+1–9 troca de cena, inclusive durante a gravação',
+    
+    // Project files
+    saveProject: 'Salvar projeto',
+    openProject: 'Abrir projeto',
+    saveProjectHint: 'Salvar quadro, configurações, roteiro e fundos em um arquivo',
+    openProjectHint: 'Abrir um arquivo de projeto compartilhado com você',
+    projectNamePrompt: 'Nome do projeto',
+    projectSaveFailed: 'Não foi possível salvar o projeto',
+    projectOpenFailed: 'Não foi possível abrir o projeto',
+    projectNewerVersion: 'Este projeto foi salvo por uma versão mais nova do aplicativo. Atualize para abri-lo.',
     stopRecording: 'Parar Gravação',
     recordingActive: 'Gravando',
+    recordingPaused: 'Pausado',
+    pauseRecording: 'Pausar',
+    resumeRecording: 'Retomar',
+    recoveredRecordings: 'Gravações recuperadas',
+    recoveredRecordingsHint: 'Estas gravações foram interrompidas antes de terminar.',
+    restoreRecording: 'Restaurar',
+    restoringRecording: 'Restaurando...',
+    discardRecording: 'Descartar',
+    recordingLibrary: 'Biblioteca de gravações',
+    openLibrary: 'Biblioteca',
+    libraryEmpty: 'As gravações finalizadas aparecerão aqui.',
+    openTake: 'Abrir',
+    currentTake: 'Atual',
+    renameTake: 'Renomear',
+    deleteTake: 'Excluir',
+    confirmDeleteTake: 'Excluir esta gravação? Isso não pode ser desfeito.',
+    selectToCompare: 'Selecionar para comparar',
+    compareTakes: 'Comparar',
+    compareHint: 'Selecione duas gravações para comparar',
+    playBoth: 'Reproduzir ambas',
+    restart: 'Reiniciar',
+    backToLibrary: 'Voltar à biblioteca',
     screenCameraRecording: 'Gravação de Tela + Câmera ativa',
     preview: 'Prévia',
     exportFormat: 'Formato de Exportação:',
     download: 'Baixar',
     recordAgain: 'Gravar Novamente',
+    downloadChapters: 'Capítulos (.vtt)',
     converting: 'Convertendo para',
     conversionProgress: 'Isso pode levar alguns momentos...',
+    cancelConversion: 'Cancelar',
+    frameRate: 'Taxa de quadros',
+    outputWidth: 'Largura',
+    originalSize: 'Original',
+    loop: 'Repetição',
+    loopForever: 'Sempre',
+    playOnce: 'Uma vez',
+    editRecording: 'Cortar e Aparar',
+    recordingEditor: 'Editar Gravação',
+    setInPoint: 'Definir Início',
+    setOutPoint: 'Definir Fim',
+    cutSelection: 'Remover Seleção',
+    resetEdits: 'Redefinir',
+    applyEdits: 'Aplicar Edições',
+    renderingEdits: 'Renderizando edições em tempo real...',
+    editedLength: 'Duração editada',
+    removedSegments: 'Trechos removidos',
+    restoreSegment: 'Restaurar',
+    editorHint: 'Arraste na linha do tempo para selecionar um trecho a remover. Arraste as alças para aparar o início e o fim.',
     
     // Picture in Picture
     stayVisible: 'Manter Visível',
@@ -1,12 +1,59 @@
 'use client'
 
-export type ExportFormat = 'webm' | 'mp4' | 'webp'
+import {
+  EXPORT_CONSTANTS,
+  ExportError,
+  ExportErrorCode,
+  GifEncoder,
+  addMp4Chapters,
+  addWebMChapters,
+  createWebVttChapters,
+  mp4Transcoder,
+  muxAnimatedWebP,
+  parseWebPImage,
+  readBlob,
+  loadVideo,
+  seekTo,
+  type AnimatedWebPFrame,
+  type Chapter
+} from './export'
+
+export type ExportFormat = 'webm' | 'mp4' | 'webp' | 'gif'
 
 export interface ConversionProgress {
   progress: number
   stage: string
 }
 
+export interface ConversionOptions {
+  signal?: AbortSignal
+  durationSeconds?: number
+  // Animated image exports
+  fps?: number
+  width?: number // Output width in pixels, never upscaled
+  loopCount?: number // 0 = loop forever
+  dither?: boolean // GIF only, defaults to true
+  // Written into MP4 and WebM output
+  chapters?: Chapter[]
+}
+
+export type AnimationOptions = Pick<ConversionOptions, 'fps' | 'width' | 'loopCount'>
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new ExportError('Conversion cancelled', ExportErrorCode.CANCELLED)
+  }
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode frame'))),
+      type,
+      quality
+    )
+  })
+
 class VideoExporter {
   // Check what formats the browser supports for recording
   getSupportedRecordingFormats(): ExportFormat[] {
@@ -50,12 +97,13 @@ class VideoExporter {
       }
     }
 
-    // Fallback to WebM formats
+    // Fallback to WebM formats. VP8 comes first because the bundled
+    // ffmpeg.js build can only decode VP8 when converting to MP4
     const webmFormats = [
-      'video/webm; codecs=vp9,opus',
       'video/webm; codecs=vp8,opus',
-      'video/webm; codecs=vp9',
+      'video/webm; codecs=vp9,opus',
       'video/webm; codecs=vp8',
+      'video/webm; codecs=vp9',
       'video/webm'
     ]
 
@@ -69,120 +117,168 @@ class VideoExporter {
     return { mimeType: 'video/webm', format: 'webm' }
   }
 
-  // Convert video to animated WebP
-  private async convertToAnimatedWebP(
+  // Seek through a recording at a fixed frame rate and hand each frame to onFrame
+  private async extractFrames(
     videoBlob: Blob,
-    onProgress?: (progress: ConversionProgress) => void
-  ): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const video = document.createElement('video')
+    options: ConversionOptions,
+    onFrame: (canvas: HTMLCanvasElement, index: number, total: number) => Promise<void>
+  ): Promise<void> {
+    const { video, duration, release } = await loadVideo(videoBlob, options.durationSeconds)
+
+    try {
+      const fps = options.fps ?? EXPORT_CONSTANTS.ANIMATION_DEFAULT_FPS
+      const scale = options.width ? Math.min(1, options.width / video.videoWidth) : 1
       const canvas = document.createElement('canvas')
+      canvas.width = Math.max(1, Math.round(video.videoWidth * scale))
+      canvas.height = Math.max(1, Math.round(video.videoHeight * scale))
+
       const ctx = canvas.getContext('2d')
-      
       if (!ctx) {
-        reject(new Error('Canvas context not available'))
-        return
+        throw new Error('Canvas context not available')
       }
 
-      video.muted = true
-      video.preload = 'metadata'
-      
-      video.onloadedmetadata = async () => {
-        try {
-          onProgress?.({ progress: 10, stage: 'Analyzing video...' })
-          
-          // Set canvas size to match video
-          canvas.width = video.videoWidth
-          canvas.height = video.videoHeight
-          
-          const duration = video.duration
-          const fps = 10 // Target 10 FPS for animated WebP
-          const interval = 1 / fps
-          const frames: string[] = []
-          
-          onProgress?.({ progress: 20, stage: 'Extracting frames...' })
-          
-          // Extract frames
-          for (let time = 0; time < duration; time += interval) {
-            video.currentTime = time
-            
-            await new Promise(resolve => {
-              video.onseeked = resolve
-            })
-            
-            // Draw frame to canvas
-            ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
-            
-            // Convert frame to WebP
-            const frameDataUrl = canvas.toDataURL('image/webp', 0.8)
-            frames.push(frameDataUrl)
-            
-            const progress = 20 + (time / duration) * 60
-            onProgress?.({ progress, stage: `Extracting frame ${frames.length}...` })
-          }
-          
-          onProgress?.({ progress: 80, stage: 'Creating animated WebP...' })
-          
-          // For now, we'll create a simple WebP of the first frame
-          // In a real implementation, you'd need a library like 'webp-writer' or server-side processing
-          // to create actual animated WebPs
-          if (frames.length > 0) {
-            const firstFrameData = frames[0]
-            const response = await fetch(firstFrameData)
-            const blob = await response.blob()
-            
-            onProgress?.({ progress: 100, stage: 'WebP creation complete!' })
-            resolve(blob)
-          } else {
-            reject(new Error('No frames extracted from video'))
-          }
-        } catch (error) {
-          reject(error)
-        }
+      const total = Math.max(1, Math.ceil(duration * fps))
+      for (let index = 0; index < total; index++) {
+        throwIfCancelled(options.signal)
+        await seekTo(video, index / fps)
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+        await onFrame(canvas, index, total)
       }
-      
-      video.onerror = () => {
-        reject(new Error('Failed to load video for WebP conversion'))
+    } finally {
+      release()
+    }
+  }
+
+  // Convert video to animated WebP
+  private async convertToAnimatedWebP(
+    videoBlob: Blob,
+    onProgress?: (progress: ConversionProgress) => void,
+    options: ConversionOptions = {}
+  ): Promise<Blob> {
+    const fps = options.fps ?? EXPORT_CONSTANTS.ANIMATION_DEFAULT_FPS
+    const frames: AnimatedWebPFrame[] = []
+
+    onProgress?.({ progress: 10, stage: 'Analyzing video...' })
+
+    await this.extractFrames(videoBlob, options, async (canvas, index, total) => {
+      const frameBlob = await canvasToBlob(canvas, 'image/webp', EXPORT_CONSTANTS.WEBP_FRAME_QUALITY)
+      // Browsers without a WebP encoder silently fall back to PNG
+      if (frameBlob.type !== 'image/webp') {
+        throw new ExportError('This browser cannot encode WebP images', ExportErrorCode.UNSUPPORTED_OUTPUT)
       }
-      
-      video.src = URL.createObjectURL(videoBlob)
+
+      frames.push({
+        image: parseWebPImage(new Uint8Array(await readBlob(frameBlob))),
+        duration: 1000 / fps
+      })
+
+      const progress = 20 + ((index + 1) / total) * 70
+      onProgress?.({ progress, stage: `Encoding frame ${index + 1} of ${total}...` })
     })
+
+    onProgress?.({ progress: 90, stage: 'Creating animated WebP...' })
+    const webp = muxAnimatedWebP(frames, { loopCount: options.loopCount ?? 0 })
+
+    onProgress?.({ progress: 100, stage: 'WebP creation complete!' })
+    return new Blob([webp], { type: 'image/webp' })
+  }
+
+  // Convert video to animated GIF
+  private async convertToAnimatedGif(
+    videoBlob: Blob,
+    onProgress?: (progress: ConversionProgress) => void,
+    options: ConversionOptions = {}
+  ): Promise<Blob> {
+    const fps = options.fps ?? EXPORT_CONSTANTS.ANIMATION_DEFAULT_FPS
+    // Sized from the first frame; left uninitialised so the check after the
+    // callback isn't narrowed to null
+    let encoder: GifEncoder | undefined
+
+    onProgress?.({ progress: 10, stage: 'Analyzing video...' })
+
+    await this.extractFrames(videoBlob, options, async (canvas, index, total) => {
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        throw new Error('Canvas context not available')
+      }
+
+      encoder ??= new GifEncoder(canvas.width, canvas.height, { loopCount: options.loopCount ?? 0 })
+      encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height), 1000 / fps, { dither: options.dither })
+
+      const progress = 20 + ((index + 1) / total) * 75
+      onProgress?.({ progress, stage: `Encoding frame ${index + 1} of ${total}...` })
+
+      // Quantizing a frame blocks the main thread; yield so the UI can repaint
+      await new Promise(resolve => setTimeout(resolve, 0))
+    })
+
+    if (!encoder) {
+      throw new Error('No frames extracted from video')
+    }
+
+    onProgress?.({ progress: 95, stage: 'Creating animated GIF...' })
+    const gif = encoder.finish()
+
+    onProgress?.({ progress: 100, stage: 'GIF creation complete!' })
+    return new Blob([gif], { type: 'image/gif' })
   }
 
-  // Simple format conversion using MediaRecorder API
+  // Convert a recording to the requested export format
   async convertToFormat(
     videoBlob: Blob,
     targetFormat: ExportFormat,
-    onProgress?: (progress: ConversionProgress) => void
+    onProgress?: (progress: ConversionProgress) => void,
+    options: ConversionOptions = {}
   ): Promise<Blob> {
     onProgress?.({ progress: 0, stage: 'Starting conversion...' })
 
     try {
       // Handle WebP conversion
       if (targetFormat === 'webp') {
-        return await this.convertToAnimatedWebP(videoBlob, onProgress)
+        return await this.convertToAnimatedWebP(videoBlob, onProgress, options)
       }
 
-      // For now, we'll only support direct download for video formats
-      // Complex conversion would require FFmpeg or server-side processing
-      if (targetFormat === 'webm' || videoBlob.type.includes('webm')) {
-        onProgress?.({ progress: 100, stage: 'Conversion complete!' })
-        return videoBlob
+      if (targetFormat === 'gif') {
+        return await this.convertToAnimatedGif(videoBlob, onProgress, options)
       }
 
-      // If we need MP4 but have WebM, inform user about limitation
+      // WebM recordings are transcoded to H.264/AAC in a worker
       if (targetFormat === 'mp4' && videoBlob.type.includes('webm')) {
-        throw new Error('MP4 conversion requires server-side processing. Download as WebM instead.')
+        const mp4 = await mp4Transcoder.transcode(videoBlob, {
+          onProgress,
+          signal: options.signal,
+          durationSeconds: options.durationSeconds
+        })
+        return await this.addChapters(mp4, options.chapters ?? [])
       }
 
       onProgress?.({ progress: 100, stage: 'Conversion complete!' })
-      return videoBlob
+      return await this.addChapters(videoBlob, options.chapters ?? [])
     } catch (error) {
       console.error('❌ Format conversion failed:', error)
       throw error
     }
   }
 
+  // Embed chapters in an MP4 or WebM file. Chapters are a nice-to-have, so a
+  // file they can't be written into is returned unchanged.
+  async addChapters(blob: Blob, chapters: Chapter[]): Promise<Blob> {
+    if (chapters.length === 0) return blob
+
+    try {
+      const bytes = new Uint8Array(await readBlob(blob))
+      if (blob.type.includes('mp4')) {
+        return new Blob([addMp4Chapters(bytes, chapters)], { type: blob.type })
+      }
+      if (blob.type.includes('webm')) {
+        return new Blob([addWebMChapters(bytes, chapters)], { type: blob.type })
+      }
+    } catch (error) {
+      console.warn('⚠️ Exporting without chapters:', error)
+    }
+    return blob
+  }
+
   getFormatInfo(format: ExportFormat) {
     switch (format) {
       case 'mp4':
@@ -201,6 +297,14 @@ class VideoExporter {
           extension: 'webp',
           mimeType: 'image/webp'
         }
+      case 'gif':
+        return {
+          name: 'GIF',
+          description: 'Animates everywhere, great for issues and chat',
+          icon: '🎞️',
+          extension: 'gif',
+          mimeType: 'image/gif'
+        }
       case 'webm':
       default:
         return {
@@ -219,10 +323,21 @@ class VideoExporter {
     const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-')
     const finalFilename = filename || `video-presentation-${timestamp}.${formatInfo.extension}`
 
+    this.downloadBlob(blob, finalFilename)
+  }
+
+  // Download chapters as a WebVTT sidecar, e.g. for <track kind="chapters">
+  downloadChapters(chapters: Chapter[], filename?: string): void {
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-')
+    const blob = new Blob([createWebVttChapters(chapters)], { type: 'text/vtt' })
+    this.downloadBlob(blob, filename || `video-presentation-${timestamp}.chapters.vtt`)
+  }
+
+  private downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = finalFilename
+    a.download = filename
     
     document.body.appendChild(a)
     a.click()
@@ -236,8 +351,8 @@ class VideoExporter {
   needsConversion(currentFormat: string, targetFormat: ExportFormat): boolean {
     const target = this.getFormatInfo(targetFormat)
     
-    // WebP always needs conversion from video formats
-    if (targetFormat === 'webp') {
+    // Animated image formats always need conversion from video formats
+    if (targetFormat === 'webp' || targetFormat === 'gif') {
       return true
     }
     
@@ -0,0 +1,106 @@
+/**
+ * WorkspaceStore - Autosaves the board between visits
+ *
+ * Separate from project files: there is one workspace, it is written to
+ * IndexedDB whenever the board settles and restored on the next visit, so
+ * a reload no longer throws away a prepared board.
+ */
+
+import {
+  STORAGE_CONSTANTS,
+  isStorageAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone
+} from '../storage';
+import { dehydrateWorkspace, hydrateWorkspace } from './workspaceState';
+import { WORKSPACE_CONSTANTS, type StoredWorkspace, type WorkspaceState } from './types';
+
+const { WORKSPACE } = STORAGE_CONSTANTS.STORES;
+
+export class WorkspaceStore {
+  // Object URLs never change what they point to, so each is read only once
+  private blobCache = new Map<string, Blob>();
+
+  isSupported(): boolean {
+    return isStorageAvailable();
+  }
+
+  /**
+   * The saved workspace with fresh object URLs, or null on a first visit
+   */
+  async load(): Promise<WorkspaceState | null> {
+    if (!this.isSupported()) {
+      return null;
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(WORKSPACE, 'readonly');
+    const stored = await requestToPromise<StoredWorkspace | undefined>(
+      transaction.objectStore(WORKSPACE).get(WORKSPACE_CONSTANTS.RECORD_ID)
+    );
+    if (!stored) {
+      return null;
+    }
+
+    return hydrateWorkspace(stored, blob => {
+      const url = URL.createObjectURL(blob);
+      this.blobCache.set(url, blob);
+      return url;
+    });
+  }
+
+  async save(state: WorkspaceState): Promise<void> {
+    if (!this.isSupported()) {
+      return;
+    }
+
+    // Read every blob before opening the transaction; it would auto-commit
+    // while waiting on fetch
+    const stored = await dehydrateWorkspace(state, url => this.readBlob(url));
+    this.pruneCache(state);
+
+    const db = await openDatabase();
+    const transaction = db.transaction(WORKSPACE, 'readwrite');
+    transaction.objectStore(WORKSPACE).put(stored);
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    if (!this.isSupported()) {
+      return;
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(WORKSPACE, 'readwrite');
+    transaction.objectStore(WORKSPACE).delete(WORKSPACE_CONSTANTS.RECORD_ID);
+    await transactionDone(transaction);
+    this.blobCache.clear();
+  }
+
+  private async readBlob(url: string): Promise<Blob> {
+    const cached = this.blobCache.get(url);
+    if (cached) {
+      return cached;
+    }
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to read ${url}`);
+    }
+    const blob = await response.blob();
+    this.blobCache.set(url, blob);
+    return blob;
+  }
+
+  private pruneCache(state: WorkspaceState): void {
+    const inUse = new Set([state.presenter.virtualBackground, ...state.boardItems.map(item => item.src)]);
+    [...this.blobCache.keys()].forEach(url => {
+      if (!inUse.has(url)) {
+        this.blobCache.delete(url);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const workspaceStore = new WorkspaceStore();
@@ -0,0 +1,112 @@
+/**
+ * Tests for converting the workspace to and from its stored form
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCENE_CONSTANTS } from '../../scenes/types';
+import { dehydrateWorkspace, hydrateWorkspace, isAssetKey } from '../workspaceState';
+import { WORKSPACE_CONSTANTS, type WorkspaceState } from '../types';
+
+const createState = (): WorkspaceState => ({
+  presenter: {
+    backgroundType: 'visible',
+    shape: 'circle',
+    color: '#3b82f6',
+    virtualBackground: 'blob:background',
+    videoFilter: 'none',
+    size: 'large',
+    position: { x: 40, y: 60 }
+  },
+  boardItems: [
+    { id: 'img', type: 'image', src: 'blob:image', fileName: 'chart.png', x: 10, y: 20, width: 300, height: 200, rotation: 0, zIndex: 1 },
+    { id: 'copy', type: 'image', src: 'blob:image', fileName: 'chart.png', x: 30, y: 40, width: 300, height: 200, rotation: 0, zIndex: 2 },
+    { id: 'note', type: 'note', content: 'Intro', x: 0, y: 0, width: 200, height: 150, rotation: 3, zIndex: 3 }
+  ],
+  view: { ...SCENE_CONSTANTS.DEFAULT_VIEW, zoomLevel: 1.5, panOffset: { x: -20, y: 10 } },
+  teleprompterScript: 'Good morning',
+  sceneAnnotations: {
+    'scene-1': [{ id: 'annotation-1', shape: 'arrow', color: '#ef4444', width: 4, points: [{ x: 0, y: 0, pressure: 0.5 }, { x: 50, y: 50, pressure: 0.5 }] }]
+  }
+});
+
+const blobs: Record<string, Blob> = {
+  'blob:background': new Blob(['bg'], { type: 'image/jpeg' }),
+  'blob:image': new Blob(['img'], { type: 'image/png' })
+};
+
+const readBlob = async (url: string) => {
+  if (!blobs[url]) throw new Error('revoked');
+  return blobs[url];
+};
+
+describe('workspace state', () => {
+  it('should store each media file once and refer to it by key', async () => {
+    const stored = await dehydrateWorkspace(createState(), readBlob, 1234);
+
+    expect(stored.id).toBe(WORKSPACE_CONSTANTS.RECORD_ID);
+    expect(stored.savedAt).toBe(1234);
+    expect(stored.assets).toHaveLength(2);
+    expect(isAssetKey(stored.state.presenter.virtualBackground)).toBe(true);
+    expect(stored.state.boardItems[0].src).toBe(stored.state.boardItems[1].src);
+    expect(stored.state.boardItems.every(item => !item.src?.startsWith('blob:'))).toBe(true);
+  });
+
+  it('should restore the workspace with new object URLs', async () => {
+    const stored = await dehydrateWorkspace(createState(), readBlob);
+    let count = 0;
+    const restored = hydrateWorkspace(stored, () => `blob:restored-${++count}`);
+
+    expect(restored.presenter.virtualBackground).toBe('blob:restored-1');
+    expect(restored.boardItems.map(item => item.src)).toEqual(['blob:restored-2', 'blob:restored-2', undefined]);
+    expect(restored.view.zoomLevel).toBe(1.5);
+    expect(restored.teleprompterScript).toBe('Good morning');
+    expect(restored.sceneAnnotations).toEqual(createState().sceneAnnotations);
+    expect(count).toBe(2);
+  });
+
+  it('should restore workspaces saved before annotations with none', async () => {
+    const stored = await dehydrateWorkspace(createState(), readBlob);
+    const legacy = { ...stored, state: { ...stored.state, sceneAnnotations: undefined as unknown as WorkspaceState['sceneAnnotations'] } };
+
+    expect(hydrateWorkspace(legacy, () => 'blob:new').sceneAnnotations).toEqual({});
+  });
+
+  it('should keep built-in backgrounds as they are', async () => {
+    const state = createState();
+    state.presenter.virtualBackground = 'tech';
+    const restored = hydrateWorkspace(await dehydrateWorkspace(state, readBlob), () => 'blob:new');
+    expect(restored.presenter.virtualBackground).toBe('tech');
+  });
+
+  it('should drop media that can no longer be read', async () => {
+    const state = createState();
+    state.boardItems[0].src = 'blob:gone';
+    const stored = await dehydrateWorkspace(state, readBlob);
+
+    expect(stored.state.boardItems.map(item => item.id)).toEqual(['copy', 'note']);
+  });
+
+  it('should store slide pages and drop decks that lost one', async () => {
+    const state = createState();
+    state.boardItems = [{
+      id: 'deck', type: 'document', src: 'blob:image', fileName: 'talk.odp', pages: ['blob:image', 'blob:background'],
+      x: 0, y: 0, width: 320, height: 224, rotation: 0, zIndex: 1
+    }];
+    const stored = await dehydrateWorkspace(state, readBlob);
+    let count = 0;
+    const restored = hydrateWorkspace(stored, () => `blob:restored-${++count}`);
+    expect(restored.boardItems[0].pages).toEqual(['blob:restored-2', 'blob:restored-1']);
+
+    stored.assets = stored.assets.filter(asset => asset.key !== stored.state.boardItems[0].pages![1]);
+    expect(hydrateWorkspace(stored, () => 'blob:restored').boardItems).toEqual([]);
+  });
+
+  it('should drop items whose stored media is missing', async () => {
+    const stored = await dehydrateWorkspace(createState(), readBlob);
+    stored.assets = [];
+    const restored = hydrateWorkspace(stored, () => 'blob:new');
+
+    expect(restored.presenter.virtualBackground).toBeNull();
+    expect(restored.boardItems.map(item => item.id)).toEqual(['note']);
+  });
+});
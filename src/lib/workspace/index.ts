@@ -0,0 +1,4 @@
+// Workspace autosave exports
+export * from './types';
+export * from './workspaceState';
+export { WorkspaceStore, workspaceStore } from './WorkspaceStore';
@@ -0,0 +1,40 @@
+/**
+ * Core types for autosaving the workspace between visits
+ */
+
+import type { Annotation } from '../annotations/types';
+import type { ProjectBoardItem } from '../project/types';
+import type { ScenePresenter, SceneView } from '../scenes/types';
+
+// The board as it is on screen; media is referenced by object URLs
+export interface WorkspaceState {
+  presenter: ScenePresenter;
+  boardItems: ProjectBoardItem[];
+  view: SceneView;
+  teleprompterScript: string;
+  // Drawings by scene id; too large for the scene list in localStorage
+  sceneAnnotations: Record<string, Annotation[]>;
+}
+
+export interface StoredWorkspaceAsset {
+  key: string;
+  blob: Blob;
+}
+
+/**
+ * The single workspace record in IndexedDB. Object URLs die with the tab,
+ * so media is stored as blobs and the state refers to them by asset key.
+ */
+export interface StoredWorkspace {
+  id: typeof WORKSPACE_CONSTANTS.RECORD_ID;
+  savedAt: number;
+  state: WorkspaceState;
+  assets: StoredWorkspaceAsset[];
+}
+
+export const WORKSPACE_CONSTANTS = {
+  RECORD_ID: 'current',
+  ASSET_KEY_PREFIX: 'workspace-asset:',
+  // Quiet period after the last change before writing
+  AUTOSAVE_DELAY_MS: 1000
+} as const;
@@ -0,0 +1,93 @@
+/**
+ * Convert the workspace between its on-screen form (object URLs) and its
+ * stored form (blobs keyed by asset key)
+ */
+
+import { normalizeAnnotations } from '../annotations/strokes';
+import { WORKSPACE_CONSTANTS, type StoredWorkspace, type StoredWorkspaceAsset, type WorkspaceState } from './types';
+
+export type BlobReader = (url: string) => Promise<Blob>;
+
+const isObjectUrl = (url: string | null | undefined): url is string =>
+  !!url && (url.startsWith('blob:') || url.startsWith('data:'));
+
+export function isAssetKey(value: string | null | undefined): value is string {
+  return !!value && value.startsWith(WORKSPACE_CONSTANTS.ASSET_KEY_PREFIX);
+}
+
+// `map` returns null for media that could not be kept; such board items
+// are dropped rather than restored broken, and the background is cleared
+function mapUrls(state: WorkspaceState, map: (url: string) => string | null): WorkspaceState {
+  const background = state.presenter.virtualBackground;
+  return {
+    presenter: {
+      ...state.presenter,
+      position: { ...state.presenter.position },
+      virtualBackground: background ? map(background) : null
+    },
+    boardItems: state.boardItems.flatMap(item => {
+      const src = item.src ? map(item.src) : item.src;
+      const pages = item.pages?.map(map);
+      if (src === null || pages?.includes(null)) {
+        return [];
+      }
+      return [{ ...item, src, ...(pages ? { pages: pages as string[] } : {}) }];
+    }),
+    view: {
+      ...state.view,
+      panOffset: { ...state.view.panOffset },
+      presenterSize: state.view.presenterSize ? { ...state.view.presenterSize } : null,
+      hiddenItemIds: [...state.view.hiddenItemIds]
+    },
+    teleprompterScript: state.teleprompterScript,
+    // Workspaces saved before annotations were stored here have none
+    sceneAnnotations: Object.fromEntries(
+      Object.entries(state.sceneAnnotations ?? {}).map(([sceneId, annotations]) => [sceneId, normalizeAnnotations(annotations)])
+    )
+  };
+}
+
+/**
+ * Replace object URLs with asset keys and collect the blobs behind them.
+ * Media that can no longer be read is left out.
+ */
+export async function dehydrateWorkspace(
+  state: WorkspaceState,
+  readBlob: BlobReader,
+  now: number = Date.now()
+): Promise<StoredWorkspace> {
+  const urls = [
+    state.presenter.virtualBackground,
+    ...state.boardItems.flatMap(item => [item.src, ...(item.pages ?? [])])
+  ].filter(isObjectUrl);
+  const keys = new Map<string, string>();
+  const assets: StoredWorkspaceAsset[] = [];
+
+  for (const url of new Set(urls)) {
+    try {
+      const key = `${WORKSPACE_CONSTANTS.ASSET_KEY_PREFIX}${assets.length + 1}`;
+      assets.push({ key, blob: await readBlob(url) });
+      keys.set(url, key);
+    } catch (error) {
+      console.warn('⚠️ Workspace media could not be saved:', error);
+    }
+  }
+
+  return {
+    id: WORKSPACE_CONSTANTS.RECORD_ID,
+    savedAt: now,
+    state: mapUrls(state, url => keys.get(url) ?? (isObjectUrl(url) ? null : url)),
+    assets
+  };
+}
+
+/**
+ * Turn a stored workspace back into on-screen state with fresh object URLs
+ */
+export function hydrateWorkspace(
+  stored: StoredWorkspace,
+  createUrl: (blob: Blob) => string = blob => URL.createObjectURL(blob)
+): WorkspaceState {
+  const urls = new Map(stored.assets.map(asset => [asset.key, createUrl(asset.blob)]));
+  return mapUrls(stored.state, url => urls.get(url) ?? (isAssetKey(url) ? null : url));
+}
@@ -0,0 +1,24 @@
+/**
+ * Type definitions for the ffmpeg.js Emscripten builds (the package ships none)
+ */
+
+declare module 'ffmpeg.js/ffmpeg-mp4.js' {
+  export interface FfmpegFile {
+    name: string
+    data: ArrayBuffer | ArrayBufferView
+  }
+
+  export interface FfmpegOptions {
+    arguments: string[]
+    MEMFS?: FfmpegFile[]
+    print?: (line: string) => void
+    printErr?: (line: string) => void
+    onExit?: (code: number) => void
+  }
+
+  export interface FfmpegResult {
+    MEMFS: { name: string; data: Uint8Array }[]
+  }
+
+  export default function ffmpeg(options: FfmpegOptions): FfmpegResult
+}